@@ -35,6 +35,10 @@ export class MockBitcoinAdapter extends BaseAdapter {
     return `bc1p${hash.toString(16).padStart(58, '0')}`;
   }
 
+  protected async publicKeyFromPrivateKey(privateKey: Uint8Array): Promise<string> {
+    return Buffer.from(privateKey).toString('hex');
+  }
+
   protected async getBalanceForAddress(address: string): Promise<Big> {
     // Check for test error simulation flag
     if ((globalThis as any).TEST_SIMULATE_NETWORK_ERROR) {
@@ -100,6 +104,10 @@ export class MockEthereumAdapter extends BaseAdapter {
     return `0x${hash.toString(16).padStart(40, '0')}`;
   }
 
+  protected async publicKeyFromPrivateKey(privateKey: Uint8Array): Promise<string> {
+    return Buffer.from(privateKey).toString('hex');
+  }
+
   protected async getBalanceForAddress(address: string): Promise<Big> {
     // Check for test error simulation flag
     if ((globalThis as any).TEST_SIMULATE_NETWORK_ERROR) {
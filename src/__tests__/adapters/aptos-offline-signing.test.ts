@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AccountAddress,
+  ChainId,
+  EntryFunction,
+  RawTransaction,
+  SimpleTransaction,
+  TransactionPayloadEntryFunction,
+  U64
+} from '@aptos-labs/ts-sdk';
+import { AptosAdapterV2 } from '../../adapters/aptos/AptosAdapterV2.js';
+import { ErrorCode } from '../../core/errors/index.js';
+import { DeriveParams, UnsignedTransaction } from '../../types/index.js';
+
+const masterSeed = new Uint8Array(32).fill(29);
+const params: DeriveParams = {
+  scope: 'wallet',
+  userId: '123e4567-e89b-12d3-a456-426614174000',
+  chain: 'aptos',
+  index: '0'
+};
+const to = '0x' + 'ab'.repeat(32);
+
+describe('Aptos offline signing', () => {
+  it('should only sign the APT transfer of the summary', async () => {
+    const signer = new AptosAdapterV2(masterSeed, { mode: 'derive-only' });
+    const from = await signer.deriveAddress(params);
+    const payload = (module: `${string}::${string}`, fn: string, amount: bigint) => new SimpleTransaction(new RawTransaction(
+      AccountAddress.fromString(from),
+      0n,
+      new TransactionPayloadEntryFunction(EntryFunction.build(module, fn, [], [AccountAddress.fromString(to), new U64(amount)])),
+      2000n,
+      100n,
+      BigInt(Math.floor(Date.now() / 1000) + 600),
+      new ChainId(1)
+    )).bcsToHex().toString();
+    const unsigned: UnsignedTransaction = {
+      chain: 'aptos',
+      from,
+      to,
+      amount: '1000',
+      payload: payload('0x1::aptos_account', 'transfer', 1000n)
+    };
+
+    const signed = await signer.signUnsigned(params, unsigned);
+    expect(signed.txHash).toMatch(/^0x[0-9a-f]{64}$/);
+
+    // Another amount, or another entry function with the same arguments
+    for (const tampered of [payload('0x1::aptos_account', 'transfer', 5000n), payload('0x1::staking_contract', 'add_stake', 1000n)]) {
+      await expect(signer.signUnsigned(params, { ...unsigned, payload: tampered })).rejects.toMatchObject({
+        code: ErrorCode.INVALID_PARAMS
+      });
+    }
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import Big from 'big.js';
+import {
+  AccountAddress,
+  ChainId,
+  EntryFunction,
+  RawTransaction,
+  SimpleTransaction,
+  TransactionPayloadEntryFunction,
+  U64
+} from '@aptos-labs/ts-sdk';
+import { AptosAdapterV2 } from '../../adapters/aptos/AptosAdapterV2.js';
+import { DeriveParams } from '../../types/index.js';
+
+const masterSeed = new Uint8Array(32).fill(31);
+const params: DeriveParams = {
+  scope: 'wallet',
+  userId: '123e4567-e89b-12d3-a456-426614174000',
+  chain: 'aptos',
+  index: '0'
+};
+const to = '0x' + 'cd'.repeat(32);
+
+describe('AptosAdapterV2', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should resubmit the same signed transaction on failover', async () => {
+    const adapter = new AptosAdapterV2(masterSeed, { maxRetries: 0 });
+    (adapter.config.endpoints as any).http = [{ url: 'http://primary' }, { url: 'http://backup' }];
+    const from = await adapter.deriveAddress(params);
+    vi.spyOn(adapter as any, 'readBalance').mockResolvedValue(new Big('1e12'));
+
+    const build = vi.fn(async () => new SimpleTransaction(new RawTransaction(
+      AccountAddress.fromString(from),
+      4n,
+      new TransactionPayloadEntryFunction(EntryFunction.build('0x1::aptos_account', 'transfer', [], [AccountAddress.fromString(to), new U64(1000n)])),
+      2000n,
+      100n,
+      BigInt(Math.floor(Date.now() / 1000) + 600),
+      new ChainId(1)
+    )));
+    const submit = vi.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+      .mockImplementation(async () => ({ hash: 'ignored' }));
+    vi.spyOn(adapter as any, 'sdkFor').mockReturnValue({ transaction: { build: { simple: build }, submit: { simple: submit } } });
+
+    const result = await adapter.send(params, to, new Big(1000));
+
+    expect(build).toHaveBeenCalledTimes(1);
+    expect(submit).toHaveBeenCalledTimes(2);
+    expect(submit.mock.calls[1][0].transaction).toBe(submit.mock.calls[0][0].transaction);
+    expect(submit.mock.calls[1][0].senderAuthenticator).toBe(submit.mock.calls[0][0].senderAuthenticator);
+    expect(result).toEqual({ txHash: expect.stringMatching(/^0x[0-9a-f]{64}$/), status: 'pending' });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import axios from 'axios';
+import Big from 'big.js';
+import { Transaction, address as btcAddress, networks } from 'bitcoinjs-lib';
+import { BitcoinAdapterV2 } from '../../adapters/bitcoin/BitcoinAdapterV2.js';
+import { EvmAdapterV2 } from '../../adapters/evm/EvmAdapterV2.js';
+import { ConfigManager } from '../../core/config/ConfigManager.js';
+import { ErrorCode } from '../../core/errors/index.js';
+import { DeriveParams } from '../../types/index.js';
+
+const masterSeed = new Uint8Array(32).fill(19);
+const params = (chain: DeriveParams['chain'], index = '0'): DeriveParams => ({
+  scope: 'wallet',
+  userId: '123e4567-e89b-12d3-a456-426614174000',
+  chain,
+  index
+});
+
+describe('Batched payouts', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should pay every Bitcoin output from one transaction', async () => {
+    const adapter = new BitcoinAdapterV2(
+      masterSeed,
+      { scriptType: 'p2wpkh' },
+      undefined,
+      undefined,
+      ConfigManager.getInstance().bitcoinNetworkConfig('regtest', 'http://127.0.0.1:3002')
+    );
+    const outputs = await Promise.all(['1', '2', '3'].map(async (index, i) => ({
+      to: await adapter.deriveAddress(params('bitcoin', index)),
+      amount: new Big(10000 * (i + 1))
+    })));
+
+    vi.spyOn(axios, 'get').mockImplementation(async (url: string) => url.endsWith('/utxo')
+      ? { data: [{ txid: 'ee'.repeat(32), vout: 0, value: 200000, status: { confirmed: true } }] }
+      : { data: { chain_stats: { funded_txo_sum: 200000, spent_txo_sum: 0 } } });
+    const post = vi.spyOn(axios, 'post').mockImplementation(async (_url: string, hex: unknown) => ({
+      data: Transaction.fromHex(hex as string).getId()
+    }));
+
+    const result = await adapter.sendMany(params('bitcoin'), outputs, { feeRate: new Big(5) });
+    const tx = Transaction.fromHex(post.mock.calls[0][1] as string);
+
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(tx.getId()).toBe(result.txHash);
+    expect(tx.ins).toHaveLength(1);
+    expect(tx.outs).toHaveLength(4);
+    outputs.forEach((output, i) => {
+      expect(btcAddress.fromOutputScript(tx.outs[i].script, networks.regtest)).toBe(output.to);
+      expect(tx.outs[i].value).toBe(BigInt(output.amount.toString()));
+    });
+
+    const totalOut = tx.outs.reduce((sum, out) => sum + out.value, 0n);
+    expect(result.fee!.toString()).toBe((200000n - totalOut).toString());
+    expect(result.fee!.div(tx.virtualSize()).gte(5)).toBe(true);
+  });
+
+  it('should report which output is invalid', async () => {
+    const chainConfig = ConfigManager.getInstance().getChainConfig('ethereum');
+    const adapter = new EvmAdapterV2('ethereum', chainConfig, masterSeed);
+    const outputs = [
+      { to: '0x0000000000000000000000000000000000000001', amount: new Big(1000) },
+      { to: 'not-an-address', amount: new Big(1000) }
+    ];
+
+    await expect(adapter.sendMany(params('ethereum'), outputs)).rejects.toMatchObject({
+      code: ErrorCode.INVALID_PARAMS,
+      message: expect.stringContaining('Invalid output 1')
+    });
+    await expect(adapter.sendMany(params('ethereum'), [])).rejects.toMatchObject({
+      code: ErrorCode.INVALID_PARAMS
+    });
+    // Native amounts are in wei, token amounts in whole tokens
+    await expect(adapter.sendMany(params('ethereum'), [
+      { to: '0x0000000000000000000000000000000000000001', amount: new Big('1000.5') }
+    ])).rejects.toMatchObject({ code: ErrorCode.INVALID_PARAMS, message: expect.stringContaining('Invalid output 0') });
+    await expect(adapter.sendMany(params('ethereum'), [
+      { to: '0x0000000000000000000000000000000000000001', amount: new Big('0.0000001') }
+    ], { token: { contract: '0x0000000000000000000000000000000000000002', decimals: 6 } })).rejects.toMatchObject({
+      code: ErrorCode.INVALID_PARAMS
+    });
+  });
+
+  it('should refuse a batch contract address without code before approving it', async () => {
+    const chainConfig = ConfigManager.getInstance().getChainConfig('ethereum');
+    const adapter = new EvmAdapterV2('ethereum', chainConfig, masterSeed, { maxRetries: 0 });
+    vi.spyOn(adapter as any, 'getBatchBalance').mockResolvedValue(new Big('1e30'));
+    const getCode = vi.spyOn((adapter as any).provider, 'getCode').mockResolvedValue('0x');
+    const call = vi.spyOn((adapter as any).provider, 'call');
+    const sendTransaction = vi.spyOn((adapter as any).provider, 'sendTransaction');
+
+    await expect(adapter.sendMany(params('ethereum'), [
+      { to: '0x0000000000000000000000000000000000000001', amount: new Big(5) }
+    ], { token: { contract: '0x0000000000000000000000000000000000000002', decimals: 6 } })).rejects.toMatchObject({
+      code: ErrorCode.INVALID_CONFIG,
+      message: expect.stringContaining('0xD152f549545093347A162Dce210e7293f1452150')
+    });
+    expect(getCode).toHaveBeenCalledWith('0xD152f549545093347A162Dce210e7293f1452150');
+    expect(call).not.toHaveBeenCalled();
+    expect(sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('should check the batch total against the balance before sending', async () => {
+    const adapter = new BitcoinAdapterV2(
+      masterSeed,
+      { scriptType: 'p2wpkh', maxRetries: 0 },
+      undefined,
+      undefined,
+      ConfigManager.getInstance().bitcoinNetworkConfig('regtest', 'http://127.0.0.1:3002')
+    );
+    const to = await adapter.deriveAddress(params('bitcoin', '1'));
+    vi.spyOn(axios, 'get').mockResolvedValue({ data: { chain_stats: { funded_txo_sum: 50000, spent_txo_sum: 0 } } });
+    const post = vi.spyOn(axios, 'post');
+
+    await expect(adapter.sendMany(params('bitcoin'), [
+      { to, amount: new Big(30000) },
+      { to, amount: new Big(30000) }
+    ])).rejects.toMatchObject({ code: ErrorCode.INSUFFICIENT_BALANCE });
+    expect(post).not.toHaveBeenCalled();
+  });
+});
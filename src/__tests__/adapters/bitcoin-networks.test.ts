@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import Big from 'big.js';
+import { Psbt, Transaction, address as btcAddress, networks } from 'bitcoinjs-lib';
+import { BitcoinAdapterV2 } from '../../adapters/bitcoin/BitcoinAdapterV2.js';
+import { ConfigManager } from '../../core/config/ConfigManager.js';
+import { ErrorCode } from '../../core/errors/index.js';
+import { BitcoinScriptType, DeriveParams, NetworkType } from '../../types/index.js';
+
+const masterSeed = new Uint8Array(32).fill(13);
+const params: DeriveParams = {
+  scope: 'wallet',
+  userId: '123e4567-e89b-12d3-a456-426614174000',
+  chain: 'bitcoin',
+  index: '0'
+};
+const configManager = ConfigManager.getInstance();
+
+const adapterFor = (network: NetworkType, scriptType: BitcoinScriptType = 'p2wpkh') =>
+  new BitcoinAdapterV2(
+    masterSeed,
+    { mode: 'derive-only', scriptType },
+    undefined,
+    undefined,
+    configManager.bitcoinNetworkConfig(network, network === 'regtest' ? 'http://127.0.0.1:3002' : undefined)
+  );
+
+describe('BitcoinAdapterV2 networks', () => {
+  it('should derive addresses with the network prefixes', async () => {
+    const prefixes: Record<NetworkType, [RegExp, RegExp]> = {
+      mainnet: [/^bc1q/, /^1/],
+      testnet: [/^tb1q/, /^[mn]/],
+      signet: [/^tb1q/, /^[mn]/],
+      regtest: [/^bcrt1q/, /^[mn]/]
+    };
+
+    for (const [network, [segwit, legacy]] of Object.entries(prefixes) as [NetworkType, [RegExp, RegExp]][]) {
+      expect(await adapterFor(network).deriveAddress(params)).toMatch(segwit);
+      expect(await adapterFor(network, 'p2pkh').deriveAddress(params)).toMatch(legacy);
+    }
+    expect(await adapterFor('regtest', 'p2tr').deriveAddress(params)).toMatch(/^bcrt1p/);
+  });
+
+  it('should default to the network configured in ConfigManager', async () => {
+    const adapter = new BitcoinAdapterV2(masterSeed, { mode: 'derive-only' });
+
+    expect(adapter.config.network).toBe('mainnet');
+    expect(await adapter.deriveAddress(params)).toMatch(/^bc1p/);
+  });
+
+  it('should reject addresses from another network', async () => {
+    // Addresses are validated before any request reaches the Esplora API
+    const adapter = new BitcoinAdapterV2(
+      masterSeed,
+      {},
+      undefined,
+      undefined,
+      configManager.bitcoinNetworkConfig('regtest', 'http://127.0.0.1:3002')
+    );
+
+    await expect(
+      adapter.exportPsbt(params, 'bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh', new Big(1000))
+    ).rejects.toThrow(/Invalid Bitcoin regtest address/);
+  });
+
+  it('should sign and finalize regtest PSBTs', async () => {
+    const adapter = adapterFor('regtest');
+    const from = await adapter.deriveAddress(params);
+
+    const psbt = new Psbt({ network: networks.regtest });
+    psbt.addInput({
+      hash: '33'.repeat(32),
+      index: 0,
+      witnessUtxo: { script: btcAddress.toOutputScript(from, networks.regtest), value: 100000n }
+    });
+    psbt.addOutput({ address: from, value: 90000n });
+
+    const { psbt: signed } = await adapter.signPsbt(params, psbt.toBase64());
+    const { txHash, txHex } = adapter.finalizePsbt(signed);
+    expect(Transaction.fromHex(txHex).getId()).toBe(txHash);
+  });
+
+  it('should require an Esplora URL for regtest', () => {
+    expect(() => configManager.bitcoinNetworkConfig('regtest')).toThrow(
+      expect.objectContaining({ code: ErrorCode.MISSING_CONFIG })
+    );
+  });
+});
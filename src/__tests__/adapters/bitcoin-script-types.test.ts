@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { Psbt, Transaction, address as btcAddress, networks } from 'bitcoinjs-lib';
+import { BitcoinAdapterV2 } from '../../adapters/bitcoin/BitcoinAdapterV2.js';
+import { BitcoinScriptType, DeriveParams } from '../../types/index.js';
+
+const masterSeed = new Uint8Array(32).fill(11);
+const params: DeriveParams = {
+  scope: 'wallet',
+  userId: '123e4567-e89b-12d3-a456-426614174000',
+  chain: 'bitcoin',
+  index: '0'
+};
+const recipient = 'bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh';
+
+// Single-input, single-output vsize as estimated by the adapter
+const estimatedVsize: Record<BitcoinScriptType, number> = {
+  'p2pkh': 10 + 148 + 31,
+  'p2sh-p2wpkh': 11 + 91 + 31,
+  'p2wpkh': 11 + 68 + 31,
+  'p2tr': 11 + 58 + 31
+};
+
+describe('BitcoinAdapterV2 script types', () => {
+  it('should derive an address of the configured type', async () => {
+    const prefixes: Record<BitcoinScriptType, RegExp> = {
+      'p2pkh': /^1/,
+      'p2sh-p2wpkh': /^3/,
+      'p2wpkh': /^bc1q/,
+      'p2tr': /^bc1p/
+    };
+
+    for (const scriptType of Object.keys(prefixes) as BitcoinScriptType[]) {
+      const adapter = new BitcoinAdapterV2(masterSeed, { mode: 'derive-only', scriptType });
+      const address = await adapter.deriveAddress(params);
+
+      expect(address).toMatch(prefixes[scriptType]);
+      expect(await new BitcoinAdapterV2(masterSeed).deriveAddressForScriptType(params, scriptType)).toBe(address);
+    }
+  });
+
+  it('should sign every script type and stay within the vsize estimate', async () => {
+    const adapter = new BitcoinAdapterV2(masterSeed, { mode: 'derive-only' });
+
+    for (const scriptType of Object.keys(estimatedVsize) as BitcoinScriptType[]) {
+      const script = btcAddress.toOutputScript(
+        await adapter.deriveAddressForScriptType(params, scriptType),
+        networks.bitcoin
+      );
+
+      const psbt = new Psbt({ network: networks.bitcoin });
+      if (scriptType === 'p2pkh') {
+        const prev = new Transaction();
+        prev.addInput(Buffer.alloc(32, 1), 0);
+        prev.addOutput(script, 100000n);
+        psbt.addInput({ hash: prev.getId(), index: 0, nonWitnessUtxo: prev.toBuffer() });
+      } else {
+        psbt.addInput({ hash: '22'.repeat(32), index: 0, witnessUtxo: { script, value: 100000n } });
+      }
+      psbt.addOutput({ address: recipient, value: 90000n });
+
+      const { signedInputs, psbt: signed } = await adapter.signPsbt(params, psbt.toBase64());
+      expect(signedInputs).toEqual([0]);
+
+      const vsize = Transaction.fromHex(adapter.finalizePsbt(signed).txHex).virtualSize();
+      expect(vsize).toBeLessThanOrEqual(estimatedVsize[scriptType]);
+      expect(estimatedVsize[scriptType] - vsize).toBeLessThanOrEqual(2);
+    }
+  });
+
+  it('should reject unsupported script types', () => {
+    expect(() => new BitcoinAdapterV2(masterSeed, { scriptType: 'p2wsh' as BitcoinScriptType })).toThrow(
+      /Unsupported Bitcoin script type/
+    );
+  });
+});
@@ -1,6 +1,11 @@
 import { describe, it, expect, beforeAll, vi } from 'vitest';
+import axios from 'axios';
 import Big from 'big.js';
+import { Transaction } from 'bitcoinjs-lib';
 import { AdapterTestFramework } from './AdapterTestFramework.js';
+import { BitcoinAdapterV2 } from '../../adapters/bitcoin/BitcoinAdapterV2.js';
+import { ConfigManager } from '../../core/config/ConfigManager.js';
+import { ErrorFactory } from '../../core/errors/index.js';
 import { SupportedChain } from '../../types/index.js';
 
 const framework = new AdapterTestFramework();
@@ -162,4 +167,39 @@ describe('Bitcoin-specific functionality', () => {
       new Big('200000000') // 2 BTC > 1 BTC balance
     )).rejects.toThrow(/insufficient/i);
   });
-});
\ No newline at end of file
+
+  it('should resend the same signed transaction when the broadcast is retried', async () => {
+    const adapter = new BitcoinAdapterV2(
+      new Uint8Array(32).fill(5),
+      { scriptType: 'p2wpkh' },
+      undefined,
+      undefined,
+      ConfigManager.getInstance().bitcoinNetworkConfig('regtest', 'http://127.0.0.1:3002')
+    );
+    const utxos = vi.spyOn(axios, 'get').mockImplementation(async (url: string) => url.endsWith('/utxo')
+      ? { data: [{ txid: 'ee'.repeat(32), vout: 0, value: 200000, status: { confirmed: true } }] }
+      : { data: { chain_stats: { funded_txo_sum: 200000, spent_txo_sum: 0 } } });
+    // The endpoint is rate limited on the first broadcast
+    const post = vi.spyOn(axios, 'post')
+      .mockRejectedValueOnce(ErrorFactory.rateLimited('Too many requests'))
+      .mockImplementation(async (_url: string, hex: unknown) => ({ data: Transaction.fromHex(hex as string).getId() }));
+
+    const result = await adapter.send({
+      scope: 'wallet',
+      userId: '123e4567-e89b-12d3-a456-426614174000',
+      chain: 'bitcoin',
+      index: '0'
+    }, await adapter.deriveAddress({
+      scope: 'wallet',
+      userId: '123e4567-e89b-12d3-a456-426614174000',
+      chain: 'bitcoin',
+      index: '1'
+    }), new Big(50000), { feeRate: new Big(5) });
+
+    expect(utxos.mock.calls.filter(([url]) => String(url).endsWith('/utxo'))).toHaveLength(1);
+    expect(post).toHaveBeenCalledTimes(2);
+    expect(post.mock.calls[1][1]).toBe(post.mock.calls[0][1]);
+    expect(result.txHash).toBe(Transaction.fromHex(post.mock.calls[0][1] as string).getId());
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BranchAndBoundSelector,
+  KnapsackSelector,
+  SingleRandomDrawSelector,
+  createCoinSelector,
+  finalizeSelection
+} from '../../adapters/bitcoin/coinSelection.js';
+import { CoinSelectionParams, SelectableUtxo } from '../../types/index.js';
+
+// Deterministic stand-in for Math.random
+const seededRandom = (seed = 42) => () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+};
+
+const utxo = (value: number, vout = 0): SelectableUtxo => ({ txid: value.toString(16).padStart(64, '0'), vout, value });
+
+// P2WPKH sizes at 1 sat/vB: each input costs 68 sats, so values below read as effective value + 68
+const params = (utxos: SelectableUtxo[], target: number, feeRate = 1, longTermFeeRate = 1): CoinSelectionParams => ({
+  utxos,
+  target,
+  feeRate,
+  longTermFeeRate,
+  vsizes: { input: 68, changeOutput: 31, base: 42 },
+  dustThreshold: 297
+});
+
+describe('Coin selection', () => {
+  const pool = [utxo(100068), utxo(50068), utxo(30068), utxo(20068)];
+
+  it('should find a changeless match with branch-and-bound', () => {
+    // 50000 + 30000 effective covers the target plus the 42 vbyte base exactly
+    const result = new BranchAndBoundSelector().select(params(pool, 80000 - 42));
+
+    expect(result).toBeDefined();
+    expect(result!.selected.map(u => u.value).sort()).toEqual([30068, 50068]);
+    expect(result!.change).toBe(0);
+    expect(result!.waste).toBe(0);
+    expect(result!.totalInput).toBe(80000 - 42 + result!.fee);
+  });
+
+  it('should give up on branch-and-bound when every match would need change', () => {
+    expect(new BranchAndBoundSelector().select(params([utxo(1000000)], 10000))).toBeUndefined();
+  });
+
+  it('should fund change with knapsack and single-random-draw', () => {
+    for (const selector of [new KnapsackSelector(seededRandom()), new SingleRandomDrawSelector(seededRandom())]) {
+      const result = selector.select(params(pool, 60000))!;
+
+      expect(result.change).toBeGreaterThan(297);
+      expect(result.totalInput).toBe(60000 + result.fee + result.change);
+      expect(result.fee).toBe(42 + 31 + 68 * result.selected.length);
+    }
+  });
+
+  it('should keep the lowest-waste result in auto mode', () => {
+    const auto = createCoinSelector('auto', seededRandom());
+
+    // An exact match beats anything that pays for a change output
+    expect(auto.select(params(pool, 80000 - 42))!.change).toBe(0);
+  });
+
+  it('should prefer fewer inputs at high feerates and consolidate at low ones', () => {
+    const large = [utxo(400000)];
+    const small = Array.from({ length: 8 }, (_, i) => utxo(20000, i));
+    const waste = (inputs: SelectableUtxo[], feeRate: number) =>
+      finalizeSelection(inputs, params([], 100000, feeRate, 10))!.waste;
+
+    expect(waste(large, 50)).toBeLessThan(waste(small, 50));
+    expect(waste(small, 2)).toBeLessThan(waste(large, 2));
+  });
+
+  it('should add dust change to the fee instead of creating an output', () => {
+    const result = finalizeSelection([utxo(10300)], params([], 10000))!;
+
+    expect(result.change).toBe(0);
+    expect(result.fee).toBe(300);
+    expect(result.waste).toBe(300 - 42 - 68);
+  });
+
+  it('should return undefined when the UTXOs cannot cover the target', () => {
+    for (const strategy of ['auto', 'largest-first', 'knapsack'] as const) {
+      expect(createCoinSelector(strategy, seededRandom()).select(params(pool, 1000000))).toBeUndefined();
+    }
+  });
+});
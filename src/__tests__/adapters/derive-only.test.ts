@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import Big from 'big.js';
+import { BitcoinAdapterV2 } from '../../adapters/bitcoin/BitcoinAdapterV2.js';
+import { EvmAdapterV2 } from '../../adapters/evm/EvmAdapterV2.js';
+import { TonAdapter } from '../../adapters/ton/TonAdapter.js';
+import { SolanaAdapter } from '../../adapters/solana/SolanaAdapter.js';
+import { ConfigManager } from '../../core/config/ConfigManager.js';
+import { DrxaError, ErrorCode } from '../../core/errors/index.js';
+import { DeriveParams } from '../../types/index.js';
+
+const masterSeed = new Uint8Array(32).fill(7);
+const params = (chain: DeriveParams['chain']): DeriveParams => ({
+  scope: 'wallet',
+  userId: '123e4567-e89b-12d3-a456-426614174000',
+  chain,
+  index: '0'
+});
+
+describe('Derive-only mode', () => {
+  it('should derive Bitcoin addresses and reject network methods', async () => {
+    const adapter = new BitcoinAdapterV2(masterSeed, { mode: 'derive-only' });
+
+    const address = await adapter.deriveAddress(params('bitcoin'));
+    expect(address).toMatch(/^bc1p[a-z0-9]{58}$/);
+
+    await expect(adapter.balance(params('bitcoin'))).rejects.toMatchObject({
+      code: ErrorCode.NETWORK_DISABLED
+    });
+    await expect(
+      adapter.send(params('bitcoin'), 'bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh', new Big(1000))
+    ).rejects.toBeInstanceOf(DrxaError);
+  });
+
+  it('should derive the same EVM address as full mode without creating providers', async () => {
+    const chainConfig = ConfigManager.getInstance().getChainConfig('ethereum');
+    const offline = new EvmAdapterV2('ethereum', chainConfig, masterSeed, { mode: 'derive-only' });
+    const online = new EvmAdapterV2('ethereum', chainConfig, masterSeed);
+
+    await offline.initialize();
+    expect(await offline.deriveAddress(params('ethereum'))).toBe(await online.deriveAddress(params('ethereum')));
+
+    await expect(offline.getHistory(params('ethereum'), 10)).rejects.toMatchObject({
+      code: ErrorCode.NETWORK_DISABLED
+    });
+    await expect(offline.subscribe('0x0000000000000000000000000000000000000001', () => {})).rejects.toMatchObject({
+      code: ErrorCode.NETWORK_DISABLED
+    });
+
+    await offline.shutdown();
+    await online.shutdown();
+  });
+
+  it('should keep TON and Solana derivation offline', async () => {
+    const ton = new TonAdapter(masterSeed, { mode: 'derive-only' });
+    const solana = new SolanaAdapter(masterSeed, { mode: 'derive-only' });
+
+    expect(await ton.deriveAddress(params('ton'))).toBeTruthy();
+    expect(await solana.deriveAddress(params('solana'))).toMatch(/^[1-9A-HJ-NP-Za-km-z]{32,44}$/);
+
+    await expect(ton.balance(params('ton'))).rejects.toMatchObject({ code: ErrorCode.NETWORK_DISABLED });
+    await expect(solana.balance(params('solana'))).rejects.toMatchObject({ code: ErrorCode.NETWORK_DISABLED });
+  });
+});
@@ -529,4 +529,77 @@ describe('Ethereum-specific functionality', () => {
       }
     }
   });
-});
\ No newline at end of file
+
+  it('should resend the same signed transaction when the broadcast is retried', async () => {
+    const { ethers } = await import('ethers');
+    const { EvmAdapterV2 } = await import('../../adapters/evm/EvmAdapterV2.js');
+    const { ConfigManager } = await import('../../core/config/ConfigManager.js');
+    const { ErrorFactory } = await import('../../core/errors/index.js');
+    const adapter = new EvmAdapterV2('ethereum', ConfigManager.getInstance().getChainConfig('ethereum'), new Uint8Array(32).fill(7));
+    vi.spyOn(adapter as any, 'readBalance').mockResolvedValue(new Big('1e18'));
+    vi.spyOn(adapter as any, 'getOptimalGasPrice').mockResolvedValue(new Big('1000000000'));
+    vi.spyOn((adapter as any).provider, 'getFeeData').mockResolvedValue({
+      maxFeePerGas: ethers.BigNumber.from('2000000000'),
+      maxPriorityFeePerGas: ethers.BigNumber.from('1000000000')
+    });
+    const prepare = vi.spyOn(adapter as any, 'prepareTransactionRequest');
+    // Every endpoint is rate limited on the first broadcast
+    const raw: string[] = [];
+    vi.spyOn((adapter as any).provider, 'send').mockImplementation(async (method: any, params: any) => {
+      if (method !== 'eth_sendRawTransaction') {
+        return { eth_chainId: '0x1', eth_estimateGas: '0x5208', eth_getTransactionCount: '0x3' }[method as string] ?? '0x10';
+      }
+      raw.push(params[0]);
+      if (raw.length === 1) {
+        throw ErrorFactory.rateLimited('Too many requests');
+      }
+      return ethers.utils.keccak256(params[0]);
+    });
+
+    const result = await adapter.send({
+      scope: 'wallet',
+      userId: '123e4567-e89b-12d3-a456-426614174000',
+      chain: 'ethereum',
+      index: '0'
+    }, '0x742d35cc6635c0532925a3b8d7389c8f0e7c1fd9', new Big(1000));
+
+    expect(prepare).toHaveBeenCalledTimes(1);
+    expect(raw).toHaveLength(2);
+    expect(raw[1]).toBe(raw[0]);
+    expect(result.txHash).toBe(ethers.utils.keccak256(raw[0]));
+    vi.restoreAllMocks();
+  });
+
+  it('should report watched token deposits in whole tokens', async () => {
+    const { ethers } = await import('ethers');
+    const { EvmAdapterV2 } = await import('../../adapters/evm/EvmAdapterV2.js');
+    const { ConfigManager } = await import('../../core/config/ConfigManager.js');
+    const adapter = new EvmAdapterV2('ethereum', ConfigManager.getInstance().getChainConfig('ethereum'), new Uint8Array(32).fill(7));
+    const provider = (adapter as any).provider;
+    const to = '0x742d35cc6635c0532925a3b8d7389c8f0e7c1fd9';
+    const usdc = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+    const plain = '0x' + '12'.repeat(20);
+    const log = (address: string, value: string) => ({
+      address,
+      transactionHash: '0x' + '34'.repeat(32),
+      topics: [ethers.utils.id('Transfer(address,address,uint256)'), ethers.utils.hexZeroPad(plain, 32), ethers.utils.hexZeroPad(to, 32)],
+      data: ethers.utils.hexZeroPad(ethers.BigNumber.from(value).toHexString(), 32)
+    });
+    vi.spyOn(provider, 'getBlockWithTransactions').mockResolvedValue({ hash: '0xblock', timestamp: 1700000000, transactions: [] });
+    vi.spyOn(provider, 'getLogs').mockResolvedValue([log(usdc, '2500000'), log(usdc, '1000000'), log(plain, '7')]);
+    // USDC has 6 decimals; the other contract has no decimals()
+    const call = vi.spyOn(provider, 'call').mockImplementation(async (tx: any) => tx.to.toLowerCase() === usdc
+      ? ethers.utils.defaultAbiCoder.encode(['uint8'], [6])
+      : '0x');
+
+    const { transactions } = await (adapter as any).scanBlock(100, new Set([to]));
+
+    expect(transactions.map((tx: any) => [tx.tokenContract, tx.amount.toString()])).toEqual([
+      [usdc, '2.5'],
+      [usdc, '1'],
+      [plain, '7']
+    ]);
+    expect(call).toHaveBeenCalledTimes(2);
+    vi.restoreAllMocks();
+  });
+});
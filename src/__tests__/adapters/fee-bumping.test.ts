@@ -0,0 +1,123 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import axios from 'axios';
+import Big from 'big.js';
+import { Transaction, address as btcAddress, networks } from 'bitcoinjs-lib';
+import { BitcoinAdapterV2 } from '../../adapters/bitcoin/BitcoinAdapterV2.js';
+import { ConfigManager } from '../../core/config/ConfigManager.js';
+import { ErrorCode } from '../../core/errors/index.js';
+import { DeriveParams } from '../../types/index.js';
+
+const masterSeed = new Uint8Array(32).fill(17);
+const params: DeriveParams = {
+  scope: 'wallet',
+  userId: '123e4567-e89b-12d3-a456-426614174000',
+  chain: 'bitcoin',
+  index: '0'
+};
+const apiUrl = 'http://127.0.0.1:3002';
+const recipientScript = '0014' + '11'.repeat(20); // P2WPKH
+
+const adapter = new BitcoinAdapterV2(
+  masterSeed,
+  { scriptType: 'p2wpkh' },
+  undefined,
+  undefined,
+  ConfigManager.getInstance().bitcoinNetworkConfig('regtest', apiUrl)
+);
+
+const ownOutputScript = async () =>
+  Buffer.from(btcAddress.toOutputScript(await adapter.deriveAddress(params), networks.regtest)).toString('hex');
+
+// Esplora `/tx/:txid` response for an unconfirmed transaction
+const esploraTx = (
+  txid: string,
+  inputScript: string,
+  vout: { scriptpubkey: string; value: number }[],
+  sequence = 0xfffffffd
+) => ({
+  txid,
+  locktime: 0,
+  weight: 564,
+  fee: 1000,
+  status: { confirmed: false },
+  vin: [{ txid: 'aa'.repeat(32), vout: 0, sequence, prevout: { scriptpubkey: inputScript, value: 100000 } }],
+  vout
+});
+
+// Serves the given transactions and records broadcasts
+function mockEsplora(transactions: Record<string, unknown>): Transaction[] {
+  const broadcasts: Transaction[] = [];
+  vi.spyOn(axios, 'get').mockImplementation(async (url: string) => {
+    if (url.endsWith('/utxo')) {
+      return { data: [] };
+    }
+    return { data: transactions[url.substring(`${apiUrl}/tx/`.length)] };
+  });
+  vi.spyOn(axios, 'post').mockImplementation(async (_url: string, hex: unknown) => {
+    const tx = Transaction.fromHex(hex as string);
+    broadcasts.push(tx);
+    return { data: tx.getId() };
+  });
+  return broadcasts;
+}
+
+describe('Bitcoin fee bumping', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should replace a transaction with a higher fee paid from change', async () => {
+    const ownScript = await ownOutputScript();
+    const txid = 'bb'.repeat(32);
+    const broadcasts = mockEsplora({
+      [txid]: esploraTx(txid, ownScript, [
+        { scriptpubkey: recipientScript, value: 50000 },
+        { scriptpubkey: ownScript, value: 49000 }
+      ])
+    });
+
+    const result = await adapter.bumpFee(params, txid, new Big(20));
+    const [replacement] = broadcasts;
+
+    expect(result.replaces).toEqual([txid]);
+    expect(result.txHash).toBe(replacement.getId());
+    expect(replacement.ins[0].sequence).toBe(0xfffffffd);
+    expect(replacement.outs[0].value).toBe(50000n);
+    expect(replacement.outs[1].value).toBe(BigInt(50000 - result.fee!.toNumber()));
+    expect(result.fee!.toNumber()).toBeGreaterThanOrEqual(1000 + replacement.virtualSize());
+    expect(result.fee!.toNumber() / replacement.virtualSize()).toBeGreaterThanOrEqual(20);
+  });
+
+  it('should refuse transactions that do not signal replace-by-fee', async () => {
+    const ownScript = await ownOutputScript();
+    const txid = 'cc'.repeat(32);
+    mockEsplora({
+      [txid]: esploraTx(txid, ownScript, [{ scriptpubkey: recipientScript, value: 99000 }], 0xffffffff)
+    });
+
+    await expect(adapter.bumpFee(params, txid, new Big(20))).rejects.toMatchObject({
+      code: ErrorCode.INVALID_PARAMS
+    });
+  });
+
+  it('should pay for the parent with a CPFP child', async () => {
+    const ownScript = await ownOutputScript();
+    const parentTxid = 'dd'.repeat(32);
+    const broadcasts = mockEsplora({
+      [parentTxid]: esploraTx(parentTxid, recipientScript, [
+        { scriptpubkey: recipientScript, value: 49000 },
+        { scriptpubkey: ownScript, value: 50000 }
+      ])
+    });
+
+    const result = await adapter.cpfp(params, parentTxid, new Big(10));
+    const [child] = broadcasts;
+
+    expect(result.paysFor).toBe(parentTxid);
+    expect(Buffer.from(child.ins[0].hash).reverse().toString('hex')).toBe(parentTxid);
+    expect(child.ins[0].index).toBe(1);
+    // The package of parent (141 vB, 1000 sats) and child reaches 10 sat/vB
+    expect((1000 + result.fee!.toNumber()) / (141 + child.virtualSize())).toBeGreaterThanOrEqual(10);
+    expect(child.outs[0].value).toBe(BigInt(50000 - result.fee!.toNumber()));
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import Big from 'big.js';
+import nacl from 'tweetnacl';
+import { providers, utils } from 'near-api-js';
+import { NearAdapter } from '../../adapters/near/NearAdapter.js';
+import { ErrorCode } from '../../core/errors/index.js';
+import { deriveEntropy } from '../../utils/derivation.js';
+import { DeriveParams } from '../../types/index.js';
+
+const masterSeed = new Uint8Array(32).fill(11);
+const params = (userId: string): DeriveParams => ({ scope: 'wallet', userId, chain: 'near', index: '0' });
+const app = params('ourapp');
+const user = params('user123');
+
+// Access key nonce and recent block hash the transaction is signed against
+const mockChain = () => ({
+  viewAccessKey: vi.spyOn(providers.JsonRpcProvider.prototype, 'viewAccessKey').mockResolvedValue({ nonce: 7 } as any),
+  viewBlock: vi.spyOn(providers.JsonRpcProvider.prototype, 'viewBlock').mockResolvedValue({
+    header: { hash: utils.serialize.base_encode(new Uint8Array(32).fill(1)) }
+  } as any)
+});
+
+const outcome = (hash: string) => ({
+  transaction: { hash },
+  transaction_outcome: { block_hash: 'block' },
+  status: { SuccessValue: '' }
+}) as any;
+
+describe('NearAdapter', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should derive the implicit account and base58 key of the ed25519 key', async () => {
+    const adapter = new NearAdapter(masterSeed, { mode: 'derive-only' });
+    const { publicKey } = nacl.sign.keyPair.fromSeed(deriveEntropy(masterSeed, user).slice(0, 32));
+
+    expect(await adapter.deriveAddress(user)).toBe(Buffer.from(publicKey).toString('hex'));
+    expect(await adapter.deriveNearPublicKey(user)).toBe(`ed25519:${utils.serialize.base_encode(publicKey)}`);
+  });
+
+  it('should create a named sub-account bound to a derived key', async () => {
+    const adapter = new NearAdapter(masterSeed, { maxRetries: 0 });
+    mockChain();
+    const sendTransaction = vi.spyOn(providers.JsonRpcProvider.prototype, 'sendTransaction').mockResolvedValue(outcome('created'));
+
+    const account = await adapter.createSubAccount({ params: app, accountId: 'ourapp.near' }, 'user123', user, new Big('1000000000000000000000'));
+
+    expect(account).toEqual({
+      accountId: 'user123.ourapp.near',
+      publicKey: await adapter.deriveNearPublicKey(user),
+      txHash: 'created',
+      status: 'confirmed'
+    });
+    const { transaction } = sendTransaction.mock.calls[0][0];
+    expect(transaction.signerId).toBe('ourapp.near');
+    expect(transaction.receiverId).toBe('user123.ourapp.near');
+    expect(transaction.actions.map(action => action.enum)).toEqual(['createAccount', 'transfer', 'addKey']);
+    expect(transaction.actions[1].transfer!.deposit).toBe(1000000000000000000000n);
+    expect(transaction.actions[2].addKey!.publicKey.toString()).toBe(account.publicKey);
+  });
+
+  it('should resend the same signed transaction on failover', async () => {
+    const adapter = new NearAdapter(masterSeed, { maxRetries: 0 });
+    (adapter.config.endpoints as any).http = [{ url: 'http://primary' }, { url: 'http://backup' }];
+    vi.spyOn(adapter as any, 'readBalance').mockResolvedValue(new Big('1e30'));
+    const { viewAccessKey } = mockChain();
+    const sendTransaction = vi.spyOn(providers.JsonRpcProvider.prototype, 'sendTransaction')
+      .mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+      .mockResolvedValue(outcome('sent'));
+
+    const result = await adapter.send(app, await adapter.deriveAddress(user), new Big('1000000000000000000000000'));
+
+    expect(viewAccessKey).toHaveBeenCalledTimes(1);
+    expect(sendTransaction).toHaveBeenCalledTimes(2);
+    expect(sendTransaction.mock.calls[1][0]).toBe(sendTransaction.mock.calls[0][0]);
+    expect(sendTransaction.mock.calls[0][0].transaction.actions[0].transfer!.deposit).toBe(1000000000000000000000000n);
+    expect(result.status).toBe('confirmed');
+  });
+
+  it('should check a transfer from a named account like any other send', async () => {
+    const adapter = new NearAdapter(masterSeed, { maxRetries: 0 });
+    const signer = { params: user, accountId: 'user123.ourapp.near' };
+    const readBalance = vi.spyOn(adapter as any, 'readBalance').mockResolvedValue(new Big('5000'));
+    mockChain();
+    const sendTransaction = vi.spyOn(providers.JsonRpcProvider.prototype, 'sendTransaction').mockResolvedValue(outcome('sent'));
+
+    await expect(adapter.sendFromAccount(signer, 'bob.near', new Big(0))).rejects.toMatchObject({ code: ErrorCode.INVALID_AMOUNT });
+    await expect(adapter.sendFromAccount(signer, 'Bob', new Big(1))).rejects.toThrow('Invalid NEAR account ID');
+    await expect(adapter.sendFromAccount(signer, 'bob.near', new Big('5001'))).rejects.toMatchObject({
+      code: ErrorCode.INSUFFICIENT_BALANCE
+    });
+    expect(sendTransaction).not.toHaveBeenCalled();
+
+    // Amounts are yoctoNEAR, as for send and balances
+    await adapter.sendFromAccount(signer, 'bob.near', new Big('5000'));
+    expect(readBalance).toHaveBeenLastCalledWith('user123.ourapp.near');
+    const { transaction } = sendTransaction.mock.calls[0][0];
+    expect(transaction.signerId).toBe('user123.ourapp.near');
+    expect(transaction.actions[0].transfer!.deposit).toBe(5000n);
+  });
+
+  it('should reject invalid sub-account names', async () => {
+    const adapter = new NearAdapter(masterSeed, { maxRetries: 0 });
+
+    for (const name of ['User', 'a.b', 'bad-', '']) {
+      await expect(adapter.createSubAccount({ params: app, accountId: 'ourapp.near' }, name, user, new Big(0)))
+        .rejects.toMatchObject({ code: ErrorCode.INVALID_PARAMS });
+    }
+  });
+});
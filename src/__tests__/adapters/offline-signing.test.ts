@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { Psbt, networks, payments } from 'bitcoinjs-lib';
+import {
+  createTransaction,
+  createNoopSigner,
+  compileTransaction,
+  getBase64EncodedWireTransaction,
+  blockhash,
+  type Address
+} from 'gill';
+import { getTransferSolInstruction } from 'gill/programs';
+import { BitcoinAdapterV2 } from '../../adapters/bitcoin/BitcoinAdapterV2.js';
+import { EvmAdapterV2 } from '../../adapters/evm/EvmAdapterV2.js';
+import { SolanaAdapter } from '../../adapters/solana/SolanaAdapter.js';
+import { ConfigManager } from '../../core/config/ConfigManager.js';
+import { ErrorCode } from '../../core/errors/index.js';
+import { DeriveParams, UnsignedTransaction } from '../../types/index.js';
+
+const masterSeed = new Uint8Array(32).fill(3);
+const params = (chain: DeriveParams['chain'], index = '0'): DeriveParams => ({
+  scope: 'wallet',
+  userId: '123e4567-e89b-12d3-a456-426614174000',
+  chain,
+  index
+});
+
+describe('Offline signing', () => {
+  it('should sign a Bitcoin PSBT without network access', async () => {
+    const signer = new BitcoinAdapterV2(masterSeed, { mode: 'derive-only' });
+    const from = await signer.deriveAddress(params('bitcoin'));
+    const to = 'bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh';
+
+    const psbt = new Psbt({ network: networks.bitcoin });
+    psbt.addInput({
+      hash: '11'.repeat(32),
+      index: 0,
+      witnessUtxo: { script: payments.p2tr({ address: from }).output!, value: 100000n }
+    });
+    psbt.addOutput({ address: to, value: 90000n });
+
+    const unsigned: UnsignedTransaction = {
+      chain: 'bitcoin',
+      from,
+      to,
+      amount: '90000',
+      payload: psbt.toBase64()
+    };
+
+    const signed = await signer.signUnsigned(params('bitcoin'), unsigned);
+    expect(signed.txHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(signed.payload).toMatch(/^[0-9a-f]+$/);
+
+    await expect(signer.signUnsigned(params('bitcoin', '1'), unsigned)).rejects.toMatchObject({
+      code: ErrorCode.INVALID_PARAMS
+    });
+    await expect(signer.broadcast(signed)).rejects.toMatchObject({
+      code: ErrorCode.NETWORK_DISABLED
+    });
+  });
+
+  it('should refuse a Bitcoin PSBT that does not match its summary', async () => {
+    const signer = new BitcoinAdapterV2(masterSeed, { mode: 'derive-only' });
+    const from = await signer.deriveAddress(params('bitcoin'));
+    const to = 'bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh';
+    const attacker = 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq';
+    const unsigned = (outputs: { address: string; value: bigint }[], fee?: string): UnsignedTransaction => {
+      const psbt = new Psbt({ network: networks.bitcoin });
+      psbt.addInput({
+        hash: '11'.repeat(32),
+        index: 0,
+        witnessUtxo: { script: payments.p2tr({ address: from }).output!, value: 1000000n }
+      });
+      outputs.forEach(output => psbt.addOutput(output));
+      return { chain: 'bitcoin', from, to, amount: '50000', payload: psbt.toBase64(), fee };
+    };
+
+    await expect(signer.signUnsigned(params('bitcoin'), unsigned(
+      [{ address: to, value: 50000n }, { address: from, value: 949000n }], '1000'
+    ))).resolves.toMatchObject({ chain: 'bitcoin' });
+    // The "change" goes elsewhere
+    await expect(signer.signUnsigned(params('bitcoin'), unsigned(
+      [{ address: to, value: 50000n }, { address: attacker, value: 949000n }]
+    ))).rejects.toMatchObject({ code: ErrorCode.INVALID_PARAMS });
+    // More than the summarised fee
+    await expect(signer.signUnsigned(params('bitcoin'), unsigned(
+      [{ address: to, value: 50000n }, { address: from, value: 940000n }], '1000'
+    ))).rejects.toMatchObject({ code: ErrorCode.INVALID_PARAMS });
+    // Most of the input burned as fee
+    await expect(signer.signUnsigned(params('bitcoin'), unsigned([{ address: to, value: 50000n }])))
+      .rejects.toMatchObject({ code: ErrorCode.INVALID_PARAMS });
+  });
+
+  it('should sign an EVM transaction and reject tampered payloads', async () => {
+    const chainConfig = ConfigManager.getInstance().getChainConfig('ethereum');
+    const signer = new EvmAdapterV2('ethereum', chainConfig, masterSeed, { mode: 'derive-only' });
+    const from = await signer.deriveAddress(params('ethereum'));
+    const to = '0x0000000000000000000000000000000000000001';
+
+    const payload = (tx: ethers.UnsignedTransaction) => ethers.utils.serializeTransaction({
+      to,
+      value: 1000,
+      nonce: 0,
+      gasLimit: 21000,
+      gasPrice: 1000000000,
+      chainId: 1,
+      ...tx
+    });
+    const unsigned: UnsignedTransaction = {
+      chain: 'ethereum',
+      from,
+      to,
+      amount: '1000',
+      payload: payload({}),
+      fee: '21000000000000'
+    };
+
+    const signed = await signer.signUnsigned(params('ethereum'), unsigned);
+    const parsed = ethers.utils.parseTransaction(signed.payload);
+    expect(parsed.from).toBe(from);
+    expect(parsed.hash).toBe(signed.txHash);
+
+    await expect(signer.signUnsigned(params('ethereum'), { ...unsigned, amount: '1' })).rejects.toMatchObject({
+      code: ErrorCode.INVALID_PARAMS
+    });
+    await expect(signer.signUnsigned(params('ethereum'), { ...unsigned, chain: 'bsc' })).rejects.toMatchObject({
+      code: ErrorCode.INVALID_PARAMS
+    });
+    // A summary of "1000 wei" can't carry a contract call, another chain's id or a higher gas price
+    const tampered = [
+      { data: new ethers.utils.Interface(['function transfer(address,uint256)']).encodeFunctionData('transfer', [to, 1]) },
+      { chainId: 56 },
+      { gasPrice: 2000000000 }
+    ];
+    for (const tx of tampered) {
+      await expect(signer.signUnsigned(params('ethereum'), { ...unsigned, payload: payload(tx) })).rejects.toMatchObject({
+        code: ErrorCode.INVALID_PARAMS
+      });
+    }
+    await expect(signer.signUnsigned(params('ethereum'), { ...unsigned, fee: undefined })).rejects.toMatchObject({
+      code: ErrorCode.INVALID_PARAMS
+    });
+  });
+
+  it('should sign a Solana wire transaction without an RPC client', async () => {
+    const signer = new SolanaAdapter(masterSeed, { mode: 'derive-only' });
+    const from = await signer.deriveAddress(params('solana'));
+    const to = '11111111111111111111111111111112';
+
+    const feePayer = createNoopSigner(from as Address);
+    const transfer = (amount: number) => getTransferSolInstruction({ source: feePayer, destination: to as Address, amount });
+    const payload = (...instructions: ReturnType<typeof transfer>[]) => getBase64EncodedWireTransaction(compileTransaction(createTransaction({
+      version: 'legacy',
+      feePayer,
+      instructions,
+      latestBlockhash: { blockhash: blockhash('11111111111111111111111111111111'), lastValidBlockHeight: 0n }
+    })));
+    const unsigned: UnsignedTransaction = { chain: 'solana', from, to, amount: '1000', payload: payload(transfer(1000)) };
+
+    const signed = await signer.signUnsigned(params('solana'), unsigned);
+
+    expect(signed.txHash).toMatch(/^[1-9A-HJ-NP-Za-km-z]{64,88}$/);
+    await expect(signer.broadcast(signed)).rejects.toMatchObject({
+      code: ErrorCode.NETWORK_DISABLED
+    });
+
+    // Another amount, or a second transfer next to the summarised one
+    for (const tampered of [payload(transfer(5000)), payload(transfer(1000), transfer(5000))]) {
+      await expect(signer.signUnsigned(params('solana'), { ...unsigned, payload: tampered })).rejects.toMatchObject({
+        code: ErrorCode.INVALID_PARAMS
+      });
+    }
+  });
+});
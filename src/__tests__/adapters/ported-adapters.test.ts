@@ -0,0 +1,217 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import axios from 'axios';
+import Big from 'big.js';
+import { TronWeb } from 'tronweb';
+import { SuiClient } from '@mysten/sui/client';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import * as CSL from '@emurgo/cardano-serialization-lib-nodejs';
+import { TronAdapter } from '../../adapters/tron/TronAdapter.js';
+import { PolkadotAdapter } from '../../adapters/polkadot/PolkadotAdapter.js';
+import { CardanoAdapter } from '../../adapters/cardano/CardanoAdapter.js';
+import { SuiAdapter } from '../../adapters/sui/SuiAdapter.js';
+import { ErrorCode, ErrorFactory } from '../../core/errors/index.js';
+import { deriveEntropy } from '../../utils/derivation.js';
+import { DeriveParams, IncomingTransaction } from '../../types/index.js';
+
+const masterSeed = new Uint8Array(32).fill(13);
+const params = (chain: DeriveParams['chain']): DeriveParams => ({
+  scope: 'wallet',
+  userId: '123e4567-e89b-12d3-a456-426614174000',
+  chain,
+  index: '0'
+});
+const sender = '41' + '11'.repeat(20);
+
+describe('Ported adapters', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should derive every chain offline', async () => {
+    const cardano = new CardanoAdapter(masterSeed, { mode: 'derive-only' });
+    const sui = new SuiAdapter(masterSeed, { mode: 'derive-only' });
+    const polkadot = new PolkadotAdapter(masterSeed, { mode: 'derive-only' });
+
+    expect(await cardano.deriveAddress(params('cardano'))).toMatch(/^addr_test1[02-9ac-hj-np-z]+$/);
+    expect(await sui.deriveAddress(params('sui'))).toBe(
+      Ed25519Keypair.fromSecretKey(deriveEntropy(masterSeed, params('sui')).slice(0, 32)).toSuiAddress()
+    );
+    expect(await new TronAdapter(masterSeed, { mode: 'derive-only' }).deriveAddress(params('tron'))).toMatch(/^T[1-9A-HJ-NP-Za-km-z]{33}$/);
+    expect(await polkadot.deriveAddress(params('polkadot'))).toMatch(/^5[1-9A-HJ-NP-Za-km-z]{47}$/);
+    await expect(polkadot.balance(params('polkadot'))).rejects.toMatchObject({ code: ErrorCode.NETWORK_DISABLED });
+    await expect(sui.balance(params('sui'))).rejects.toMatchObject({ code: ErrorCode.NETWORK_DISABLED });
+  });
+
+  it('should keep the Cardano addresses of earlier releases', async () => {
+    const testnet = new CardanoAdapter(masterSeed, { mode: 'derive-only' });
+    const mainnet = new CardanoAdapter(masterSeed, { mode: 'derive-only', network: 'mainnet' });
+
+    // The payment key sits at m/1852'/1815'/0'/0/<index>; addresses are testnet ones unless mainnet is set
+    expect(await testnet.deriveAddress(params('cardano'))).toBe(
+      'addr_test1qzwcttjmtcpk999ew54hwtqycpvxaz3m9cvd0t27drq96xskq6mdgd32j8ua8s7xxfwqdpw6kfg4a5zrz5lrhryasn8shgnnda'
+    );
+    expect(await testnet.deriveAddress({ ...params('cardano'), index: '5' })).toBe(
+      'addr_test1qz9ujdcayrpdmqgt70xl2r94qsh30rmrygcpjzy50yhrq8ehmn6vnc72vyxqw8fnlfpkxq3wyrlry857gja0azs4kujsjtq0ux'
+    );
+    expect(await mainnet.deriveAddress(params('cardano'))).toBe(
+      'addr1qxwcttjmtcpk999ew54hwtqycpvxaz3m9cvd0t27drq96xskq6mdgd32j8ua8s7xxfwqdpw6kfg4a5zrz5lrhryasn8s57wnpz'
+    );
+  });
+
+  it('should deliver incoming Tron transfers in sun and resume from the last timestamp', async () => {
+    const adapter = new TronAdapter(masterSeed, { maxRetries: 0, pollingInterval: 5 });
+    const address = await adapter.deriveAddress(params('tron'));
+    const transfer = (txID: string, amount: number, block_timestamp: number, contractRet = 'SUCCESS') => ({
+      txID,
+      blockNumber: 100,
+      block_timestamp,
+      ret: [{ contractRet }],
+      raw_data: {
+        contract: [{
+          type: 'TransferContract',
+          parameter: { value: { owner_address: sender, to_address: TronWeb.address.toHex(address), amount } }
+        }]
+      }
+    });
+    const get = vi.spyOn(axios, 'get')
+      .mockResolvedValueOnce({ data: { data: [transfer('b', 2000000, 1700000002), transfer('a', 1500000, 1700000001, 'REVERT')], meta: {} } })
+      .mockResolvedValue({ data: { data: [], meta: {} } });
+
+    const received: IncomingTransaction[] = [];
+    const unsubscribe = await adapter.subscribe(address, tx => {
+      received.push(tx);
+    });
+    await vi.waitFor(() => expect(get.mock.calls.length).toBeGreaterThanOrEqual(2));
+    unsubscribe();
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({ txHash: 'b', from: TronWeb.address.fromHex(sender), to: address, blockNumber: 100 });
+    expect(received[0].amount.toString()).toBe('2000000');
+    expect(get.mock.calls[0][0]).toBe(`https://api.trongrid.io/v1/accounts/${address}/transactions`);
+    expect(get.mock.calls[1][1]?.params).toMatchObject({ only_to: true, min_timestamp: '1700000002', order_by: 'block_timestamp,asc' });
+  });
+
+  it('should submit a Cardano transaction signed over its body hash', async () => {
+    const adapter = new CardanoAdapter(masterSeed, { maxRetries: 0, projectId: 'mainnetKey' });
+    const from = await adapter.deriveAddress(params('cardano'));
+    const publicKey = await adapter.derivePublicKey(params('cardano'));
+    const to = 'addr1vx2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzers66hrl8';
+    const get = vi.spyOn(axios, 'get').mockImplementation(async (url: string) => {
+      const path = url.replace('https://cardano-mainnet.blockfrost.io/api/v0', '');
+      switch (path) {
+        case `/addresses/${from}`:
+          return { status: 200, data: { amount: [{ unit: 'lovelace', quantity: '10000000' }] } };
+        case `/addresses/${from}/utxos`:
+          return { status: 200, data: [{ tx_hash: 'ab'.repeat(32), output_index: 0, amount: [{ unit: 'lovelace', quantity: '10000000' }] }] };
+        case '/epochs/latest/parameters':
+          return {
+            status: 200,
+            data: {
+              min_fee_a: 44, min_fee_b: 155381, pool_deposit: '500000000', key_deposit: '2000000',
+              max_val_size: '5000', max_tx_size: 16384, coins_per_utxo_size: '4310'
+            }
+          };
+        case '/blocks/latest':
+          return { status: 200, data: { slot: 1000 } };
+      }
+      throw new Error(`Unexpected request ${url}`);
+    });
+    const post = vi.spyOn(axios, 'post').mockResolvedValue({ data: 'submitted' });
+
+    const result = await adapter.send(params('cardano'), to, new Big(2000000));
+
+    const submitted = CSL.FixedTransaction.from_bytes(post.mock.calls[0][1] as Uint8Array);
+    const witness = submitted.witness_set().vkeys()!.get(0);
+    expect(result).toMatchObject({ txHash: submitted.transaction_hash().to_hex(), status: 'pending' });
+    expect(witness.vkey().public_key().to_hex()).toBe(publicKey);
+    expect(witness.vkey().public_key().verify(submitted.transaction_hash().to_bytes(), witness.signature())).toBe(true);
+    expect(submitted.body().outputs().get(0).amount().coin().to_str()).toBe('2000000');
+    expect(submitted.body().ttl_bignum()?.to_str()).toBe('8200');
+    expect(post.mock.calls[0][2]?.headers).toMatchObject({ project_id: 'mainnetKey', 'Content-Type': 'application/cbor' });
+    expect(get.mock.calls.every(([, config]) => config?.headers?.project_id === 'mainnetKey')).toBe(true);
+  });
+
+  it('should page Sui transactions forward from the newest digest', async () => {
+    const adapter = new SuiAdapter(masterSeed, { maxRetries: 0, pollingInterval: 5 });
+    const address = await adapter.deriveAddress(params('sui'));
+    const block = (digest: string, amount: string) => ({
+      digest,
+      checkpoint: '42',
+      timestampMs: '1700000000000',
+      transaction: { data: { sender: '0x' + '22'.repeat(32) } },
+      balanceChanges: [
+        { owner: { AddressOwner: address }, coinType: '0x2::sui::SUI', amount },
+        { owner: { AddressOwner: '0x' + '22'.repeat(32) }, coinType: '0x2::sui::SUI', amount: `-${amount}` }
+      ]
+    });
+    const query = vi.spyOn(SuiClient.prototype, 'queryTransactionBlocks')
+      .mockResolvedValueOnce({ data: [block('new', '7'), block('old', '5')], hasNextPage: true, nextCursor: 'old' } as any)
+      .mockResolvedValueOnce({ data: [block('next', '3')], hasNextPage: false, nextCursor: 'next' } as any)
+      .mockResolvedValue({ data: [], hasNextPage: false, nextCursor: null } as any);
+
+    const received: IncomingTransaction[] = [];
+    const unsubscribe = await adapter.subscribe(address, tx => {
+      received.push(tx);
+    });
+    await vi.waitFor(() => expect(query.mock.calls.length).toBeGreaterThanOrEqual(3));
+    unsubscribe();
+
+    expect(received.map(tx => [tx.txHash, tx.amount.toString()])).toEqual([['old', '5'], ['new', '7'], ['next', '3']]);
+    expect(query.mock.calls[0][0]).toMatchObject({ filter: { ToAddress: address }, order: 'descending' });
+    expect(query.mock.calls[1][0]).toMatchObject({ order: 'ascending', cursor: 'new' });
+    expect(query.mock.calls[2][0]).toMatchObject({ order: 'ascending', cursor: 'next' });
+  });
+
+  it('should sign a Sui transfer once and only execute it again on retry', async () => {
+    const adapter = new SuiAdapter(masterSeed, { maxRetries: 1 });
+    vi.spyOn(adapter as any, 'readBalance').mockResolvedValue(new Big(10 ** 9));
+    const build = vi.fn().mockResolvedValue(new Uint8Array(64).fill(3));
+    vi.spyOn(adapter as any, 'transferTransaction').mockReturnValue({ build });
+    const execute = vi.spyOn(SuiClient.prototype, 'executeTransactionBlock')
+      .mockRejectedValueOnce(ErrorFactory.rateLimited('Too many requests'))
+      .mockResolvedValue({
+        digest: 'digest',
+        effects: { status: { status: 'success' }, gasUsed: { computationCost: '1000', storageCost: '2000', storageRebate: '500' } }
+      } as any);
+
+    const result = await adapter.send(params('sui'), '0x' + '22'.repeat(32), new Big(1000));
+
+    expect(result).toMatchObject({ txHash: 'digest', status: 'confirmed' });
+    expect(build).toHaveBeenCalledTimes(1);
+    expect(execute).toHaveBeenCalledTimes(2);
+    expect(execute.mock.calls[1][0]).toEqual(execute.mock.calls[0][0]);
+  });
+
+  it('should sign a Polkadot transfer once and fail over only its submission', async () => {
+    const adapter = new PolkadotAdapter(masterSeed, { maxRetries: 0 });
+    (adapter.config.endpoints as any).http = [{ url: 'ws://primary' }, { url: 'ws://backup' }];
+    vi.spyOn(adapter as any, 'readBalance').mockResolvedValue(new Big(10 ** 12));
+    const signAsync = vi.fn().mockResolvedValue({ hash: { toHex: () => '0xhash' }, toHex: () => '0xsigned' });
+    const unsubscribe = vi.fn();
+    const send = vi.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+      .mockImplementationOnce(async (callback: (result: any) => void) => {
+        callback({ status: { isInBlock: true, isFinalized: false } });
+        return unsubscribe;
+      })
+      .mockImplementation(async (callback: (result: any) => void) => {
+        callback({ status: { isInBlock: false, isFinalized: false, isDropped: true, type: 'Dropped' } });
+        return unsubscribe;
+      });
+    const tx = Object.assign(vi.fn(() => ({ send })), {
+      balances: { transferAllowDeath: vi.fn(() => ({ signAsync })) }
+    });
+    vi.spyOn(adapter as any, 'apiFor').mockResolvedValue({ tx });
+    const to = await new PolkadotAdapter(new Uint8Array(32).fill(14), { mode: 'derive-only' }).deriveAddress(params('polkadot'));
+
+    expect(await adapter.send(params('polkadot'), to, new Big(10 ** 10))).toEqual({ txHash: '0xhash', status: 'confirmed' });
+    expect(signAsync).toHaveBeenCalledTimes(1);
+    expect(tx.mock.calls).toEqual([['0xsigned'], ['0xsigned']]);
+
+    // A transaction dropped from the pool is reported instead of waited on
+    await expect(adapter.send(params('polkadot'), to, new Big(10 ** 10))).rejects.toMatchObject({
+      code: ErrorCode.TRANSACTION_FAILED
+    });
+    expect(unsubscribe).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { Psbt, Transaction, networks, payments } from 'bitcoinjs-lib';
+import { BitcoinAdapterV2 } from '../../adapters/bitcoin/BitcoinAdapterV2.js';
+import { ErrorCode } from '../../core/errors/index.js';
+import { DeriveParams } from '../../types/index.js';
+
+const masterSeed = new Uint8Array(32).fill(5);
+const params = (index: string): DeriveParams => ({
+  scope: 'wallet',
+  userId: '123e4567-e89b-12d3-a456-426614174000',
+  chain: 'bitcoin',
+  index
+});
+
+describe('BitcoinAdapterV2 PSBT support', () => {
+  const adapter = new BitcoinAdapterV2(masterSeed, { mode: 'derive-only' });
+
+  async function twoInputPsbt(): Promise<Psbt> {
+    const psbt = new Psbt({ network: networks.bitcoin });
+    for (const [i, index] of ['0', '1'].entries()) {
+      const address = await adapter.deriveAddress(params(index));
+      psbt.addInput({
+        hash: String(i + 1).repeat(64),
+        index: 0,
+        witnessUtxo: { script: payments.p2tr({ address }).output!, value: 50000n }
+      });
+    }
+    psbt.addOutput({ address: 'bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh', value: 90000n });
+    return psbt;
+  }
+
+  it('should sign only the inputs owned by the derived key', async () => {
+    const psbt = await twoInputPsbt();
+
+    const first = await adapter.signPsbt(params('0'), psbt.toBase64());
+    expect(first.signedInputs).toEqual([0]);
+
+    const second = await adapter.signPsbt(params('1'), psbt.toHex());
+    expect(second.signedInputs).toEqual([1]);
+
+    await expect(adapter.signPsbt(params('2'), psbt.toBase64())).rejects.toMatchObject({
+      code: ErrorCode.INVALID_PARAMS
+    });
+  });
+
+  it('should combine partial signatures and finalize', async () => {
+    const psbt = (await twoInputPsbt()).toBase64();
+    const first = await adapter.signPsbt(params('0'), psbt);
+    const second = await adapter.signPsbt(params('1'), psbt);
+
+    expect(() => adapter.finalizePsbt(first.psbt)).toThrow();
+
+    const combined = adapter.combinePsbts([first.psbt, second.psbt]);
+    const { txHash, txHex } = adapter.finalizePsbt(combined);
+
+    const tx = Transaction.fromHex(txHex);
+    expect(tx.getId()).toBe(txHash);
+    expect(tx.ins.every(input => input.witness.length === 1)).toBe(true);
+  });
+
+  it('should reject malformed PSBTs', () => {
+    expect(() => adapter.importPsbt('not-a-psbt')).toThrow(/Invalid PSBT/);
+  });
+});
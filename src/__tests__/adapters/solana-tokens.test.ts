@@ -0,0 +1,151 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import bs58 from 'bs58';
+import { none, type Address } from 'gill';
+import { TOKEN_PROGRAM_ADDRESS, TOKEN_2022_PROGRAM_ADDRESS, getAssociatedTokenAccountAddress, getMintEncoder } from 'gill/programs/token';
+import { SolanaAdapter } from '../../adapters/solana/SolanaAdapter.js';
+import { DeriveParams, IncomingTransaction } from '../../types/index.js';
+
+const masterSeed = new Uint8Array(32).fill(17);
+const params: DeriveParams = {
+  scope: 'wallet',
+  userId: '123e4567-e89b-12d3-a456-426614174000',
+  chain: 'solana',
+  index: '0'
+};
+const mint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const sender = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+const senderAta = bs58.encode(new Uint8Array(32).fill(3));
+const depositAta = bs58.encode(new Uint8Array(32).fill(4));
+const signature = bs58.encode(new Uint8Array(64).fill(5));
+
+const tokenAccount = (pubkey: string, owner: string, amount: string, program: string = TOKEN_PROGRAM_ADDRESS) => ({
+  pubkey,
+  account: {
+    data: {
+      program: 'spl-token',
+      parsed: {
+        type: 'account',
+        info: { mint, owner, state: 'initialized', isNative: false, tokenAmount: { amount, decimals: 6, uiAmount: 0, uiAmountString: '0' } }
+      },
+      space: 165
+    },
+    executable: false,
+    lamports: 2039280,
+    owner: program,
+    rentEpoch: 0,
+    space: 165
+  }
+});
+
+// Answers JSON-RPC requests from a table of results by method
+const mockRpc = (results: Record<string, (params: any[]) => unknown>) =>
+  vi.spyOn(globalThis, 'fetch').mockImplementation(async (_url, init) => {
+    const { id, method, params } = JSON.parse(String(init?.body));
+    const result = results[method];
+    if (!result) {
+      throw new Error(`Unexpected RPC call ${method}`);
+    }
+    return new Response(JSON.stringify({ jsonrpc: '2.0', id, result: result(params) }));
+  });
+
+describe('SolanaAdapter tokens', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should read the associated token account in whole tokens', async () => {
+    const adapter = new SolanaAdapter(masterSeed, { maxRetries: 0 });
+    const owner = await adapter.deriveAddress(params);
+    const ata = await getAssociatedTokenAccountAddress(mint as Address, owner as Address, TOKEN_2022_PROGRAM_ADDRESS);
+    const mintData = getMintEncoder().encode({
+      mintAuthority: none(), supply: 10n ** 12n, decimals: 6, isInitialized: true, freezeAuthority: none(), extensions: none()
+    });
+    const fetch = mockRpc({
+      getAccountInfo: () => ({
+        context: { slot: 1 },
+        value: {
+          data: [Buffer.from(mintData).toString('base64'), 'base64'],
+          executable: false,
+          lamports: 1461600,
+          owner: TOKEN_2022_PROGRAM_ADDRESS,
+          rentEpoch: 0,
+          space: mintData.length
+        }
+      }),
+      getTokenAccountsByOwner: () => ({
+        context: { slot: 1 },
+        value: [
+          tokenAccount(ata, owner, '12500000', TOKEN_2022_PROGRAM_ADDRESS),
+          // sendToken can't spend from other accounts, so they aren't counted
+          tokenAccount(senderAta, owner, '250000', TOKEN_2022_PROGRAM_ADDRESS)
+        ]
+      })
+    });
+
+    expect((await adapter.getTokenBalance(params, mint)).toString()).toBe('12.5');
+    const request = fetch.mock.calls
+      .map(([, init]) => JSON.parse(String(init?.body)))
+      .find(body => body.method === 'getTokenAccountsByOwner');
+    expect(request.params.slice(0, 2)).toEqual([owner, { mint }]);
+  });
+
+  it('should detect token deposits to an existing token account', async () => {
+    const adapter = new SolanaAdapter(masterSeed, { maxRetries: 0, pollingInterval: 5 });
+    const owner = await adapter.deriveAddress(params);
+    const tokenBalance = (accountIndex: number, holder: string, amount: string) => ({
+      accountIndex, mint, owner: holder, programId: TOKEN_PROGRAM_ADDRESS,
+      uiTokenAmount: { amount, decimals: 6, uiAmount: 0, uiAmountString: '0' }
+    });
+    const fetch = mockRpc({
+      getTokenAccountsByOwner: ([, filter]) => ({
+        context: { slot: 1 },
+        value: filter.programId === TOKEN_PROGRAM_ADDRESS ? [tokenAccount(depositAta, owner, '4000000')] : []
+      }),
+      // The owner's address isn't part of a plain transfer; only its token account is
+      getSignaturesForAddress: ([account, config]) => account === depositAta && !config.until
+        ? [{ signature, slot: 10, blockTime: 1700000000, err: null, memo: null, confirmationStatus: 'finalized' }]
+        : [],
+      getTransaction: () => ({
+        slot: 10,
+        blockTime: 1700000000,
+        meta: {
+          err: null,
+          fee: 5000,
+          preBalances: [1000000000, 2039280, 2039280, 1461600, 1],
+          postBalances: [999995000, 2039280, 2039280, 1461600, 1],
+          preTokenBalances: [tokenBalance(1, sender, '5000000'), tokenBalance(2, owner, '1000000')],
+          postTokenBalances: [tokenBalance(1, sender, '2000000'), tokenBalance(2, owner, '4000000')],
+          loadedAddresses: { writable: [], readonly: [] },
+          logMessages: [],
+          innerInstructions: [],
+          rewards: []
+        },
+        transaction: {
+          signatures: [signature],
+          message: {
+            accountKeys: [sender, senderAta, depositAta, mint, TOKEN_PROGRAM_ADDRESS],
+            header: { numRequiredSignatures: 1, numReadonlySignedAccounts: 0, numReadonlyUnsignedAccounts: 2 },
+            instructions: [],
+            recentBlockhash: bs58.encode(new Uint8Array(32).fill(6))
+          }
+        }
+      })
+    });
+
+    const received: IncomingTransaction[] = [];
+    const unsubscribe = await adapter.subscribe(owner, tx => {
+      received.push(tx);
+    });
+    const signatureRequests = () => fetch.mock.calls
+      .map(([, init]) => JSON.parse(String(init?.body)))
+      .filter(body => body.method === 'getSignaturesForAddress');
+    await vi.waitFor(() => expect(signatureRequests().length).toBeGreaterThanOrEqual(4));
+    unsubscribe();
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({ txHash: signature, from: sender, to: owner, tokenContract: mint, blockNumber: 10 });
+    expect(received[0].amount.toString()).toBe('3');
+    // The next poll resumes the token account after the deposit
+    expect(signatureRequests()[3].params).toEqual([depositAta, expect.objectContaining({ until: signature })]);
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeAll, vi } from 'vitest';
 import Big from 'big.js';
 import { AdapterTestFramework } from './AdapterTestFramework.js';
+import { SolanaAdapter } from '../../adapters/solana/SolanaAdapter.js';
 import { SupportedChain } from '../../types/index.js';
 
 const framework = new AdapterTestFramework();
@@ -373,4 +374,32 @@ describe('Solana-specific functionality', () => {
       new Big('10000000000') // 10 SOL > 5 SOL balance
     )).rejects.toThrow(/insufficient/i);
   });
-});
\ No newline at end of file
+
+  it('should resend the same signed transaction when failing over', async () => {
+    const adapter = new SolanaAdapter(new Uint8Array(32).fill(23), { maxRetries: 0 });
+    (adapter.config.endpoints as any).http = [{ url: 'http://primary' }, { url: 'http://backup' }];
+    const rpc = {
+      getBalance: () => ({ send: async () => ({ value: 5000000000n }) }),
+      getLatestBlockhash: vi.fn(() => ({
+        send: async () => ({ value: { blockhash: '11111111111111111111111111111111', lastValidBlockHeight: 100n } })
+      }))
+    };
+    const sendAndConfirmTransaction = vi.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+      .mockImplementation(async () => 'ignored');
+    vi.spyOn(adapter as any, 'clientFor').mockReturnValue({ rpc, sendAndConfirmTransaction });
+
+    const result = await adapter.send(
+      { scope: 'wallet', userId: '123e4567-e89b-12d3-a456-426614174000', chain: 'solana', index: '0' },
+      'B62XGBBhb8zVrJWnVTJCFnXcHCjKfMGnzK7fcHBE1jmr',
+      new Big('1000000000')
+    );
+
+    expect(rpc.getLatestBlockhash).toHaveBeenCalledTimes(1);
+    expect(sendAndConfirmTransaction).toHaveBeenCalledTimes(2);
+    expect(sendAndConfirmTransaction.mock.calls[1][0]).toBe(sendAndConfirmTransaction.mock.calls[0][0]);
+    expect(Object.values(sendAndConfirmTransaction.mock.calls[0][0].signatures)).toHaveLength(1);
+    expect(result).toEqual({ txHash: expect.stringMatching(/^[1-9A-HJ-NP-Za-km-z]{64,88}$/), status: 'confirmed' });
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import axios from 'axios';
+import Big from 'big.js';
+import { Transaction, address as btcAddress, networks } from 'bitcoinjs-lib';
+import { BitcoinAdapterV2 } from '../../adapters/bitcoin/BitcoinAdapterV2.js';
+import { ConfigManager } from '../../core/config/ConfigManager.js';
+import { ErrorCode } from '../../core/errors/index.js';
+
+const masterSeed = new Uint8Array(32).fill(23);
+const apiUrl = 'http://127.0.0.1:3002';
+const range = { scope: 'deposit', userId: '123e4567-e89b-12d3-a456-426614174000', fromIndex: 0, toIndex: 3 };
+
+const adapter = new BitcoinAdapterV2(
+  masterSeed,
+  {},
+  undefined,
+  undefined,
+  ConfigManager.getInstance().bitcoinNetworkConfig('regtest', apiUrl)
+);
+
+// Serves UTXOs per address index plus a fee estimate, and records broadcasts
+async function mockEsplora(values: number[][], feeEstimate = 50): Promise<Transaction[]> {
+  const addresses = await Promise.all(values.map((_, index) =>
+    adapter.deriveAddress({ scope: range.scope, userId: range.userId, chain: 'bitcoin', index: String(index) })
+  ));
+  const broadcasts: Transaction[] = [];
+
+  vi.spyOn(axios, 'get').mockImplementation(async (url: string) => {
+    if (url.endsWith('/fee-estimates')) {
+      return { data: { '6': feeEstimate } };
+    }
+    const index = addresses.findIndex(address => url === `${apiUrl}/address/${address}/utxo`);
+    return {
+      data: values[index].map((value, vout) => ({
+        txid: (index + 1).toString(16).padStart(64, '0'),
+        vout,
+        value,
+        status: { confirmed: true }
+      }))
+    };
+  });
+  vi.spyOn(axios, 'post').mockImplementation(async (_url: string, hex: unknown) => {
+    const tx = Transaction.fromHex(hex as string);
+    broadcasts.push(tx);
+    return { data: tx.getId() };
+  });
+
+  return broadcasts;
+}
+
+describe('Bitcoin sweep', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should sweep many derived addresses into one transaction', async () => {
+    const broadcasts = await mockEsplora([[30000], [200], [15000, 8000], []]);
+    const treasury = await adapter.deriveAddress({ scope: 'treasury', userId: range.userId, chain: 'bitcoin', index: '0' });
+
+    const result = await adapter.sweep(range, treasury, { maxFeeRate: new Big(5) });
+    const [tx] = broadcasts;
+
+    // The 200 sat UTXO costs more than 5 sat/vB * 58 vB to spend
+    expect(result.inputs).toBe(3);
+    expect(result.skipped).toBe(1);
+    expect(tx.ins).toHaveLength(3);
+    expect(tx.outs).toHaveLength(1);
+    expect(btcAddress.fromOutputScript(tx.outs[0].script, networks.regtest)).toBe(treasury);
+
+    // Capped at 5 sat/vB rather than the 50 sat/vB estimate
+    expect(result.fee!.toNumber()).toBe(5 * (11 + 3 * 58 + 43));
+    expect(result.amount.toNumber()).toBe(53000 - result.fee!.toNumber());
+    expect(tx.outs[0].value).toBe(BigInt(result.amount.toNumber()));
+  });
+
+  it('should refuse to sweep when nothing covers its own fee', async () => {
+    await mockEsplora([[200], [300]]);
+    const treasury = await adapter.deriveAddress({ scope: 'treasury', userId: range.userId, chain: 'bitcoin', index: '0' });
+
+    await expect(adapter.sweep({ ...range, toIndex: 1 }, treasury, { feeRate: new Big(10) })).rejects.toMatchObject({
+      code: ErrorCode.INVALID_PARAMS
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import Big from 'big.js';
+import { TonClient, WalletContractV4, WalletContractV5R1 } from '@ton/ton';
+import { keyPairFromSeed, mnemonicToWalletKey } from '@ton/crypto';
+import { Cell, loadMessage } from '@ton/core';
+import { TonAdapter } from '../../adapters/ton/TonAdapter.js';
+import { ErrorCode, ErrorFactory } from '../../core/errors/index.js';
+import { deriveEntropy } from '../../utils/derivation.js';
+import { DeriveParams } from '../../types/index.js';
+
+const masterSeed = new Uint8Array(32).fill(9);
+const params: DeriveParams = {
+  scope: 'wallet',
+  userId: '123e4567-e89b-12d3-a456-426614174000',
+  chain: 'ton',
+  index: '0'
+};
+const recipient = 'UQCD39VS5jcptHL8vMjEXrzGaRcCVYto7HUn4bpAOg8xqEBI';
+
+describe('TonAdapter', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should derive wallet contract addresses from the ed25519 key', async () => {
+    const v4 = new TonAdapter(masterSeed, { mode: 'derive-only' });
+    const v5 = new TonAdapter(masterSeed, { mode: 'derive-only', walletVersion: 'v5r1' });
+    const publicKey = Buffer.from(await v4.derivePublicKey(params), 'hex');
+
+    expect(keyPairFromSeed(Buffer.from(deriveEntropy(masterSeed, params).slice(0, 32))).publicKey).toEqual(publicKey);
+    expect(await v4.deriveAddress(params)).toBe(
+      WalletContractV4.create({ publicKey, workchain: 0 }).address.toString({ bounceable: false })
+    );
+    expect(await v5.deriveAddress(params)).toBe(
+      WalletContractV5R1.create({ publicKey }).address.toString({ bounceable: false })
+    );
+    expect(() => new TonAdapter(masterSeed, { walletVersion: 'v3' as any })).toThrow(
+      expect.objectContaining({ code: ErrorCode.INVALID_PARAMS })
+    );
+  });
+
+  it('should keep deriving the addresses of earlier releases with legacy keys', async () => {
+    const legacy = new TonAdapter(masterSeed, { mode: 'derive-only', keyDerivation: 'legacy' });
+    // Earlier releases made a 24-word phrase from the private key and used its wallet key
+    const privateKey = deriveEntropy(masterSeed, params).slice(0, 32);
+    const words = ['abandon', 'ability', 'able', 'about', 'above', 'absent', 'absorb', 'abstract',
+      'absurd', 'abuse', 'access', 'accident', 'account', 'accuse', 'achieve', 'acid',
+      'acoustic', 'acquire', 'across', 'act', 'action', 'actor', 'actress', 'actual'];
+    const { publicKey } = await mnemonicToWalletKey(Array.from({ length: 24 }, (_, i) => words[privateKey[i] % words.length]));
+
+    expect(await legacy.deriveAddress(params)).toBe(WalletContractV4.create({ publicKey, workchain: 0 }).address.toString());
+    expect(await legacy.derivePublicKey(params)).toBe(publicKey.toString('hex'));
+    expect(() => new TonAdapter(masterSeed, { keyDerivation: 'legacy', walletVersion: 'v5r1' })).toThrow(
+      expect.objectContaining({ code: ErrorCode.INVALID_PARAMS })
+    );
+  });
+
+  it('should deploy an undeployed wallet with its first transfer', async () => {
+    const adapter = new TonAdapter(masterSeed, { maxRetries: 0 });
+    const publicKey = Buffer.from(await adapter.derivePublicKey(params), 'hex');
+    const wallet = WalletContractV4.create({ publicKey, workchain: 0 });
+    vi.spyOn(TonClient.prototype, 'getBalance').mockResolvedValue(50000000n);
+    vi.spyOn(TonClient.prototype, 'getContractState').mockResolvedValue({ state: 'uninitialized' } as any);
+    const sendFile = vi.spyOn(TonClient.prototype, 'sendFile').mockResolvedValue();
+
+    await adapter.send(params, recipient, new Big(1000000));
+    const sent = loadMessage(Cell.fromBoc(sendFile.mock.calls[0][0])[0].beginParse());
+    expect(sent.init?.code?.equals(wallet.init.code)).toBe(true);
+    expect(sent.init?.data?.equals(wallet.init.data)).toBe(true);
+
+    const unsigned = await adapter.buildUnsigned(params, recipient, new Big(1000000));
+    expect(JSON.parse(unsigned.payload)).toEqual({ seqno: 0, deploy: true });
+    const signed = await adapter.signUnsigned(params, unsigned);
+    expect(loadMessage(Cell.fromBoc(Buffer.from(signed.payload, 'base64'))[0].beginParse()).init).toBeTruthy();
+  });
+
+  it('should resend the same signed message when the broadcast is retried', async () => {
+    const adapter = new TonAdapter(masterSeed);
+    vi.spyOn(TonClient.prototype, 'getBalance').mockResolvedValue(50000000n);
+    const state = vi.spyOn(TonClient.prototype, 'getContractState').mockResolvedValue({ state: 'active' } as any);
+    vi.spyOn(TonClient.prototype, 'runMethod').mockResolvedValue({ stack: { readNumber: () => 4 } } as any);
+    // The endpoint is rate limited on the first broadcast
+    const sendFile = vi.spyOn(TonClient.prototype, 'sendFile')
+      .mockRejectedValueOnce(ErrorFactory.rateLimited('Too many requests'))
+      .mockResolvedValue();
+
+    await adapter.send(params, recipient, new Big(1000000));
+
+    expect(state).toHaveBeenCalledTimes(1);
+    expect(sendFile).toHaveBeenCalledTimes(2);
+    expect(sendFile.mock.calls[1][0].equals(sendFile.mock.calls[0][0])).toBe(true);
+  });
+
+  it('should resolve the on-chain transaction by message hash', async () => {
+    const adapter = new TonAdapter(masterSeed, { maxRetries: 0 });
+    const from = await adapter.deriveAddress(params);
+    const signed = await adapter.signUnsigned(params, {
+      chain: 'ton',
+      from,
+      to: recipient,
+      amount: '1000000',
+      payload: JSON.stringify({ seqno: 4 })
+    });
+
+    // The chain records the message with an import fee, so its raw hash differs
+    const sent = loadMessage(Cell.fromBoc(Buffer.from(signed.payload, 'base64'))[0].beginParse());
+    const recorded = { ...sent, info: { ...sent.info, importFee: 1n } };
+    const transaction = (inMessage: unknown, success: boolean) => ({
+      inMessage,
+      lt: 42n,
+      now: 1700000000,
+      hash: () => Buffer.alloc(32, success ? 1 : 2),
+      totalFees: { coins: 2500000n },
+      description: { type: 'generic', aborted: !success, computePhase: { type: 'vm', success }, actionPhase: { success } }
+    });
+    const getTransactions = vi.spyOn(TonClient.prototype, 'getTransactions')
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([transaction(recorded, true)] as any);
+
+    const result = await adapter.waitForTransaction(from, signed.txHash, { pollingInterval: 1 });
+
+    expect(result).toMatchObject({ txHash: '01'.repeat(32), status: 'confirmed', timestamp: 1700000000000 });
+    expect(result.fee?.toString()).toBe('2500000');
+    expect(getTransactions).toHaveBeenCalledTimes(2);
+  });
+
+  it('should time out when the message never lands', async () => {
+    const adapter = new TonAdapter(masterSeed, { maxRetries: 0 });
+    vi.spyOn(TonClient.prototype, 'getTransactions').mockResolvedValue([]);
+
+    await expect(adapter.waitForTransaction(await adapter.deriveAddress(params), '00'.repeat(32), { timeout: 5, pollingInterval: 1 }))
+      .rejects.toMatchObject({ code: ErrorCode.TIMEOUT_ERROR });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import Big from 'big.js';
+import { Trx, TransactionBuilder } from 'tronweb';
+import { TronAdapter } from '../../adapters/tron/TronAdapter.js';
+import { ErrorCode } from '../../core/errors/index.js';
+import { DeriveParams } from '../../types/index.js';
+
+const masterSeed = new Uint8Array(32).fill(19);
+const params = (index: string): DeriveParams => ({
+  scope: 'wallet',
+  userId: '123e4567-e89b-12d3-a456-426614174000',
+  chain: 'tron',
+  index
+});
+const usdt = 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t';
+const recipient = 'TLa2f6VPqDgRE67v1736s7bJ8Ray5wYjU7';
+const chainParameters = [
+  { key: 'getTransactionFee', value: 1000 },
+  { key: 'getEnergyFee', value: 210 },
+  { key: 'getCreateAccountFee', value: 100000 },
+  { key: 'getCreateNewAccountFeeInSystemContract', value: 1000000 }
+];
+// 200 bytes of raw data, so 334 bytes of bandwidth once signed
+const transaction = { txID: 'cd'.repeat(32), raw_data: {}, raw_data_hex: 'ab'.repeat(200) };
+const uint = (value: number) => value.toString(16).padStart(64, '0');
+
+describe('TronAdapter tokens and resources', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should burn TRX only for energy the sender has not staked', async () => {
+    const adapter = new TronAdapter(masterSeed, { maxRetries: 0 });
+    vi.spyOn(Trx.prototype, 'getChainParameters').mockResolvedValue(chainParameters);
+    vi.spyOn(Trx.prototype, 'getAccountResources').mockResolvedValue({
+      freeNetLimit: 600, freeNetUsed: 0, EnergyLimit: 30000, EnergyUsed: 5000
+    } as any);
+    vi.spyOn(TransactionBuilder.prototype, 'triggerConstantContract').mockImplementation(async (_contract, selector) =>
+      selector === 'decimals()'
+        ? { constant_result: [uint(6)] } as any
+        : { energy_used: 64285 } as any);
+    const trigger = vi.spyOn(TransactionBuilder.prototype, 'triggerSmartContract').mockResolvedValue({ transaction } as any);
+
+    const estimate = await adapter.estimateTokenFee(params('0'), usdt, recipient, new Big('2.5'));
+
+    // Free bandwidth covers the transaction; 25,000 energy is available
+    expect(estimate).toMatchObject({ bandwidth: 334, energy: 64285 });
+    expect(estimate.baseFee.toString()).toBe('0');
+    expect(estimate.gasPrice?.toString()).toBe('210');
+    expect(estimate.totalFee.toString()).toBe(String((64285 - 25000) * 210));
+    expect(trigger.mock.calls[0][3]).toEqual([{ type: 'address', value: recipient }, { type: 'uint256', value: '2500000' }]);
+  });
+
+  it('should charge account creation for TRX sent to a new address', async () => {
+    const adapter = new TronAdapter(masterSeed, { maxRetries: 0 });
+    vi.spyOn(Trx.prototype, 'getChainParameters').mockResolvedValue(chainParameters);
+    vi.spyOn(Trx.prototype, 'getAccountResources').mockResolvedValue({ freeNetLimit: 600, freeNetUsed: 0 } as any);
+    vi.spyOn(Trx.prototype, 'getAccount').mockResolvedValue({} as any);
+    vi.spyOn(TransactionBuilder.prototype, 'sendTrx').mockResolvedValue(transaction as any);
+
+    const estimate = await adapter.estimateFee(params('0'), recipient, new Big(1000000));
+
+    // Free bandwidth can't pay for creating the account
+    expect(estimate.baseFee.toString()).toBe('100000');
+    expect(estimate.activationFee.toString()).toBe('1000000');
+    expect(estimate.totalFee.toString()).toBe('1100000');
+  });
+
+  it('should send TRC-20 tokens in base units and delegate energy from a treasury', async () => {
+    const adapter = new TronAdapter(masterSeed, { maxRetries: 0 });
+    const from = await adapter.deriveAddress(params('0'));
+    const deposit = await adapter.deriveAddress(params('1'));
+    vi.spyOn(TransactionBuilder.prototype, 'triggerConstantContract').mockResolvedValue({ constant_result: [uint(6)] } as any);
+    const trigger = vi.spyOn(TransactionBuilder.prototype, 'triggerSmartContract')
+      .mockImplementation(async () => ({ transaction: structuredClone(transaction) }) as any);
+    const delegate = vi.spyOn(TransactionBuilder.prototype, 'delegateResource')
+      .mockImplementation(async () => structuredClone(transaction) as any);
+    const broadcast = vi.spyOn(Trx.prototype, 'sendRawTransaction').mockResolvedValue({ result: true } as any);
+
+    await expect(adapter.sendToken(params('0'), usdt, recipient, new Big('0.0000001')))
+      .rejects.toMatchObject({ code: ErrorCode.INVALID_AMOUNT });
+
+    const result = await adapter.sendToken(params('0'), usdt, recipient, new Big('12.5'), { feeLimit: new Big(30000000) });
+    expect(result).toEqual({ txHash: transaction.txID, status: 'pending' });
+    expect(trigger).toHaveBeenCalledWith(
+      usdt,
+      'transfer(address,uint256)',
+      { feeLimit: 30000000, callValue: 0 },
+      [{ type: 'address', value: recipient }, { type: 'uint256', value: '12500000' }],
+      from
+    );
+    expect((broadcast.mock.calls[0][0] as any).signature).toHaveLength(1);
+
+    await adapter.delegateResource(params('0'), deposit, new Big(5000000000), { lockPeriod: 28800 });
+    expect(delegate).toHaveBeenCalledWith(5000000000, deposit, 'ENERGY', from, true, 28800);
+    expect(broadcast).toHaveBeenCalledTimes(2);
+  });
+
+  it('should re-broadcast the same signed transaction when failing over', async () => {
+    const adapter = new TronAdapter(masterSeed, { maxRetries: 0 });
+    (adapter.config.endpoints as any).http = [{ url: 'http://primary' }, { url: 'http://backup' }];
+    vi.spyOn(Trx.prototype, 'getBalance').mockResolvedValue(5000000);
+    const build = vi.spyOn(TransactionBuilder.prototype, 'sendTrx')
+      .mockImplementation(async () => structuredClone(transaction) as any);
+    const broadcast = vi.spyOn(Trx.prototype, 'sendRawTransaction')
+      .mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+      // The first node relayed it before the connection dropped
+      .mockResolvedValueOnce({ result: false, code: 'DUP_TRANSACTION_ERROR' } as any);
+
+    const result = await adapter.send(params('0'), recipient, new Big(1000000));
+
+    expect(result).toEqual({ txHash: transaction.txID, status: 'pending' });
+    expect(build).toHaveBeenCalledTimes(1);
+    expect(broadcast).toHaveBeenCalledTimes(2);
+    expect(broadcast.mock.calls[1][0]).toBe(broadcast.mock.calls[0][0]);
+  });
+
+  it('should build token transfers and delegations once across failover', async () => {
+    const adapter = new TronAdapter(masterSeed, { maxRetries: 0 });
+    (adapter.config.endpoints as any).http = [{ url: 'http://primary' }, { url: 'http://backup' }];
+    const deposit = await adapter.deriveAddress(params('1'));
+    vi.spyOn(TransactionBuilder.prototype, 'triggerConstantContract').mockResolvedValue({ constant_result: [uint(6)] } as any);
+    const trigger = vi.spyOn(TransactionBuilder.prototype, 'triggerSmartContract')
+      .mockImplementation(async () => ({ transaction: structuredClone(transaction) }) as any);
+    const delegate = vi.spyOn(TransactionBuilder.prototype, 'delegateResource')
+      .mockImplementation(async () => structuredClone(transaction) as any);
+    const dropped = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+    const broadcast = vi.spyOn(Trx.prototype, 'sendRawTransaction')
+      .mockRejectedValueOnce(dropped)
+      .mockResolvedValueOnce({ result: true } as any)
+      .mockRejectedValueOnce(dropped)
+      .mockResolvedValueOnce({ result: false, code: 'DUP_TRANSACTION_ERROR' } as any);
+
+    await adapter.sendToken(params('0'), usdt, recipient, new Big('12.5'));
+    await adapter.delegateResource(params('0'), deposit, new Big(5000000000));
+
+    expect(trigger).toHaveBeenCalledTimes(1);
+    expect(delegate).toHaveBeenCalledTimes(1);
+    expect(broadcast).toHaveBeenCalledTimes(4);
+    expect(broadcast.mock.calls[1][0]).toBe(broadcast.mock.calls[0][0]);
+    expect(broadcast.mock.calls[3][0]).toBe(broadcast.mock.calls[2][0]);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi } from 'vitest';
+import Big from 'big.js';
+import { AddressWatcher, BlockScanner, WATCHER_STATE_KEY } from '../core/subscriptions/AddressWatcher.js';
+import { MemorySubscriptionStateStore } from '../core/subscriptions/SubscriptionStateStore.js';
+import { IncomingTransaction } from '../types/index.js';
+
+// A chain of blocks each paying the listed addresses; hashes can be replaced to simulate reorgs
+const fakeChain = (tip: number) => {
+  const chain = {
+    tip,
+    payments: new Map<number, string[]>(),
+    hashes: new Map<number, string>(),
+    scanned: [] as number[]
+  };
+  const hash = (height: number) => chain.hashes.get(height) ?? `h${height}`;
+  const scanner: BlockScanner = {
+    getBlockHeight: async () => chain.tip,
+    getBlockHash: async height => hash(height),
+    scanBlock: async (height, addresses) => {
+      chain.scanned.push(height);
+      const transactions = (chain.payments.get(height) ?? [])
+        .filter(to => addresses.has(to.toLowerCase()))
+        .map(to => ({ txHash: `${hash(height)}-tx`, from: 'x', to, amount: new Big(1), blockNumber: height }));
+      return { hash: hash(height), transactions };
+    },
+    normalizeAddress: address => address.toLowerCase()
+  };
+  return { chain, scanner };
+};
+
+describe('AddressWatcher', () => {
+  it('should scan each block once for every watched address and fan out to each callback', async () => {
+    const { chain, scanner } = fakeChain(10);
+    const watcher = new AddressWatcher(scanner, { chain: 'test', pollingInterval: 60000 });
+    const received: string[] = [];
+    const record = (name: string) => (tx: IncomingTransaction) => {
+      received.push(`${name}:${tx.to}:${tx.blockNumber}`);
+    };
+
+    const addresses = Array.from({ length: 50 }, (_, i) => `Addr${i}`);
+    addresses.forEach(address => watcher.watch(address, record('a')));
+    const second = watcher.watch('Addr1', record('b'));
+    await watcher.poll();
+    expect(chain.scanned).toEqual([10]);
+
+    chain.payments.set(11, ['Addr1', 'Addr2', 'Other']);
+    chain.payments.set(12, ['addr1']);
+    chain.tip = 12;
+    await watcher.poll();
+    expect(chain.scanned).toEqual([10, 11, 12]);
+    expect(received).toEqual(['a:Addr1:11', 'b:Addr1:11', 'a:Addr2:11', 'a:addr1:12', 'b:addr1:12']);
+
+    // Removing an address at runtime stops its deliveries without touching the others
+    second();
+    watcher.unwatch('Addr2');
+    received.length = 0;
+    chain.payments.set(13, ['Addr1', 'Addr2', 'Addr3']);
+    chain.tip = 13;
+    await watcher.poll();
+    expect(received).toEqual(['a:Addr1:13', 'a:Addr3:13']);
+    expect(watcher.addresses).toHaveLength(49);
+
+    addresses.forEach(address => watcher.unwatch(address));
+    expect(watcher.addresses).toEqual([]);
+  });
+
+  it('should keep delivering to the other callbacks when one throws', async () => {
+    const { chain, scanner } = fakeChain(1);
+    const logger = { trace: vi.fn(), debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const watcher = new AddressWatcher(scanner, { chain: 'test', pollingInterval: 60000, logger });
+    const received: IncomingTransaction[] = [];
+    watcher.watch('a', () => {
+      throw new Error('handler failed');
+    });
+    const unwatch = watcher.watch('a', tx => {
+      received.push(tx);
+    });
+    await watcher.poll();
+
+    chain.payments.set(2, ['a']);
+    chain.tip = 2;
+    await watcher.poll();
+    unwatch();
+    watcher.unwatch('a');
+
+    expect(received).toHaveLength(1);
+    expect(logger.error).toHaveBeenCalledWith('Subscription callback failed', expect.any(Error), expect.objectContaining({ txHash: 'h2-tx' }));
+  });
+
+  it('should deliver a transaction again after its callback failed', async () => {
+    const { chain, scanner } = fakeChain(1);
+    const store = new MemorySubscriptionStateStore();
+    const watcher = new AddressWatcher(scanner, { chain: 'test', pollingInterval: 60000, store });
+    const received: string[] = [];
+    let ledgerDown = true;
+    watcher.watch('a', tx => {
+      if (ledgerDown) {
+        throw new Error('ledger unavailable');
+      }
+      received.push(`a:${tx.blockNumber}`);
+    });
+    watcher.watch('b', tx => {
+      received.push(`b:${tx.blockNumber}`);
+    });
+    await watcher.poll();
+
+    chain.payments.set(2, ['a']);
+    chain.payments.set(3, ['b']);
+    chain.tip = 3;
+    await watcher.poll();
+    expect(received).toEqual(['b:3']);
+    expect(await store.load('test', WATCHER_STATE_KEY)).toMatchObject({ lastBlock: 1, cursor: 'h1' });
+
+    ledgerDown = false;
+    await watcher.poll();
+    watcher.unwatch('a');
+    watcher.unwatch('b');
+
+    expect(received).toEqual(['b:3', 'a:2']);
+    expect(await store.load('test', WATCHER_STATE_KEY)).toMatchObject({ lastBlock: 3, cursor: 'h3' });
+  });
+
+  it('should give up on a callback that keeps failing without repeating the others', async () => {
+    const { chain, scanner } = fakeChain(1);
+    const store = new MemorySubscriptionStateStore();
+    const logger = { trace: vi.fn(), debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const watcher = new AddressWatcher(scanner, { chain: 'test', pollingInterval: 60000, store, deliveryAttempts: 3, logger });
+    const broken = vi.fn(() => {
+      throw new Error('handler failed');
+    });
+    const received: number[] = [];
+    watcher.watch('a', broken);
+    watcher.watch('a', tx => {
+      received.push(tx.blockNumber!);
+    });
+    await watcher.poll();
+
+    chain.payments.set(2, ['a']);
+    chain.tip = 2;
+    await watcher.poll();
+    await watcher.poll();
+    expect(await store.load('test', WATCHER_STATE_KEY)).toMatchObject({ lastBlock: 1 });
+
+    // The third failed poll gives up on block 2 and the scan moves on
+    await watcher.poll();
+    expect(await store.load('test', WATCHER_STATE_KEY)).toMatchObject({ lastBlock: 2, cursor: 'h2' });
+    expect(logger.error).toHaveBeenCalledWith('Subscription delivery given up', undefined, expect.objectContaining({ txHash: 'h2-tx', attempts: 3 }));
+
+    chain.payments.set(3, ['a']);
+    chain.tip = 3;
+    await watcher.poll();
+    watcher.unwatch('a');
+
+    expect(broken).toHaveBeenCalledTimes(4);
+    expect(received).toEqual([2, 3]);
+  });
+
+  it('should resume from the stored block and rescan when that block was replaced', async () => {
+    const store = new MemorySubscriptionStateStore();
+    await store.save('test', WATCHER_STATE_KEY, { lastBlock: 20, cursor: 'h20', seen: [] });
+    const { chain, scanner } = fakeChain(23);
+    chain.payments.set(22, ['a']);
+
+    const received: number[] = [];
+    const watcher = new AddressWatcher(scanner, { chain: 'test', store, pollingInterval: 60000 });
+    watcher.watch('a', tx => {
+      received.push(tx.blockNumber!);
+    });
+    await watcher.poll();
+    expect(chain.scanned).toEqual([21, 22, 23]);
+    expect(await store.load('test', WATCHER_STATE_KEY)).toMatchObject({ lastBlock: 23, cursor: 'h23' });
+
+    // Block 23 is replaced: the last blocks are scanned again and only new deliveries go out
+    chain.hashes.set(23, 'h23b');
+    chain.payments.set(23, ['a']);
+    chain.scanned = [];
+    await watcher.poll();
+    watcher.unwatch('a');
+
+    expect(chain.scanned).toEqual([18, 19, 20, 21, 22, 23]);
+    expect(received).toEqual([22, 23]);
+  });
+});
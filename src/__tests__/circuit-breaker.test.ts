@@ -0,0 +1,112 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import axios from 'axios';
+import { BitcoinAdapterV2 } from '../adapters/bitcoin/BitcoinAdapterV2.js';
+import { ConfigManager } from '../core/config/ConfigManager.js';
+import { CircuitBreaker, CircuitState, ErrorCode, ErrorFactory, withCircuitBreaker } from '../core/errors/index.js';
+
+const fail = () => Promise.reject(new Error('service unavailable'));
+const succeed = () => Promise.resolve('ok');
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should open on the failure rate within the window and fail fast', async () => {
+    const transitions: CircuitState[] = [];
+    const breaker = new CircuitBreaker({
+      failureThreshold: 3,
+      failureRateThreshold: 0.5,
+      onStateChange: state => transitions.push(state)
+    });
+
+    // 2 of 4 failed: under the threshold count
+    for (const call of [succeed, fail, succeed, fail]) {
+      await breaker.execute(call).catch(() => undefined);
+    }
+    expect(breaker.state).toBe('closed');
+
+    await expect(breaker.execute(fail)).rejects.toThrow('service unavailable');
+    expect(breaker.state).toBe('open');
+
+    const operation = vi.fn(succeed);
+    await expect(breaker.execute(operation)).rejects.toMatchObject({
+      code: ErrorCode.CIRCUIT_OPEN,
+      message: expect.stringContaining('Circuit breaker is OPEN')
+    });
+    expect(operation).not.toHaveBeenCalled();
+    expect(transitions).toEqual(['open']);
+  });
+
+  it('should forget failures that fall out of the window', async () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker({ failureThreshold: 2, windowMs: 1000 });
+
+    await breaker.execute(fail).catch(() => undefined);
+    vi.advanceTimersByTime(1500);
+    await breaker.execute(fail).catch(() => undefined);
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should not count validation errors against the circuit', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 });
+
+    await breaker.execute(() => Promise.reject(ErrorFactory.invalidParams('bad', {}))).catch(() => undefined);
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should close after the half-open trial calls succeed and reopen if one fails', async () => {
+    vi.useFakeTimers();
+    const transitions: CircuitState[] = [];
+    const breaker = withCircuitBreaker({
+      failureThreshold: 1,
+      resetTimeout: 5000,
+      halfOpenRetries: 2,
+      onStateChange: state => transitions.push(state)
+    });
+
+    await breaker(fail).catch(() => undefined);
+    vi.advanceTimersByTime(5000);
+    await breaker(succeed);
+    await breaker(fail).catch(() => undefined);
+    expect(transitions).toEqual(['open', 'half-open', 'open']);
+
+    vi.advanceTimersByTime(5000);
+    await breaker(succeed);
+    await breaker(succeed);
+    expect(transitions).toEqual(['open', 'half-open', 'open', 'half-open', 'closed']);
+  });
+
+  it('should publish adapter circuit transitions as status events', async () => {
+    const adapter = new BitcoinAdapterV2(
+      new Uint8Array(32).fill(29),
+      { maxRetries: 0, circuitBreaker: { failureThreshold: 2 } },
+      undefined,
+      undefined,
+      ConfigManager.getInstance().bitcoinNetworkConfig('regtest', 'http://127.0.0.1:3002')
+    );
+    const address = await adapter.deriveAddress({
+      scope: 'wallet',
+      userId: '123e4567-e89b-12d3-a456-426614174000',
+      chain: 'bitcoin',
+      index: '0'
+    });
+    const statuses: unknown[][] = [];
+    adapter.on('status', (...args) => statuses.push(args));
+    const get = vi.spyOn(axios, 'get').mockRejectedValue(new Error('ECONNREFUSED'));
+
+    await expect(adapter.getAddressBalance(address)).rejects.toThrow('ECONNREFUSED');
+    await expect(adapter.getAddressBalance(address)).rejects.toThrow('ECONNREFUSED');
+    await expect(adapter.getAddressBalance(address)).rejects.toMatchObject({ code: ErrorCode.CIRCUIT_OPEN });
+
+    expect(get).toHaveBeenCalledTimes(2);
+    // The endpoint's breaker trips along with the chain's
+    expect(statuses).toEqual([
+      ['disconnected', 'Circuit breaker for bitcoin:http://127.0.0.1:3002 is open'],
+      ['disconnected', 'Circuit breaker for bitcoin is open']
+    ]);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import axios from 'axios';
+import Big from 'big.js';
+import { address as btcAddress, networks, Block, Transaction } from 'bitcoinjs-lib';
+import { BitcoinAdapterV2 } from '../adapters/bitcoin/BitcoinAdapterV2.js';
+import { ConfigManager } from '../core/config/ConfigManager.js';
+import { ConfirmationTracker } from '../core/subscriptions/ConfirmationTracker.js';
+import { IncomingTransaction, TransactionLocation } from '../types/index.js';
+
+const deposit: IncomingTransaction = { txHash: 'tx1', from: 'alice', to: 'bob', amount: new Big(100) };
+
+// A chain whose tip and transaction location the test moves around
+const chain = () => {
+  const state: { height: number; location: TransactionLocation | null } = { height: 100, location: {} };
+  return {
+    state,
+    source: {
+      getBlockHeight: async () => state.height,
+      getTransactionLocation: async () => state.location
+    }
+  };
+};
+
+// Refreshes and applies every update, as a subscription does after delivering them
+const step = async (tracker: ConfirmationTracker) => {
+  const updates = await tracker.refresh();
+  updates.forEach(update => tracker.apply(update));
+  return updates.map(update => [update.status, update.confirmations]);
+};
+
+describe('Confirmation tracking', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should report pending, each confirmation and finality', async () => {
+    const { state, source } = chain();
+    const tracker = new ConfirmationTracker(source, 3);
+    tracker.add(deposit);
+
+    expect(await step(tracker)).toEqual([['pending', 0]]);
+    expect(await step(tracker)).toEqual([]);
+
+    state.location = { blockNumber: 101, blockHash: 'A' };
+    state.height = 101;
+    expect(await step(tracker)).toEqual([['confirmed', 1]]);
+
+    state.height = 103;
+    expect(await step(tracker)).toEqual([['final', 3]]);
+    expect(tracker.tracked).toEqual([]);
+  });
+
+  it('should report a reorg when the block hash changes, then confirm again', async () => {
+    const { state, source } = chain();
+    state.location = { blockNumber: 101, blockHash: 'A' };
+    state.height = 101;
+    const tracker = new ConfirmationTracker(source, 6);
+    tracker.add(deposit);
+    await step(tracker);
+
+    state.location = { blockNumber: 102, blockHash: 'B' };
+    state.height = 102;
+    const [reorged] = await tracker.refresh();
+    expect(reorged).toMatchObject({ txHash: 'tx1', status: 'reorged', blockNumber: 102, blockHash: 'B' });
+    tracker.apply(reorged);
+
+    expect(await step(tracker)).toEqual([['confirmed', 1]]);
+  });
+
+  it('should only report dropped transactions that were delivered', async () => {
+    const { state, source } = chain();
+    const tracker = new ConfirmationTracker(source, 1);
+    tracker.add(deposit);
+    await step(tracker);
+
+    state.location = null;
+    tracker.add({ ...deposit, txHash: 'tx2' });
+    expect(await step(tracker)).toEqual([['dropped', 0]]);
+    expect(tracker.tracked).toEqual([]);
+  });
+
+  it('should deliver Bitcoin deposits again as they confirm and publish transaction events', async () => {
+    const adapter = new BitcoinAdapterV2(
+      new Uint8Array(32).fill(47),
+      { maxRetries: 0, pollingInterval: 60000, confirmations: 2, watchMempool: true },
+      undefined,
+      undefined,
+      ConfigManager.getInstance().bitcoinNetworkConfig('regtest', 'http://127.0.0.1:3012')
+    );
+    const address = await adapter.deriveAddress({
+      scope: 'wallet',
+      userId: '123e4567-e89b-12d3-a456-426614174000',
+      chain: 'bitcoin',
+      index: '0'
+    });
+    const script = btcAddress.toOutputScript(address, networks.regtest);
+    const deposit = new Transaction();
+    deposit.addInput(new Uint8Array(32).fill(1), 0);
+    deposit.addOutput(script, 7000n);
+    const txid = deposit.getId();
+
+    // Blocks are empty unless listed in `mined`
+    const node = {
+      height: 500,
+      hashes: new Map<number, string>(),
+      mined: new Map<string, Transaction[]>(),
+      mempool: [] as string[],
+      status: { confirmed: false } as Record<string, unknown>
+    };
+    const rawBlock = (transactions: Transaction[]) => {
+      const block = new Block();
+      Object.assign(block, { version: 1, prevHash: new Uint8Array(32), merkleRoot: new Uint8Array(32), timestamp: 1700000000, bits: 0, nonce: 0 });
+      block.transactions = transactions;
+      return Buffer.from(block.toBuffer());
+    };
+    const get = vi.spyOn(axios, 'get').mockImplementation(async (url: string) => {
+      const path = url.replace('http://127.0.0.1:3012', '');
+      if (path === '/blocks/tip/height') {
+        return { data: node.height };
+      }
+      if (path.startsWith('/block-height/')) {
+        const height = Number(path.split('/')[2]);
+        return { data: node.hashes.get(height) ?? `h${height}` };
+      }
+      if (path.endsWith('/raw')) {
+        return { data: rawBlock(node.mined.get(path.split('/')[2]) ?? []) };
+      }
+      if (path === '/mempool/txids') {
+        return { data: node.mempool };
+      }
+      if (path === `/tx/${txid}`) {
+        return { data: { txid, status: node.status, vout: [{ scriptpubkey: Buffer.from(script).toString('hex'), value: 7000 }] } };
+      }
+      if (path === `/tx/${txid}/status`) {
+        return { data: node.status };
+      }
+      throw new Error(`unexpected ${url}`);
+    });
+
+    const received: IncomingTransaction[] = [];
+    const events: unknown[] = [];
+    adapter.on('transaction', event => events.push(event));
+    const unsubscribe = await adapter.subscribe(address, tx => {
+      received.push(tx);
+    });
+    // Polls are skipped while one is running, so keep polling until the update arrives
+    const pollUntil = (count: number) => vi.waitFor(async () => {
+      await (adapter as any).addressWatcher.poll();
+      expect(received).toHaveLength(count);
+    });
+    // The first poll records what is already in the mempool
+    await vi.waitFor(() => expect(get).toHaveBeenCalledWith('http://127.0.0.1:3012/mempool/txids', expect.anything()));
+
+    node.mempool = [txid];
+    await pollUntil(1);
+
+    node.mempool = [];
+    node.mined.set('h501', [deposit]);
+    node.status = { confirmed: true, block_height: 501, block_hash: 'h501' };
+    node.height = 501;
+    await pollUntil(2);
+
+    // The block at 501 is replaced and the deposit lands in 502
+    node.hashes.set(501, 'h501b');
+    node.mined.set('h502', [deposit]);
+    node.status = { confirmed: true, block_height: 502, block_hash: 'h502' };
+    node.height = 502;
+    await pollUntil(4);
+    await unsubscribe();
+
+    expect(received.map(tx => [tx.status, tx.confirmations, tx.blockHash])).toEqual([
+      ['pending', 0, undefined],
+      ['confirmed', 1, 'h501'],
+      ['reorged', 0, 'h502'],
+      ['confirmed', 1, 'h502']
+    ]);
+    expect(events[1]).toMatchObject({ txHash: txid, amount: '7000', status: 'confirmed', confirmations: 1 });
+  });
+});
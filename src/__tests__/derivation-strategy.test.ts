@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { Buffer } from "buffer";
+import { Bip32DerivationStrategy, mnemonicToSeed, STANDARD_PATHS } from "../core/derivation/DerivationStrategy.js";
+import { BitcoinAdapterV2 } from "../adapters/bitcoin/BitcoinAdapterV2.js";
+import { EvmAdapterV2 } from "../adapters/evm/EvmAdapterV2.js";
+import { ConfigManager } from "../core/config/ConfigManager.js";
+import { ErrorCode } from "../core/errors/index.js";
+
+const abandon = "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about";
+const hardhat = "test test test test test test test test test test test junk";
+const params = { scope: "wallet", userId: "default", index: "0" };
+
+describe("Bip32DerivationStrategy", () => {
+  const adapterConfig = (mnemonic: string) => ({
+    mode: "derive-only" as const,
+    derivationStrategy: Bip32DerivationStrategy.fromMnemonic(mnemonic)
+  });
+
+  it("should derive the standard EVM address", async () => {
+    const adapter = new EvmAdapterV2("ethereum", ConfigManager.getInstance().getChainConfig("ethereum"), new Uint8Array(32), adapterConfig(hardhat));
+
+    const address = await adapter.deriveAddress({ ...params, chain: "ethereum" });
+
+    expect(address.toLowerCase()).toBe("0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266");
+  });
+
+  it("should follow the BIP-84 and BIP-86 paths for Bitcoin", async () => {
+    const segwit = new BitcoinAdapterV2(new Uint8Array(32), { ...adapterConfig(abandon), scriptType: "p2wpkh" });
+    const taproot = new BitcoinAdapterV2(new Uint8Array(32), { ...adapterConfig(abandon), scriptType: "p2tr" });
+
+    expect(await segwit.deriveAddress({ ...params, chain: "bitcoin" })).toBe("bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu");
+    expect(await taproot.deriveAddress({ ...params, chain: "bitcoin" })).toBe("bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr");
+  });
+
+  it("should derive ed25519 keys with SLIP-10", () => {
+    // SLIP-10 test vector 1 for ed25519, chain m/0'
+    const strategy = new Bip32DerivationStrategy(Buffer.from("000102030405060708090a0b0c0d0e0f", "hex"));
+
+    const key = strategy.derivePrivateKey({ ...params, chain: "solana" }, () => ({ curve: "ed25519", path: "m/0'" }));
+
+    expect(Buffer.from(key).toString("hex")).toBe("68e0fe46dfb67e368c75379acec591dad19df3cde26e63b93a8e704f1dade7a3");
+  });
+
+  it("should reject invalid mnemonics and non-numeric indexes", () => {
+    const strategy = Bip32DerivationStrategy.fromMnemonic(abandon);
+
+    expect(() => mnemonicToSeed("abandon abandon abandon")).toThrow(expect.objectContaining({ code: ErrorCode.INVALID_CONFIG }));
+    expect(() => strategy.derivePrivateKey({ ...params, index: "user-1", chain: "ethereum" }, STANDARD_PATHS.evm))
+      .toThrow(expect.objectContaining({ code: ErrorCode.INVALID_PARAMS }));
+  });
+
+  it("should refuse params of other users when it has an owner", () => {
+    const strategy = Bip32DerivationStrategy.fromMnemonic(abandon, "", { owner: { scope: "wallet", userId: "default" } });
+    const located = Bip32DerivationStrategy.fromMnemonic(abandon, "", {
+      locate: ({ userId, index }) => ({ account: userId === "default" ? 0 : 1, index: Number(index) })
+    });
+    const other = { ...params, userId: "other", chain: "ethereum" as const };
+
+    expect(() => strategy.derivePrivateKey(other, STANDARD_PATHS.evm)).toThrow(expect.objectContaining({ code: ErrorCode.INVALID_PARAMS }));
+    expect(strategy.derivePrivateKey({ ...params, chain: "ethereum" }, STANDARD_PATHS.evm))
+      .toEqual(located.derivePrivateKey({ ...params, chain: "ethereum" }, STANDARD_PATHS.evm));
+    expect(located.derivePrivateKey(other, STANDARD_PATHS.evm))
+      .not.toEqual(located.derivePrivateKey({ ...params, chain: "ethereum" }, STANDARD_PATHS.evm));
+  });
+});
@@ -1,8 +1,13 @@
 import { describe, it, expect } from "vitest";
-import { deriveEntropy } from "../utils/derivation.js";
+import { createHmac } from "crypto";
+import { deriveEntropy, findDerivationCollisions } from "../utils/derivation.js";
 import { BitcoinAdapter } from "../adapters/bitcoin/BitcoinAdapter.js";
+import { BitcoinAdapterV2 } from "../adapters/bitcoin/BitcoinAdapterV2.js";
 import { EvmAdapter } from "../adapters/evm/EvmAdapter.js";
 import { SupportedChain } from "../constants/config.js";
+import { AdapterRegistry } from "../core/AdapterRegistry.js";
+import { HDWallet } from "../core/HDWallet.js";
+import { ErrorCode } from "../core/errors/index.js";
 
 describe("Derivation Utilities", () => {
   const masterSeed = new Uint8Array(32).fill(1); // Example master seed
@@ -52,4 +57,57 @@ describe("Derivation Utilities", () => {
       }).toThrow("Unsupported chain: unsupported");
     });
   });
-});
\ No newline at end of file
+
+  describe("derivation versions", () => {
+    const params = { ...commonParams, chain: "bitcoin" as const };
+    // Different params that v1 writes as the same "a:b:c:..." input
+    const colliding = [
+      { ...params, scope: "a:b", userId: "c" },
+      { ...params, scope: "a", userId: "b:c" }
+    ];
+
+    it("should keep v1 identical to the original HMAC input", () => {
+      const original = createHmac("sha512", Buffer.from(masterSeed)).update("wallet:default:bitcoin:0").digest();
+
+      expect(Buffer.from(deriveEntropy(masterSeed, params))).toEqual(original);
+      expect(Buffer.from(deriveEntropy(masterSeed, params, "v1"))).toEqual(original);
+      expect(deriveEntropy(masterSeed, params, "v2")).not.toEqual(original);
+    });
+
+    it("should separate params that collide under v1", () => {
+      expect(deriveEntropy(masterSeed, colliding[0], "v1")).toEqual(deriveEntropy(masterSeed, colliding[1], "v1"));
+      expect(deriveEntropy(masterSeed, colliding[0], "v2")).not.toEqual(deriveEntropy(masterSeed, colliding[1], "v2"));
+
+      expect(findDerivationCollisions([...colliding, params, colliding[0]], "v1")).toEqual([colliding]);
+      expect(findDerivationCollisions(colliding, "v2")).toEqual([]);
+    });
+
+    it("should reject unknown versions", () => {
+      expect(() => deriveEntropy(masterSeed, params, "v9" as any)).toThrow(expect.objectContaining({ code: ErrorCode.INVALID_CONFIG }));
+    });
+
+    it("should list old and new addresses for a migration", async () => {
+      class BitcoinAdapterConstructor {
+        static readonly chainName = "bitcoin" as const;
+        constructor(seed: Uint8Array, config?: any) {
+          return new BitcoinAdapterV2(seed, config);
+        }
+      }
+      const registry = AdapterRegistry.getInstance();
+      registry.initialize(masterSeed);
+      registry.registerAdapter(BitcoinAdapterConstructor as any);
+      const wallet = new HDWallet(masterSeed, registry);
+
+      const plan = await wallet.planDerivationMigration([params, ...colliding]);
+
+      expect(plan).toMatchObject({ from: "v1", to: "v2", collisions: [colliding] });
+      expect(plan.addresses[0]).toEqual({
+        params,
+        from: await new BitcoinAdapterV2(masterSeed, { mode: "derive-only" }).deriveAddress(params),
+        to: await new BitcoinAdapterV2(masterSeed, { mode: "derive-only", derivation: "v2" }).deriveAddress(params)
+      });
+      expect(plan.addresses[1].from).toBe(plan.addresses[2].from);
+      expect(plan.addresses[1].to).not.toBe(plan.addresses[2].to);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import axios from 'axios';
+import Big from 'big.js';
+import { AdapterRegistry } from '../core/AdapterRegistry.js';
+import { HDWallet } from '../core/HDWallet.js';
+import { BitcoinAdapterV2 } from '../adapters/bitcoin/BitcoinAdapterV2.js';
+import { TronAdapter } from '../adapters/tron/TronAdapter.js';
+import { ConfigManager } from '../core/config/ConfigManager.js';
+import { ErrorCode } from '../core/errors/index.js';
+
+const masterSeed = new Uint8Array(32).fill(51);
+const user = { scope: 'deposit', userId: '123e4567-e89b-12d3-a456-426614174000', chain: 'bitcoin' as const };
+
+describe('Address discovery', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // A wallet whose Bitcoin adapter sees activity on the given indexes only
+  const walletWithActivity = async (indexFormat: (index: number) => string, usedIndexes: number[]) => {
+    const adapter = new BitcoinAdapterV2(
+      masterSeed,
+      { maxRetries: 0 },
+      undefined,
+      undefined,
+      ConfigManager.getInstance().bitcoinNetworkConfig('regtest', 'http://127.0.0.1:3013')
+    );
+    const registry = AdapterRegistry.getInstance();
+    vi.spyOn(registry, 'loadAdapter').mockResolvedValue(adapter);
+
+    const used = new Set<string>();
+    for (const index of usedIndexes) {
+      used.add(await adapter.deriveAddress({ ...user, index: indexFormat(index) }));
+    }
+    const get = vi.spyOn(axios, 'get').mockImplementation(async (url: string) => {
+      const address = url.split('/address/')[1];
+      // Emptied addresses count too: only the transaction count matters
+      return { data: { chain_stats: { tx_count: used.has(address) ? 2 : 0, funded_txo_sum: 0, spent_txo_sum: 0 }, mempool_stats: { tx_count: 0 } } };
+    });
+    return { wallet: new HDWallet(masterSeed, registry), get };
+  };
+
+  it('should return the used indexes and stop after the gap limit', async () => {
+    const { wallet, get } = await walletWithActivity(String, [0, 1, 4, 9]);
+
+    const result = await wallet.discover(user, { gapLimit: 5, concurrency: 3 });
+
+    expect(result.used.map(entry => entry.params.index)).toEqual(['0', '1', '4', '9']);
+    expect(result.used[2].address).toBe(await wallet.deriveAddress({ ...user, index: '4' }));
+    expect(result.nextIndex).toBe(10);
+    // Indexes 0 to 14: the last used one plus the gap
+    expect(get).toHaveBeenCalledTimes(15);
+  });
+
+  it('should derive indexes in the given format', async () => {
+    const format = (index: number) => `addr-${String(index).padStart(4, '0')}`;
+    const { wallet } = await walletWithActivity(format, [2]);
+
+    const result = await wallet.discover(user, { gapLimit: 3, indexFormat: format });
+
+    expect(result.used.map(entry => entry.params.index)).toEqual(['addr-0002']);
+    expect(result.nextIndex).toBe(3);
+  });
+
+  it('should reject invalid options', async () => {
+    const { wallet } = await walletWithActivity(String, []);
+
+    await expect(wallet.discover(user, { gapLimit: 0 })).rejects.toMatchObject({ code: ErrorCode.INVALID_PARAMS });
+  });
+
+  it('should only fall back to balances when asked to', async () => {
+    const adapter = new TronAdapter(masterSeed, { maxRetries: 0 });
+    const registry = AdapterRegistry.getInstance();
+    vi.spyOn(registry, 'loadAdapter').mockResolvedValue(adapter);
+    const funded = await adapter.deriveAddress({ ...user, chain: 'tron', index: '1' });
+    vi.spyOn(adapter as any, 'getBalanceForAddress').mockImplementation(async address => new Big(address === funded ? 5 : 0));
+    const logger = { trace: vi.fn(), debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const wallet = new HDWallet(masterSeed, registry, logger);
+    const tronUser = { ...user, chain: 'tron' as const };
+
+    expect(adapter.activityFromBalance).toBe(true);
+    await expect(wallet.discover(tronUser, { gapLimit: 2 })).rejects.toMatchObject({ code: ErrorCode.INVALID_PARAMS });
+
+    const result = await wallet.discover(tronUser, { gapLimit: 2, allowBalanceFallback: true });
+    expect(result.used.map(entry => entry.address)).toEqual([funded]);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('by balance'), { chain: 'tron' });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import axios from 'axios';
+import { BitcoinAdapterV2 } from '../adapters/bitcoin/BitcoinAdapterV2.js';
+import { TronAdapter } from '../adapters/tron/TronAdapter.js';
+import { ConfigManager } from '../core/config/ConfigManager.js';
+import { ErrorCode } from '../core/errors/index.js';
+import { RpcRouter } from '../core/rpc/RpcRouter.js';
+
+const endpoints = [{ url: 'http://a' }, { url: 'http://b' }, { url: 'http://c' }];
+
+// Answers per endpoint URL: [value, blockHeight]
+const answering = (answers: Record<string, [string, number]>) =>
+  async ({ url }: { url: string }) => ({ value: answers[url][0], blockHeight: answers[url][1] });
+
+describe('Quorum reads', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should return the value enough endpoints agree on', async () => {
+    const router = new RpcRouter(endpoints);
+    const value = await router.executeQuorum('getBalance', answering({
+      'http://a': ['100', 50],
+      'http://b': ['100', 51],
+      'http://c': ['90', 51]
+    }), { threshold: 2 });
+
+    expect(value).toBe('100');
+  });
+
+  it('should ignore answers from endpoints lagging beyond the block tolerance', async () => {
+    const router = new RpcRouter(endpoints);
+    const operation = answering({
+      'http://a': ['100', 40],
+      'http://b': ['100', 50],
+      'http://c': ['90', 50]
+    });
+
+    await expect(router.executeQuorum('getBalance', operation, { threshold: 2, blockTolerance: 5 })).rejects.toMatchObject({
+      code: ErrorCode.QUORUM_NOT_REACHED,
+      context: {
+        agreeing: 1,
+        responses: expect.arrayContaining([{ endpoint: 'http://a', value: '"100"', blockHeight: 40, stale: true }])
+      }
+    });
+    await expect(router.executeQuorum('getBalance', operation, { threshold: 2, blockTolerance: 10 })).resolves.toBe('100');
+  });
+
+  it('should only ask as many endpoints as configured', async () => {
+    const router = new RpcRouter(endpoints);
+    const operation = vi.fn(answering({ 'http://a': ['1', 1], 'http://b': ['1', 1], 'http://c': ['1', 1] }));
+
+    await router.executeQuorum('getBalance', operation, { threshold: 2, endpoints: 2 });
+
+    expect(operation).toHaveBeenCalledTimes(2);
+    await expect(router.executeQuorum('getBalance', operation, { threshold: 4 })).rejects.toMatchObject({
+      code: ErrorCode.INVALID_CONFIG
+    });
+  });
+
+  it('should emit the divergent answers when an adapter read lacks a quorum', async () => {
+    const chainConfig = ConfigManager.getInstance().bitcoinNetworkConfig('regtest', 'http://127.0.0.1:3002');
+    chainConfig.endpoints.http = ['3002', '3003', '3004'].map(port => ({ url: `http://127.0.0.1:${port}` }));
+    const adapter = new BitcoinAdapterV2(
+      new Uint8Array(32).fill(37),
+      { maxRetries: 1, quorum: { threshold: 2 } },
+      undefined,
+      undefined,
+      chainConfig
+    );
+    const address = await adapter.deriveAddress({
+      scope: 'wallet',
+      userId: '123e4567-e89b-12d3-a456-426614174000',
+      chain: 'bitcoin',
+      index: '0'
+    });
+
+    const funded: Record<string, number> = { '3002': 5000, '3003': 5000, '3004': 9000 };
+    vi.spyOn(axios, 'get').mockImplementation(async (url: string) => {
+      const port = url.substring('http://127.0.0.1:'.length, 'http://127.0.0.1:'.length + 4);
+      if (url.endsWith('/blocks/tip/height')) {
+        return { data: 800000 };
+      }
+      return { data: { chain_stats: { funded_txo_sum: funded[port], spent_txo_sum: 0 } } };
+    });
+
+    expect((await adapter.getAddressBalance(address)).toNumber()).toBe(5000);
+
+    funded['3003'] = 7000;
+    const errors: unknown[][] = [];
+    adapter.on('error', (...args) => errors.push(args));
+
+    await expect(adapter.getAddressBalance(address)).rejects.toMatchObject({ code: ErrorCode.QUORUM_NOT_REACHED });
+    // Emitted once, not once per attempt
+    expect(errors).toHaveLength(1);
+    expect(errors[0][1]).toMatchObject({
+      method: 'getBalance',
+      // Endpoints are asked in latency order
+      responses: expect.arrayContaining([
+        { endpoint: 'http://127.0.0.1:3002', value: '5000', blockHeight: 800000, stale: false },
+        { endpoint: 'http://127.0.0.1:3003', value: '7000', blockHeight: 800000, stale: false },
+        { endpoint: 'http://127.0.0.1:3004', value: '9000', blockHeight: 800000, stale: false }
+      ])
+    });
+  });
+
+  it('should reject quorum reads on adapters without per-endpoint reads', () => {
+    expect(() => new TronAdapter(new Uint8Array(32).fill(37), { quorum: { threshold: 2 } })).toThrow(
+      expect.objectContaining({ code: ErrorCode.INVALID_CONFIG })
+    );
+  });
+});
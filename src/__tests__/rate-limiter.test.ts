@@ -0,0 +1,111 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import axios from 'axios';
+import { BitcoinAdapterV2 } from '../adapters/bitcoin/BitcoinAdapterV2.js';
+import { ConfigManager } from '../core/config/ConfigManager.js';
+import { ErrorCode, ErrorFactory, withRetry } from '../core/errors/index.js';
+import { RateLimiter, parseRetryAfter, rateLimitErrorFrom } from '../core/rpc/RateLimiter.js';
+
+const tooManyRequests = (retryAfter?: string) => Object.assign(new Error('Request failed with status code 429'), {
+  isAxiosError: true,
+  response: { status: 429, headers: retryAfter ? { 'retry-after': retryAfter } : {} }
+});
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should start requests at the configured rate after the burst', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ requestsPerSecond: 2, burst: 2 });
+    const started: number[] = [];
+
+    for (let i = 0; i < 4; i++) {
+      void limiter.schedule(async () => { started.push(i); });
+    }
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1]);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(started).toEqual([0, 1, 2]);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(started).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should cap the requests in flight', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 100, concurrency: 2 });
+    let active = 0;
+    let peak = 0;
+
+    await Promise.all(Array.from({ length: 6 }, () => limiter.schedule(async () => {
+      peak = Math.max(peak, ++active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+    })));
+
+    expect(peak).toBe(2);
+  });
+
+  it('should map HTTP 429s and JSON-RPC rate limits to RATE_LIMIT_ERROR', () => {
+    expect(rateLimitErrorFrom(tooManyRequests('3'))).toMatchObject({
+      code: ErrorCode.RATE_LIMIT_ERROR,
+      isRetryable: true,
+      context: { retryAfterMs: 3000 }
+    });
+    expect(rateLimitErrorFrom({ code: -32005, message: 'daily request count exceeded' })).toMatchObject({
+      code: ErrorCode.RATE_LIMIT_ERROR
+    });
+    expect(rateLimitErrorFrom(Object.assign(new Error('bad response'), { status: 503 }))).toBeUndefined();
+    expect(rateLimitErrorFrom(new Error('execution reverted'))).toBeUndefined();
+    expect(parseRetryAfter(new Date(Date.now() + 10000).toUTCString())).toBeGreaterThan(8000);
+  });
+
+  it('should wait at least Retry-After before retrying', async () => {
+    vi.useFakeTimers();
+    const fn = vi.fn()
+      .mockRejectedValueOnce(ErrorFactory.rateLimited('Too many requests', { retryAfterMs: 5000 }))
+      .mockResolvedValue('ok');
+
+    const result = withRetry(fn, { initialDelay: 100 });
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(result).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should pause a rate-limited adapter endpoint for Retry-After', async () => {
+    vi.useFakeTimers();
+    const adapter = new BitcoinAdapterV2(
+      new Uint8Array(32).fill(41),
+      { maxRetries: 0 },
+      undefined,
+      undefined,
+      ConfigManager.getInstance().bitcoinNetworkConfig('regtest', 'http://127.0.0.1:3010')
+    );
+    const address = await adapter.deriveAddress({
+      scope: 'wallet',
+      userId: '123e4567-e89b-12d3-a456-426614174000',
+      chain: 'bitcoin',
+      index: '0'
+    });
+    const get = vi.spyOn(axios, 'get')
+      .mockRejectedValueOnce(tooManyRequests('2'))
+      .mockResolvedValue({ data: { chain_stats: { funded_txo_sum: 3000, spent_txo_sum: 0 } } });
+
+    await expect(adapter.getAddressBalance(address)).rejects.toMatchObject({
+      code: ErrorCode.RATE_LIMIT_ERROR,
+      context: { endpoint: 'http://127.0.0.1:3010', retryAfterMs: 2000 }
+    });
+
+    const balance = adapter.getAddressBalance(address);
+    await vi.advanceTimersByTimeAsync(1900);
+    expect(get).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect((await balance).toNumber()).toBe(3000);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import axios from 'axios';
+import { BitcoinAdapterV2 } from '../adapters/bitcoin/BitcoinAdapterV2.js';
+import { ConfigManager } from '../core/config/ConfigManager.js';
+import { ErrorCode, ErrorFactory, NetworkError, DrxaError } from '../core/errors/index.js';
+import { RpcRouter, isEndpointError } from '../core/rpc/RpcRouter.js';
+
+const endpoints = [{ url: 'http://primary' }, { url: 'http://backup' }];
+
+describe('RpcRouter', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should fail over on network errors and rank the failed endpoint last', async () => {
+    const router = new RpcRouter(endpoints);
+    const calls: string[] = [];
+
+    const result = await router.execute(async endpoint => {
+      calls.push(endpoint.url);
+      if (endpoint.url === 'http://primary') {
+        throw new NetworkError('socket hang up');
+      }
+      return 'ok';
+    });
+
+    expect(result).toBe('ok');
+    expect(calls).toEqual(['http://primary', 'http://backup']);
+    expect(router.endpoints.map(endpoint => endpoint.url)).toEqual(['http://backup', 'http://primary']);
+    expect(router.health()[0]).toMatchObject({ healthy: false, lastError: 'socket hang up' });
+  });
+
+  it('should not fail over on errors from the request itself', async () => {
+    const router = new RpcRouter(endpoints);
+    const operation = vi.fn().mockRejectedValue(ErrorFactory.invalidParams('bad address', {}));
+
+    await expect(router.execute(operation)).rejects.toMatchObject({ code: ErrorCode.INVALID_PARAMS });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw the last error once every endpoint has failed', async () => {
+    const router = new RpcRouter(endpoints);
+    const rateLimited = new DrxaError(ErrorCode.RATE_LIMIT_ERROR, 'Too many requests');
+
+    await expect(router.execute(async () => { throw rateLimited; })).rejects.toBe(rateLimited);
+  });
+
+  it('should route around endpoints that fail their health check', async () => {
+    const router = new RpcRouter(endpoints, {
+      healthCheck: async endpoint => {
+        if (endpoint.url === 'http://primary') {
+          throw new Error('unreachable');
+        }
+      }
+    });
+
+    await router.checkHealth();
+
+    expect(router.endpoints[0].url).toBe('http://backup');
+    expect(router.health().map(health => health.healthy)).toEqual([false, true]);
+  });
+
+  it('should classify rate limits and server errors as endpoint errors', () => {
+    expect(isEndpointError({ isAxiosError: true, response: { status: 429 } })).toBe(true);
+    expect(isEndpointError({ isAxiosError: true, response: { status: 503 } })).toBe(true);
+    expect(isEndpointError({ isAxiosError: true, response: { status: 404 } })).toBe(false);
+    expect(isEndpointError({ code: 'ECONNREFUSED' })).toBe(true);
+    expect(isEndpointError(new Error('execution reverted'))).toBe(false);
+  });
+
+  it('should keep an adapter working when its primary endpoint is down', async () => {
+    const chainConfig = ConfigManager.getInstance().bitcoinNetworkConfig('regtest', 'http://127.0.0.1:3002');
+    chainConfig.endpoints.http = [{ url: 'http://127.0.0.1:3002' }, { url: 'http://127.0.0.1:3003' }];
+    const adapter = new BitcoinAdapterV2(new Uint8Array(32).fill(31), { maxRetries: 0 }, undefined, undefined, chainConfig);
+    const address = await adapter.deriveAddress({
+      scope: 'wallet',
+      userId: '123e4567-e89b-12d3-a456-426614174000',
+      chain: 'bitcoin',
+      index: '0'
+    });
+
+    const get = vi.spyOn(axios, 'get').mockImplementation(async (url: string) => {
+      if (url.startsWith('http://127.0.0.1:3002')) {
+        throw Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+      }
+      return { data: { chain_stats: { funded_txo_sum: 5000, spent_txo_sum: 1000 } } };
+    });
+
+    const balance = await adapter.getAddressBalance(address);
+
+    expect(balance.toNumber()).toBe(4000);
+    expect(get.mock.calls.map(([url]) => url)).toEqual([
+      `http://127.0.0.1:3002/address/${address}`,
+      `http://127.0.0.1:3003/address/${address}`
+    ]);
+  });
+});
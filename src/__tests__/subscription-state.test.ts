@@ -0,0 +1,143 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import axios from 'axios';
+import { promises as fs } from 'fs';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { address as btcAddress, networks, Block, Transaction } from 'bitcoinjs-lib';
+import { BitcoinAdapterV2 } from '../adapters/bitcoin/BitcoinAdapterV2.js';
+import { ConfigManager } from '../core/config/ConfigManager.js';
+import { JsonFileSubscriptionStateStore } from '../core/subscriptions/SubscriptionStateStore.js';
+import { WATCHER_STATE_KEY } from '../core/subscriptions/AddressWatcher.js';
+import { IncomingTransaction } from '../types/index.js';
+
+// A block with one transaction per payment; the contents are all that matters to a scan
+const regtestBlock = (height: number, payments: Array<{ script: Uint8Array; value: number }>) => {
+  const block = new Block();
+  block.version = 1;
+  block.prevHash = new Uint8Array(32);
+  block.merkleRoot = new Uint8Array(32);
+  block.timestamp = 1700000000 + height * 600;
+  block.bits = 0x207fffff;
+  block.nonce = 0;
+  block.transactions = payments.map(({ script, value }, i) => {
+    const tx = new Transaction();
+    tx.addInput(new Uint8Array(32).fill(i + 1), height);
+    tx.addOutput(script, BigInt(value));
+    return tx;
+  });
+  return block;
+};
+
+describe('Subscription state', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    if (dir) {
+      await rm(dir, { recursive: true, force: true });
+      dir = undefined;
+    }
+  });
+
+  it('should keep state in a JSON file across store instances', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'drxa-'));
+    const path = join(dir, 'state', 'subscriptions.json');
+
+    const store = new JsonFileSubscriptionStateStore(path);
+    await Promise.all([
+      store.save('bitcoin', 'addr1', { lastBlock: 10, seen: ['a'] }),
+      store.save('ton', 'addr2', { cursor: '123', seen: [] })
+    ]);
+    await store.delete('ton', 'addr2');
+
+    const reopened = new JsonFileSubscriptionStateStore(path);
+    expect(await reopened.load('bitcoin', 'addr1')).toMatchObject({ lastBlock: 10, seen: ['a'] });
+    expect(await reopened.load('ton', 'addr2')).toBeUndefined();
+  });
+
+  it('should batch saves and keep memory matching the file when a read or write fails', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'drxa-'));
+    const path = join(dir, 'subscriptions.json');
+    const store = new JsonFileSubscriptionStateStore(path, { writeDelay: 5 });
+
+    vi.spyOn(fs, 'readFile').mockRejectedValueOnce(Object.assign(new Error('EIO'), { code: 'EIO' }));
+    await expect(store.load('bitcoin', 'addr0')).rejects.toThrow('EIO');
+
+    const writeFile = vi.spyOn(fs, 'writeFile');
+    await Promise.all(Array.from({ length: 20 }, (_, i) => store.save('bitcoin', `addr${i}`, { lastBlock: i, seen: [] })));
+    expect(writeFile).toHaveBeenCalledTimes(1);
+
+    writeFile.mockRejectedValueOnce(new Error('ENOSPC'));
+    await expect(store.save('bitcoin', 'addr0', { lastBlock: 99, seen: [] })).rejects.toThrow('ENOSPC');
+    expect(await store.load('bitcoin', 'addr0')).toMatchObject({ lastBlock: 0 });
+    expect(await new JsonFileSubscriptionStateStore(path).load('bitcoin', 'addr19')).toMatchObject({ lastBlock: 19 });
+  });
+
+  it('should resume watching from the stored block and backfill the gap', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'drxa-'));
+    const path = join(dir, 'subscriptions.json');
+    const adapterFor = (store: JsonFileSubscriptionStateStore) => new BitcoinAdapterV2(
+      new Uint8Array(32).fill(43),
+      { maxRetries: 0, pollingInterval: 60000, subscriptionStore: store },
+      undefined,
+      undefined,
+      ConfigManager.getInstance().bitcoinNetworkConfig('regtest', 'http://127.0.0.1:3011')
+    );
+    const address = await adapterFor(new JsonFileSubscriptionStateStore(path)).deriveAddress({
+      scope: 'wallet',
+      userId: '123e4567-e89b-12d3-a456-426614174000',
+      chain: 'bitcoin',
+      index: '0'
+    });
+
+    // Before the restart, every block up to 100 was scanned
+    await new JsonFileSubscriptionStateStore(path).save('bitcoin', WATCHER_STATE_KEY, { lastBlock: 100, cursor: 'h100', seen: [] });
+
+    // Every block pays the address its height in sats
+    const script = btcAddress.toOutputScript(address, networks.regtest);
+    const blocks = new Map<number, Block>();
+    for (let height = 95; height <= 103; height++) {
+      blocks.set(height, regtestBlock(height, [{ script, value: height }]));
+    }
+    const heights = new Map([...blocks].map(([height, block]) => [block.transactions![0].getId(), height]));
+    const get = vi.spyOn(axios, 'get').mockImplementation(async (url: string) => {
+      if (url.endsWith('/blocks/tip/height')) {
+        return { data: 103 };
+      }
+      const hash = url.match(/\/block-height\/(\d+)$/);
+      if (hash) {
+        return { data: `h${hash[1]}` };
+      }
+      const raw = url.match(/\/block\/h(\d+)\/raw$/);
+      if (raw) {
+        return { data: Buffer.from(blocks.get(Number(raw[1]))!.toBuffer()) };
+      }
+      const status = url.match(/\/tx\/(\w+)\/status$/);
+      if (status) {
+        const height = heights.get(status[1])!;
+        return { data: { confirmed: true, block_height: height, block_hash: `h${height}` } };
+      }
+      throw new Error(`unexpected ${url}`);
+    });
+
+    const store = new JsonFileSubscriptionStateStore(path);
+    const received: IncomingTransaction[] = [];
+    const unsubscribe = await adapterFor(store).subscribe(address, tx => {
+      received.push(tx);
+    });
+
+    await vi.waitFor(async () => expect((await store.load('bitcoin', WATCHER_STATE_KEY))?.lastBlock).toBe(103));
+    await unsubscribe();
+
+    expect(get.mock.calls.map(([url]) => url).filter(url => url.endsWith('/raw'))).toEqual(
+      [101, 102, 103].map(height => `http://127.0.0.1:3011/block/h${height}/raw`)
+    );
+    expect(received.map(tx => [tx.blockNumber, tx.amount.toNumber(), tx.status])).toEqual([
+      [101, 101, 'final'],
+      [102, 102, 'final'],
+      [103, 103, 'final']
+    ]);
+    expect((await store.load('bitcoin', WATCHER_STATE_KEY))?.seen).toHaveLength(3);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import Big from 'big.js';
+import { AdapterRegistry } from '../core/AdapterRegistry.js';
+import { HDWallet } from '../core/HDWallet.js';
+import { WatchOnlyWallet } from '../core/WatchOnlyWallet.js';
+import { BitcoinAdapterV2 } from '../adapters/bitcoin/BitcoinAdapterV2.js';
+import { ErrorCode } from '../core/errors/index.js';
+import { DeriveParams, WatchOnlyManifest } from '../types/index.js';
+import { MockBitcoinAdapter, registerMockAdapters } from './adapters/TestAdapters.js';
+
+const masterSeed = new Uint8Array(32).fill(9);
+const params = (chain: DeriveParams['chain'], index = '0'): DeriveParams => ({
+  scope: 'wallet',
+  userId: '123e4567-e89b-12d3-a456-426614174000',
+  chain,
+  index
+});
+
+describe('Watch-only wallet', () => {
+  let registry: AdapterRegistry;
+  let manifest: WatchOnlyManifest;
+
+  beforeAll(async () => {
+    registry = AdapterRegistry.getInstance();
+    registry.initialize(masterSeed);
+    registerMockAdapters(registry);
+
+    const wallet = new HDWallet(masterSeed, registry);
+    manifest = await wallet.exportWatchOnlyManifest([
+      params('bitcoin'),
+      params('bitcoin', '1'),
+      params('ethereum')
+    ]);
+  });
+
+  it('should export addresses and public keys matching the seeded wallet', async () => {
+    const wallet = new HDWallet(masterSeed, registry);
+
+    expect(manifest.version).toBe(1);
+    expect(manifest.entries).toHaveLength(3);
+    expect(manifest.entries[0]).toMatchObject({
+      ...params('bitcoin'),
+      address: await wallet.deriveAddress(params('bitcoin'))
+    });
+    expect(manifest.entries[0].publicKey).toBeTruthy();
+  });
+
+  it('should serve read-only methods from the manifest', async () => {
+    const watchOnly = new WatchOnlyWallet(manifest, registry);
+
+    expect(await watchOnly.deriveAddress(params('ethereum'))).toBe(manifest.entries[2].address);
+    expect((await watchOnly.balance(params('bitcoin'))).eq(new Big('100000000'))).toBe(true);
+
+    const results = await watchOnly.batchBalance([params('bitcoin', '1'), params('bitcoin', '5')]);
+    expect(results[0].error).toBeUndefined();
+    expect(results[1].error).toMatchObject({ code: ErrorCode.INVALID_PARAMS });
+
+    // @ts-expect-error watch-only wallets cannot send
+    expect(watchOnly.send).toBeUndefined();
+  });
+
+  it('should refuse key derivation in watch-only adapters', async () => {
+    const adapter = new MockBitcoinAdapter(new Uint8Array(0), { mode: 'watch-only' });
+    const address = manifest.entries[0].address;
+
+    await expect(adapter.deriveAddress(params('bitcoin'))).rejects.toMatchObject({
+      code: ErrorCode.KEYS_UNAVAILABLE
+    });
+    expect((await adapter.getAddressBalance(address)).eq(new Big('100000000'))).toBe(true);
+  });
+
+  it('should derive compressed secp256k1 public keys for Bitcoin', async () => {
+    const adapter = new BitcoinAdapterV2(masterSeed, { mode: 'derive-only' });
+    expect(await adapter.derivePublicKey(params('bitcoin'))).toMatch(/^0[23][0-9a-f]{64}$/);
+  });
+});
@@ -1,4 +1,5 @@
 import { BaseAdapter } from "../../core/adapters/BaseAdapter.js";
+import { DerivationPath, STANDARD_PATHS } from "../../core/derivation/DerivationStrategy.js";
 import { 
   SupportedChain, 
   ChainConfig, 
@@ -9,7 +10,12 @@ import {
   TransactionResponse,
   FeeEstimate,
   TransactionHistory,
-  IncomingTransaction
+  IncomingTransaction,
+  IncomingTransactionsPage,
+  SubscriptionState,
+  UnsignedTransaction,
+  SignedTransaction,
+  RpcEndpoint
 } from "../../types/index.js";
 import Big from "big.js";
 import {
@@ -19,7 +25,17 @@ import {
   Account,
   Ed25519PrivateKey,
   AccountAddress,
+  AccountAuthenticator,
+  SimpleTransaction,
+  Deserializer,
+  Hex,
+  generateUserTransactionHash,
+  TransactionPayloadEntryFunction,
 } from "@aptos-labs/ts-sdk";
+import { ErrorFactory } from "../../core/errors/index.js";
+
+// APT transfer that also creates the recipient's account if needed
+const TRANSFER_FUNCTION = "0x1::aptos_account::transfer";
 
 /**
  * Enhanced Aptos adapter with fixed balance method and complete functionality
@@ -45,7 +61,7 @@ export class AptosAdapterV2 extends BaseAdapter {
     }
   };
 
-  private sdk: Aptos;
+  private readonly sdks = new Map<string, Aptos>();
 
   constructor(
     masterSeed: Uint8Array,
@@ -54,14 +70,29 @@ export class AptosAdapterV2 extends BaseAdapter {
     metrics?: MetricsCollector
   ) {
     super(masterSeed, adapterConfig, logger, metrics);
-    
-    // Initialize Aptos SDK
-    const aptosConfig = new AptosConfig({
-      network: Network.MAINNET,
-      fullnode: Array.isArray(this.config.endpoints.http) ? this.config.endpoints.http[0].url : this.config.endpoints.http.url,
-    });
-    
-    this.sdk = new Aptos(aptosConfig);
+  }
+
+  // Runs SDK calls against the best fullnode, failing over to the others
+  private withSdk<T>(operation: (sdk: Aptos) => Promise<T>): Promise<T> {
+    return this.withRpc(endpoint => operation(this.sdkFor(endpoint)));
+  }
+
+  private sdkFor(endpoint: RpcEndpoint): Aptos {
+    let sdk = this.sdks.get(endpoint.url);
+    if (!sdk) {
+      this.assertNetworkEnabled('sdk');
+      sdk = new Aptos(new AptosConfig({
+        network: Network.MAINNET,
+        fullnode: endpoint.url,
+        clientConfig: endpoint.headers ? { HEADERS: endpoint.headers } : undefined
+      }));
+      this.sdks.set(endpoint.url, sdk);
+    }
+    return sdk;
+  }
+
+  protected async checkEndpointHealth(endpoint: RpcEndpoint): Promise<void> {
+    await this.sdkFor(endpoint).getLedgerInfo();
   }
 
   protected async deriveAddressFromPrivateKey(privateKey: Uint8Array): Promise<string> {
@@ -77,6 +108,14 @@ export class AptosAdapterV2 extends BaseAdapter {
     }
   }
 
+  protected standardDerivationPath(account: number, index: number): DerivationPath {
+    return STANDARD_PATHS.aptos(account, index);
+  }
+
+  protected async publicKeyFromPrivateKey(privateKey: Uint8Array): Promise<string> {
+    return new Ed25519PrivateKey(privateKey).publicKey().toString();
+  }
+
   protected async getBalanceForAddress(address: string): Promise<Big> {
     try {
       // Fixed balance method using the correct API
@@ -86,10 +125,10 @@ export class AptosAdapterV2 extends BaseAdapter {
       const aptCoinType = "0x1::coin::CoinStore<0x1::aptos_coin::AptosCoin>";
       
       try {
-        const resource = await this.sdk.getAccountResource({
+        const resource = await this.withSdk(sdk => sdk.getAccountResource({
           accountAddress,
           resourceType: aptCoinType
-        });
+        }));
         
         // Extract balance from the coin store
         const coinStore = resource as any;
@@ -125,35 +164,31 @@ export class AptosAdapterV2 extends BaseAdapter {
       const account = Account.fromPrivateKey({ privateKey: ed25519PrivateKey });
       
       // Build transaction
-      const transaction = await this.sdk.transaction.build.simple({
+      const transaction = await this.withSdk(sdk => sdk.transaction.build.simple({
         sender: account.accountAddress,
         data: {
-          function: "0x1::coin::transfer",
-          typeArguments: ["0x1::aptos_coin::AptosCoin"],
+          function: TRANSFER_FUNCTION,
           functionArguments: [to, amount.toString()],
         },
-      });
-
-      // Sign and submit transaction
-      const senderAuthenticator = this.sdk.transaction.sign({
-        signer: account,
-        transaction,
-      });
+      }));
 
-      const response = await this.sdk.transaction.submit.simple({
+      // Signed once: failover and retries resubmit the same transaction instead of one with a new sequence number
+      const senderAuthenticator = account.signTransactionWithAuthenticator(transaction);
+      const txHash = generateUserTransactionHash({ transaction, senderAuthenticator });
+      await this.rebroadcast(txHash, () => this.withSdk(sdk => sdk.transaction.submit.simple({
         transaction,
         senderAuthenticator,
-      });
+      })));
 
       this.logger?.info('Aptos transaction sent', {
         from,
         to,
         amount: amount.toString(),
-        txHash: response.hash
+        txHash
       });
 
       return {
-        txHash: response.hash,
+        txHash,
         status: 'pending'
       };
     } catch (error) {
@@ -166,21 +201,119 @@ export class AptosAdapterV2 extends BaseAdapter {
     }
   }
 
-  protected async getIncomingTransactions(address: string, seen: Set<string>): Promise<IncomingTransaction[]> {
+  protected async buildUnsignedTransaction(
+    from: string,
+    to: string,
+    amount: Big
+  ): Promise<UnsignedTransaction> {
+    this.validateAptosAddress(to);
+
+    const transaction = await this.withSdk(sdk => sdk.transaction.build.simple({
+      sender: AccountAddress.fromString(from),
+      data: {
+        function: TRANSFER_FUNCTION,
+        functionArguments: [to, amount.toString()],
+      },
+    }));
+
+    return {
+      chain: this.chainName,
+      from,
+      to,
+      amount: amount.toString(),
+      payload: transaction.bcsToHex().toString()
+    };
+  }
+
+  protected async signUnsignedTransaction(
+    privateKey: Uint8Array,
+    unsigned: UnsignedTransaction
+  ): Promise<SignedTransaction> {
+    const transaction = SimpleTransaction.deserialize(
+      new Deserializer(Hex.fromHexInput(unsigned.payload).toUint8Array())
+    );
+    const account = Account.fromPrivateKey({ privateKey: new Ed25519PrivateKey(privateKey) });
+    if (!transaction.rawTransaction.sender.equals(account.accountAddress)) {
+      throw ErrorFactory.invalidParams('Aptos transaction sender does not match the signing account', { from: unsigned.from });
+    }
+    this.checkTransferSummary(transaction, unsigned);
+
+    const senderAuthenticator = account.signTransactionWithAuthenticator(transaction);
+
+    return {
+      chain: this.chainName,
+      txHash: generateUserTransactionHash({ transaction, senderAuthenticator }),
+      // Aptos submits the raw transaction and authenticator side by side
+      payload: JSON.stringify({
+        transaction: unsigned.payload,
+        senderAuthenticator: senderAuthenticator.bcsToHex().toString()
+      })
+    };
+  }
+
+  // The transaction is signed blindly, so it must be exactly the APT transfer we summarise
+  private checkTransferSummary(transaction: SimpleTransaction, unsigned: UnsignedTransaction): void {
+    const { payload } = transaction.rawTransaction;
+    let matches = false;
+    if (payload instanceof TransactionPayloadEntryFunction) {
+      const { module_name, function_name, type_args, args } = payload.entryFunction;
+      if (
+        `${module_name.address.toStringShort()}::${module_name.name.identifier}::${function_name.identifier}` === TRANSFER_FUNCTION &&
+        type_args.length === 0 &&
+        args.length === 2
+      ) {
+        const recipient = AccountAddress.deserialize(new Deserializer(args[0].bcsToBytes()));
+        const amount = new Deserializer(args[1].bcsToBytes()).deserializeU64();
+        matches = recipient.equals(AccountAddress.fromString(unsigned.to)) && amount.toString() === unsigned.amount;
+      }
+    }
+    if (!matches) {
+      throw ErrorFactory.invalidParams('Payload does not match the unsigned transaction summary', { to: unsigned.to });
+    }
+  }
+
+  protected async broadcastSignedTransaction(signed: SignedTransaction): Promise<TransactionResponse> {
+    const parts = JSON.parse(signed.payload) as { transaction: string; senderAuthenticator: string };
+    const transaction = SimpleTransaction.deserialize(
+      new Deserializer(Hex.fromHexInput(parts.transaction).toUint8Array())
+    );
+    const senderAuthenticator = AccountAuthenticator.deserialize(
+      new Deserializer(Hex.fromHexInput(parts.senderAuthenticator).toUint8Array())
+    );
+
+    const response = await this.withSdk(sdk => sdk.transaction.submit.simple({ transaction, senderAuthenticator }));
+    return {
+      txHash: response.hash,
+      status: 'pending'
+    };
+  }
+
+  protected async getIncomingTransactions(
+    address: string,
+    seen: Set<string>,
+    since: SubscriptionState
+  ): Promise<IncomingTransactionsPage> {
     try {
       // Get account transactions
       const accountAddress = AccountAddress.fromString(address);
-      const transactions = await this.sdk.getAccountTransactions({
+      const transactions = await this.withSdk(sdk => sdk.getAccountTransactions({
         accountAddress,
         options: {
           limit: 25,
           // orderBy not supported in this SDK version
         }
-      });
+      }));
 
       const incoming: IncomingTransaction[] = [];
+      // Ledger versions only grow, so the highest one processed is the cursor
+      let cursor = since.cursor !== undefined ? BigInt(since.cursor) : undefined;
 
       for (const tx of transactions) {
+        const version = 'version' in tx ? BigInt(tx.version) : undefined;
+        if (version !== undefined) {
+          if (since.cursor !== undefined && version <= BigInt(since.cursor)) continue;
+          cursor = cursor === undefined || version > cursor ? version : cursor;
+        }
         if (seen.has(tx.hash)) continue;
 
         // Check if this is a coin transfer to our address
@@ -207,10 +340,10 @@ export class AptosAdapterV2 extends BaseAdapter {
         }
       }
 
-      return incoming;
+      return { transactions: incoming, cursor: cursor?.toString() };
     } catch (error) {
       this.logger?.error('Failed to get incoming Aptos transactions', error as Error, { address });
-      return [];
+      return { transactions: [] };
     }
   }
 
@@ -224,20 +357,21 @@ export class AptosAdapterV2 extends BaseAdapter {
       const ed25519PrivateKey = new Ed25519PrivateKey(privateKey);
       const account = Account.fromPrivateKey({ privateKey: ed25519PrivateKey });
       
-      // Build a dummy transaction to estimate gas
-      const transaction = await this.sdk.transaction.build.simple({
-        sender: accountAddress,
-        data: {
-          function: "0x1::coin::transfer",
-          typeArguments: ["0x1::aptos_coin::AptosCoin"],
-          functionArguments: [to, amount.toString()],
-        },
-      });
+      const simulation = await this.withSdk(async sdk => {
+        // Build a dummy transaction to estimate gas
+        const transaction = await sdk.transaction.build.simple({
+          sender: accountAddress,
+          data: {
+            function: TRANSFER_FUNCTION,
+            functionArguments: [to, amount.toString()],
+          },
+        });
 
-      // Simulate transaction to get gas used
-      const simulation = await this.sdk.transaction.simulate.simple({
-        signerPublicKey: account.publicKey,
-        transaction,
+        // Simulate transaction to get gas used
+        return sdk.transaction.simulate.simple({
+          signerPublicKey: account.publicKey,
+          transaction,
+        });
       });
 
       const gasUsed = new Big(simulation[0].gas_used);
@@ -267,17 +401,21 @@ export class AptosAdapterV2 extends BaseAdapter {
   }
 
   async getHistory(params: any, limit = 100): Promise<TransactionHistory[]> {
+    const address = await this.deriveAddress(params);
+    return this.getAddressHistory(address, limit);
+  }
+
+  async getAddressHistory(address: string, limit = 100): Promise<TransactionHistory[]> {
     try {
-      const address = await this.deriveAddress(params);
       const accountAddress = AccountAddress.fromString(address);
       
-      const transactions = await this.sdk.getAccountTransactions({
+      const transactions = await this.withSdk(sdk => sdk.getAccountTransactions({
         accountAddress,
         options: {
           limit: Math.min(limit, 100),
           // orderBy not supported in this SDK version
         }
-      });
+      }));
 
       const history: TransactionHistory[] = [];
 
@@ -318,7 +456,7 @@ export class AptosAdapterV2 extends BaseAdapter {
   async getAccountInfo(address: string): Promise<any> {
     try {
       const accountAddress = AccountAddress.fromString(address);
-      return await this.sdk.getAccountInfo({ accountAddress });
+      return await this.withSdk(sdk => sdk.getAccountInfo({ accountAddress }));
     } catch (error) {
       this.logger?.error('Failed to get Aptos account info', error as Error, { address });
       throw error;
@@ -328,7 +466,7 @@ export class AptosAdapterV2 extends BaseAdapter {
   async getAccountResources(address: string): Promise<any[]> {
     try {
       const accountAddress = AccountAddress.fromString(address);
-      return await this.sdk.getAccountResources({ accountAddress });
+      return await this.withSdk(sdk => sdk.getAccountResources({ accountAddress }));
     } catch (error) {
       this.logger?.error('Failed to get Aptos account resources', error as Error, { address });
       throw error;
@@ -341,13 +479,13 @@ export class AptosAdapterV2 extends BaseAdapter {
     functionArguments: any[] = []
   ): Promise<any> {
     try {
-      return await this.sdk.view({
+      return await this.withSdk(sdk => sdk.view({
         payload: {
           function: functionId as `${string}::${string}::${string}`,
           typeArguments,
           functionArguments,
         },
-      });
+      }));
     } catch (error) {
       this.logger?.error('Failed to call Aptos view function', error as Error, { 
         functionId 
@@ -370,10 +508,11 @@ export class AptosAdapterV2 extends BaseAdapter {
 
   async initialize(): Promise<void> {
     await super.initialize();
+    if (this.isDeriveOnly) return;
     
     try {
       // Test connection by getting ledger info
-      await this.sdk.getLedgerInfo();
+      await this.withSdk(sdk => sdk.getLedgerInfo());
       this.logger?.info('Aptos SDK connected successfully');
     } catch (error) {
       this.logger?.error('Failed to connect to Aptos network', error as Error);
@@ -1,10 +1,15 @@
 import { BaseAdapter } from "../../core/adapters/BaseAdapter.js";
-import { SupportedChain, ChainConfig, AdapterConfig, Logger, MetricsCollector, TransactionRequest, TransactionResponse, IncomingTransaction, BitcoinTransactionConfig } from "../../types/index.js";
+import { SupportedChain, ChainConfig, NetworkType, BitcoinAdapterConfig, BitcoinScriptType, Logger, MetricsCollector, TransactionRequest, TransactionResponse, IncomingTransaction, BitcoinTransactionConfig, UnsignedTransaction, SignedTransaction, DeriveParams, DeriveRange, PaymentOutput, PsbtSignResult, SweepConfig, SweepResult, PsbtFinalizeResult, RpcEndpoint, QuorumResponse, TransactionLocation, validateDeriveParams } from "../../types/index.js";
+import { ErrorFactory } from "../../core/errors/index.js";
+import { ConfigManager } from "../../core/config/ConfigManager.js";
+import { ScannedBlock } from "../../core/subscriptions/AddressWatcher.js";
+import { DerivationPath, STANDARD_PATHS } from "../../core/derivation/DerivationStrategy.js";
+import { createCoinSelector } from "./coinSelection.js";
 import Big from "big.js";
-import axios from "axios";
+import axios, { AxiosRequestConfig } from "axios";
 import { Buffer } from "buffer";
 import * as tinysecp from "tiny-secp256k1";
-import { initEccLib, payments, Psbt, networks } from "bitcoinjs-lib";
+import { initEccLib, payments, Psbt, networks, type Network, crypto, address as btcAddress, Transaction as BtcTransaction, Block as BtcBlock } from "bitcoinjs-lib";
 import ECPairFactory, { ECPairInterface } from "ecpair";
 import { toXOnly } from "bitcoinjs-lib/src/psbt/bip371";
 
@@ -20,49 +25,77 @@ interface UTXO {
 
 interface Transaction {
   txid: string;
+  locktime: number;
+  weight: number;
+  fee: number;
   status: { confirmed: boolean; block_height?: number };
-  vin: Array<{ txid: string; vout: number; prevout: { scriptpubkey: string; value: number } }>;
+  vin: Array<{ txid: string; vout: number; sequence: number; prevout: { scriptpubkey: string; value: number } }>;
   vout: Array<{ scriptpubkey: string; value: number }>;
 }
 
+// Virtual size of a spend of each script type with a single signature
+const INPUT_VSIZE: Record<BitcoinScriptType, number> = {
+  'p2pkh': 148,
+  'p2sh-p2wpkh': 91,
+  'p2wpkh': 68,
+  'p2tr': 58
+};
+const SCRIPT_TYPES = Object.keys(INPUT_VSIZE) as BitcoinScriptType[];
+// Purpose level of each script type's standard path (BIP-44, 49, 84 and 86)
+const PATH_PURPOSE: Record<BitcoinScriptType, number> = {
+  'p2pkh': 44,
+  'p2sh-p2wpkh': 49,
+  'p2wpkh': 84,
+  'p2tr': 86
+};
+const DUST_RELAY_FEE_RATE = 3; // sat/vB, Bitcoin Core's default
+const INCREMENTAL_RELAY_FEE_RATE = 1; // sat/vB a replacement must add for its own size (BIP-125 rule 4)
+const RBF_SEQUENCE = 0xfffffffd;
+const SWEEP_MAX_INPUTS = 500;
+const SWEEP_CONCURRENCY = 10; // parallel UTXO lookups
+const MEMPOOL_SCAN_LIMIT = 500; // new mempool transactions fetched per scan
+const MAX_SIGNING_FEE_RATE = 1000; // sat/vB; the offline signer refuses anything above
+
+// Signet shares testnet's address prefixes
+const NETWORKS: Record<NetworkType, Network> = {
+  mainnet: networks.bitcoin,
+  testnet: networks.testnet,
+  signet: networks.testnet,
+  regtest: networks.regtest
+};
+
 /**
  * Enhanced Bitcoin adapter using the new BaseAdapter architecture
- * Supports Taproot (P2TR) addresses with improved error handling and resource management
+ * Supports P2PKH, P2SH-P2WPKH, P2WPKH and Taproot (P2TR) addresses, selected with
+ * `scriptType` in the adapter config (Taproot by default)
+ * The network (mainnet, testnet, signet or regtest) and Esplora endpoint come from the
+ * `bitcoin` chain config in ConfigManager, unless a chain config is passed explicitly
  */
 export class BitcoinAdapterV2 extends BaseAdapter {
   readonly chainName: SupportedChain = 'bitcoin';
-  readonly config: ChainConfig = {
-    chainId: 'bitcoin-mainnet',
-    name: 'Bitcoin',
-    symbol: 'BTC',
-    decimals: 8,
-    category: 'utxo',
-    endpoints: {
-      http: {
-        url: 'https://blockstream.info/api',
-        timeout: 30000,
-        retryCount: 3,
-        retryDelay: 1000
-      }
-    },
-    explorer: {
-      url: 'https://blockstream.info',
-      apiUrl: 'https://blockstream.info/api'
-    },
-    feeConfig: {
-      type: 'dynamic'
-    }
-  };
+  readonly config: ChainConfig;
 
   private readonly ECPair = ECPairFactory(tinysecp);
+  private readonly scriptType: BitcoinScriptType;
+  private readonly network: Network;
+  // Replacement txid -> txids it replaced, oldest first
+  private readonly replacements = new Map<string, string[]>();
+  private mempoolTxids?: Set<string>; // as of the last mempool scan
 
   constructor(
     masterSeed: Uint8Array,
-    adapterConfig: AdapterConfig = {},
+    adapterConfig: BitcoinAdapterConfig = {},
     logger?: Logger,
-    metrics?: MetricsCollector
+    metrics?: MetricsCollector,
+    chainConfig: ChainConfig = ConfigManager.getInstance().getChainConfig('bitcoin')
   ) {
     super(masterSeed, adapterConfig, logger, metrics);
+    this.config = chainConfig;
+    this.network = NETWORKS[chainConfig.network ?? 'mainnet'];
+    this.scriptType = adapterConfig.scriptType ?? 'p2tr';
+    if (!SCRIPT_TYPES.includes(this.scriptType)) {
+      throw ErrorFactory.invalidParams(`Unsupported Bitcoin script type: ${this.scriptType}`, adapterConfig);
+    }
   }
 
   protected async deriveAddressFromPrivateKey(privateKey: Uint8Array): Promise<string> {
@@ -72,14 +105,10 @@ export class BitcoinAdapterV2 extends BaseAdapter {
         { compressed: true }
       );
       
-      const internalPubkey = toXOnly(Buffer.from(keyPair.publicKey));
-      const { address } = payments.p2tr({ 
-        internalPubkey, 
-        network: networks.bitcoin 
-      });
+      const { address } = this.payment(keyPair.publicKey, this.scriptType);
       
       if (!address) {
-        throw new Error("Failed to generate Taproot (P2TR) address");
+        throw new Error(`Failed to generate ${this.scriptType} address`);
       }
       
       return address;
@@ -89,12 +118,28 @@ export class BitcoinAdapterV2 extends BaseAdapter {
     }
   }
 
+  /**
+   * Derive the address of a specific script type, regardless of the adapter's default
+   */
+  async deriveAddressForScriptType(params: DeriveParams, scriptType: BitcoinScriptType): Promise<string> {
+    validateDeriveParams(params);
+    const keyPair = this.ECPair.fromPrivateKey(Buffer.from(this.derivePrivateKey(params)), { compressed: true });
+    return this.payment(keyPair.publicKey, scriptType).address!;
+  }
+
+  protected standardDerivationPath(account: number, index: number): DerivationPath {
+    const coinType = this.network === networks.bitcoin ? 0 : 1;
+    return STANDARD_PATHS.bitcoin(PATH_PURPOSE[this.scriptType], coinType)(account, index);
+  }
+
+  protected async publicKeyFromPrivateKey(privateKey: Uint8Array): Promise<string> {
+    const keyPair = this.ECPair.fromPrivateKey(Buffer.from(privateKey), { compressed: true });
+    return Buffer.from(keyPair.publicKey).toString('hex');
+  }
+
   protected async getBalanceForAddress(address: string): Promise<Big> {
     try {
-      const response = await axios.get(
-        `${this.config.explorer!.apiUrl}/address/${address}`,
-        { timeout: this.adapterConfig.timeout }
-      );
+      const response = await this.esploraGet(`/address/${address}`);
       
       const data = response.data;
       const confirmedBalance = data.chain_stats?.funded_txo_sum || 0;
@@ -109,6 +154,11 @@ export class BitcoinAdapterV2 extends BaseAdapter {
     }
   }
 
+  protected async getAddressActivity(address: string): Promise<boolean> {
+    const { data } = await this.esploraGet(`/address/${address}`);
+    return (data.chain_stats?.tx_count || 0) + (data.mempool_stats?.tx_count || 0) > 0;
+  }
+
   protected async sendTransaction(
     privateKey: Uint8Array,
     from: string,
@@ -120,90 +170,10 @@ export class BitcoinAdapterV2 extends BaseAdapter {
       // Validate Bitcoin address format
       this.validateBitcoinAddress(to);
       
-      // Get UTXOs for the from address
-      const utxos = await this.getUTXOs(from);
-      if (utxos.length === 0) {
-        throw new Error('No UTXOs available for transaction');
-      }
-
-      // Apply configuration for UTXO selection and fee calculation
-      const feeRate = config?.feeRate || config?.satPerVByte || new Big(10); // Default 10 sat/vbyte
-      const utxoSelection = config?.utxoSelection || 'auto';
-      const specificUtxos = config?.specificUtxos;
-      
-      // Filter UTXOs if specific ones are requested
-      let availableUtxos = utxos;
-      if (specificUtxos && specificUtxos.length > 0) {
-        availableUtxos = utxos.filter(utxo => specificUtxos.includes(utxo.txid));
-        if (availableUtxos.length === 0) {
-          throw new Error('None of the specified UTXOs are available');
-        }
-      }
-      
-      // Select UTXOs and calculate fee
-      const { selectedUtxos, totalInput, fee } = await this.selectUTXOs(
-        availableUtxos, 
-        amount, 
-        feeRate,
-        utxoSelection
-      );
-      const totalOutput = amount.plus(fee);
-      
-      if (totalInput.lt(totalOutput)) {
-        throw new Error(`Insufficient balance. Required: ${totalOutput.toString()}, Available: ${totalInput.toString()}`);
-      }
-
-      // Build and sign transaction
-      const psbt = new Psbt({ network: networks.bitcoin });
       const keyPair = this.ECPair.fromPrivateKey(Buffer.from(privateKey), { compressed: true });
-      const internalPubkey = toXOnly(Buffer.from(keyPair.publicKey));
-
-      // Add inputs with optional RBF and sequence
-      const sequence = config?.rbf ? 0xfffffffd : 0xffffffff; // Enable RBF if requested
-      const lockTime = config?.lockTime || 0;
-      
-      for (const utxo of selectedUtxos) {
-        const txHex = await this.getTransactionHex(utxo.txid);
-        psbt.addInput({
-          hash: utxo.txid,
-          index: utxo.vout,
-          nonWitnessUtxo: Buffer.from(txHex, 'hex'),
-          tapInternalKey: internalPubkey,
-          sequence: config?.sequence || sequence,
-        });
-      }
-      
-      // Set lock time if specified
-      if (lockTime > 0) {
-        psbt.setLocktime(lockTime);
-      }
+      const { psbt, fee } = await this.buildPsbt(from, [{ to, amount }], keyPair.publicKey, config);
 
-      // Add output for recipient
-      psbt.addOutput({
-        address: to,
-        value: BigInt(amount.toString()),
-      });
-
-      // Add change output if necessary
-      const change = totalInput.minus(totalOutput);
-      if (change.gt(546)) { // Dust threshold
-        psbt.addOutput({
-          address: from,
-          value: BigInt(change.toString()),
-        });
-      }
-
-      // Sign all inputs
-      for (let i = 0; i < selectedUtxos.length; i++) {
-        psbt.signInput(i, keyPair);
-      }
-
-      // Finalize and extract transaction
-      psbt.finalizeAllInputs();
-      const txHex = psbt.extractTransaction().toHex();
-
-      // Broadcast transaction
-      const txHash = await this.broadcastTransaction(txHex);
+      const txHash = await this.signAndBroadcast(psbt, privateKey);
 
       this.logger?.info('Bitcoin transaction sent', { 
         from, 
@@ -228,158 +198,841 @@ export class BitcoinAdapterV2 extends BaseAdapter {
     }
   }
 
-  protected async getIncomingTransactions(address: string, seen: Set<string>): Promise<IncomingTransaction[]> {
-    try {
-      const response = await axios.get(
-        `${this.config.explorer!.apiUrl}/address/${address}/txs`,
-        { timeout: this.adapterConfig.timeout }
+  // All outputs go into a single transaction sharing one set of inputs and one change output
+  protected async sendManyTransaction(
+    privateKey: Uint8Array,
+    from: string,
+    outputs: PaymentOutput[],
+    config?: BitcoinTransactionConfig
+  ): Promise<TransactionResponse> {
+    const keyPair = this.ECPair.fromPrivateKey(Buffer.from(privateKey), { compressed: true });
+    const { psbt, fee } = await this.buildPsbt(from, outputs, keyPair.publicKey, config);
+
+    const txHash = await this.signAndBroadcast(psbt, privateKey);
+
+    this.logger?.info('Bitcoin batch transaction sent', {
+      from,
+      outputs: outputs.length,
+      fee: fee.toString(),
+      txHash
+    });
+
+    return {
+      txHash,
+      fee,
+      status: 'pending'
+    };
+  }
+
+  protected async buildUnsignedTransaction(
+    from: string,
+    to: string,
+    amount: Big,
+    config?: BitcoinTransactionConfig
+  ): Promise<UnsignedTransaction> {
+    this.validateBitcoinAddress(to);
+
+    // Neither a Taproot internal key nor a P2SH redeem script can be recovered from
+    // the address, so the signer fills them in
+    const { psbt, fee } = await this.buildPsbt(from, [{ to, amount }], undefined, config);
+
+    return {
+      chain: this.chainName,
+      from,
+      to,
+      amount: amount.toString(),
+      payload: psbt.toBase64(),
+      fee: fee.toString()
+    };
+  }
+
+  protected async signUnsignedTransaction(
+    privateKey: Uint8Array,
+    unsigned: UnsignedTransaction
+  ): Promise<SignedTransaction> {
+    const psbt = Psbt.fromBase64(unsigned.payload, { network: this.network });
+    const fee = this.checkPsbtSummary(psbt, unsigned);
+    this.signOwnedInputs(psbt, privateKey);
+    psbt.finalizeAllInputs();
+    const tx = psbt.extractTransaction(true);
+    if (fee.div(tx.virtualSize()).gt(MAX_SIGNING_FEE_RATE)) {
+      throw ErrorFactory.invalidParams(
+        `Fee of ${fee} sats is over ${MAX_SIGNING_FEE_RATE} sat/vB`,
+        { fee: fee.toString(), vsize: tx.virtualSize() }
       );
-      
-      const transactions: Transaction[] = response.data;
-      const incoming: IncomingTransaction[] = [];
-      
-      for (const tx of transactions) {
-        if (seen.has(tx.txid)) continue;
-        
-        // Check if this transaction sends funds to our address
-        for (const vout of tx.vout) {
-          const outputAddress = await this.scriptPubkeyToAddress(vout.scriptpubkey);
-          if (outputAddress === address) {
-            incoming.push({
-              txHash: tx.txid,
-              from: 'unknown', // Bitcoin doesn't have explicit from addresses
-              to: address,
-              amount: new Big(vout.value),
-              blockNumber: tx.status.block_height,
-              timestamp: Date.now() // Would need additional API call for exact timestamp
-            });
-            break;
-          }
-        }
+    }
+
+    return {
+      chain: this.chainName,
+      txHash: tx.getId(),
+      payload: tx.toHex()
+    };
+  }
+
+  /**
+   * The signer only sees the summary, so the PSBT must do exactly what it says: pay `amount` to
+   * `to`, send anything else back to `from` as change, and pay no more than the summarised fee.
+   * Returns the fee.
+   */
+  private checkPsbtSummary(psbt: Psbt, unsigned: UnsignedTransaction): Big {
+    let paid = new Big(0);
+    let outputTotal = new Big(0);
+    for (const output of psbt.txOutputs) {
+      const recipient = this.scriptToAddress(output.script);
+      if (recipient === unsigned.to) {
+        paid = paid.plus(output.value.toString());
+      } else if (recipient !== unsigned.from) {
+        throw ErrorFactory.invalidParams('Payload pays an address missing from the unsigned transaction summary', {
+          to: unsigned.to,
+          recipient
+        });
       }
-      
-      return incoming;
-    } catch (error) {
-      this.logger?.error('Failed to get incoming Bitcoin transactions', error as Error, { address });
+      outputTotal = outputTotal.plus(output.value.toString());
+    }
+    // Paying yourself leaves the change on the same address as the payment
+    if (unsigned.to === unsigned.from ? paid.lt(unsigned.amount) : !paid.eq(unsigned.amount)) {
+      throw ErrorFactory.invalidParams('Payload does not match the unsigned transaction summary', {
+        to: unsigned.to,
+        amount: unsigned.amount
+      });
+    }
+
+    const inputTotal = psbt.data.inputs.reduce((sum, input, i) => {
+      const prevout = input.witnessUtxo
+        ?? (input.nonWitnessUtxo && BtcTransaction.fromBuffer(input.nonWitnessUtxo).outs[psbt.txInputs[i].index]);
+      if (!prevout) {
+        throw ErrorFactory.invalidParams(`Input ${i} has no previous output to compute the fee from`, { index: i });
+      }
+      return sum.plus(prevout.value.toString());
+    }, new Big(0));
+
+    const fee = inputTotal.minus(outputTotal);
+    if (fee.lt(0) || (unsigned.fee !== undefined && fee.gt(unsigned.fee))) {
+      throw ErrorFactory.invalidParams('Payload fee does not match the unsigned transaction summary', {
+        fee: fee.toString(),
+        expected: unsigned.fee
+      });
+    }
+    return fee;
+  }
+
+  protected async broadcastSignedTransaction(signed: SignedTransaction): Promise<TransactionResponse> {
+    const txHash = await this.broadcastTransaction(signed.payload);
+    return {
+      txHash,
+      status: 'pending'
+    };
+  }
+
+  // Fetches the raw block once and matches every output against the watched addresses
+  protected async scanBlock(height: number, addresses: ReadonlySet<string>): Promise<ScannedBlock> {
+    const hash = await this.getBlockHash(height);
+    const { data } = await this.esploraGet(`/block/${hash}/raw`, { responseType: 'arraybuffer' });
+    const block = BtcBlock.fromBuffer(new Uint8Array(data));
+    const timestamp = block.timestamp * 1000;
+    const transactions: IncomingTransaction[] = [];
+
+    for (const tx of block.transactions ?? []) {
+      const outputs = tx.outs.map(out => ({ script: out.script, value: out.value.toString() }));
+      transactions.push(...this.matchOutputs(tx.getId(), outputs, addresses).map(incoming => ({
+        ...incoming,
+        blockNumber: height,
+        blockHash: hash,
+        timestamp
+      })));
+    }
+
+    return { hash, transactions };
+  }
+
+  protected async getBlockHash(height: number): Promise<string> {
+    return String((await this.esploraGet(`/block-height/${height}`)).data);
+  }
+
+  /**
+   * Transactions that entered the mempool since the previous scan. The first scan only records
+   * what is already there; those transactions are delivered once they are mined.
+   */
+  protected async scanMempool(addresses: ReadonlySet<string>): Promise<IncomingTransaction[]> {
+    const txids: string[] = (await this.esploraGet('/mempool/txids')).data;
+    if (!this.mempoolTxids) {
+      this.mempoolTxids = new Set(txids);
       return [];
     }
+
+    const known = this.mempoolTxids;
+    const added = txids.filter(txid => !known.has(txid)).slice(0, MEMPOOL_SCAN_LIMIT);
+    const transactions: IncomingTransaction[] = [];
+    for (const txid of added) {
+      const tx: Transaction = (await this.esploraGet(`/tx/${txid}`)).data;
+      const outputs = tx.vout.map(vout => ({ script: Buffer.from(vout.scriptpubkey, 'hex'), value: String(vout.value) }));
+      transactions.push(...this.matchOutputs(txid, outputs, addresses).map(incoming => ({ ...incoming, timestamp: Date.now() })));
+    }
+
+    // Whatever is over the limit is picked up by the next scan
+    const current = new Set(txids);
+    this.mempoolTxids = new Set([...known].filter(txid => current.has(txid)).concat(added));
+    return transactions;
   }
 
-  // Helper methods
+  // One incoming transaction per watched address paid by the outputs
+  private matchOutputs(
+    txid: string,
+    outputs: Array<{ script: Uint8Array; value: string }>,
+    addresses: ReadonlySet<string>
+  ): IncomingTransaction[] {
+    const incoming: IncomingTransaction[] = [];
+    for (const output of outputs) {
+      const to = this.scriptToAddress(output.script);
+      if (to && addresses.has(to)) {
+        incoming.push({
+          txHash: txid,
+          from: 'unknown', // Bitcoin doesn't have explicit from addresses
+          to,
+          amount: new Big(output.value)
+        });
+      }
+    }
+    return incoming;
+  }
 
-  private validateBitcoinAddress(address: string): void {
-    // Bitcoin address validation regex (supports P2PKH, P2SH, Bech32, Taproot)
-    const bitcoinAddressRegex = /^(bc1|[13])[a-zA-HJ-NP-Z0-9]{25,87}$/;
-    if (!bitcoinAddressRegex.test(address)) {
-      throw new Error(`Invalid Bitcoin address format: ${address}`);
+  // PSBT (BIP-174) methods
+
+  /**
+   * Build an unsigned PSBT (base64) spending from a derived address,
+   * for co-signing with hardware wallets or external custody
+   */
+  async exportPsbt(
+    params: DeriveParams,
+    to: string,
+    amount: Big,
+    config?: BitcoinTransactionConfig
+  ): Promise<string> {
+    this.assertNetworkEnabled('exportPsbt');
+    validateDeriveParams(params);
+    this.validateAmount(amount);
+    this.validateBitcoinAddress(to);
+
+    const privateKey = this.derivePrivateKey(params);
+    const from = await this.deriveAddress(params);
+    const keyPair = this.ECPair.fromPrivateKey(Buffer.from(privateKey), { compressed: true });
+    const { psbt } = await this.buildPsbt(from, [{ to, amount }], keyPair.publicKey, config);
+
+    return psbt.toBase64();
+  }
+
+  /**
+   * Parse a PSBT in base64 or hex, such as one produced by another wallet
+   */
+  importPsbt(psbt: string): Psbt {
+    try {
+      return /^[0-9a-fA-F]+$/.test(psbt)
+        ? Psbt.fromHex(psbt, { network: this.network })
+        : Psbt.fromBase64(psbt, { network: this.network });
+    } catch (error) {
+      throw ErrorFactory.invalidParams(`Invalid PSBT: ${(error as Error).message}`, { psbt });
     }
   }
 
-  private async getUTXOs(address: string): Promise<UTXO[]> {
-    const response = await axios.get(
-      `${this.config.explorer!.apiUrl}/address/${address}/utxo`,
-      { timeout: this.adapterConfig.timeout }
-    );
-    
-    return response.data.filter((utxo: UTXO) => utxo.status.confirmed);
+  /**
+   * Sign only the inputs that spend one of the derived key's outputs (any script type);
+   * inputs owned by other signers are left untouched and nothing is finalized
+   */
+  async signPsbt(params: DeriveParams, psbt: string): Promise<PsbtSignResult> {
+    validateDeriveParams(params);
+    const parsed = this.importPsbt(psbt);
+    const signedInputs = this.signOwnedInputs(parsed, this.derivePrivateKey(params));
+
+    if (signedInputs.length === 0) {
+      throw ErrorFactory.invalidParams('PSBT has no inputs owned by the derived key', params);
+    }
+
+    this.logger?.debug('PSBT partially signed', { signedInputs });
+    return { psbt: parsed.toBase64(), signedInputs };
   }
 
-  private async selectUTXOs(
-    utxos: UTXO[], 
-    amount: Big, 
-    feeRate: Big = new Big(10),
-    selectionStrategy: 'auto' | 'manual' | 'largest-first' | 'smallest-first' = 'auto'
-  ): Promise<{
-    selectedUtxos: UTXO[];
-    totalInput: Big;
-    fee: Big;
-  }> {
-    // Apply UTXO selection strategy
-    let sortedUtxos: UTXO[];
-    switch (selectionStrategy) {
-      case 'largest-first':
-        sortedUtxos = utxos.sort((a, b) => b.value - a.value);
-        break;
-      case 'smallest-first':
-        sortedUtxos = utxos.sort((a, b) => a.value - b.value);
-        break;
-      case 'manual':
-        // For manual selection, use UTXOs in the order provided
-        sortedUtxos = [...utxos];
+  /**
+   * Merge signatures from several copies of the same PSBT
+   */
+  combinePsbts(psbts: string[]): string {
+    if (psbts.length === 0) {
+      throw ErrorFactory.invalidParams('At least one PSBT is required', { psbts });
+    }
+
+    const [first, ...rest] = psbts.map(psbt => this.importPsbt(psbt));
+    try {
+      return first.combine(...rest).toBase64();
+    } catch (error) {
+      throw ErrorFactory.invalidParams(`Cannot combine PSBTs: ${(error as Error).message}`, { psbts });
+    }
+  }
+
+  /**
+   * Finalize a fully signed PSBT and extract the network transaction
+   */
+  finalizePsbt(psbt: string): PsbtFinalizeResult {
+    const parsed = this.importPsbt(psbt);
+    try {
+      parsed.finalizeAllInputs();
+    } catch (error) {
+      throw ErrorFactory.invalidParams(`Cannot finalize PSBT: ${(error as Error).message}`, { psbt });
+    }
+
+    const tx = parsed.extractTransaction();
+    return { txHash: tx.getId(), txHex: tx.toHex() };
+  }
+
+  // Fee bumping (BIP-125 replace-by-fee and child-pays-for-parent)
+
+  /**
+   * Replace an unconfirmed transaction sent from the derived address with one spending the
+   * same inputs at a higher feerate. Payments are kept; the change output absorbs the extra
+   * fee, topped up with confirmed UTXOs when it is too small
+   */
+  async bumpFee(params: DeriveParams, txid: string, newFeeRate: Big): Promise<TransactionResponse> {
+    this.assertNetworkEnabled('bumpFee');
+    validateDeriveParams(params);
+
+    const privateKey = this.derivePrivateKey(params);
+    const from = await this.deriveAddress(params);
+    const fromScript = this.outputScriptHex(from);
+    const original = await this.getTransaction(txid);
+
+    if (original.status.confirmed) {
+      throw ErrorFactory.invalidParams(`Transaction ${txid} is already confirmed`, { txid });
+    }
+    if (!original.vin.every(input => input.prevout.scriptpubkey === fromScript)) {
+      throw ErrorFactory.invalidParams(`Transaction ${txid} spends inputs not owned by ${from}`, { txid, from });
+    }
+    if (!original.vin.some(input => input.sequence < 0xfffffffe)) {
+      throw ErrorFactory.invalidParams(`Transaction ${txid} does not signal replace-by-fee`, { txid });
+    }
+    const feeRate = newFeeRate.toNumber();
+    const originalFeeRate = original.fee / (original.weight / 4);
+    if (feeRate <= originalFeeRate) {
+      throw ErrorFactory.invalidParams(
+        `New feerate must exceed the original ${originalFeeRate.toFixed(2)} sat/vB`,
+        { txid, newFeeRate: newFeeRate.toString() }
+      );
+    }
+
+    const recipients = original.vout.filter(output => output.scriptpubkey !== fromScript);
+    const paid = recipients.reduce((sum, output) => sum + output.value, 0);
+    const inputs = original.vin.map(input => ({ txid: input.txid, vout: input.vout, value: input.prevout.value }));
+    const extraUtxos = (await this.getUTXOs(from))
+      .filter(utxo => !inputs.some(input => input.txid === utxo.txid && input.vout === utxo.vout))
+      .sort((a, b) => b.value - a.value);
+
+    const baseVsize = this.txOverhead + recipients.reduce((sum, output) => sum + 9 + output.scriptpubkey.length / 2, 0);
+    // BIP-125 rules 3 and 4: outbid the original and pay relay for the replacement's own size
+    const replacementFee = (vsize: number) =>
+      Math.max(Math.ceil(vsize * feeRate), original.fee + Math.ceil(vsize * INCREMENTAL_RELAY_FEE_RATE));
+
+    let fee: number;
+    let change: number;
+    for (;;) {
+      const totalInput = inputs.reduce((sum, input) => sum + input.value, 0);
+      const vsize = baseVsize + inputs.length * INPUT_VSIZE[this.scriptType];
+
+      fee = replacementFee(vsize + this.outputVsize(from));
+      change = totalInput - paid - fee;
+      if (change > this.dustThreshold(from)) {
         break;
-      case 'auto':
-      default:
-        // Auto: prefer largest first for efficiency
-        sortedUtxos = utxos.sort((a, b) => b.value - a.value);
+      }
+      if (totalInput - paid >= replacementFee(vsize)) {
+        fee = totalInput - paid;
+        change = 0;
         break;
+      }
+
+      // New inputs must be confirmed (BIP-125 rule 2); getUTXOs only returns confirmed ones
+      const next = extraUtxos.shift();
+      if (!next) {
+        throw ErrorFactory.invalidParams(`Insufficient funds to bump ${txid} to ${newFeeRate.toString()} sat/vB`, { txid });
+      }
+      inputs.push(next);
+    }
+
+    const keyPair = this.ECPair.fromPrivateKey(Buffer.from(privateKey), { compressed: true });
+    const psbt = new Psbt({ network: this.network });
+    for (const input of inputs) {
+      await this.addSpendInput(psbt, from, input, keyPair.publicKey, RBF_SEQUENCE);
+    }
+    for (const output of recipients) {
+      psbt.addOutput({ script: Buffer.from(output.scriptpubkey, 'hex'), value: BigInt(output.value) });
+    }
+    if (change > 0) {
+      psbt.addOutput({ address: from, value: BigInt(change) });
+    }
+    if (original.locktime > 0) {
+      psbt.setLocktime(original.locktime);
+    }
+
+    const txHash = await this.signAndBroadcast(psbt, privateKey);
+    const replaces = [...(this.replacements.get(txid) ?? []), txid];
+    this.replacements.set(txHash, replaces);
+
+    this.logger?.info('Bitcoin transaction replaced', { txid, txHash, fee, feeRate });
+    return { txHash, fee: new Big(fee), status: 'pending', replaces };
+  }
+
+  /**
+   * Speed up an unconfirmed transaction with a child that spends its output to the derived
+   * address and pays enough for both to reach the target feerate
+   */
+  async cpfp(params: DeriveParams, parentTxid: string, targetFeeRate: Big): Promise<TransactionResponse> {
+    this.assertNetworkEnabled('cpfp');
+    validateDeriveParams(params);
+
+    const privateKey = this.derivePrivateKey(params);
+    const from = await this.deriveAddress(params);
+    const parent = await this.getTransaction(parentTxid);
+
+    if (parent.status.confirmed) {
+      throw ErrorFactory.invalidParams(`Transaction ${parentTxid} is already confirmed`, { txid: parentTxid });
+    }
+    const vout = parent.vout.findIndex(output => output.scriptpubkey === this.outputScriptHex(from));
+    if (vout < 0) {
+      throw ErrorFactory.invalidParams(`Transaction ${parentTxid} has no output to ${from}`, { txid: parentTxid, from });
+    }
+
+    const childVsize = this.txOverhead + INPUT_VSIZE[this.scriptType] + this.outputVsize(from);
+    const packageFee = Math.ceil((Math.ceil(parent.weight / 4) + childVsize) * targetFeeRate.toNumber());
+    const fee = Math.max(packageFee - parent.fee, Math.ceil(childVsize * INCREMENTAL_RELAY_FEE_RATE));
+    const value = parent.vout[vout].value - fee;
+    if (value <= this.dustThreshold(from)) {
+      throw ErrorFactory.invalidParams(`Output ${parentTxid}:${vout} is too small to pay for the child`, { txid: parentTxid });
+    }
+
+    const keyPair = this.ECPair.fromPrivateKey(Buffer.from(privateKey), { compressed: true });
+    const psbt = new Psbt({ network: this.network });
+    await this.addSpendInput(psbt, from, { txid: parentTxid, vout, value: parent.vout[vout].value }, keyPair.publicKey, RBF_SEQUENCE);
+    psbt.addOutput({ address: from, value: BigInt(value) });
+
+    const txHash = await this.signAndBroadcast(psbt, privateKey);
+
+    this.logger?.info('Bitcoin CPFP child sent', { parentTxid, txHash, fee });
+    return { txHash, fee: new Big(fee), status: 'pending', paysFor: parentTxid };
+  }
+
+  // Sweeping
+
+  /**
+   * Move the confirmed UTXOs of many derived addresses into one destination with a single
+   * transaction, each input signed by its own derived key
+   */
+  async sweep(
+    sources: DeriveParams[] | DeriveRange,
+    destination: string,
+    config?: SweepConfig
+  ): Promise<SweepResult> {
+    this.assertNetworkEnabled('sweep');
+    this.validateBitcoinAddress(destination);
+
+    const params = Array.isArray(sources) ? sources : this.expandRange(sources);
+    if (params.length === 0) {
+      throw ErrorFactory.invalidParams('At least one source is required', { sources });
+    }
+    for (const p of params) {
+      validateDeriveParams(p);
+      if (p.chain !== this.chainName) {
+        throw ErrorFactory.invalidParams(`Cannot sweep ${p.chain} params with the ${this.chainName} adapter`, p);
+      }
+    }
+
+    let feeRate = config?.feeRate ?? await this.getFeeRate();
+    if (config?.maxFeeRate && feeRate.gt(config.maxFeeRate)) {
+      this.logger?.info('Sweep feerate capped', { feeRate: feeRate.toString(), maxFeeRate: config.maxFeeRate.toString() });
+      feeRate = config.maxFeeRate;
+    }
+
+    // Derive every key up front; UTXO lookups run a few at a time
+    const owners = await Promise.all(params.map(async p => {
+      const privateKey = this.derivePrivateKey(p);
+      return { privateKey, address: await this.deriveAddressFromPrivateKey(privateKey) };
+    }));
+    const candidates: Array<{ owner: typeof owners[number]; utxo: UTXO }> = [];
+    for (let i = 0; i < owners.length; i += SWEEP_CONCURRENCY) {
+      const batch = owners.slice(i, i + SWEEP_CONCURRENCY);
+      const utxos = await Promise.all(batch.map(owner => this.getUTXOs(owner.address)));
+      batch.forEach((owner, j) => utxos[j].forEach(utxo => candidates.push({ owner, utxo })));
+    }
+
+    const inputFee = feeRate.times(INPUT_VSIZE[this.scriptType]);
+    const minValue = config?.minUtxoValue ?? new Big(0);
+    const selected = candidates
+      .filter(({ utxo }) => minValue.lte(utxo.value))
+      .filter(({ utxo }) => config?.skipUneconomical === false || inputFee.lt(utxo.value))
+      .sort((a, b) => b.utxo.value - a.utxo.value)
+      .slice(0, config?.maxInputs ?? SWEEP_MAX_INPUTS);
+    if (selected.length === 0) {
+      throw ErrorFactory.invalidParams('No UTXOs worth sweeping', { sources: params.length, candidates: candidates.length });
+    }
+
+    const totalInput = selected.reduce((sum, { utxo }) => sum + utxo.value, 0);
+    const vsize = this.txOverhead + selected.length * INPUT_VSIZE[this.scriptType] + this.outputVsize(destination);
+    const fee = Math.ceil(feeRate.times(vsize).toNumber());
+    const amount = totalInput - fee;
+    if (amount <= this.dustThreshold(destination)) {
+      throw ErrorFactory.invalidParams(`Swept value ${totalInput} does not cover the ${fee} sat fee`, { totalInput, fee });
+    }
+
+    const psbt = new Psbt({ network: this.network });
+    const sequence = config?.rbf ? RBF_SEQUENCE : 0xffffffff;
+    for (const { owner, utxo } of selected) {
+      const keyPair = this.ECPair.fromPrivateKey(Buffer.from(owner.privateKey), { compressed: true });
+      await this.addSpendInput(psbt, owner.address, utxo, keyPair.publicKey, sequence);
     }
+    psbt.addOutput({ address: destination, value: BigInt(amount) });
+
+    // Each key signs only the inputs spending its own outputs
+    for (const owner of new Set(selected.map(({ owner }) => owner))) {
+      this.signOwnedInputs(psbt, owner.privateKey);
+    }
+    psbt.finalizeAllInputs();
+    const txHash = await this.broadcastTransaction(psbt.extractTransaction().toHex());
+
+    this.logger?.info('Bitcoin sweep sent', { destination, inputs: selected.length, amount, fee, txHash });
+    return {
+      txHash,
+      fee: new Big(fee),
+      status: 'pending',
+      amount: new Big(amount),
+      inputs: selected.length,
+      skipped: candidates.length - selected.length
+    };
+  }
+
+  // Helper methods
+
+  private validateBitcoinAddress(address: string): void {
+    // Decoding checks the checksum and the network's base58 versions and bech32 HRP
+    try {
+      btcAddress.toOutputScript(address, this.network);
+    } catch {
+      throw new Error(`Invalid Bitcoin ${this.config.network ?? 'mainnet'} address: ${address}`);
+    }
+  }
+
+  private payment(publicKey: Uint8Array, scriptType: BitcoinScriptType): payments.Payment {
+    const pubkey = Buffer.from(publicKey);
+    const network = this.network;
+    switch (scriptType) {
+      case 'p2pkh':
+        return payments.p2pkh({ pubkey, network });
+      case 'p2sh-p2wpkh':
+        return payments.p2sh({ redeem: payments.p2wpkh({ pubkey, network }), network });
+      case 'p2wpkh':
+        return payments.p2wpkh({ pubkey, network });
+      case 'p2tr':
+        return payments.p2tr({ internalPubkey: toXOnly(pubkey), network });
+    }
+  }
+
+  private expandRange(range: DeriveRange): DeriveParams[] {
+    const { fromIndex, toIndex } = range;
+    if (!Number.isInteger(fromIndex) || !Number.isInteger(toIndex) || fromIndex < 0 || toIndex < fromIndex) {
+      throw ErrorFactory.invalidParams('Invalid derive range', range);
+    }
+    return Array.from({ length: toIndex - fromIndex + 1 }, (_, i) => ({
+      scope: range.scope,
+      userId: range.userId,
+      chain: this.chainName,
+      index: String(fromIndex + i)
+    }));
+  }
+
+  private outputScriptHex(address: string): string {
+    return Buffer.from(btcAddress.toOutputScript(address, this.network)).toString('hex');
+  }
+
+  // Signs once, so a retried broadcast resends the same transaction instead of spending other UTXOs
+  private async signAndBroadcast(psbt: Psbt, privateKey: Uint8Array): Promise<string> {
+    this.signOwnedInputs(psbt, privateKey);
+    psbt.finalizeAllInputs();
+    const tx = psbt.extractTransaction();
+    const txHash = tx.getId();
+    return this.rebroadcast(txHash, async () => {
+      try {
+        return await this.broadcastTransaction(tx.toHex());
+      } catch (error) {
+        // An earlier attempt reached the node after all
+        if (/txn-already-(in-mempool|known)|already in block chain/i.test(String((error as any)?.response?.data))) {
+          return txHash;
+        }
+        throw error;
+      }
+    });
+  }
+
+  // 8-byte value, 1-byte script length and the script itself
+  private outputVsize(address: string): number {
+    return 9 + btcAddress.toOutputScript(address, this.network).length;
+  }
+
+  private assertScriptType(config?: BitcoinTransactionConfig): void {
+    if (config?.scriptType && config.scriptType !== this.scriptType) {
+      throw ErrorFactory.invalidParams(
+        `Adapter spends from ${this.scriptType} addresses; configure scriptType on the adapter to use ${config.scriptType}`,
+        config
+      );
+    }
+  }
+
+  // segwit marker and flag add half a vbyte
+  private get txOverhead(): number {
+    return this.scriptType === 'p2pkh' ? 10 : 11;
+  }
+
+  // Change worth less than creating and spending it at the dust relay feerate is dust
+  private dustThreshold(address: string): number {
+    return (this.outputVsize(address) + INPUT_VSIZE[this.scriptType]) * DUST_RELAY_FEE_RATE;
+  }
+
+  // Adds an input spending one of the `from` address's outputs
+  private async addSpendInput(
+    psbt: Psbt,
+    from: string,
+    utxo: { txid: string; vout: number; value: number },
+    publicKey: Uint8Array | undefined,
+    sequence: number
+  ): Promise<void> {
+    const input: Parameters<Psbt['addInput']>[0] = {
+      hash: utxo.txid,
+      index: utxo.vout,
+      sequence,
+    };
+
+    if (this.scriptType === 'p2pkh') {
+      // Legacy inputs are signed against the full previous transaction
+      input.nonWitnessUtxo = Buffer.from(await this.getTransactionHex(utxo.txid), 'hex');
+    } else {
+      // Segwit and Taproot inputs commit to the spent amounts and scripts
+      input.witnessUtxo = { script: btcAddress.toOutputScript(from, this.network), value: BigInt(utxo.value) };
+    }
+    if (publicKey && this.scriptType === 'p2sh-p2wpkh') {
+      input.redeemScript = this.payment(publicKey, 'p2sh-p2wpkh').redeem!.output;
+    }
+    if (publicKey && this.scriptType === 'p2tr') {
+      input.tapInternalKey = toXOnly(Buffer.from(publicKey));
+    }
+
+    psbt.addInput(input);
+  }
+
+  private async buildPsbt(
+    from: string,
+    outputs: PaymentOutput[],
+    publicKey: Uint8Array | undefined,
+    config?: BitcoinTransactionConfig
+  ): Promise<{ psbt: Psbt; fee: Big }> {
+    this.assertScriptType(config);
+
+    // Get UTXOs for the from address
+    const utxos = await this.getUTXOs(from);
+    if (utxos.length === 0) {
+      throw new Error('No UTXOs available for transaction');
+    }
+
+    // Apply configuration for UTXO selection and fee calculation
+    const feeRate = config?.feeRate || config?.satPerVByte || new Big(10); // Default 10 sat/vbyte
+    const utxoSelection = config?.utxoSelection || 'auto';
+    const specificUtxos = config?.specificUtxos;
     
-    const selectedUtxos: UTXO[] = [];
-    let totalInput = new Big(0);
+    // Filter UTXOs if specific ones are requested
+    let availableUtxos = utxos;
+    if (specificUtxos && specificUtxos.length > 0) {
+      availableUtxos = utxos.filter(utxo => specificUtxos.includes(utxo.txid));
+      if (availableUtxos.length === 0) {
+        throw new Error('None of the specified UTXOs are available');
+      }
+    }
     
-    // Estimate fee using provided fee rate
-    let estimatedSize = 10; // Base transaction size
+    // Select UTXOs and calculate fee
+    const selector = config?.coinSelector ?? createCoinSelector(utxoSelection);
+    const selection = selector.select({
+      utxos: availableUtxos,
+      target: outputs.reduce((sum, output) => sum + output.amount.toNumber(), 0),
+      feeRate: feeRate.toNumber(),
+      longTermFeeRate: (config?.longTermFeeRate ?? new Big(10)).toNumber(),
+      vsizes: {
+        input: INPUT_VSIZE[this.scriptType],
+        changeOutput: this.outputVsize(from),
+        base: outputs.reduce((sum, output) => sum + this.outputVsize(output.to), this.txOverhead)
+      },
+      dustThreshold: this.dustThreshold(from)
+    });
+    if (!selection) {
+      throw new Error('Insufficient UTXOs to cover amount and fees');
+    }
+    const { selected: selectedUtxos, change } = selection;
+    const fee = new Big(selection.fee);
+
+    const psbt = new Psbt({ network: this.network });
+
+    // Add inputs with optional RBF and sequence
+    const sequence = config?.rbf ? RBF_SEQUENCE : 0xffffffff; // Enable RBF if requested
+    const lockTime = config?.lockTime || 0;
     
-    for (const utxo of sortedUtxos) {
-      selectedUtxos.push(utxo);
-      totalInput = totalInput.plus(utxo.value);
-      estimatedSize += 148; // Input size for P2TR
-      
-      const outputCount = totalInput.minus(amount).gt(546) ? 2 : 1; // Change output if above dust
-      const totalSize = estimatedSize + (outputCount * 34);
-      const fee = new Big(totalSize).times(feeRate);
-      
-      if (totalInput.gte(amount.plus(fee))) {
-        return { selectedUtxos, totalInput, fee };
-      }
+    for (const utxo of selectedUtxos) {
+      await this.addSpendInput(psbt, from, utxo, publicKey, config?.sequence || sequence);
+    }
+    
+    // Set lock time if specified
+    if (lockTime > 0) {
+      psbt.setLocktime(lockTime);
+    }
+
+    // Add an output per recipient
+    for (const output of outputs) {
+      psbt.addOutput({
+        address: output.to,
+        value: BigInt(output.amount.toString()),
+      });
+    }
+
+    // Add change output if the selection left any
+    if (change > 0) {
+      psbt.addOutput({
+        address: from,
+        value: BigInt(change),
+      });
     }
+
+    return { psbt, fee };
+  }
+
+  // Signs every input that spends one of this key's outputs and returns their indexes
+  private signOwnedInputs(psbt: Psbt, privateKey: Uint8Array): number[] {
+    const keyPair = this.ECPair.fromPrivateKey(Buffer.from(privateKey), { compressed: true });
+    const ownScripts = new Map(
+      SCRIPT_TYPES.map(type => [Buffer.from(this.payment(keyPair.publicKey, type).output!).toString('hex'), type])
+    );
+
+    // Taproot key-path spends are signed with the key tweaked by the (script-less) TapTweak
+    const internalPubkey = toXOnly(Buffer.from(keyPair.publicKey));
+    const tweakedSigner = keyPair.tweak(crypto.taggedHash('TapTweak', internalPubkey));
+
+    const signedInputs: number[] = [];
+    psbt.data.inputs.forEach((input, i) => {
+      const prevoutScript = input.witnessUtxo
+        ? input.witnessUtxo.script
+        : input.nonWitnessUtxo
+          ? BtcTransaction.fromBuffer(input.nonWitnessUtxo).outs[psbt.txInputs[i].index].script
+          : undefined;
+      const scriptType = prevoutScript && ownScripts.get(Buffer.from(prevoutScript).toString('hex'));
+      if (!scriptType) {
+        return;
+      }
+
+      if (scriptType === 'p2tr') {
+        if (!input.tapInternalKey) {
+          psbt.updateInput(i, { tapInternalKey: internalPubkey });
+        }
+        psbt.signInput(i, tweakedSigner);
+      } else {
+        if (scriptType === 'p2sh-p2wpkh' && !input.redeemScript) {
+          psbt.updateInput(i, { redeemScript: this.payment(keyPair.publicKey, scriptType).redeem!.output });
+        }
+        psbt.signInput(i, keyPair);
+      }
+      signedInputs.push(i);
+    });
+
+    return signedInputs;
+  }
+
+  private async getUTXOs(address: string): Promise<UTXO[]> {
+    const response = await this.esploraGet(`/address/${address}/utxo`);
     
-    throw new Error('Insufficient UTXOs to cover amount and fees');
+    return response.data.filter((utxo: UTXO) => utxo.status.confirmed);
   }
 
-  private async estimateFee(sizeBytes: number): Promise<Big> {
+  // Medium-priority feerate in sat/vB from the Esplora estimates
+  private async getFeeRate(): Promise<Big> {
     try {
-      // Get current fee estimates from Blockstream
-      const response = await axios.get(
-        `${this.config.explorer!.apiUrl}/fee-estimates`,
-        { timeout: this.adapterConfig.timeout }
-      );
+      const response = await this.esploraGet(`/fee-estimates`);
       
       const feeRates = response.data;
-      const mediumPriorityRate = feeRates['6'] || feeRates['3'] || 10; // sat/vB
-      
-      return new Big(sizeBytes).times(mediumPriorityRate);
+      return new Big(feeRates['6'] || feeRates['3'] || 10);
     } catch (error) {
       this.logger?.warn('Failed to get dynamic fee estimate, using fallback', { error });
       // Fallback to 20 sat/vB
-      return new Big(sizeBytes).times(20);
+      return new Big(20);
     }
   }
 
+  private async getTransaction(txid: string): Promise<Transaction> {
+    const response = await this.esploraGet(`/tx/${txid}`);
+    return response.data;
+  }
+
   private async getTransactionHex(txid: string): Promise<string> {
-    const response = await axios.get(
-      `${this.config.explorer!.apiUrl}/tx/${txid}/hex`,
-      { timeout: this.adapterConfig.timeout }
-    );
+    const response = await this.esploraGet(`/tx/${txid}/hex`);
     return response.data;
   }
 
   private async broadcastTransaction(txHex: string): Promise<string> {
-    const response = await axios.post(
-      `${this.config.explorer!.apiUrl}/tx`,
+    const response = await this.withRpc(endpoint => axios.post(
+      `${endpoint.url}/tx`,
       txHex,
       {
-        headers: { 'Content-Type': 'text/plain' },
+        headers: { ...endpoint.headers, 'Content-Type': 'text/plain' },
         timeout: this.adapterConfig.timeout
       }
-    );
+    ));
     return response.data;
   }
 
-  private async scriptPubkeyToAddress(scriptPubkey: string): Promise<string> {
-    // This would require implementing script parsing
-    // For now, return a placeholder
-    return 'unknown';
+  // GET against the best Esplora endpoint, failing over to the others
+  private esploraGet(path: string, config: AxiosRequestConfig = {}): Promise<{ data: any }> {
+    return this.withRpc(endpoint => axios.get(
+      `${endpoint.url}${path}`,
+      { ...config, headers: endpoint.headers, timeout: this.adapterConfig.timeout }
+    ));
+  }
+
+  protected async checkEndpointHealth(endpoint: RpcEndpoint): Promise<void> {
+    await this.tipHeightAt(endpoint);
+  }
+
+  protected async getBalanceAt(endpoint: RpcEndpoint, address: string): Promise<QuorumResponse<Big>> {
+    const [response, blockHeight] = await Promise.all([
+      axios.get(`${endpoint.url}/address/${address}`, { headers: endpoint.headers, timeout: this.adapterConfig.timeout }),
+      this.tipHeightAt(endpoint)
+    ]);
+    const stats = response.data.chain_stats;
+    return { value: new Big((stats?.funded_txo_sum || 0) - (stats?.spent_txo_sum || 0)), blockHeight };
+  }
+
+  protected async getBlockHeight(): Promise<number> {
+    return Number((await this.esploraGet('/blocks/tip/height')).data);
+  }
+
+  protected async getTransactionLocation(txHash: string): Promise<TransactionLocation | null> {
+    try {
+      const { data } = await this.esploraGet(`/tx/${txHash}/status`);
+      return data.confirmed ? { blockNumber: data.block_height, blockHash: data.block_hash } : {};
+    } catch (error) {
+      // Evicted from the mempool, or its block was reorged away and it didn't make it back
+      if ((error as { response?: { status?: number } }).response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async tipHeightAt(endpoint: RpcEndpoint): Promise<number> {
+    const response = await axios.get(`${endpoint.url}/blocks/tip/height`, { headers: endpoint.headers, timeout: this.adapterConfig.timeout });
+    return Number(response.data);
+  }
+
+  private scriptToAddress(script: Uint8Array): string | undefined {
+    try {
+      return btcAddress.fromOutputScript(script, this.network);
+    } catch {
+      return undefined; // OP_RETURN and other scripts without an address
+    }
   }
 
   // Override base methods for Bitcoin-specific validation
@@ -0,0 +1,324 @@
+import {
+  BitcoinTransactionConfig,
+  CoinSelectionParams,
+  CoinSelectionResult,
+  CoinSelector,
+  SelectableUtxo
+} from "../../types/index.js";
+
+const BNB_MAX_TRIES = 100000;
+const KNAPSACK_ITERATIONS = 1000;
+
+interface Candidate<T> {
+  utxo: T;
+  effective: number; // value minus the fee to spend it at the current feerate
+}
+
+/**
+ * Turn a set of inputs into a result, scored by Bitcoin Core's waste metric:
+ * each input costs `vsize * (feeRate - longTermFeeRate)` relative to spending it later,
+ * plus the cost of creating and later spending a change output or, without change,
+ * the excess that goes to the miner.
+ * Returns undefined when the inputs don't cover the target and fee.
+ */
+export function finalizeSelection<T extends SelectableUtxo>(
+  selected: T[],
+  params: CoinSelectionParams<T>,
+  allowChange = true
+): CoinSelectionResult<T> | undefined {
+  const { target, feeRate, longTermFeeRate, vsizes, dustThreshold } = params;
+
+  const totalInput = selected.reduce((sum, utxo) => sum + utxo.value, 0);
+  const inputWaste = selected.length * vsizes.input * (feeRate - longTermFeeRate);
+  const changelessFee = Math.ceil((vsizes.base + selected.length * vsizes.input) * feeRate);
+  const excess = totalInput - target - changelessFee;
+  if (excess < 0) {
+    return undefined;
+  }
+
+  const changeFee = Math.ceil(vsizes.changeOutput * feeRate);
+  const change = excess - changeFee;
+  if (allowChange && change > dustThreshold) {
+    const changeCost = changeFee + vsizes.input * longTermFeeRate;
+    return { selected, totalInput, fee: changelessFee + changeFee, change, waste: inputWaste + changeCost };
+  }
+
+  return { selected, totalInput, fee: totalInput - target, change: 0, waste: inputWaste + excess };
+}
+
+/**
+ * Depth-first search for an input set that needs no change output: its effective value
+ * lands between the target and the target plus the cost of change. Among the matches,
+ * the one with the least waste wins.
+ */
+export class BranchAndBoundSelector implements CoinSelector {
+  readonly name = 'branch-and-bound';
+
+  constructor(private readonly maxTries = BNB_MAX_TRIES) {}
+
+  select<T extends SelectableUtxo>(params: CoinSelectionParams<T>): CoinSelectionResult<T> | undefined {
+    const { feeRate, longTermFeeRate, vsizes } = params;
+    const pool = effectiveCandidates(params).sort((a, b) => b.effective - a.effective);
+    const target = params.target + vsizes.base * feeRate;
+    const costOfChange = vsizes.changeOutput * feeRate + vsizes.input * longTermFeeRate;
+    const inputWaste = vsizes.input * (feeRate - longTermFeeRate);
+
+    let remaining = pool.reduce((sum, candidate) => sum + candidate.effective, 0);
+    if (remaining < target) {
+      return undefined;
+    }
+
+    // selection[i] says whether pool[i] is included; its length is the search depth
+    const selection: boolean[] = [];
+    let value = 0;
+    let waste = 0;
+    let best: boolean[] | undefined;
+    let bestWaste = Infinity;
+
+    for (let tries = 0; tries < this.maxTries; tries++) {
+      let backtrack = false;
+      if (
+        value + remaining < target ||
+        value > target + costOfChange ||
+        // With a high feerate, adding inputs only adds waste
+        (waste > bestWaste && feeRate > longTermFeeRate)
+      ) {
+        backtrack = true;
+      } else if (value >= target) {
+        const total = waste + value - target;
+        if (total <= bestWaste) {
+          best = [...selection];
+          bestWaste = total;
+        }
+        backtrack = true;
+      }
+
+      if (backtrack) {
+        // Walk back to the last included UTXO and explore the branch without it
+        while (selection.length > 0 && !selection[selection.length - 1]) {
+          selection.pop();
+          remaining += pool[selection.length].effective;
+        }
+        if (selection.length === 0) {
+          break;
+        }
+        selection[selection.length - 1] = false;
+        value -= pool[selection.length - 1].effective;
+        waste -= inputWaste;
+        continue;
+      }
+
+      const depth = selection.length;
+      remaining -= pool[depth].effective;
+      // Including a UTXO equal to an omitted predecessor repeats an explored branch
+      if (depth > 0 && !selection[depth - 1] && pool[depth - 1].effective === pool[depth].effective) {
+        selection.push(false);
+      } else {
+        selection.push(true);
+        value += pool[depth].effective;
+        waste += inputWaste;
+      }
+    }
+
+    if (!best) {
+      return undefined;
+    }
+    const chosen = best;
+    return finalizeSelection(pool.filter((_, i) => chosen[i]).map(candidate => candidate.utxo), params, false);
+  }
+}
+
+/**
+ * Bitcoin Core's knapsack solver: the smallest single UTXO that covers the target with
+ * change, or a randomly approximated subset of the smaller UTXOs that gets closest to it
+ */
+export class KnapsackSelector implements CoinSelector {
+  readonly name = 'knapsack';
+
+  constructor(
+    private readonly random: () => number = Math.random,
+    private readonly iterations = KNAPSACK_ITERATIONS
+  ) {}
+
+  select<T extends SelectableUtxo>(params: CoinSelectionParams<T>): CoinSelectionResult<T> | undefined {
+    const target = changeTarget(params);
+    const pool = shuffle(effectiveCandidates(params), this.random);
+
+    const smaller = pool.filter(candidate => candidate.effective < target);
+    const lowestLarger = pool
+      .filter(candidate => candidate.effective >= target)
+      .reduce<Candidate<T> | undefined>((lowest, candidate) =>
+        !lowest || candidate.effective < lowest.effective ? candidate : lowest, undefined);
+    const smallerTotal = smaller.reduce((sum, candidate) => sum + candidate.effective, 0);
+
+    if (smallerTotal <= target) {
+      const chosen = lowestLarger ? [lowestLarger] : smaller;
+      return finalizeSelection(chosen.map(candidate => candidate.utxo), params);
+    }
+
+    smaller.sort((a, b) => b.effective - a.effective);
+    const { included, value } = this.approximateBestSubset(smaller, smallerTotal, target);
+    if (lowestLarger && value !== target && lowestLarger.effective <= value) {
+      return finalizeSelection([lowestLarger.utxo], params);
+    }
+
+    return finalizeSelection(smaller.filter((_, i) => included[i]).map(candidate => candidate.utxo), params);
+  }
+
+  private approximateBestSubset<T>(
+    candidates: Candidate<T>[],
+    total: number,
+    target: number
+  ): { included: boolean[]; value: number } {
+    let best = candidates.map(() => true);
+    let bestValue = total;
+
+    for (let rep = 0; rep < this.iterations && bestValue !== target; rep++) {
+      const included = candidates.map(() => false);
+      let value = 0;
+      let reached = false;
+
+      // The first pass includes UTXOs at random, the second adds the ones it skipped
+      for (let pass = 0; pass < 2 && !reached; pass++) {
+        for (let i = 0; i < candidates.length; i++) {
+          if (pass === 0 ? this.random() < 0.5 : !included[i]) {
+            value += candidates[i].effective;
+            included[i] = true;
+            if (value >= target) {
+              reached = true;
+              if (value < bestValue) {
+                bestValue = value;
+                best = [...included];
+              }
+              value -= candidates[i].effective;
+              included[i] = false;
+            }
+          }
+        }
+      }
+    }
+
+    return { included: best, value: bestValue };
+  }
+}
+
+/**
+ * Draws UTXOs in random order until they fund the target plus a change output
+ */
+export class SingleRandomDrawSelector implements CoinSelector {
+  readonly name = 'single-random-draw';
+
+  constructor(private readonly random: () => number = Math.random) {}
+
+  select<T extends SelectableUtxo>(params: CoinSelectionParams<T>): CoinSelectionResult<T> | undefined {
+    const target = changeTarget(params);
+    const selected: T[] = [];
+    let value = 0;
+
+    for (const candidate of shuffle(effectiveCandidates(params), this.random)) {
+      selected.push(candidate.utxo);
+      value += candidate.effective;
+      if (value >= target) {
+        return finalizeSelection(selected, params);
+      }
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * Adds UTXOs in a fixed order until they cover the target; without a comparator the
+ * given order is kept
+ */
+export class OrderedSelector implements CoinSelector {
+  constructor(
+    readonly name: string,
+    private readonly compare?: (a: SelectableUtxo, b: SelectableUtxo) => number
+  ) {}
+
+  select<T extends SelectableUtxo>(params: CoinSelectionParams<T>): CoinSelectionResult<T> | undefined {
+    const ordered = this.compare ? [...params.utxos].sort(this.compare) : params.utxos;
+    const selected: T[] = [];
+
+    for (const utxo of ordered) {
+      selected.push(utxo);
+      const result = finalizeSelection(selected, params);
+      if (result) {
+        return result;
+      }
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * Runs several selectors and keeps the result with the least waste
+ */
+export class LowestWasteSelector implements CoinSelector {
+  readonly name = 'lowest-waste';
+
+  constructor(private readonly selectors: CoinSelector[]) {}
+
+  select<T extends SelectableUtxo>(params: CoinSelectionParams<T>): CoinSelectionResult<T> | undefined {
+    let best: CoinSelectionResult<T> | undefined;
+    for (const selector of this.selectors) {
+      const result = selector.select(params);
+      if (result && (!best || result.waste < best.waste)) {
+        best = result;
+      }
+    }
+    return best;
+  }
+}
+
+export function createCoinSelector(
+  strategy: NonNullable<BitcoinTransactionConfig['utxoSelection']>,
+  random: () => number = Math.random
+): CoinSelector {
+  switch (strategy) {
+    case 'branch-and-bound':
+      return new BranchAndBoundSelector();
+    case 'knapsack':
+      return new KnapsackSelector(random);
+    case 'single-random-draw':
+      return new SingleRandomDrawSelector(random);
+    case 'largest-first':
+      return new OrderedSelector('largest-first', (a, b) => b.value - a.value);
+    case 'smallest-first':
+      return new OrderedSelector('smallest-first', (a, b) => a.value - b.value);
+    case 'manual':
+      return new OrderedSelector('manual');
+    case 'auto':
+    default:
+      return new LowestWasteSelector([
+        new BranchAndBoundSelector(),
+        new KnapsackSelector(random),
+        new SingleRandomDrawSelector(random)
+      ]);
+  }
+}
+
+// UTXOs that are worth more than the fee to spend them
+function effectiveCandidates<T extends SelectableUtxo>(params: CoinSelectionParams<T>): Candidate<T>[] {
+  const inputFee = params.vsizes.input * params.feeRate;
+  return params.utxos
+    .map(utxo => ({ utxo, effective: utxo.value - inputFee }))
+    .filter(candidate => candidate.effective > 0);
+}
+
+// Effective value needed to pay the recipients, the fee and a change output above dust
+function changeTarget(params: CoinSelectionParams<SelectableUtxo>): number {
+  const { vsizes, feeRate } = params;
+  return params.target + (vsizes.base + vsizes.changeOutput) * feeRate + params.dustThreshold;
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
@@ -1,20 +1,53 @@
 // src/adapters/cardano/CardanoAdapter.ts
 
-import { IChainAdapter, SupportedChain, ChainConfig, TransactionResponse } from "../../types/index.js";
-import { deriveEntropy, DeriveParams } from "../../utils/derivation.js";
-import { ChainManager } from "../../core/ChainManager.js";
+import { BaseAdapter } from "../../core/adapters/BaseAdapter.js";
+import {
+  SupportedChain,
+  ChainConfig,
+  CardanoAdapterConfig,
+  Logger,
+  MetricsCollector,
+  TransactionResponse,
+  IncomingTransaction,
+  IncomingTransactionsPage,
+  SubscriptionState,
+  RpcEndpoint,
+  DeriveParams
+} from "../../types/index.js";
+import { ErrorCode, ErrorFactory } from "../../core/errors/index.js";
+import axios, { AxiosRequestConfig } from "axios";
 import Big from "big.js";
 import * as CSL from "@emurgo/cardano-serialization-lib-nodejs";
 
-export interface AdaConfig {
-  network?: "mainnet" | "testnet";
-  nodeUrl?: string;         // e.g. Blockfrost or direct cardano-node HTTP API
-  networkMagic?: number;   // only for testnet, e.g. 1097911063
+const HARDENED = 0x80000000;
+// Slots a transaction stays valid for (about two hours)
+const TTL_SLOTS = 7200;
+// Transactions fetched on a subscription's first poll, before there is a cursor
+const INITIAL_TRANSACTIONS = 20;
+
+interface BlockfrostAmount {
+  unit: string;
+  quantity: string;
+}
+
+interface BlockfrostUtxo {
+  tx_hash: string;
+  output_index: number;
+  amount: BlockfrostAmount[];
 }
 
-export class CardanoAdapter implements IChainAdapter {
-  public readonly chainName: SupportedChain = "cardano";
-  public readonly config: ChainConfig = {
+const lovelaceOf = (amounts: BlockfrostAmount[]): Big =>
+  new Big(amounts.find(a => a.unit === "lovelace")?.quantity ?? "0");
+
+/**
+ * Cardano adapter over the Blockfrost API; amounts are in lovelace (1 ADA = 1,000,000 lovelace).
+ * As in earlier releases, the derived key is the root of a CIP-1852 wallet and addresses are
+ * base addresses of the payment key at the params' index (m/1852'/1815'/0'/0/<index>) and the
+ * stake key (m/1852'/1815'/0'/2/0). Addresses are testnet ones unless the network is 'mainnet'.
+ */
+export class CardanoAdapter extends BaseAdapter {
+  readonly chainName: SupportedChain = "cardano";
+  readonly config: ChainConfig = {
     name: 'Cardano',
     symbol: 'ADA',
     decimals: 6,
@@ -32,175 +65,229 @@ export class CardanoAdapter implements IChainAdapter {
       apiUrl: 'https://cardano-mainnet.blockfrost.io/api/v0'
     }
   };
-  private adaConfig: AdaConfig;
-  private masterSeed: Uint8Array;
-  private networkId: number;
-  private magic?: number;
-
-  constructor(masterSeed: Uint8Array, config?: AdaConfig) {
-    this.adaConfig = config || {};
-    this.masterSeed = masterSeed;
-    this.networkId = config?.network === "mainnet" ? 1 : 0;
-    this.magic = config?.networkMagic;
-    ChainManager.register(this);
-  }
-
-  /** CIP‑1852 path: m/1852'/1815'/0'/role/index */
-  private deriveKeyPair(params: DeriveParams) {
-    const ENTROPY = deriveEntropy(this.masterSeed, params);
-    // root from 32‑byte entropy + zero salt
-    const root = CSL.Bip32PrivateKey.from_bip39_entropy(
-      ENTROPY.slice(0, 32),
-      Buffer.alloc(32)
-    );
-    const HARD = 0x80000000;
-    const account = root
-      .derive(HARD + 1852)  // purpose
-      .derive(HARD + 1815)  // coin type (ADA)
-      .derive(HARD + 0);    // account 0
 
-    // payment key at path /0/index
-    const payPrv = account.derive(0).derive(Number(params.index));
-    const payPub = payPrv.to_public();
+  private readonly projectId?: string;
 
-    // stake key at path /2/0
-    const stakePrv = account.derive(2).derive(0);
-    const stakePub = stakePrv.to_public();
+  constructor(
+    masterSeed: Uint8Array,
+    adapterConfig: CardanoAdapterConfig = {},
+    logger?: Logger,
+    metrics?: MetricsCollector
+  ) {
+    super(masterSeed, adapterConfig, logger, metrics);
+    this.projectId = adapterConfig.projectId;
+    this.config.network = adapterConfig.network;
+  }
 
-    return { payPrv, payPub, stakePub };
+  private get networkId(): number {
+    return this.config.network === 'mainnet'
+      ? CSL.NetworkInfo.mainnet().network_id()
+      : CSL.NetworkInfo.testnet_preprod().network_id();
   }
 
-  async deriveAddress(params: DeriveParams): Promise<string> {
-    const { payPub, stakePub } = this.deriveKeyPair(params);
-    const paymentCred = CSL.Credential.from_keyhash(
-      payPub.to_raw_key().hash()
-    );
-    const stakeCred = CSL.Credential.from_keyhash(
-      stakePub.to_raw_key().hash()
-    );
-    const baseAddr = CSL.BaseAddress.new(
-      this.networkId,
-      paymentCred,
-      stakeCred
-    );
-    return baseAddr.to_address().to_bech32();
+  // The payment key path ends in the params' index, so the key handed around carries it after the root entropy
+  protected derivePrivateKey(params: DeriveParams): Uint8Array {
+    const root = super.derivePrivateKey(params);
+    const key = new Uint8Array(root.length + 4);
+    key.set(root);
+    new DataView(key.buffer).setUint32(root.length, Number(params.index) >>> 0);
+    return key;
+  }
+
+  // CIP-1852 account 0 of the wallet rooted at the derived key
+  private accountKey(privateKey: Uint8Array): CSL.Bip32PrivateKey {
+    return CSL.Bip32PrivateKey.from_bip39_entropy(privateKey.subarray(0, -4), Buffer.alloc(32))
+      .derive(HARDENED + 1852)  // purpose
+      .derive(HARDENED + 1815)  // coin type (ADA)
+      .derive(HARDENED + 0);    // account
   }
 
-  async balance(params: DeriveParams): Promise<Big> {
-    const addr = await this.deriveAddress(params);
-    const resp = await fetch(`${this.adaConfig.nodeUrl}/addresses/${addr}/utxos`);
-    if (!resp.ok) throw new Error(`Failed to fetch UTXOs: ${resp.status}`);
-    const utxos: Array<{ amount: Array<{ unit: string; quantity: string }> }> =
-      await resp.json();
+  private paymentBip32Key(privateKey: Uint8Array): CSL.Bip32PrivateKey {
+    const index = new DataView(privateKey.buffer, privateKey.byteOffset, privateKey.byteLength).getUint32(privateKey.length - 4);
+    return this.accountKey(privateKey).derive(0).derive(index);
+  }
 
-    // sum up all lovelace, convert to ADA
-    const lovelace = utxos.reduce((sum, utxo) => {
-      const lov = utxo.amount.find((a) => a.unit === "lovelace");
-      return sum.plus(lov?.quantity ?? "0");
-    }, new Big(0));
+  private paymentKey(privateKey: Uint8Array): CSL.PrivateKey {
+    return this.paymentBip32Key(privateKey).to_raw_key();
+  }
 
-    return lovelace.div(new Big(1_000_000));
+  protected async deriveAddressFromPrivateKey(privateKey: Uint8Array): Promise<string> {
+    const account = this.accountKey(privateKey);
+    const paymentCred = CSL.Credential.from_keyhash(this.paymentBip32Key(privateKey).to_public().to_raw_key().hash());
+    const stakeCred = CSL.Credential.from_keyhash(account.derive(2).derive(0).to_public().to_raw_key().hash());
+    return CSL.BaseAddress.new(this.networkId, paymentCred, stakeCred).to_address().to_bech32();
   }
 
-  async send(
-    params: DeriveParams,
+  // Hex-encoded ed25519 payment public key
+  protected async publicKeyFromPrivateKey(privateKey: Uint8Array): Promise<string> {
+    return this.paymentKey(privateKey).to_public().to_hex();
+  }
+
+  protected async getBalanceForAddress(address: string): Promise<Big> {
+    // Blockfrost answers 404 for addresses that never appeared on chain
+    const info = await this.blockfrostGet<{ amount: BlockfrostAmount[] }>(`/addresses/${address}`, { allowNotFound: true });
+    return info ? lovelaceOf(info.amount) : new Big(0);
+  }
+
+  protected async getAddressActivity(address: string): Promise<boolean> {
+    return (await this.blockfrostGet<unknown>(`/addresses/${address}`, { allowNotFound: true })) !== undefined;
+  }
+
+  protected async sendTransaction(
+    privateKey: Uint8Array,
+    from: string,
     to: string,
     amount: Big
   ): Promise<TransactionResponse> {
-    const { payPrv } = this.deriveKeyPair(params);
-    const fromAddr = await this.deriveAddress(params);
+    const [utxos, params, tip] = await Promise.all([
+      this.getUtxos(from),
+      this.blockfrostGet<Record<string, any>>('/epochs/latest/parameters'),
+      this.blockfrostGet<{ slot: number }>('/blocks/latest')
+    ]);
 
-    // 1) fetch UTXOs
-    const utxoRes = await fetch(
-      `${this.adaConfig.nodeUrl}/addresses/${fromAddr}/utxos`
-    );
-    const utxos: any[] = await utxoRes.json();
-
-    // 2) init tx builder
     const txBuilder = CSL.TransactionBuilder.new(
       CSL.TransactionBuilderConfigBuilder.new()
-        .fee_algo(
-          CSL.LinearFee.new(
-            CSL.BigNum.from_str("44"),      // min fee coeff
-            CSL.BigNum.from_str("155381")   // min fee constant
-          )
-        )
-        .pool_deposit(CSL.BigNum.from_str("500000000"))
-        .key_deposit(CSL.BigNum.from_str("2000000"))
-        .max_value_size(5000)
-        .max_tx_size(16384)
-        .coins_per_utxo_byte(CSL.BigNum.from_str("34482"))
+        .fee_algo(CSL.LinearFee.new(
+          CSL.BigNum.from_str(String(params.min_fee_a)),
+          CSL.BigNum.from_str(String(params.min_fee_b))
+        ))
+        .pool_deposit(CSL.BigNum.from_str(String(params.pool_deposit)))
+        .key_deposit(CSL.BigNum.from_str(String(params.key_deposit)))
+        .max_value_size(Number(params.max_val_size))
+        .max_tx_size(Number(params.max_tx_size))
+        .coins_per_utxo_byte(CSL.BigNum.from_str(String(params.coins_per_utxo_size)))
         .build()
     );
 
-    // 3) add inputs
-    utxos.forEach((u) => {
-      const input = CSL.TransactionInput.new(
-        CSL.TransactionHash.from_bytes(Buffer.from(u.tx_hash, "hex")),
-        u.output_index
-      );
-      const value = CSL.Value.new(
-        CSL.BigNum.from_str(
-          u.amount.find((x: any) => x.unit === "lovelace")!.quantity
-        )
-      );
-      txBuilder.add_regular_input(
-        CSL.Address.from_bech32(fromAddr),
-        input,
-        value
-      );
-    });
-
-    // 4) add output
-    const adaLovelace = amount.times(1_000_000).toFixed(0);
-    txBuilder.add_output(
-      CSL.TransactionOutput.new(
-        CSL.Address.from_bech32(to),
-        CSL.Value.new(CSL.BigNum.from_str(adaLovelace))
-      )
-    );
+    txBuilder.add_output(CSL.TransactionOutput.new(
+      CSL.Address.from_bech32(to),
+      CSL.Value.new(CSL.BigNum.from_str(amount.toFixed(0)))
+    ));
+
+    // Outputs holding native tokens are left alone so the tokens aren't swept into change
+    const fromAddress = CSL.Address.from_bech32(from);
+    const spendable = CSL.TransactionUnspentOutputs.new();
+    for (const utxo of utxos.filter(u => u.amount.every(a => a.unit === "lovelace"))) {
+      spendable.add(CSL.TransactionUnspentOutput.new(
+        CSL.TransactionInput.new(CSL.TransactionHash.from_hex(utxo.tx_hash), utxo.output_index),
+        CSL.TransactionOutput.new(fromAddress, CSL.Value.new(CSL.BigNum.from_str(lovelaceOf(utxo.amount).toFixed(0))))
+      ));
+    }
+    txBuilder.add_inputs_from(spendable, CSL.CoinSelectionStrategyCIP2.LargestFirst);
+    txBuilder.set_ttl_bignum(CSL.BigNum.from_str(String(tip.slot + TTL_SLOTS)));
+    txBuilder.add_change_if_needed(fromAddress);
+
+    // The witness signs the hash of the exact body bytes that get submitted
+    const tx = CSL.FixedTransaction.new_from_body_bytes(txBuilder.build().to_bytes());
+    tx.sign_and_add_vkey_signature(this.paymentKey(privateKey));
+    const txHash = tx.transaction_hash().to_hex();
 
-    // 5) set TTL
-    const tipRes = await fetch(`${this.adaConfig.nodeUrl}/blocks/latest`);
-    const tip = await tipRes.json() as { slot: number };
-    txBuilder.set_ttl(tip.slot + 7200);
-
-    // 6) change back
-    txBuilder.add_change_if_needed(CSL.Address.from_bech32(fromAddr));
-
-    // 7) build & sign
-    const txBody = txBuilder.build();
-    // Create a temporary transaction to get the hash
-    const tempTx = CSL.Transaction.new(txBody, CSL.TransactionWitnessSet.new(), undefined);
-    // Calculate hash manually using transaction bytes
-    const txBytes = tempTx.to_bytes();
-    // Create a hash from the body bytes for signing
-    const txHash = CSL.TransactionHash.from_bytes(txBytes.slice(0, 32)); // Use first 32 bytes as hash
-
-    const witnessSet = CSL.TransactionWitnessSet.new();
-    const vkeyWit = CSL.Vkeywitnesses.new();
-    const vkey = CSL.make_vkey_witness(
+    await this.withRpc(endpoint => axios.post(`${endpoint.url}/tx/submit`, Buffer.from(tx.to_bytes()), {
+      headers: { ...this.headersFor(endpoint), 'Content-Type': 'application/cbor' },
+      timeout: this.adapterConfig.timeout
+    }));
+
+    return {
       txHash,
-      payPrv.to_raw_key()
-    );
-    vkeyWit.add(vkey);
-    witnessSet.set_vkeys(vkeyWit);
-
-    const signed = CSL.Transaction.new(txBody, witnessSet, undefined);
-    const signedBytes = signed.to_bytes();
-
-    // 8) submit
-    const submitRes = await fetch(`${this.adaConfig.nodeUrl}/tx/submit`, {
-      method: "POST",
-      headers: { "Content-Type": "application/cbor" },
-      body: Buffer.from(signedBytes),
-    });
-    if (!submitRes.ok)
-      throw new Error(`Submit failed: ${submitRes.statusText}`);
-
-    return { 
-      txHash: txHash.to_hex(),
       status: 'pending'
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Lovelace the address gained in each transaction since the last block processed: outputs to
+   * the address minus inputs it spent, so its own change doesn't count as incoming.
+   */
+  protected async getIncomingTransactions(
+    address: string,
+    seen: Set<string>,
+    since: SubscriptionState
+  ): Promise<IncomingTransactionsPage> {
+    const history = await this.blockfrostGet<{ tx_hash: string; block_height: number; block_time: number }[]>(
+      `/addresses/${address}/transactions`,
+      {
+        allowNotFound: true,
+        params: since.lastBlock !== undefined
+          ? { order: 'asc', from: String(since.lastBlock) }
+          : { order: 'desc', count: INITIAL_TRANSACTIONS }
+      }
+    ) ?? [];
+    // Oldest first
+    const transactions = since.lastBlock !== undefined ? history : [...history].reverse();
+
+    const incoming: IncomingTransaction[] = [];
+    for (const tx of transactions) {
+      if (seen.has(tx.tx_hash)) continue;
+
+      const { inputs, outputs } = await this.blockfrostGet<{
+        inputs: { address: string; amount: BlockfrostAmount[] }[];
+        outputs: { address: string; amount: BlockfrostAmount[] }[];
+      }>(`/txs/${tx.tx_hash}/utxos`);
+      const received = outputs
+        .filter(o => o.address === address)
+        .reduce((sum, o) => sum.plus(lovelaceOf(o.amount)), new Big(0))
+        .minus(inputs
+          .filter(i => i.address === address)
+          .reduce((sum, i) => sum.plus(lovelaceOf(i.amount)), new Big(0)));
+      if (received.lte(0)) continue;
+
+      incoming.push({
+        txHash: tx.tx_hash,
+        from: inputs.find(i => i.address !== address)?.address ?? inputs[0]?.address ?? '',
+        to: address,
+        amount: received,
+        blockNumber: tx.block_height,
+        timestamp: tx.block_time * 1000
+      });
+    }
+
+    return {
+      transactions: incoming,
+      lastBlock: transactions.length > 0 ? transactions[transactions.length - 1].block_height : since.lastBlock
+    };
+  }
+
+  // Every UTXO of the address; Blockfrost pages them 100 at a time
+  private async getUtxos(address: string): Promise<BlockfrostUtxo[]> {
+    const utxos: BlockfrostUtxo[] = [];
+    for (let page = 1; ; page++) {
+      const batch = await this.blockfrostGet<BlockfrostUtxo[]>(
+        `/addresses/${address}/utxos`,
+        { allowNotFound: true, params: { page } }
+      ) ?? [];
+      utxos.push(...batch);
+      if (batch.length < 100) return utxos;
+    }
+  }
+
+  private headersFor(endpoint: RpcEndpoint): Record<string, string> {
+    return this.projectId ? { ...endpoint.headers, project_id: this.projectId } : { ...endpoint.headers };
+  }
+
+  // GET against the best Blockfrost endpoint, failing over to the others
+  private blockfrostGet<T>(path: string, options: { allowNotFound: true; params?: AxiosRequestConfig['params'] }): Promise<T | undefined>;
+  private blockfrostGet<T>(path: string, options?: { params?: AxiosRequestConfig['params'] }): Promise<T>;
+  private async blockfrostGet<T>(
+    path: string,
+    { allowNotFound = false, params }: { allowNotFound?: boolean; params?: AxiosRequestConfig['params'] } = {}
+  ): Promise<T | undefined> {
+    const response = await this.withRpc(endpoint => axios.get(`${endpoint.url}${path}`, {
+      headers: this.headersFor(endpoint),
+      timeout: this.adapterConfig.timeout,
+      params,
+      validateStatus: status => (status >= 200 && status < 300) || (allowNotFound && status === 404)
+    }));
+    return response.status === 404 ? undefined : response.data;
+  }
+
+  protected async checkEndpointHealth(endpoint: RpcEndpoint): Promise<void> {
+    await axios.get(`${endpoint.url}/health`, { headers: this.headersFor(endpoint), timeout: this.adapterConfig.timeout });
+  }
+
+  protected validateAddress(address: string): void {
+    try {
+      CSL.Address.from_bech32(address);
+    } catch {
+      throw ErrorFactory.validationError(ErrorCode.INVALID_ADDRESS, `Invalid Cardano address: ${address}`, { address });
+    }
+  }
+}
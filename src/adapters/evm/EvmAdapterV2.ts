@@ -1,4 +1,5 @@
 import { BaseAdapter } from "../../core/adapters/BaseAdapter.js";
+import { DerivationPath, STANDARD_PATHS } from "../../core/derivation/DerivationStrategy.js";
 import { 
   SupportedChain, 
   ChainConfig, 
@@ -14,14 +15,51 @@ import {
   DeriveParams,
   TransactionConfig,
   SubscriptionCallback,
-  Unsubscribe
+  Unsubscribe,
+  UnsignedTransaction,
+  SignedTransaction,
+  PaymentOutput,
+  RpcEndpoint,
+  QuorumResponse,
+  TransactionReceipt,
+  TransactionLocation
 } from "../../types/index.js";
 import Big from "big.js";
 import { ethers } from "ethers";
 import * as secp256k1 from "@noble/secp256k1";
 import { keccak256 } from "js-sha3";
 import { ConnectionPool, ConnectionFactory } from "../../core/pool/ConnectionPool.js";
+import { rateLimiterFor } from "../../core/rpc/RateLimiter.js";
 import { ValidationError, ErrorCode } from "../../core/errors/index.js";
+import { ScannedBlock } from "../../core/subscriptions/AddressWatcher.js";
+
+const TRANSFER_TOPIC = ethers.utils.id('Transfer(address,address,uint256)');
+
+// disperse.app, deployed at the same address on most EVM chains; sendMany checks it has code
+const DISPERSE_ADDRESS = '0xD152f549545093347A162Dce210e7293f1452150';
+const DISPERSE_ABI = [
+  'function disperseEther(address[] recipients, uint256[] values) payable',
+  'function disperseToken(address token, address[] recipients, uint256[] values)'
+];
+const ERC20_DECIMALS_ABI = ['function decimals() view returns (uint8)'];
+const ERC20_ALLOWANCE_ABI = [
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)'
+];
+
+// Hands every JSON-RPC request to `route`, so each provider call can fail over on its own
+class RoutedJsonRpcProvider extends ethers.providers.JsonRpcProvider {
+  constructor(
+    network: ethers.providers.Networkish,
+    private readonly route: (method: string, params: Array<any>) => Promise<any>
+  ) {
+    super(undefined, network);
+  }
+
+  send(method: string, params: Array<any>): Promise<any> {
+    return this.route(method, params);
+  }
+}
 
 /**
  * Enhanced EVM adapter supporting multiple EVM-compatible chains
@@ -31,9 +69,12 @@ export class EvmAdapterV2 extends BaseAdapter {
   readonly chainName: SupportedChain;
   readonly config: ChainConfig;
   
-  private provider: ethers.providers.JsonRpcProvider;
-  private wsProvider?: ethers.providers.WebSocketProvider;
-  private providerPool?: ConnectionPool<ethers.providers.JsonRpcProvider>;
+  private _provider?: ethers.providers.JsonRpcProvider;
+  private _wsProvider?: ethers.providers.WebSocketProvider;
+  private readonly endpointProviders = new Map<string, ethers.providers.JsonRpcProvider>();
+  private readonly providerPools = new Map<string, ConnectionPool<ethers.providers.JsonRpcProvider>>();
+  private readonly tokenDecimals = new Map<string, number>();
+  private blockListener?: () => void;
 
   constructor(
     chainName: SupportedChain,
@@ -47,81 +88,110 @@ export class EvmAdapterV2 extends BaseAdapter {
     
     this.chainName = chainName;
     this.config = config;
+  }
 
-    // Initialize providers
-    const httpEndpoint = Array.isArray(config.endpoints.http) 
-      ? config.endpoints.http[0] 
-      : config.endpoints.http;
-    
-    this.provider = new ethers.providers.JsonRpcProvider(
-      httpEndpoint.url,
-      { 
-        chainId: config.chainId as number,
-        name: config.name 
-      }
-    );
+  // Providers are created on first use so derive-only adapters never open a connection
+  private get provider(): ethers.providers.JsonRpcProvider {
+    if (!this._provider) {
+      this.assertNetworkEnabled('provider');
+      this._provider = new RoutedJsonRpcProvider(
+        this.network,
+        (method, params) => this.withRpc(endpoint => this.providerFor(endpoint).send(method, params))
+      );
+    }
+    return this._provider;
+  }
 
-    // Initialize WebSocket provider if available
-    if (config.endpoints.ws) {
-      const wsEndpoint = Array.isArray(config.endpoints.ws)
-        ? config.endpoints.ws[0]
-        : config.endpoints.ws;
+  private get network(): ethers.providers.Network {
+    return {
+      chainId: this.config.chainId as number,
+      name: this.config.name
+    };
+  }
+
+  // Plain provider for a single endpoint
+  private providerFor(endpoint: RpcEndpoint): ethers.providers.JsonRpcProvider {
+    let provider = this.endpointProviders.get(endpoint.url);
+    if (!provider) {
+      provider = new ethers.providers.JsonRpcProvider(
+        { url: endpoint.url, headers: endpoint.headers, timeout: endpoint.timeout },
+        this.network
+      );
+      this.endpointProviders.set(endpoint.url, provider);
+    }
+    return provider;
+  }
+
+  private getWsProvider(): ethers.providers.WebSocketProvider | undefined {
+    if (!this._wsProvider && this.config.endpoints.ws) {
+      this.assertNetworkEnabled('wsProvider');
+      const wsEndpoint = Array.isArray(this.config.endpoints.ws)
+        ? this.config.endpoints.ws[0]
+        : this.config.endpoints.ws;
       
-      this.wsProvider = new ethers.providers.WebSocketProvider(
+      this._wsProvider = new ethers.providers.WebSocketProvider(
         wsEndpoint.url,
         { 
-          chainId: config.chainId as number,
-          name: config.name 
+          chainId: this.config.chainId as number,
+          name: this.config.name 
         }
       );
 
       // Handle WebSocket connection errors
-      this.wsProvider.on('error', (error) => {
+      this._wsProvider.on('error', (error) => {
         this.logger?.error('WebSocket provider error', error, { chain: this.chainName });
       });
     }
+    return this._wsProvider;
+  }
 
-    // Initialize connection pool for parallel requests
-    const providerFactory: ConnectionFactory<ethers.providers.JsonRpcProvider> = {
-      create: async () => {
-        const provider = new ethers.providers.JsonRpcProvider(
-          httpEndpoint.url,
-          { 
-            chainId: config.chainId as number,
-            name: config.name 
-          }
-        );
+  private getProviderPool(endpoint: RpcEndpoint): ConnectionPool<ethers.providers.JsonRpcProvider> {
+    let providerPool = this.providerPools.get(endpoint.url);
+    if (!providerPool) {
+      this.assertNetworkEnabled('providerPool');
+
+      // Initialize connection pool for parallel requests
+      const providerFactory: ConnectionFactory<ethers.providers.JsonRpcProvider> = {
+        create: async () => {
+          const provider = new ethers.providers.JsonRpcProvider(
+            { url: endpoint.url, headers: endpoint.headers, timeout: endpoint.timeout },
+            this.network
+          );
+          
+          // Test the connection
+          await provider.getNetwork();
+          return provider;
+        },
         
-        // Test the connection
-        await provider.getNetwork();
-        return provider;
-      },
-      
-      destroy: async (provider) => {
-        // Ethers providers don't need explicit cleanup
-        provider.removeAllListeners();
-      },
-      
-      validate: async (provider) => {
-        try {
-          await provider.getBlockNumber();
-          return true;
-        } catch {
-          return false;
+        destroy: async (provider) => {
+          // Ethers providers don't need explicit cleanup
+          provider.removeAllListeners();
+        },
+        
+        validate: async (provider) => {
+          try {
+            await provider.getBlockNumber();
+            return true;
+          } catch {
+            return false;
+          }
         }
-      }
-    };
+      };
 
-    this.providerPool = new ConnectionPool(
-      providerFactory,
-      {
-        maxSize: 10,
-        minSize: 2,
-        acquireTimeoutMs: 5000,
-        validateOnBorrow: true
-      },
-      this.logger
-    );
+      providerPool = new ConnectionPool(
+        providerFactory,
+        {
+          maxSize: 10,
+          minSize: 2,
+          acquireTimeoutMs: 5000,
+          validateOnBorrow: true,
+          rateLimiter: rateLimiterFor(endpoint)
+        },
+        this.logger
+      );
+      this.providerPools.set(endpoint.url, providerPool);
+    }
+    return providerPool;
   }
 
   protected async deriveAddressFromPrivateKey(privateKey: Uint8Array): Promise<string> {
@@ -146,6 +216,14 @@ export class EvmAdapterV2 extends BaseAdapter {
     }
   }
 
+  protected standardDerivationPath(account: number, index: number): DerivationPath {
+    return STANDARD_PATHS.evm(account, index);
+  }
+
+  protected async publicKeyFromPrivateKey(privateKey: Uint8Array): Promise<string> {
+    return Buffer.from(secp256k1.getPublicKey(privateKey, true)).toString('hex');
+  }
+
   protected async getBalanceForAddress(address: string): Promise<Big> {
     try {
       const balance = await this.provider.getBalance(address);
@@ -159,6 +237,15 @@ export class EvmAdapterV2 extends BaseAdapter {
     }
   }
 
+  // Sent from (nonce) or holds ether; token-only deposits to an address that never sent are not seen
+  protected async getAddressActivity(address: string): Promise<boolean> {
+    const [nonce, balance] = await Promise.all([
+      this.provider.getTransactionCount(address),
+      this.provider.getBalance(address)
+    ]);
+    return nonce > 0 || !balance.isZero();
+  }
+
   protected async sendTransaction(
     privateKey: Uint8Array,
     from: string,
@@ -176,73 +263,23 @@ export class EvmAdapterV2 extends BaseAdapter {
         this.provider
       );
 
-      // Get current gas price and nonce (allow override from config)
-      const [gasPrice, currentNonce] = await Promise.all([
-        this.getOptimalGasPrice(),
-        this.provider.getTransactionCount(from, 'pending')
-      ]);
+      const txRequest = await this.prepareTransactionRequest(from, to, amount, config);
+      const nonce = txRequest.nonce;
 
-      // Use configured nonce or current nonce
-      const nonce = config?.nonce !== undefined ? config.nonce : currentNonce;
-      
-      // Determine transaction type
-      const txType = config?.type !== undefined ? config.type : 
-                     (this.config.feeConfig?.type === 'eip1559' ? 2 : 0);
-
-      // Prepare base transaction
-      const txRequest: ethers.providers.TransactionRequest = {
-        to,
-        value: config?.value?.toString() || amount.toString(),
-        data: config?.data || '0x', // Contract call data or empty
-        nonce,
-        chainId: config?.chainId || (this.config.chainId as number),
-        type: txType,
-      };
-
-      // Apply fee configuration based on transaction type
-      if (txType === 2 || config?.maxFeePerGas || config?.maxPriorityFeePerGas) {
-        // EIP-1559 transaction
-        const feeData = await this.provider.getFeeData();
-        txRequest.maxFeePerGas = config?.maxFeePerGas?.toString() || 
-                                feeData.maxFeePerGas?.toString() || 
-                                gasPrice.toString();
-        txRequest.maxPriorityFeePerGas = config?.maxPriorityFeePerGas?.toString() || 
-                                        feeData.maxPriorityFeePerGas?.toString() || 
-                                        '2000000000'; // 2 gwei default tip
-      } else {
-        // Legacy transaction
-        txRequest.gasPrice = config?.gasPrice?.toString() || gasPrice.toString();
-      }
-
-      // Set gas limit (allow override or estimate)
-      if (config?.gasLimit) {
-        txRequest.gasLimit = config.gasLimit.toString();
-      } else {
-        try {
-          const estimatedGas = await this.provider.estimateGas(txRequest);
-          txRequest.gasLimit = estimatedGas.toString();
-        } catch (error) {
-          // Fallback to default gas limit
-          txRequest.gasLimit = txRequest.data && txRequest.data !== '0x' ? '100000' : '21000';
-        }
-      }
-
-      // Sign and send transaction
-      const tx = await wallet.sendTransaction(txRequest);
+      const txHash = await this.signAndBroadcast(wallet, txRequest);
       
       this.logger?.info('EVM transaction sent', {
         chain: this.chainName,
         from,
         to,
         amount: amount.toString(),
-        txHash: tx.hash,
+        txHash,
         gasPrice: txRequest.gasPrice || txRequest.maxFeePerGas,
         nonce
       });
 
       return {
-        txHash: tx.hash,
-        blockNumber: tx.blockNumber || undefined,
+        txHash,
         status: 'pending',
         fee: new Big(txRequest.gasLimit?.toString() || '21000').times(txRequest.gasPrice?.toString() || txRequest.maxFeePerGas?.toString() || '0')
       };
@@ -257,43 +294,326 @@ export class EvmAdapterV2 extends BaseAdapter {
     }
   }
 
-  protected async getIncomingTransactions(address: string, seen: Set<string>): Promise<IncomingTransaction[]> {
-    try {
-      // Get latest block
-      const latestBlock = await this.provider.getBlockNumber();
-      const fromBlock = Math.max(0, latestBlock - 100); // Check last 100 blocks
-      
-      // Get transfer events (this is a simplified version)
-      // In practice, you'd want to use the explorer API or event filtering
-      const incoming: IncomingTransaction[] = [];
-      
-      for (let blockNumber = fromBlock; blockNumber <= latestBlock; blockNumber++) {
-        const block = await this.provider.getBlockWithTransactions(blockNumber);
-        
-        for (const tx of block.transactions) {
-          if (seen.has(tx.hash)) continue;
-          
-          if (tx.to === address && tx.value.gt(0)) {
-            incoming.push({
-              txHash: tx.hash,
-              from: tx.from,
-              to: address,
-              amount: new Big(tx.value.toString()),
-              blockNumber,
-              timestamp: block.timestamp * 1000
-            });
-          }
+  // ERC-20 batch amounts are in whole tokens, as in sendToken
+  protected validateBatchAmount(amount: Big, config?: EvmTransactionConfig): void {
+    if (!config?.token) {
+      super.validateBatchAmount(amount, config);
+      return;
+    }
+    this.validateAmount(amount);
+    const units = amount.times(new Big(10).pow(config.token.decimals));
+    if (!units.eq(units.round(0, Big.roundDown))) {
+      throw new ValidationError(
+        ErrorCode.INVALID_AMOUNT,
+        `Amount has more than ${config.token.decimals} decimals`,
+        { amount: amount.toString(), tokenContract: config.token.contract }
+      );
+    }
+  }
+
+  protected async getBatchBalance(from: string, config?: EvmTransactionConfig): Promise<Big> {
+    if (!config?.token) {
+      return super.getBatchBalance(from, config);
+    }
+    this.validateEvmAddress(config.token.contract);
+    return (await this.tokenBalanceOf(config.token.contract, from)).div(new Big(10).pow(config.token.decimals));
+  }
+
+  // Native amounts are in wei; with `config.token` they are in whole tokens, as in sendToken
+  protected async sendManyTransaction(
+    privateKey: Uint8Array,
+    from: string,
+    outputs: PaymentOutput[],
+    config?: EvmTransactionConfig
+  ): Promise<TransactionResponse> {
+    const batchContract = config?.batchContract ?? DISPERSE_ADDRESS;
+    this.validateEvmAddress(batchContract);
+    // The default deployment is missing on some chains; check before approving or paying into it
+    if (await this.provider.getCode(batchContract) === '0x') {
+      throw new ValidationError(
+        ErrorCode.INVALID_CONFIG,
+        `No batch contract deployed at ${batchContract} on ${this.chainName}; set batchContract to a Disperse-compatible contract`
+      );
+    }
+
+    const wallet = new ethers.Wallet(
+      '0x' + Buffer.from(privateKey).toString('hex'),
+      this.provider
+    );
+    const disperse = new ethers.utils.Interface(DISPERSE_ABI);
+    const recipients = outputs.map(output => output.to);
+
+    let data: string;
+    let value = new Big(0);
+    if (config?.token) {
+      this.validateEvmAddress(config.token.contract);
+      const scale = new Big(10).pow(config.token.decimals);
+      const values = outputs.map(output => output.amount.times(scale).toFixed(0));
+      const total = values.reduce((sum, amount) => sum.plus(amount), new Big(0)).toFixed(0);
+
+      // The batch contract pulls the total with transferFrom, so it needs an allowance first
+      const token = new ethers.Contract(config.token.contract, ERC20_ALLOWANCE_ABI, wallet);
+      const allowance: ethers.BigNumber = await token.allowance(from, batchContract);
+      if (allowance.lt(total)) {
+        const approval = await token.approve(batchContract, total);
+        this.logger?.info('ERC20 batch allowance approved', {
+          chain: this.chainName,
+          tokenContract: config.token.contract,
+          txHash: approval.hash
+        });
+        await approval.wait();
+      }
+
+      data = disperse.encodeFunctionData('disperseToken', [config.token.contract, recipients, values]);
+    } else {
+      const values = outputs.map(output => output.amount.toFixed(0));
+      value = values.reduce((sum, amount) => sum.plus(amount), new Big(0));
+      data = disperse.encodeFunctionData('disperseEther', [recipients, values]);
+    }
+
+    // The nonce is read after any approval so the batch comes next
+    const txRequest = await this.prepareTransactionRequest(from, batchContract, value, { ...config, data, value: undefined });
+    const txHash = await this.signAndBroadcast(wallet, txRequest);
+
+    this.logger?.info('EVM batch transaction sent', {
+      chain: this.chainName,
+      from,
+      outputs: outputs.length,
+      tokenContract: config?.token?.contract,
+      txHash
+    });
+
+    return {
+      txHash,
+      status: 'pending',
+      fee: new Big(txRequest.gasLimit?.toString() || '0').times(txRequest.gasPrice?.toString() || txRequest.maxFeePerGas?.toString() || '0')
+    };
+  }
+
+  // Signs once, so a retried broadcast resends the same transaction instead of one with a fresh nonce
+  private async signAndBroadcast(wallet: ethers.Wallet, txRequest: ethers.providers.TransactionRequest): Promise<string> {
+    const signed = await wallet.signTransaction(await wallet.populateTransaction(txRequest));
+    const txHash = ethers.utils.keccak256(signed);
+    await this.rebroadcast(txHash, async () => {
+      try {
+        await this.provider.sendTransaction(signed);
+      } catch (error) {
+        // An earlier attempt reached the node after all
+        if (!/already known|known transaction/i.test((error as Error).message)) {
+          throw error;
         }
       }
-      
-      return incoming;
-    } catch (error) {
-      this.logger?.error('Failed to get incoming EVM transactions', error as Error, {
-        chain: this.chainName,
-        address
+    });
+    return txHash;
+  }
+
+  // Fill in nonce, fee fields and gas limit for a native transfer or contract call
+  private async prepareTransactionRequest(
+    from: string,
+    to: string,
+    amount: Big,
+    config?: EvmTransactionConfig
+  ): Promise<ethers.providers.TransactionRequest> {
+    // Get current gas price and nonce (allow override from config)
+    const [gasPrice, currentNonce] = await Promise.all([
+      this.getOptimalGasPrice(),
+      this.provider.getTransactionCount(from, 'pending')
+    ]);
+
+    // Use configured nonce or current nonce
+    const nonce = config?.nonce !== undefined ? config.nonce : currentNonce;
+    
+    // Determine transaction type
+    const txType = config?.type !== undefined ? config.type : 
+                   (this.config.feeConfig?.type === 'eip1559' ? 2 : 0);
+
+    // Prepare base transaction
+    const txRequest: ethers.providers.TransactionRequest = {
+      to,
+      value: config?.value?.toString() || amount.toString(),
+      data: config?.data || '0x', // Contract call data or empty
+      nonce,
+      chainId: config?.chainId || (this.config.chainId as number),
+      type: txType,
+    };
+
+    // Apply fee configuration based on transaction type
+    if (txType === 2 || config?.maxFeePerGas || config?.maxPriorityFeePerGas) {
+      // EIP-1559 transaction
+      const feeData = await this.provider.getFeeData();
+      txRequest.maxFeePerGas = config?.maxFeePerGas?.toString() || 
+                              feeData.maxFeePerGas?.toString() || 
+                              gasPrice.toString();
+      txRequest.maxPriorityFeePerGas = config?.maxPriorityFeePerGas?.toString() || 
+                                      feeData.maxPriorityFeePerGas?.toString() || 
+                                      '2000000000'; // 2 gwei default tip
+    } else {
+      // Legacy transaction
+      txRequest.gasPrice = config?.gasPrice?.toString() || gasPrice.toString();
+    }
+
+    // Set gas limit (allow override or estimate)
+    if (config?.gasLimit) {
+      txRequest.gasLimit = config.gasLimit.toString();
+    } else {
+      try {
+        const estimatedGas = await this.provider.estimateGas(txRequest);
+        txRequest.gasLimit = estimatedGas.toString();
+      } catch (error) {
+        // Fallback to default gas limit
+        txRequest.gasLimit = txRequest.data && txRequest.data !== '0x' ? '100000' : '21000';
+      }
+    }
+
+    // RPC calls take decimal strings, but serializing the transaction for signing needs BigNumbers
+    for (const field of ['value', 'gasPrice', 'maxFeePerGas', 'maxPriorityFeePerGas', 'gasLimit'] as const) {
+      if (txRequest[field] !== undefined) {
+        txRequest[field] = ethers.BigNumber.from(txRequest[field]);
+      }
+    }
+
+    return txRequest;
+  }
+
+  protected async buildUnsignedTransaction(
+    from: string,
+    to: string,
+    amount: Big,
+    config?: EvmTransactionConfig
+  ): Promise<UnsignedTransaction> {
+    this.validateEvmAddress(to);
+    // The signer can only check plain transfers against the summary
+    if (config?.data && config.data !== '0x') {
+      throw new ValidationError(ErrorCode.INVALID_PARAMS, 'Offline signing only supports plain transfers, not contract calls');
+    }
+    const txRequest = await this.prepareTransactionRequest(from, to, amount, config);
+
+    return {
+      chain: this.chainName,
+      from,
+      to,
+      amount: amount.toString(),
+      payload: ethers.utils.serializeTransaction(txRequest as ethers.UnsignedTransaction),
+      fee: new Big(txRequest.gasLimit!.toString())
+        .times(txRequest.gasPrice?.toString() || txRequest.maxFeePerGas?.toString() || '0')
+        .toString()
+    };
+  }
+
+  protected async signUnsignedTransaction(
+    privateKey: Uint8Array,
+    unsigned: UnsignedTransaction
+  ): Promise<SignedTransaction> {
+    // Signed blindly: a plain transfer of the summarised amount on this chain, paying at most the
+    // summarised fee (gas limit times gas price, or max fee per gas for EIP-1559)
+    const tx = ethers.utils.parseTransaction(unsigned.payload);
+    const feePerGas = tx.gasPrice ?? tx.maxFeePerGas;
+    if (
+      tx.to !== ethers.utils.getAddress(unsigned.to) ||
+      !tx.value.eq(unsigned.amount) ||
+      tx.data !== '0x' ||
+      tx.chainId !== this.config.chainId ||
+      !feePerGas ||
+      unsigned.fee === undefined ||
+      new Big(tx.gasLimit.mul(feePerGas).toString()).gt(unsigned.fee)
+    ) {
+      throw new ValidationError(ErrorCode.INVALID_PARAMS, 'Payload does not match the unsigned transaction summary');
+    }
+
+    // No provider: signing stays offline
+    const wallet = new ethers.Wallet('0x' + Buffer.from(privateKey).toString('hex'));
+    const txRequest: ethers.providers.TransactionRequest = {
+      to: tx.to,
+      nonce: tx.nonce,
+      gasLimit: tx.gasLimit,
+      data: tx.data,
+      value: tx.value,
+      chainId: tx.chainId
+    };
+    // Legacy serialization rejects EIP-1559 keys even when undefined, so only copy what is set
+    if (tx.type) txRequest.type = tx.type;
+    if (tx.gasPrice) txRequest.gasPrice = tx.gasPrice;
+    if (tx.maxFeePerGas) txRequest.maxFeePerGas = tx.maxFeePerGas;
+    if (tx.maxPriorityFeePerGas) txRequest.maxPriorityFeePerGas = tx.maxPriorityFeePerGas;
+
+    const payload = await wallet.signTransaction(txRequest);
+
+    return {
+      chain: this.chainName,
+      txHash: ethers.utils.keccak256(payload),
+      payload
+    };
+  }
+
+  protected async broadcastSignedTransaction(signed: SignedTransaction): Promise<TransactionResponse> {
+    const tx = await this.provider.sendTransaction(signed.payload);
+    return {
+      txHash: tx.hash,
+      status: 'pending'
+    };
+  }
+
+  // Native transfers in wei and ERC-20 Transfer events in whole tokens to watched addresses in one block
+  protected async scanBlock(height: number, addresses: ReadonlySet<string>): Promise<ScannedBlock> {
+    const [block, logs] = await Promise.all([
+      this.provider.getBlockWithTransactions(height),
+      this.provider.getLogs({ fromBlock: height, toBlock: height, topics: [TRANSFER_TOPIC] })
+    ]);
+    const timestamp = block.timestamp * 1000;
+    const transactions: IncomingTransaction[] = [];
+
+    for (const tx of block.transactions) {
+      if (!tx.to || !addresses.has(tx.to.toLowerCase()) || tx.value.isZero()) {
+        continue;
+      }
+      // A reverted transaction moved no value
+      const receipt = await this.provider.getTransactionReceipt(tx.hash);
+      if (receipt?.status === 0) {
+        continue;
+      }
+      transactions.push({
+        txHash: tx.hash,
+        from: tx.from,
+        to: tx.to,
+        amount: new Big(tx.value.toString()),
+        blockNumber: height,
+        blockHash: block.hash,
+        timestamp
+      });
+    }
+
+    for (const log of logs) {
+      // ERC-721 transfers index the token id as a fourth topic
+      if (log.topics.length !== 3) {
+        continue;
+      }
+      const to = ethers.utils.getAddress(ethers.utils.hexDataSlice(log.topics[2], 12));
+      if (!addresses.has(to.toLowerCase())) {
+        continue;
+      }
+      const scale = new Big(10).pow(await this.decimalsOf(log.address));
+      transactions.push({
+        txHash: log.transactionHash,
+        from: ethers.utils.getAddress(ethers.utils.hexDataSlice(log.topics[1], 12)),
+        to,
+        amount: new Big(ethers.BigNumber.from(log.data).toString()).div(scale),
+        blockNumber: height,
+        blockHash: block.hash,
+        timestamp,
+        tokenContract: log.address
       });
-      return [];
     }
+
+    return { hash: block.hash, transactions };
+  }
+
+  protected async getBlockHash(height: number): Promise<string> {
+    const block = await this.provider.getBlock(height);
+    return block.hash;
+  }
+
+  protected normalizeAddress(address: string): string {
+    return address.toLowerCase();
   }
 
   // Enhanced methods
@@ -349,10 +669,20 @@ export class EvmAdapterV2 extends BaseAdapter {
     toBlock?: number; 
     pageSize?: number;
     includeTokenTransfers?: boolean;
+  }): Promise<TransactionHistory[]> {
+    const address = await this.deriveAddress(params);
+    return this.getAddressHistory(address, limit, options);
+  }
+
+  async getAddressHistory(address: string, limit = 100, options?: { 
+    fromBlock?: number; 
+    toBlock?: number; 
+    pageSize?: number;
+    includeTokenTransfers?: boolean;
   }): Promise<TransactionHistory[]> {
     try {
-      const address = await this.deriveAddress(params);
-      
+      this.validateAddress(address);
+
       // Determine block range
       const latestBlock = options?.toBlock || await this.provider.getBlockNumber();
       const defaultFromBlock = Math.max(0, latestBlock - 10000); // Default: check last 10k blocks
@@ -391,71 +721,57 @@ export class EvmAdapterV2 extends BaseAdapter {
           };
           
           // Process ETH transfers by scanning blocks (since ETH transfers don't emit logs)
-          const blockPromises: Promise<void>[] = [];
-          
-          // Batch process blocks for better performance using connection pool
+          // Batches run one after another so at most one batch of requests is in flight
           const batchSize = 10;
-          for (let blockNum = endBlock; blockNum >= startBlock; blockNum -= batchSize) {
-            const batchPromise = (async () => {
-              const batchStart = Math.max(startBlock, blockNum - batchSize + 1);
-              
-              // Use pooled providers for parallel block fetching
-              const blocks = await Promise.all(
-                Array.from({ length: blockNum - batchStart + 1 }, (_, i) => 
-                  this.withPooledProvider(async (provider) => {
-                    try {
-                      return await provider.getBlockWithTransactions(batchStart + i);
-                    } catch {
-                      return null;
-                    }
-                  })
-                )
-              );
+          for (let blockNum = endBlock; blockNum >= startBlock && history.length < limit; blockNum -= batchSize) {
+            const batchStart = Math.max(startBlock, blockNum - batchSize + 1);
+            
+            // Use pooled providers for parallel block fetching
+            const blocks = await Promise.all(
+              Array.from({ length: blockNum - batchStart + 1 }, (_, i) => 
+                this.withPooledProvider(provider => provider.getBlockWithTransactions(batchStart + i))
+                  .catch(() => null)
+              )
+            );
+            
+            for (const block of blocks) {
+              if (!block) continue;
               
-              for (const block of blocks) {
-                if (!block) continue;
+              for (const tx of block.transactions) {
+                if (history.length >= limit) break;
                 
-                for (const tx of block.transactions) {
-                  if (history.length >= limit) return;
-                  
-                  // Check if transaction involves our address
-                  if (tx.from === address || tx.to === address) {
-                    try {
-                      const receipt = await this.withPooledProvider(provider => 
-                        provider.getTransactionReceipt(tx.hash)
-                      );
-                      
-                      history.push({
-                        txHash: tx.hash,
-                        blockNumber: block.number,
-                        timestamp: block.timestamp * 1000,
-                        from: tx.from,
-                        to: tx.to || '',
-                        amount: new Big(tx.value.toString()),
-                        fee: new Big(receipt.gasUsed.toString()).times(
-                          receipt.effectiveGasPrice?.toString() || tx.gasPrice?.toString() || '0'
-                        ),
-                        status: receipt.status === 1 ? 'confirmed' : 'failed',
-                        direction: tx.from === address ? 'outgoing' : 'incoming',
-                        data: tx.data
-                      });
-                    } catch (err) {
-                      this.logger?.warn('Failed to get receipt for transaction', { 
-                        txHash: tx.hash, 
-                        error: err 
-                      });
-                    }
+                // Check if transaction involves our address
+                if (tx.from === address || tx.to === address) {
+                  try {
+                    const receipt = await this.withPooledProvider(provider => 
+                      provider.getTransactionReceipt(tx.hash)
+                    );
+                    
+                    history.push({
+                      txHash: tx.hash,
+                      blockNumber: block.number,
+                      timestamp: block.timestamp * 1000,
+                      from: tx.from,
+                      to: tx.to || '',
+                      amount: new Big(tx.value.toString()),
+                      fee: new Big(receipt.gasUsed.toString()).times(
+                        receipt.effectiveGasPrice?.toString() || tx.gasPrice?.toString() || '0'
+                      ),
+                      status: receipt.status === 1 ? 'confirmed' : 'failed',
+                      direction: tx.from === address ? 'outgoing' : 'incoming',
+                      data: tx.data
+                    });
+                  } catch (err) {
+                    this.logger?.warn('Failed to get receipt for transaction', { 
+                      txHash: tx.hash, 
+                      error: err 
+                    });
                   }
                 }
               }
-            })();
-            
-            blockPromises.push(batchPromise);
+            }
           }
           
-          // Wait for all block processing to complete
-          await Promise.all(blockPromises);
-          
           // Also get ERC20 token transfers if requested
           if (options?.includeTokenTransfers) {
             const transferEventSignature = ethers.utils.id('Transfer(address,address,uint256)');
@@ -554,17 +870,8 @@ export class EvmAdapterV2 extends BaseAdapter {
   async getTokenBalance(params: any, tokenContract: string, decimals: number): Promise<Big> {
     try {
       const address = await this.deriveAddress(params);
-      
-      // ERC20 balanceOf function signature
-      const data = '0x70a08231' + address.slice(2).padStart(64, '0');
-      
-      const result = await this.provider.call({
-        to: tokenContract,
-        data
-      });
-      
-      const balance = ethers.BigNumber.from(result);
-      return new Big(balance.toString()).div(Math.pow(10, decimals));
+      const balance = await this.tokenBalanceOf(tokenContract, address);
+      return balance.div(Math.pow(10, decimals));
     } catch (error) {
       this.logger?.error('Failed to get ERC20 token balance', error as Error, {
         chain: this.chainName,
@@ -575,6 +882,37 @@ export class EvmAdapterV2 extends BaseAdapter {
     }
   }
 
+  // ERC-20 decimals, cached per contract; decimals() is optional and tokens without it count in base units
+  private async decimalsOf(tokenContract: string): Promise<number> {
+    const key = tokenContract.toLowerCase();
+    let decimals = this.tokenDecimals.get(key);
+    if (decimals === undefined) {
+      try {
+        decimals = await new ethers.Contract(tokenContract, ERC20_DECIMALS_ABI, this.provider).decimals() as number;
+      } catch (error) {
+        if ((error as { code?: string }).code !== ethers.errors.CALL_EXCEPTION) {
+          throw error;
+        }
+        decimals = 0;
+      }
+      this.tokenDecimals.set(key, decimals);
+    }
+    return decimals;
+  }
+
+  // Raw ERC-20 balance in base units
+  private async tokenBalanceOf(tokenContract: string, address: string): Promise<Big> {
+    // ERC20 balanceOf function signature
+    const data = '0x70a08231' + address.slice(2).padStart(64, '0');
+
+    const result = await this.provider.call({
+      to: tokenContract,
+      data
+    });
+
+    return new Big(ethers.BigNumber.from(result).toString());
+  }
+
   async sendToken(
     params: any,
     tokenContract: string,
@@ -660,6 +998,7 @@ export class EvmAdapterV2 extends BaseAdapter {
 
   async initialize(): Promise<void> {
     await super.initialize();
+    if (this.isDeriveOnly) return;
     
     // Test provider connection
     try {
@@ -675,15 +1014,16 @@ export class EvmAdapterV2 extends BaseAdapter {
 
   async shutdown(): Promise<void> {
     // Close WebSocket connections
-    if (this.wsProvider) {
-      this.wsProvider.removeAllListeners();
-      await this.wsProvider.destroy();
+    if (this._wsProvider) {
+      this._wsProvider.removeAllListeners();
+      await this._wsProvider.destroy();
     }
     
-    // Destroy provider pool
-    if (this.providerPool) {
-      await this.providerPool.destroy();
+    // Destroy provider pools
+    for (const providerPool of this.providerPools.values()) {
+      await providerPool.destroy();
     }
+    this.providerPools.clear();
     
     await super.shutdown();
   }
@@ -692,19 +1032,71 @@ export class EvmAdapterV2 extends BaseAdapter {
   private async withPooledProvider<T>(
     operation: (provider: ethers.providers.JsonRpcProvider) => Promise<T>
   ): Promise<T> {
-    if (!this.providerPool) {
-      // Fallback to main provider if pool not available
-      return operation(this.provider);
+    // The pool paces borrowing with the endpoint's rate limiter
+    return this.withRpc(async endpoint => {
+      const providerPool = this.getProviderPool(endpoint);
+      const connection = await providerPool.acquire();
+      try {
+        return await operation(connection.resource);
+      } finally {
+        await providerPool.release(connection);
+      }
+    }, false);
+  }
+
+  protected async checkEndpointHealth(endpoint: RpcEndpoint): Promise<void> {
+    await this.providerFor(endpoint).getBlockNumber();
+  }
+
+  // Read at a fixed block so answers from different endpoints are comparable
+  protected async getBalanceAt(endpoint: RpcEndpoint, address: string): Promise<QuorumResponse<Big>> {
+    const provider = this.providerFor(endpoint);
+    const blockHeight = await provider.getBlockNumber();
+    const balance = await provider.getBalance(address, blockHeight);
+    return { value: new Big(balance.toString()), blockHeight };
+  }
+
+  protected async getTransactionReceiptAt(
+    endpoint: RpcEndpoint,
+    txHash: string
+  ): Promise<QuorumResponse<TransactionReceipt | null>> {
+    const provider = this.providerFor(endpoint);
+    const [receipt, blockHeight] = await Promise.all([
+      provider.getTransactionReceipt(txHash),
+      provider.getBlockNumber()
+    ]);
+    if (!receipt) {
+      return { value: null, blockHeight };
     }
 
-    const connection = await this.providerPool.acquire();
-    try {
-      return await operation(connection.resource);
-    } finally {
-      await this.providerPool.release(connection);
+    return {
+      value: {
+        txHash: receipt.transactionHash,
+        blockNumber: receipt.blockNumber,
+        blockHash: receipt.blockHash,
+        from: receipt.from,
+        to: receipt.to || '',
+        gasUsed: new Big(receipt.gasUsed.toString()),
+        effectiveGasPrice: receipt.effectiveGasPrice ? new Big(receipt.effectiveGasPrice.toString()) : undefined,
+        status: receipt.status === 1,
+        logs: receipt.logs.map(log => ({ address: log.address, topics: log.topics, data: log.data }))
+      },
+      blockHeight
+    };
+  }
+  protected async getBlockHeight(): Promise<number> {
+    return this.provider.getBlockNumber();
+  }
+
+  protected async getTransactionLocation(txHash: string): Promise<TransactionLocation | null> {
+    const tx = await this.provider.getTransaction(txHash);
+    if (!tx) {
+      return null;
     }
+    return tx.blockNumber == null ? {} : { blockNumber: tx.blockNumber, blockHash: tx.blockHash ?? undefined };
   }
 
+
   // Override base validation
   protected validateAddress(address: string): void {
     this.validateEvmAddress(address);
@@ -712,100 +1104,23 @@ export class EvmAdapterV2 extends BaseAdapter {
 
   // Implement subscribe method for real-time transaction monitoring
   async subscribe(address: string, callback: SubscriptionCallback): Promise<Unsubscribe> {
-    this.validateAddress(address);
-    
-    // Use WebSocket provider if available for real-time updates
-    if (this.wsProvider) {
-      // Subscribe to incoming transactions
-      const filter = {
-        address: address,
-        topics: []
-      };
-      
-      // For incoming ETH transfers
-      this.wsProvider.on('block', async (blockNumber) => {
-        try {
-          const block = await this.wsProvider!.getBlockWithTransactions(blockNumber);
-          
-          for (const tx of block.transactions) {
-            // Check if transaction is TO the address
-            if (tx.to === address && tx.value.gt(0)) {
-              const receipt = await this.wsProvider!.getTransactionReceipt(tx.hash);
-              
-              if (receipt && receipt.status === 1) {
-                const incomingTx: IncomingTransaction = {
-                  txHash: tx.hash,
-                  from: tx.from,
-                  to: address,
-                  amount: new Big(tx.value.toString()),
-                  blockNumber: blockNumber,
-                  timestamp: block.timestamp * 1000
-                };
-                
-                await callback(incomingTx);
-              }
-            }
-          }
-        } catch (error) {
-          this.logger?.error('Error processing block for subscription', error as Error, {
-            chain: this.chainName,
-            address,
-            blockNumber
-          });
-        }
-      });
-      
-      // Also listen for ERC20 Transfer events TO the address
-      const transferEventSignature = ethers.utils.id('Transfer(address,address,uint256)');
-      const addressPadded = ethers.utils.hexZeroPad(address, 32);
-      
-      const erc20Filter = {
-        topics: [
-          transferEventSignature,
-          null, // from (any)
-          addressPadded // to (our address)
-        ]
-      };
-      
-      this.wsProvider.on(erc20Filter, async (log) => {
-        try {
-          // Decode the transfer event
-          const amount = ethers.BigNumber.from(log.data);
-          const from = ethers.utils.hexStripZeros(log.topics[1]);
-          
-          const incomingTx: IncomingTransaction = {
-            txHash: log.transactionHash,
-            from: from,
-            to: address,
-            amount: new Big(amount.toString()),
-            blockNumber: log.blockNumber,
-            timestamp: Date.now(), // Will be updated with actual block timestamp
-            tokenContract: log.address
-          };
-          
-          // Get actual timestamp
-          const block = await this.wsProvider!.getBlock(log.blockNumber);
-          incomingTx.timestamp = block.timestamp * 1000;
-          
-          await callback(incomingTx);
-        } catch (error) {
-          this.logger?.error('Error processing ERC20 transfer event', error as Error, {
-            chain: this.chainName,
-            address,
-            log
-          });
-        }
-      });
-      
-      // Return unsubscribe function
-      return () => {
-        this.wsProvider?.removeAllListeners('block');
-        this.wsProvider?.removeAllListeners(erc20Filter);
-      };
-    } else {
-      // Fallback to polling if no WebSocket available
-      return super.subscribe(address, callback);
+    const unsubscribe = await super.subscribe(address, callback);
+
+    // With a WebSocket provider, scan every new block as it arrives instead of waiting for the
+    // polling interval. One listener serves every subscribed address.
+    const wsProvider = this.getWsProvider();
+    if (wsProvider && !this.blockListener) {
+      this.blockListener = () => void this.addressWatcher?.poll();
+      wsProvider.on('block', this.blockListener);
     }
+
+    return async () => {
+      await unsubscribe();
+      if (this.blockListener && !this.addressWatcher?.addresses.length) {
+        wsProvider?.off('block', this.blockListener);
+        this.blockListener = undefined;
+      }
+    };
   }
 
   // Implement sign method for offline transaction signing
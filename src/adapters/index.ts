@@ -10,6 +10,8 @@ import { NearAdapter } from "./near/NearAdapter.js";
 import { SolanaAdapter } from "./solana/SolanaAdapter.js";
 import { PolkadotAdapter } from "./polkadot/PolkadotAdapter.js";
 import { TronAdapter } from "./tron/TronAdapter.js";
+import { CardanoAdapter } from "./cardano/CardanoAdapter.js";
+import { SuiAdapter } from "./sui/SuiAdapter.js";
 
 // Create adapter constructor wrappers for the registry
 class BitcoinAdapterConstructor {
@@ -104,7 +106,7 @@ class SolanaAdapterConstructor {
     logger?: any,
     metrics?: any
   ) {
-    return new SolanaAdapter(masterSeed);
+    return new SolanaAdapter(masterSeed, config, logger, metrics);
   }
 }
 
@@ -117,7 +119,7 @@ class PolkadotAdapterConstructor {
     logger?: any,
     metrics?: any
   ) {
-    return new PolkadotAdapter(masterSeed, config);
+    return new PolkadotAdapter(masterSeed, config, logger, metrics);
   }
 }
 
@@ -130,7 +132,33 @@ class TronAdapterConstructor {
     logger?: any,
     metrics?: any
   ) {
-    return new TronAdapter(masterSeed, config);
+    return new TronAdapter(masterSeed, config, logger, metrics);
+  }
+}
+
+class CardanoAdapterConstructor {
+  static readonly chainName = 'cardano' as const;
+  
+  constructor(
+    masterSeed: Uint8Array,
+    config?: any,
+    logger?: any,
+    metrics?: any
+  ) {
+    return new CardanoAdapter(masterSeed, config, logger, metrics);
+  }
+}
+
+class SuiAdapterConstructor {
+  static readonly chainName = 'sui' as const;
+  
+  constructor(
+    masterSeed: Uint8Array,
+    config?: any,
+    logger?: any,
+    metrics?: any
+  ) {
+    return new SuiAdapter(masterSeed, config, logger, metrics);
   }
 }
 
@@ -148,6 +176,8 @@ export function registerBuiltInAdapters(registry: AdapterRegistry): void {
     registry.registerAdapter(SolanaAdapterConstructor as any);
     registry.registerAdapter(PolkadotAdapterConstructor as any);
     registry.registerAdapter(TronAdapterConstructor as any);
+    registry.registerAdapter(CardanoAdapterConstructor as any);
+    registry.registerAdapter(SuiAdapterConstructor as any);
     
     // Create EVM adapter constructors for other chains
     const evmChains = ['polygon', 'avalanche', 'arbitrum', 'optimism', 'cronos', 'sonic', 'base'];
@@ -197,9 +227,14 @@ export { EvmAdapterV2, createEvmAdapter } from "./evm/EvmAdapterV2.js";
 export { AptosAdapterV2 } from "./aptos/AptosAdapterV2.js";
 export { TonAdapter } from "./ton/TonAdapter.js";
 export { NearAdapter } from "./near/NearAdapter.js";
+export type { NearSigner, NearNamedAccount } from "./near/NearAdapter.js";
 export { SolanaAdapter } from "./solana/SolanaAdapter.js";
+export type { SolanaTokenTransferOptions, SolanaCloseTokenAccountsOptions, SolanaClosedTokenAccounts } from "./solana/SolanaAdapter.js";
 export { PolkadotAdapter } from "./polkadot/PolkadotAdapter.js";
 export { TronAdapter } from "./tron/TronAdapter.js";
+export type { TronResource, TronTokenTransferOptions, TronFeeEstimate, TronDelegateOptions, TronAccountResources } from "./tron/TronAdapter.js";
+export { CardanoAdapter } from "./cardano/CardanoAdapter.js";
+export { SuiAdapter } from "./sui/SuiAdapter.js";
 
 // Example of what an external adapter package would export:
 export interface ExternalAdapterPackage {
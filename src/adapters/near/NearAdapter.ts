@@ -1,21 +1,26 @@
 import { BaseAdapter } from "../../core/adapters/BaseAdapter.js";
+import { DerivationPath, STANDARD_PATHS } from "../../core/derivation/DerivationStrategy.js";
 import { 
   SupportedChain, 
   ChainConfig, 
   AdapterConfig, 
+  DeriveParams,
+  validateDeriveParams,
   Logger, 
   MetricsCollector, 
   TransactionRequest, 
   TransactionResponse,
   FeeEstimate,
   TransactionHistory,
-  IncomingTransaction
+  IncomingTransaction,
+  IncomingTransactionsPage,
+  SubscriptionState,
+  RpcEndpoint
 } from "../../types/index.js";
 import Big from "big.js";
+import { createHash } from "crypto";
 import { 
   Near, 
-  Account, 
-  Connection, 
   keyStores, 
   utils, 
   transactions, 
@@ -23,8 +28,32 @@ import {
 } from 'near-api-js';
 // @ts-ignore
 import { KeyPair } from 'near-api-js/lib/utils/key_pair.js';
+import nacl from 'tweetnacl';
 // @ts-ignore
 import { parseNearAmount, formatNearAmount } from 'near-api-js/lib/utils/format.js';
+import type { Action } from 'near-api-js/lib/transaction.js';
+import type { FinalExecutionOutcome } from 'near-api-js/lib/providers/index.js';
+import { ErrorFactory } from "../../core/errors/index.js";
+
+// One dot-separated part of a named account, e.g. `user123` in user123.ourapp.near
+const ACCOUNT_ID_PART = /^[a-z0-9]+([-_][a-z0-9]+)*$/;
+const MAX_ACCOUNT_ID_LENGTH = 64;
+
+/**
+ * An account and the derived key with full access to it. Without accountId it is the key's
+ * implicit account.
+ */
+export interface NearSigner {
+  params: DeriveParams;
+  accountId?: string;
+}
+
+export interface NearNamedAccount {
+  accountId: string;
+  publicKey: string; // ed25519:<base58>, the full access key of the account
+  txHash: string;
+  status: TransactionResponse['status'];
+}
 
 /**
  * NEAR Protocol adapter with complete functionality
@@ -51,8 +80,8 @@ export class NearAdapter extends BaseAdapter {
     }
   };
 
-  private near: Near;
-  private connection: Connection;
+  private readonly keyStore = new keyStores.InMemoryKeyStore();
+  private readonly nears = new Map<string, Near>();
 
   constructor(
     masterSeed: Uint8Array,
@@ -61,24 +90,36 @@ export class NearAdapter extends BaseAdapter {
     metrics?: MetricsCollector
   ) {
     super(masterSeed, adapterConfig, logger, metrics);
-    
-    // Initialize NEAR connection
-    this.connection = Connection.fromConfig({
-      networkId: 'mainnet',
-      provider: { type: 'JsonRpcProvider', args: { url: Array.isArray(this.config.endpoints.http) ? this.config.endpoints.http[0].url : this.config.endpoints.http.url } },
-      signer: { type: 'InMemorySigner', keyStore: new keyStores.InMemoryKeyStore() }
-    });
-
-    this.near = new Near(this.connection as any);
+  }
+
+  // Runs calls against the best RPC node, failing over to the others; all nodes share one keystore
+  private withNear<T>(operation: (near: Near) => Promise<T>): Promise<T> {
+    return this.withRpc(endpoint => operation(this.nearFor(endpoint)));
+  }
+
+  private nearFor(endpoint: RpcEndpoint): Near {
+    let near = this.nears.get(endpoint.url);
+    if (!near) {
+      this.assertNetworkEnabled('connection');
+      near = new Near({
+        networkId: 'mainnet',
+        nodeUrl: endpoint.url,
+        headers: endpoint.headers,
+        keyStore: this.keyStore
+      });
+      this.nears.set(endpoint.url, near);
+    }
+    return near;
+  }
+
+  protected async checkEndpointHealth(endpoint: RpcEndpoint): Promise<void> {
+    await this.nearFor(endpoint).connection.provider.status();
   }
 
   protected async deriveAddressFromPrivateKey(privateKey: Uint8Array): Promise<string> {
     try {
-      // Create NEAR account ID from private key
-      // NEAR uses human-readable account names, similar to EOS
-      const accountId = this.privateKeyToAccountId(privateKey);
-      
-      return accountId;
+      // The implicit account: the hex ed25519 public key, usable once it holds funds
+      return Buffer.from(this.createKeyPairFromPrivateKey(privateKey).getPublicKey().data).toString('hex');
     } catch (error) {
       this.logger?.error('Failed to derive NEAR address', error as Error, { 
         privateKeyLength: privateKey.length 
@@ -87,10 +128,28 @@ export class NearAdapter extends BaseAdapter {
     }
   }
 
+  protected standardDerivationPath(account: number, index: number): DerivationPath {
+    return STANDARD_PATHS.near(account, index);
+  }
+
+  protected async publicKeyFromPrivateKey(privateKey: Uint8Array): Promise<string> {
+    return Buffer.from(nacl.sign.keyPair.fromSeed(privateKey).publicKey).toString('hex');
+  }
+
+  /**
+   * The derived key in NEAR's `ed25519:<base58>` encoding, as used for access keys
+   */
+  async deriveNearPublicKey(params: DeriveParams): Promise<string> {
+    validateDeriveParams(params);
+    return this.createKeyPairFromPrivateKey(this.derivePrivateKey(params)).getPublicKey().toString();
+  }
+
   protected async getBalanceForAddress(address: string): Promise<Big> {
     try {
-      const account = await this.near.account(address);
-      const balance = await account.getAccountBalance();
+      const balance = await this.withNear(async near => {
+        const account = await near.account(address);
+        return account.getAccountBalance();
+      });
       
       // Return available balance in yoctoNEAR (1 NEAR = 10^24 yoctoNEAR)
       return new Big(balance.available);
@@ -116,19 +175,11 @@ export class NearAdapter extends BaseAdapter {
       this.validateNearAccountId(from);
       this.validateNearAccountId(to);
       
-      // Create key pair from private key
-      const keyPair = this.createKeyPairFromPrivateKey(privateKey);
-      
-      // Add key to keystore
-      await (this.connection.signer as any).keyStore.setKey('mainnet', from, keyPair);
-      
-      // Get account
-      const account = await this.near.account(from);
-      
-      // Send transfer
-      const result = await account.sendMoney(
+      const result = await this.signAndSend(
+        from,
+        privateKey,
         to,
-        BigInt(new Big(amount.toString()).times(1e24).toFixed(0)) // Convert NEAR to yoctoNEAR
+        [transactions.transfer(BigInt(amount.toFixed(0)))] // amount is in yoctoNEAR, like balances
       );
 
       this.logger?.info('NEAR transaction sent', {
@@ -153,21 +204,25 @@ export class NearAdapter extends BaseAdapter {
     }
   }
 
-  protected async getIncomingTransactions(address: string, seen: Set<string>): Promise<IncomingTransaction[]> {
+  protected async getIncomingTransactions(
+    address: string,
+    seen: Set<string>,
+    since: SubscriptionState
+  ): Promise<IncomingTransactionsPage> {
     try {
       // Get account transaction history
       // This is simplified - in practice you'd use NEAR indexer services
-      const account = await this.near.account(address);
+      const account = await this.withNear(near => near.account(address));
       
       // This is a placeholder - NEAR RPC doesn't provide easy transaction history
       // You would typically use NEAR indexer services or explorers
       const incoming: IncomingTransaction[] = [];
       
       // For now, return empty array as transaction history requires specialized indexing
-      return incoming;
+      return { transactions: incoming };
     } catch (error) {
       this.logger?.error('Failed to get incoming NEAR transactions', error as Error, { address });
-      return [];
+      return { transactions: [] };
     }
   }
 
@@ -196,8 +251,12 @@ export class NearAdapter extends BaseAdapter {
   }
 
   async getHistory(params: any, limit = 100): Promise<TransactionHistory[]> {
+    const address = await this.deriveAddress(params);
+    return this.getAddressHistory(address, limit);
+  }
+
+  async getAddressHistory(address: string, limit = 100): Promise<TransactionHistory[]> {
     try {
-      const address = await this.deriveAddress(params);
       
       // Transaction history would require NEAR indexer services
       // This is a placeholder implementation
@@ -218,17 +277,37 @@ export class NearAdapter extends BaseAdapter {
 
   // NEAR-specific methods
 
-  async createAccount(accountId: string, publicKey: string, initialBalance: Big): Promise<TransactionResponse> {
+  /**
+   * Create `accountId` with `publicKey` (ed25519:<base58>) as its full access key, funded with
+   * `initialBalance` yoctoNEAR by the creator. Sub-accounts of the creator are created directly,
+   * top-level accounts (`name.near`) through the registrar contract.
+   */
+  async createAccount(
+    creator: NearSigner,
+    accountId: string,
+    publicKey: string,
+    initialBalance: Big
+  ): Promise<TransactionResponse> {
     try {
-      // Create a new NEAR account
-      // This requires the master account to have sufficient balance
-      const creatorAccount = await this.near.account('your-creator-account.near');
-      
-      const result = await creatorAccount.createAccount(
-        accountId,
-        publicKey,
-        initialBalance.toString()
-      );
+      this.validateNearAccountId(accountId);
+
+      const creatorId = await this.signerAccountId(creator);
+      const deposit = BigInt(initialBalance.toFixed(0));
+      // Sub-accounts are created directly, top-level accounts by the registrar contract
+      const result = accountId.endsWith(`.${creatorId}`)
+        ? await this.sendActions(creator, accountId, [
+          transactions.createAccount(),
+          transactions.transfer(deposit),
+          transactions.addKey(utils.PublicKey.from(publicKey), transactions.fullAccessKey())
+        ])
+        : await this.sendActions(creator, accountId.split('.').pop()!, [
+          transactions.functionCall(
+            'create_account',
+            { new_account_id: accountId, new_public_key: publicKey },
+            BigInt('60000000000000'),
+            deposit
+          )
+        ]);
 
       return {
         txHash: result.transaction.hash,
@@ -240,11 +319,48 @@ export class NearAdapter extends BaseAdapter {
     }
   }
 
-  async deployContract(accountId: string, wasmCode: Uint8Array): Promise<TransactionResponse> {
+  /**
+   * Create the named sub-account `<name>.<parent>` bound to the key derived from `owner`, so
+   * the parent (e.g. ourapp.near) can give users readable accounts like user123.ourapp.near
+   */
+  async createSubAccount(
+    parent: NearSigner,
+    name: string,
+    owner: DeriveParams,
+    initialBalance: Big
+  ): Promise<NearNamedAccount> {
+    if (!ACCOUNT_ID_PART.test(name)) {
+      throw ErrorFactory.invalidParams(`Invalid NEAR sub-account name: ${name}`, { name });
+    }
+    const parentAccountId = await this.signerAccountId(parent);
+    const accountId = `${name}.${parentAccountId}`;
+    const publicKey = await this.deriveNearPublicKey(owner);
+
+    const { txHash, status } = await this.createAccount(parent, accountId, publicKey, initialBalance);
+    this.logger?.info('NEAR sub-account created', { accountId, publicKey, txHash });
+    return { accountId, publicKey, txHash, status };
+  }
+
+  /**
+   * Transfer `amount` yoctoNEAR from a named account, e.g. one made with createSubAccount
+   */
+  async sendFromAccount(signer: NearSigner, to: string, amount: Big): Promise<TransactionResponse> {
+    validateDeriveParams(signer.params);
+    this.assertNetworkEnabled('sendFromAccount');
+    this.validateAmount(amount);
+    this.validateAddress(to);
+    const from = await this.signerAccountId(signer);
+    const balance = await this.readBalance(from);
+    if (balance.lt(amount)) {
+      throw ErrorFactory.insufficientBalance(this.chainName, amount.toString(), balance.toString());
+    }
+    return this.sendTransaction(this.derivePrivateKey(signer.params), from, to, amount);
+  }
+
+  async deployContract(signer: NearSigner, wasmCode: Uint8Array): Promise<TransactionResponse> {
+    const accountId = signer.accountId;
     try {
-      const account = await this.near.account(accountId);
-      
-      const result = await account.deployContract(wasmCode);
+      const result = await this.sendActions(signer, await this.signerAccountId(signer), [transactions.deployContract(wasmCode)]);
 
       return {
         txHash: result.transaction.hash,
@@ -257,27 +373,23 @@ export class NearAdapter extends BaseAdapter {
   }
 
   async callFunction(
-    accountId: string, 
+    signer: NearSigner,
+    contractId: string,
     methodName: string, 
     args: any, 
     gas?: string, 
     deposit?: string
   ): Promise<any> {
     try {
-      const account = await this.near.account(accountId);
-      
-      const result = await account.functionCall({
-        contractId: accountId,
-        methodName,
-        args,
-        gas: BigInt(gas || '300000000000000'),
-        attachedDeposit: BigInt(deposit || '0')
-      });
+      const result = await this.sendActions(signer, contractId, [
+        transactions.functionCall(methodName, args, BigInt(gas || '300000000000000'), BigInt(deposit || '0'))
+      ]);
 
       return result;
     } catch (error) {
       this.logger?.error('Failed to call NEAR function', error as Error, { 
-        accountId, 
+        accountId: signer.accountId,
+        contractId,
         methodName 
       });
       throw error;
@@ -289,45 +401,68 @@ export class NearAdapter extends BaseAdapter {
   private validateNearAccountId(accountId: string): void {
     // NEAR account ID validation
     // Can be: alice.near, alice.testnet, or implicit accounts (64 char hex)
-    const nearAccountRegex = /^([a-z0-9][-a-z0-9]*[a-z0-9]|[a-z0-9])(\.[a-z0-9][-a-z0-9]*[a-z0-9]|\.[a-z0-9])*$/;
     const implicitAccountRegex = /^[0-9a-f]{64}$/;
-    
-    if (!nearAccountRegex.test(accountId) && !implicitAccountRegex.test(accountId)) {
+    const isNamed = accountId.length >= 2 && accountId.length <= MAX_ACCOUNT_ID_LENGTH
+      && accountId.split('.').every(part => ACCOUNT_ID_PART.test(part));
+
+    if (!isNamed && !implicitAccountRegex.test(accountId)) {
       throw new Error(`Invalid NEAR account ID: ${accountId}`);
     }
   }
 
-  private privateKeyToAccountId(privateKey: Uint8Array): string {
-    // Generate a deterministic account ID from private key
-    // This creates an implicit account (64 char hex)
-    let hash = 0;
-    for (let i = 0; i < privateKey.length; i++) {
-      hash = ((hash << 5) - hash) + privateKey[i];
-      hash = hash & hash; // Convert to 32-bit integer
-    }
+  // The derived private key is the ed25519 seed; NEAR encodes the 64-byte secret key in base58
+  private createKeyPairFromPrivateKey(privateKey: Uint8Array): KeyPair {
+    const { secretKey } = nacl.sign.keyPair.fromSeed(privateKey);
+    return utils.KeyPair.fromString(`ed25519:${utils.serialize.base_encode(secretKey)}`);
+  }
 
-    // Generate 64-character hex string
-    const accountId = Math.abs(hash).toString(16).padStart(64, '0');
+  private async signerAccountId({ params, accountId }: NearSigner): Promise<string> {
+    if (accountId === undefined) {
+      return this.deriveAddress(params);
+    }
+    this.validateNearAccountId(accountId);
     return accountId;
   }
 
-  private createKeyPairFromPrivateKey(privateKey: Uint8Array): KeyPair {
-    // Convert private key to NEAR KeyPair format
-    const privateKeyHex = Array.from(privateKey)
-      .map(byte => byte.toString(16).padStart(2, '0'))
-      .join('');
-    
-    return utils.KeyPair.fromString(`ed25519:${privateKeyHex}`);
+  // Sends `actions` from the signer's account with its derived key
+  private async sendActions(
+    signer: NearSigner,
+    receiverId: string,
+    actions: Action[]
+  ): Promise<FinalExecutionOutcome> {
+    validateDeriveParams(signer.params);
+    this.assertNetworkEnabled('signer');
+    return this.signAndSend(await this.signerAccountId(signer), this.derivePrivateKey(signer.params), receiverId, actions);
+  }
+
+  // Signed once with the nonce and block hash of one node: failover and retries resend the same
+  // transaction instead of signing a new one with a fresh nonce
+  private async signAndSend(
+    accountId: string,
+    privateKey: Uint8Array,
+    receiverId: string,
+    actions: Action[]
+  ): Promise<FinalExecutionOutcome> {
+    await this.keyStore.setKey('mainnet', accountId, this.createKeyPairFromPrivateKey(privateKey));
+    const signed = await this.withNear(async near => (await near.account(accountId)).createSignedTransaction(receiverId, actions));
+    const txHash = utils.serialize.base_encode(createHash('sha256').update(transactions.encodeTransaction(signed.transaction)).digest());
+
+    const result = await this.rebroadcast(txHash, () => this.withNear(near => near.connection.provider.sendTransaction(signed)));
+    if (typeof result.status === 'object' && result.status.Failure) {
+      throw utils.rpc_errors.parseResultError(result);
+    }
+    return result;
   }
 
   // Lifecycle methods
 
   async initialize(): Promise<void> {
     await super.initialize();
+    if (this.isDeriveOnly) return;
     
     try {
       // Test connection by getting network status
-      const status = await this.connection.provider.status();
+      const status = await this.withNear(near => near.connection.provider.status());
       this.logger?.info('NEAR RPC connected successfully', { 
         chainId: status.chain_id,
         syncInfo: status.sync_info 
@@ -1,20 +1,35 @@
 import Big from 'big.js';
 import { Keyring } from '@polkadot/keyring';
 import { ApiPromise, WsProvider } from '@polkadot/api';
+import { cryptoWaitReady, decodeAddress } from '@polkadot/util-crypto';
+import { u8aToHex } from '@polkadot/util';
 import type { KeyringPair } from '@polkadot/keyring/types';
-import type { AccountInfo } from '@polkadot/types/interfaces';
-import { ChainManager } from "../../core/ChainManager.js";
-import { getRpcEndpoints } from "../../constants/config.js";
-import { IChainAdapter, SupportedChain, ChainConfig, TransactionResponse } from "../../types/index.js";
-import { deriveEntropy, DeriveParams } from "../../utils/derivation.js";
-
-export interface PolkadotConfig {
-  wsUrl?: string;
-}
+import type { Vec } from '@polkadot/types';
+import type { AccountInfo, EventRecord } from '@polkadot/types/interfaces';
+import { BaseAdapter } from "../../core/adapters/BaseAdapter.js";
+import { ScannedBlock } from "../../core/subscriptions/AddressWatcher.js";
+import { DrxaError, ErrorCode, ErrorFactory, TransactionError } from "../../core/errors/index.js";
+import {
+  SupportedChain,
+  ChainConfig,
+  AdapterConfig,
+  Logger,
+  MetricsCollector,
+  TransactionResponse,
+  IncomingTransaction,
+  RpcEndpoint
+} from "../../types/index.js";
+
+// How long a submitted transfer may take to get into a block
+const INCLUSION_TIMEOUT = 120000;
 
-export class PolkadotAdapter implements IChainAdapter {
-  public readonly chainName: SupportedChain = "polkadot";
-  public readonly config: ChainConfig = {
+/**
+ * Polkadot adapter over the node's WebSocket RPC; amounts are in Planck (1 DOT = 10^10 Planck).
+ * Incoming transfers are found by scanning blocks for `balances.Transfer` events.
+ */
+export class PolkadotAdapter extends BaseAdapter {
+  readonly chainName: SupportedChain = "polkadot";
+  readonly config: ChainConfig = {
     name: 'Polkadot',
     symbol: 'DOT',
     decimals: 10,
@@ -31,86 +46,190 @@ export class PolkadotAdapter implements IChainAdapter {
       url: 'https://polkadot.subscan.io'
     }
   };
-  private readonly wsUrl: string;
-  private readonly masterSeed: Uint8Array;
-  private api: ApiPromise | null = null;
 
-  constructor(masterSeed: Uint8Array, config: PolkadotConfig = {}) {
-    const endpoints = getRpcEndpoints(this.chainName);
-    this.wsUrl = config.wsUrl ?? endpoints.ws ?? endpoints.http;
-    this.masterSeed = masterSeed;
-    ChainManager.register(this);
+  private readonly apis = new Map<string, Promise<ApiPromise>>();
+  private keyring?: Keyring;
+
+  constructor(
+    masterSeed: Uint8Array,
+    adapterConfig: AdapterConfig = {},
+    logger?: Logger,
+    metrics?: MetricsCollector
+  ) {
+    super(masterSeed, adapterConfig, logger, metrics);
+  }
+
+  // Runs API calls against the best node, failing over to the others
+  private withApi<T>(operation: (api: ApiPromise) => Promise<T>): Promise<T> {
+    return this.withRpc(async endpoint => operation(await this.apiFor(endpoint)));
+  }
+
+  // One WebSocket connection per node, opened on first use; never in derive-only mode
+  private apiFor(endpoint: RpcEndpoint): Promise<ApiPromise> {
+    let api = this.apis.get(endpoint.url);
+    if (!api) {
+      this.assertNetworkEnabled('api');
+      api = ApiPromise.create({ provider: new WsProvider(endpoint.url, undefined, endpoint.headers) });
+      // A failed connection is retried on the next call
+      api.catch(() => this.apis.delete(endpoint.url));
+      this.apis.set(endpoint.url, api);
+    }
+    return api;
+  }
+
+  protected async checkEndpointHealth(endpoint: RpcEndpoint): Promise<void> {
+    await (await this.apiFor(endpoint)).rpc.system.health();
   }
 
-  private async initApi(): Promise<ApiPromise> {
-    if (!this.api) {
-      const provider = new WsProvider(this.wsUrl);
-      this.api = await ApiPromise.create({ provider });
+  // sr25519 runs in WASM, which has to be loaded before the first key is derived
+  private async pairFromPrivateKey(privateKey: Uint8Array): Promise<KeyringPair> {
+    if (!this.keyring) {
+      await cryptoWaitReady();
+      this.keyring = new Keyring({ type: 'sr25519' });
     }
-    return this.api;
-  }
-
-  /**
-   * Derive a Polkadot address using sr25519 from HMAC entropy.
-   */
-  public async deriveAddress(params: DeriveParams): Promise<string> {
-    const entropy = deriveEntropy(this.masterSeed, params);
-    const seed = entropy.slice(0, 32);
-    const keyring = new Keyring({ type: 'sr25519' });
-    const pair = keyring.addFromSeed(seed);
-    return pair.address;
-  }
-
-  /**
-   * Fetches the free balance for derived address in Planck as Big.
-   */
-  public async balance(params: DeriveParams): Promise<Big> {
-    const address = await this.deriveAddress(params);
-    const api = await this.initApi();
-    const account = (await api.query.system.account(address)) as AccountInfo;
-    const free = account.data.free;
-    return new Big(free.toString());
-  }
-
-  /**
-   * Sends a balance transfer (raw Planck amount) from derived seed.
-   */
-  public async send(
-    params: DeriveParams,
+    return this.keyring.addFromSeed(privateKey);
+  }
+
+  protected async deriveAddressFromPrivateKey(privateKey: Uint8Array): Promise<string> {
+    return (await this.pairFromPrivateKey(privateKey)).address;
+  }
+
+  // Hex-encoded sr25519 public key
+  protected async publicKeyFromPrivateKey(privateKey: Uint8Array): Promise<string> {
+    return Buffer.from((await this.pairFromPrivateKey(privateKey)).publicKey).toString('hex');
+  }
+
+  protected async getBalanceForAddress(address: string): Promise<Big> {
+    const account = await this.withApi(api => api.query.system.account(address)) as AccountInfo;
+    return new Big(account.data.free.toString());
+  }
+
+  protected async sendTransaction(
+    privateKey: Uint8Array,
+    from: string,
     to: string,
     amount: Big
   ): Promise<TransactionResponse> {
-    const entropy = deriveEntropy(this.masterSeed, params);
-    const seed = entropy.slice(0, 32);
-    const keyring = new Keyring({ type: 'sr25519' });
-    const pair = keyring.addFromSeed(seed);
-    const txHash = await this.signAndSend(pair, to, amount.toString());
-    return { 
+    const pair = await this.pairFromPrivateKey(privateKey);
+    // Signed once with one node's nonce: failover and retries submit the same extrinsic
+    const extrinsic = await this.withApi(api => api.tx.balances.transferAllowDeath(to, amount.toFixed(0)).signAsync(pair));
+    const txHash = extrinsic.hash.toHex();
+    await this.rebroadcast(txHash, () => this.withApi(api => this.submitExtrinsic(api, extrinsic.toHex(), txHash)));
+
+    return {
       txHash,
-      status: 'pending'
+      status: 'confirmed'
     };
   }
 
-  /**
-   * Internal helper to sign and send a balances.transfer extrinsic.
-   */
-  private async signAndSend(
-    pair: KeyringPair,
-    to: string,
-    amount: string
-  ): Promise<string> {
-    const api = await this.initApi();
-    return new Promise((resolve, reject) => {
-      api.tx.balances
-        .transfer(to, amount)
-        .signAndSend(pair, ({ status, dispatchError, txHash }) => {
+  // Resolves once the extrinsic is in a block; rejects when it fails, leaves the pool or misses the deadline
+  private submitExtrinsic(api: ApiPromise, extrinsic: string, txHash: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      let settled = false;
+      let unsubscribe: (() => void) | undefined;
+      const settle = (error?: Error) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        unsubscribe?.();
+        error ? reject(error) : resolve();
+      };
+      const timer = setTimeout(() => settle(new DrxaError(
+        ErrorCode.TIMEOUT_ERROR,
+        `Transaction ${txHash} was not included within ${INCLUSION_TIMEOUT}ms; it may still be, check it before sending again`,
+        { chain: this.chainName, txHash }
+      )), INCLUSION_TIMEOUT);
+
+      api.tx(extrinsic)
+        .send(({ status, dispatchError }) => {
           if (dispatchError) {
-            reject(dispatchError);
+            settle(new TransactionError(
+              ErrorCode.TRANSACTION_FAILED,
+              `Transfer failed: ${dispatchError.toString()}`,
+              { chain: this.chainName, txHash }
+            ));
           } else if (status.isInBlock || status.isFinalized) {
-            resolve(txHash.toHex());
+            settle();
+          } else if (status.isDropped || status.isInvalid || status.isUsurped) {
+            settle(new TransactionError(
+              ErrorCode.TRANSACTION_FAILED,
+              `Transaction ${txHash} was ${status.type.toLowerCase()} by the node`,
+              { chain: this.chainName, txHash, status: status.type }
+            ));
           }
         })
-        .catch(reject);
+        .then(unsub => {
+          unsubscribe = unsub;
+          if (settled) {
+            unsub();
+          }
+        }, settle);
     });
   }
+
+  protected async getBlockHeight(): Promise<number> {
+    const header = await this.withApi(api => api.rpc.chain.getHeader());
+    return header.number.toNumber();
+  }
+
+  protected async getBlockHash(height: number): Promise<string> {
+    const hash = await this.withApi(api => api.rpc.chain.getBlockHash(height));
+    return hash.toHex();
+  }
+
+  // Successful balance transfers to watched accounts in one block
+  protected async scanBlock(height: number, addresses: ReadonlySet<string>): Promise<ScannedBlock> {
+    return this.withApi(async api => {
+      const hash = await api.rpc.chain.getBlockHash(height);
+      const [{ block }, apiAt] = await Promise.all([api.rpc.chain.getBlock(hash), api.at(hash)]);
+      const [events, moment] = await Promise.all([
+        apiAt.query.system.events() as Promise<Vec<EventRecord>>,
+        apiAt.query.timestamp.now()
+      ]);
+      const transactions: IncomingTransaction[] = [];
+
+      for (const { phase, event } of events) {
+        if (!phase.isApplyExtrinsic || !api.events.balances.Transfer.is(event)) {
+          continue;
+        }
+        const [from, to, amount] = event.data;
+        if (!addresses.has(to.toHex())) {
+          continue;
+        }
+        transactions.push({
+          txHash: block.extrinsics[phase.asApplyExtrinsic.toNumber()].hash.toHex(),
+          from: from.toString(),
+          to: to.toString(),
+          amount: new Big(amount.toString()),
+          blockNumber: height,
+          blockHash: hash.toHex(),
+          timestamp: Number(moment.toString())
+        });
+      }
+
+      return { hash: hash.toHex(), transactions };
+    });
+  }
+
+  // Accounts are matched by public key, whatever SS58 prefix the address was written with
+  protected normalizeAddress(address: string): string {
+    return u8aToHex(decodeAddress(address));
+  }
+
+  protected validateAddress(address: string): void {
+    try {
+      decodeAddress(address);
+    } catch {
+      throw ErrorFactory.validationError(ErrorCode.INVALID_ADDRESS, `Invalid Polkadot address: ${address}`, { address });
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    const apis = [...this.apis.values()];
+    this.apis.clear();
+    await Promise.allSettled(apis.map(async api => (await api).disconnect()));
+    await super.shutdown();
+  }
 }
@@ -1,21 +1,108 @@
 // src/adapters/solana/SolanaAdapter.ts
-import { IChainAdapter, SupportedChain, ChainConfig, TransactionResponse, SubscriptionCallback, Unsubscribe, IncomingTransaction } from "../../types/index.js";
-import { deriveForChain, DeriveParams } from "../../utils/derivation.js";
+import { BaseAdapter } from "../../core/adapters/BaseAdapter.js";
+import { DerivationPath, STANDARD_PATHS } from "../../core/derivation/DerivationStrategy.js";
+import {
+  SupportedChain,
+  ChainConfig,
+  AdapterConfig,
+  DeriveParams,
+  validateDeriveParams,
+  Logger,
+  MetricsCollector,
+  TransactionResponse,
+  IncomingTransaction,
+  IncomingTransactionsPage,
+  SubscriptionState,
+  UnsignedTransaction,
+  SignedTransaction,
+  RpcEndpoint
+} from "../../types/index.js";
 import {
   createSolanaClient,
   createTransaction,
   signTransactionMessageWithSigners,
   createKeyPairSignerFromBytes,
+  createKeyPairFromBytes,
+  createNoopSigner,
+  compileTransaction,
+  getTransactionDecoder,
+  getCompiledTransactionMessageDecoder,
+  decompileTransactionMessage,
+  getBase64EncodedWireTransaction,
+  getSignatureFromTransaction,
+  signTransaction,
+  isAddress,
   type Address,
-  TransactionSigner,
+  type IInstruction,
+  type Base64EncodedWireTransaction,
+  type Transaction,
+  type KeyPairSigner,
+  type Signature
 } from "gill";
-import { getTransferSolInstruction } from "gill/programs";
-import { ChainManager } from "../../core/ChainManager.js";
-import { getRpcEndpoints } from "../../constants/config.js";
+import {
+  SYSTEM_PROGRAM_ADDRESS,
+  SystemInstruction,
+  getTransferSolInstruction,
+  identifySystemInstruction,
+  parseTransferSolInstruction
+} from "gill/programs";
+import {
+  TOKEN_PROGRAM_ADDRESS,
+  TOKEN_2022_PROGRAM_ADDRESS,
+  fetchMint,
+  getAssociatedTokenAccountAddress,
+  getCreateAssociatedTokenIdempotentInstruction,
+  getTransferCheckedInstruction,
+  getCloseAccountInstruction
+} from "gill/programs/token";
+import { ErrorCode, ErrorFactory } from "../../core/errors/index.js";
 import Big from "big.js";
 import nacl from "tweetnacl";
 
-export class SolanaAdapter implements IChainAdapter {
+type SolanaClient = ReturnType<typeof createSolanaClient>;
+
+const SIGNATURES_PAGE_SIZE = 100;
+// Signatures fetched on a subscription's first poll, before there is a cursor
+const INITIAL_SIGNATURES = 20;
+// Close instructions per transaction, well inside the transaction size limit
+const CLOSE_ACCOUNTS_PER_TRANSACTION = 20;
+const TOKEN_PROGRAMS: Address[] = [TOKEN_PROGRAM_ADDRESS, TOKEN_2022_PROGRAM_ADDRESS];
+
+export interface SolanaTokenTransferOptions {
+  /** Pays the fee and the rent of the recipient's token account if it has to be created (default: the sender) */
+  payer?: DeriveParams;
+}
+
+export interface SolanaCloseTokenAccountsOptions {
+  /** Pays the fee and receives the reclaimed rent (default: the owner) */
+  payer?: DeriveParams;
+  /** Only close accounts of these mints */
+  mints?: string[];
+}
+
+export interface SolanaClosedTokenAccounts {
+  txHashes: string[];
+  closed: string[]; // token account addresses
+  reclaimed: Big; // lamports
+}
+
+type SignatureInfo = { signature: Signature; slot: bigint; blockTime: bigint | null; err: unknown };
+
+// A token account with its owner's balance, as returned by jsonParsed RPC reads
+interface TokenAccount {
+  address: string;
+  mint: string;
+  program: Address;
+  amount: bigint;
+  lamports: bigint;
+}
+
+/**
+ * Solana adapter; amounts are in lamports. SPL Token and Token-2022 tokens are supported through
+ * getTokenBalance and sendToken, and subscriptions report token deposits with the mint as
+ * `tokenContract`; token amounts are in whole tokens throughout.
+ */
+export class SolanaAdapter extends BaseAdapter {
   readonly chainName: SupportedChain = "solana";
   readonly config: ChainConfig = {
     name: 'Solana',
@@ -34,101 +121,453 @@ export class SolanaAdapter implements IChainAdapter {
       url: 'https://explorer.solana.com'
     }
   };
-  private rpc: ReturnType<typeof createSolanaClient>["rpc"];
-  private sendAndConfirm: ReturnType<
-    typeof createSolanaClient
-  >["sendAndConfirmTransaction"];
-  private masterSeed: Uint8Array;
 
-  constructor(masterSeed: Uint8Array) {
-    const { http } = getRpcEndpoints("solana");
-    const { rpc, sendAndConfirmTransaction } = createSolanaClient({ urlOrMoniker: http });
-    this.rpc = rpc;
-    this.sendAndConfirm = sendAndConfirmTransaction;
-    this.masterSeed = masterSeed;
-    ChainManager.register(this);
+  private readonly clients = new Map<string, SolanaClient>();
+
+  constructor(
+    masterSeed: Uint8Array,
+    adapterConfig: AdapterConfig = {},
+    logger?: Logger,
+    metrics?: MetricsCollector
+  ) {
+    super(masterSeed, adapterConfig, logger, metrics);
   }
 
-  /** Derive a signer from our unified seed */
-  async getSigner(params: DeriveParams) {
-    const { priv } = deriveForChain(this.masterSeed, params); // 32-byte seed
-    const kp = nacl.sign.keyPair.fromSeed(priv); 
-    return await createKeyPairSignerFromBytes(kp.secretKey);
+  // Runs RPC calls against the best endpoint, failing over to the others
+  private withClient<T>(operation: (client: SolanaClient) => Promise<T>): Promise<T> {
+    return this.withRpc(endpoint => operation(this.clientFor(endpoint)));
+  }
+
+  // Created on first use; derive-only adapters never get one
+  private clientFor(endpoint: RpcEndpoint): SolanaClient {
+    let client = this.clients.get(endpoint.url);
+    if (!client) {
+      this.assertNetworkEnabled('client');
+      client = createSolanaClient({ urlOrMoniker: endpoint.url });
+      this.clients.set(endpoint.url, client);
+    }
+    return client;
   }
 
-  /** Derive a Base58 Solana address from our unified seed */
-  async deriveAddress(params: DeriveParams): Promise<string> {
-    return (await this.getSigner(params)).address;
+  protected async checkEndpointHealth(endpoint: RpcEndpoint): Promise<void> {
+    await this.clientFor(endpoint).rpc.getSlot().send();
   }
 
-  /** Get the balance of a derived address */
-  async balance(params: DeriveParams): Promise<Big> {
-    const signer = await this.getSigner(params);
-    const { value } = await this.rpc.getBalance(signer.address as Address).send();
+  /** Signer of a derived account, e.g. for building custom transactions */
+  async getSigner(params: DeriveParams): Promise<KeyPairSigner> {
+    validateDeriveParams(params);
+    return this.signerFromPrivateKey(this.derivePrivateKey(params));
+  }
+
+  protected async deriveAddressFromPrivateKey(privateKey: Uint8Array): Promise<string> {
+    return (await this.signerFromPrivateKey(privateKey)).address;
+  }
+
+  protected standardDerivationPath(account: number, index: number): DerivationPath {
+    return STANDARD_PATHS.solana(account, index);
+  }
+
+  protected async publicKeyFromPrivateKey(privateKey: Uint8Array): Promise<string> {
+    return Buffer.from(nacl.sign.keyPair.fromSeed(privateKey).publicKey).toString("hex");
+  }
+
+  protected async getBalanceForAddress(address: string): Promise<Big> {
+    const { value } = await this.withClient(({ rpc }) => rpc.getBalance(address as Address).send());
     return new Big(value.toString());
   }
 
-  /** Send lamports from a derived address */
-  async send(
-    params: DeriveParams,
+  protected async sendTransaction(
+    privateKey: Uint8Array,
+    from: string,
     to: string,
     amount: Big
   ): Promise<TransactionResponse> {
-    const signer = await this.getSigner(params);
-    const lamports = amount.round(0).toNumber();
-
-    const transferIx = getTransferSolInstruction({
-      source: signer.address as unknown as TransactionSigner,
-      destination: to as Address,
-      amount: lamports,
-    });
+    const signer = await this.signerFromPrivateKey(privateKey);
+    return this.sendInstructions(signer, [this.transferInstruction(signer, to, amount)]);
+  }
 
-    const { value: blockhashInfo } = await this.rpc.getLatestBlockhash().send();
+  // The payload is a base64 wire transaction with an empty signature slot
+  protected async buildUnsignedTransaction(from: string, to: string, amount: Big): Promise<UnsignedTransaction> {
+    const feePayer = createNoopSigner(from as Address);
+    const { value: latestBlockhash } = await this.withClient(({ rpc }) => rpc.getLatestBlockhash().send());
     const tx = createTransaction({
       version: "legacy",
-      feePayer: signer.address as Address,
-      instructions: [transferIx],
-      latestBlockhash: blockhashInfo,
+      feePayer,
+      instructions: [this.transferInstruction(feePayer, to, amount)],
+      latestBlockhash,
     });
 
-    const signedTx = await signTransactionMessageWithSigners(tx);
-    const txHash = await this.sendAndConfirm(signedTx);
-    return { 
+    return {
+      chain: this.chainName,
+      from,
+      to,
+      amount: amount.toString(),
+      payload: getBase64EncodedWireTransaction(compileTransaction(tx)),
+      metadata: { lastValidBlockHeight: Number(latestBlockhash.lastValidBlockHeight) }
+    };
+  }
+
+  protected async signUnsignedTransaction(
+    privateKey: Uint8Array,
+    unsigned: UnsignedTransaction
+  ): Promise<SignedTransaction> {
+    const keyPair = await createKeyPairFromBytes(nacl.sign.keyPair.fromSeed(privateKey).secretKey);
+    const tx = getTransactionDecoder().decode(Buffer.from(unsigned.payload, "base64"));
+    this.checkTransferSummary(tx, unsigned);
+    const signedTx = await signTransaction([keyPair], tx);
+
+    return {
+      chain: this.chainName,
+      txHash: getSignatureFromTransaction(signedTx),
+      payload: getBase64EncodedWireTransaction(signedTx)
+    };
+  }
+
+  // The message is signed blindly, so it must be exactly the SOL transfer we summarise
+  private checkTransferSummary(tx: Transaction, unsigned: UnsignedTransaction): void {
+    let transfer: ReturnType<typeof parseTransferSolInstruction> | undefined;
+    try {
+      const { instructions } = decompileTransactionMessage(getCompiledTransactionMessageDecoder().decode(tx.messageBytes));
+      const [instruction] = instructions;
+      if (
+        instructions.length === 1 &&
+        instruction.programAddress === SYSTEM_PROGRAM_ADDRESS &&
+        instruction.data &&
+        identifySystemInstruction(instruction.data) === SystemInstruction.TransferSol
+      ) {
+        transfer = parseTransferSolInstruction(instruction as Parameters<typeof parseTransferSolInstruction>[0]);
+      }
+    } catch {
+      // Undecodable messages are rejected below
+    }
+
+    if (
+      !transfer ||
+      transfer.accounts.source.address !== unsigned.from ||
+      transfer.accounts.destination.address !== unsigned.to ||
+      transfer.data.amount.toString() !== unsigned.amount
+    ) {
+      throw ErrorFactory.invalidParams('Payload does not match the unsigned transaction summary', { to: unsigned.to });
+    }
+  }
+
+  // Submits without waiting for confirmation
+  protected async broadcastSignedTransaction(signed: SignedTransaction): Promise<TransactionResponse> {
+    const txHash = await this.withClient(({ rpc }) => rpc
+      .sendTransaction(signed.payload as Base64EncodedWireTransaction, { encoding: "base64" })
+      .send());
+    return {
       txHash,
-      status: 'confirmed'
+      status: 'pending'
+    };
+  }
+
+  /**
+   * Balance of an SPL or Token-2022 token in whole tokens, held in the derived address's
+   * associated token account: what sendToken can spend. Tokens in other accounts of the owner
+   * aren't counted.
+   */
+  async getTokenBalance(params: DeriveParams, mint: string): Promise<Big> {
+    this.validateAddress(mint);
+    const owner = await this.deriveAddress(params);
+    const [{ program, decimals }, accounts] = await Promise.all([this.getMint(mint), this.getTokenAccounts(owner, { mint })]);
+    const ata = await getAssociatedTokenAccountAddress(mint as Address, owner as Address, program);
+    const balance = accounts.find(account => account.address === ata)?.amount ?? 0n;
+    return new Big(balance.toString()).div(new Big(10).pow(decimals));
+  }
+
+  /**
+   * Transfer an SPL or Token-2022 token; `amount` is in whole tokens. The recipient's associated
+   * token account is created first if it doesn't exist, paid for by `options.payer` if given.
+   */
+  async sendToken(
+    params: DeriveParams,
+    mint: string,
+    to: string,
+    amount: Big,
+    options: SolanaTokenTransferOptions = {}
+  ): Promise<TransactionResponse> {
+    this.validateAddress(mint);
+    this.validateAddress(to);
+    this.validateAmount(amount);
+
+    const owner = await this.getSigner(params);
+    const payer = options.payer ? await this.getSigner(options.payer) : owner;
+    const { program, decimals } = await this.getMint(mint);
+    const units = amount.times(new Big(10).pow(decimals));
+    if (!units.eq(units.round(0, Big.roundDown))) {
+      throw ErrorFactory.validationError(
+        ErrorCode.INVALID_AMOUNT,
+        `Amount has more than ${decimals} decimals`,
+        { amount: amount.toString(), mint }
+      );
+    }
+
+    const [source, destination] = await Promise.all([
+      getAssociatedTokenAccountAddress(mint as Address, owner.address, program),
+      getAssociatedTokenAccountAddress(mint as Address, to as Address, program)
+    ]);
+    const result = await this.sendInstructions(payer, [
+      getCreateAssociatedTokenIdempotentInstruction({
+        payer,
+        ata: destination,
+        owner: to as Address,
+        mint: mint as Address,
+        tokenProgram: program
+      }),
+      getTransferCheckedInstruction({
+        source,
+        mint: mint as Address,
+        destination,
+        authority: owner,
+        amount: BigInt(units.toFixed(0)),
+        decimals
+      }, { programAddress: program })
+    ]);
+
+    this.logger?.info('Solana token transfer sent', {
+      chain: this.chainName,
+      from: owner.address,
+      to,
+      tokenContract: mint,
+      amount: amount.toString(),
+      txHash: result.txHash
+    });
+    return result;
+  }
+
+  /**
+   * Close the derived address's empty token accounts to reclaim their rent, e.g. after sweeping
+   * a deposit address. Deposit addresses usually hold no SOL, so pass a `payer` to cover the fee;
+   * the rent then goes to the payer as well.
+   */
+  async closeEmptyTokenAccounts(
+    params: DeriveParams,
+    options: SolanaCloseTokenAccountsOptions = {}
+  ): Promise<SolanaClosedTokenAccounts> {
+    options.mints?.forEach(mint => this.validateAddress(mint));
+    const owner = await this.getSigner(params);
+    const payer = options.payer ? await this.getSigner(options.payer) : owner;
+
+    const empty = (await this.getTokenAccounts(owner.address))
+      .filter(account => account.amount === 0n && (!options.mints || options.mints.includes(account.mint)));
+
+    const txHashes: string[] = [];
+    for (let i = 0; i < empty.length; i += CLOSE_ACCOUNTS_PER_TRANSACTION) {
+      const batch = empty.slice(i, i + CLOSE_ACCOUNTS_PER_TRANSACTION);
+      const { txHash } = await this.sendInstructions(payer, batch.map(account => getCloseAccountInstruction({
+        account: account.address as Address,
+        destination: payer.address,
+        owner
+      }, { programAddress: account.program })));
+      txHashes.push(txHash);
+    }
+
+    return {
+      txHashes,
+      closed: empty.map(account => account.address),
+      reclaimed: new Big(empty.reduce((sum, account) => sum + account.lamports, 0n).toString())
     };
   }
 
-  /** Poll for new signatures every 10s on the given address */
-  async subscribe(
+  /**
+   * SOL and token deposits to the address since the cursor. Token transfers into an existing
+   * token account don't touch the owner's address, so each of its token accounts is followed
+   * too, and the cursor maps every followed account to the newest signature processed. The
+   * first poll looks at the most recent transactions only. Token amounts are in whole tokens.
+   */
+  protected async getIncomingTransactions(
     address: string,
-    callback: SubscriptionCallback
-  ): Promise<Unsubscribe> {
-    const addr = address as Address;
-    const seen = new Set<string>();
-    const intervalId = setInterval(async () => {
-      try {
-        const sigInfos = await this.rpc
-          .getSignaturesForAddress(addr, { limit: 10 })
-          .send();
-
-        for (const info of sigInfos) {
-          if (!seen.has(info.signature)) {
-            seen.add(info.signature);
-            callback({
-              txHash: info.signature,
-              from: 'unknown',
-              to: address,
-              amount: new Big(0),
-              timestamp: info.blockTime ? Number(info.blockTime) * 1000 : undefined
-            });
-          }
-        }
-      } catch (err) {
-        console.error("[SolanaAdapter] poll error:", err);
+    seen: Set<string>,
+    since: SubscriptionState
+  ): Promise<IncomingTransactionsPage> {
+    const cursors = this.parseCursor(address, since.cursor);
+    const accounts = [address, ...(await this.getTokenAccounts(address)).map(account => account.address)];
+
+    const signatures = new Map<string, SignatureInfo>();
+    const next = { ...cursors };
+    for (const account of accounts) {
+      const found = await this.getSignaturesSince(account, cursors[account] as Signature | undefined);
+      if (found.length > 0) {
+        next[account] = found[0].signature;
+      }
+      found.forEach(info => signatures.set(info.signature, info));
+    }
+
+    const incoming: IncomingTransaction[] = [];
+    // Oldest first
+    const ordered = [...signatures.values()].sort((a, b) => Number(a.slot - b.slot));
+    for (const info of ordered) {
+      if (info.err || seen.has(info.signature)) continue;
+
+      const deposit = await this.depositIn(address, info.signature);
+      if (deposit) {
+        incoming.push({
+          txHash: info.signature,
+          to: address,
+          ...deposit,
+          blockNumber: Number(info.slot),
+          timestamp: info.blockTime ? Number(info.blockTime) * 1000 : undefined
+        });
+      }
+    }
+
+    return { transactions: incoming, cursor: JSON.stringify(next) };
+  }
+
+  // Cursors from before token accounts were followed are the owner's newest signature
+  private parseCursor(address: string, cursor?: string): Record<string, string> {
+    if (!cursor) return {};
+    return cursor.startsWith('{') ? JSON.parse(cursor) : { [address]: cursor };
+  }
+
+  // Newest first; pages back until the cursor is reached
+  private getSignaturesSince(account: string, until?: Signature): Promise<SignatureInfo[]> {
+    return this.withClient(async ({ rpc }) => {
+      const limit = until ? SIGNATURES_PAGE_SIZE : INITIAL_SIGNATURES;
+      const found: SignatureInfo[] = [...await rpc.getSignaturesForAddress(account as Address, { limit, until }).send()];
+      while (until && found.length % SIGNATURES_PAGE_SIZE === 0 && found.length > 0) {
+        const page = await rpc.getSignaturesForAddress(account as Address, {
+          limit,
+          until,
+          before: found[found.length - 1].signature
+        }).send();
+        if (page.length === 0) break;
+        found.push(...page);
+      }
+      return found;
+    });
+  }
+
+  /**
+   * What the address received in a transaction: the first token whose balance in the owner's
+   * accounts grew, otherwise its SOL balance gain. The sender is the account whose balance
+   * dropped the most.
+   */
+  private async depositIn(
+    address: string,
+    signature: Signature
+  ): Promise<{ from: string; amount: Big; tokenContract?: string } | undefined> {
+    const tx = await this.withClient(({ rpc }) => rpc
+      .getTransaction(signature, { encoding: 'json', maxSupportedTransactionVersion: 0 })
+      .send());
+    if (!tx?.meta) return undefined;
+
+    const { preBalances, postBalances, preTokenBalances, postTokenBalances, loadedAddresses } = tx.meta;
+    const accounts: string[] = [
+      ...tx.transaction.message.accountKeys,
+      ...(loadedAddresses?.writable ?? []),
+      ...(loadedAddresses?.readonly ?? [])
+    ];
+
+    // Token balance changes per token account; accounts created in the transaction start at zero
+    const tokenChanges = new Map<number, { mint: string; owner?: string; decimals: number; change: bigint }>();
+    for (const balance of postTokenBalances ?? []) {
+      tokenChanges.set(balance.accountIndex, {
+        mint: balance.mint,
+        owner: balance.owner,
+        decimals: balance.uiTokenAmount.decimals,
+        change: BigInt(balance.uiTokenAmount.amount)
+      });
+    }
+    for (const balance of preTokenBalances ?? []) {
+      const entry = tokenChanges.get(balance.accountIndex)
+        ?? { mint: balance.mint, owner: balance.owner, decimals: balance.uiTokenAmount.decimals, change: 0n };
+      entry.change -= BigInt(balance.uiTokenAmount.amount);
+      tokenChanges.set(balance.accountIndex, entry);
+    }
+
+    const changes = [...tokenChanges.values()];
+    const received = changes.find(entry => entry.owner === address && entry.change > 0n);
+    if (received) {
+      const amount = changes
+        .filter(entry => entry.owner === address && entry.mint === received.mint)
+        .reduce((sum, entry) => sum + entry.change, 0n);
+      if (amount > 0n) {
+        const sender = changes
+          .filter(entry => entry.mint === received.mint && entry.change < 0n)
+          .sort((a, b) => (a.change < b.change ? -1 : 1))[0];
+        return {
+          from: sender?.owner ?? accounts[0],
+          amount: new Big(amount.toString()).div(new Big(10).pow(received.decimals)),
+          tokenContract: received.mint
+        };
       }
-    }, 10_000);
+    }
+
+    const change = (i: number) => BigInt(postBalances[i]) - BigInt(preBalances[i]);
+    const index = accounts.indexOf(address);
+    if (index < 0 || change(index) <= 0n) return undefined;
+
+    let sender = 0;
+    accounts.forEach((_, i) => {
+      if (change(i) < change(sender)) sender = i;
+    });
+    return { from: accounts[sender], amount: new Big(change(index).toString()) };
+  }
 
-    return () => clearInterval(intervalId);
+  private transferInstruction(source: Parameters<typeof getTransferSolInstruction>[0]['source'], to: string, amount: Big) {
+    return getTransferSolInstruction({
+      source,
+      destination: to as Address,
+      amount: BigInt(amount.round(0).toFixed(0)),
+    });
+  }
+
+  // Signs once against one blockhash; failover and retries resend the same signed transaction,
+  // which the network processes at most once
+  private async sendInstructions(feePayer: KeyPairSigner, instructions: IInstruction[]): Promise<TransactionResponse> {
+    const { value: latestBlockhash } = await this.withClient(({ rpc }) => rpc.getLatestBlockhash().send());
+    const signedTx = await signTransactionMessageWithSigners(createTransaction({
+      version: "legacy",
+      feePayer,
+      instructions,
+      latestBlockhash,
+    }));
+    const txHash = getSignatureFromTransaction(signedTx);
+    await this.rebroadcast(txHash, () =>
+      this.withClient(({ sendAndConfirmTransaction }) => sendAndConfirmTransaction(signedTx)));
+
+    return {
+      txHash,
+      status: 'confirmed'
+    };
+  }
+
+  // The program that owns the mint (SPL Token or Token-2022) and its decimals
+  private async getMint(mint: string): Promise<{ program: Address; decimals: number }> {
+    const account = await this.withClient(({ rpc }) => fetchMint(rpc, mint as Address));
+    if (!TOKEN_PROGRAMS.includes(account.programAddress)) {
+      throw ErrorFactory.invalidParams(`${mint} is not an SPL Token or Token-2022 mint`, { mint });
+    }
+    return { program: account.programAddress, decimals: account.data.decimals };
+  }
+
+  // The owner's token accounts under both token programs, or those of one mint
+  private async getTokenAccounts(owner: string, filter: { mint?: string } = {}): Promise<TokenAccount[]> {
+    const responses = await this.withClient(({ rpc }) => Promise.all(
+      filter.mint
+        ? [rpc.getTokenAccountsByOwner(owner as Address, { mint: filter.mint as Address }, { encoding: 'jsonParsed' }).send()]
+        : TOKEN_PROGRAMS.map(programId =>
+            rpc.getTokenAccountsByOwner(owner as Address, { programId }, { encoding: 'jsonParsed' }).send())
+    ));
+
+    return responses.flatMap(({ value }) => value.map(({ pubkey, account }) => ({
+      address: pubkey,
+      mint: account.data.parsed.info.mint,
+      program: account.owner,
+      amount: BigInt(account.data.parsed.info.tokenAmount.amount),
+      lamports: BigInt(account.lamports)
+    })));
+  }
+
+  private signerFromPrivateKey(privateKey: Uint8Array): Promise<KeyPairSigner> {
+    return createKeyPairSignerFromBytes(nacl.sign.keyPair.fromSeed(privateKey).secretKey);
+  }
+
+  protected validateAddress(address: string): void {
+    if (!isAddress(address)) {
+      throw ErrorFactory.validationError(ErrorCode.INVALID_ADDRESS, `Invalid Solana address: ${address}`, { address });
+    }
   }
-}
\ No newline at end of file
+}
@@ -1,22 +1,37 @@
-import { ChainManager } from "../../core/ChainManager.js";
-import { getRpcEndpoints } from "../../constants/config.js";
-import { IChainAdapter, SupportedChain, ChainConfig, TransactionResponse, FeeEstimate, TransactionHistory, SubscriptionCallback, Unsubscribe } from "../../types/index.js";
-import { deriveEntropy, DeriveParams } from "../../utils/derivation.js";
+import { BaseAdapter } from "../../core/adapters/BaseAdapter.js";
+import { DerivationPath, STANDARD_PATHS } from "../../core/derivation/DerivationStrategy.js";
+import {
+  SupportedChain,
+  ChainConfig,
+  AdapterConfig,
+  DeriveParams,
+  Logger,
+  MetricsCollector,
+  TransactionResponse,
+  FeeEstimate,
+  IncomingTransaction,
+  IncomingTransactionsPage,
+  SubscriptionState,
+  RpcEndpoint
+} from "../../types/index.js";
+import { ErrorCode, ErrorFactory } from "../../core/errors/index.js";
 
 import Big from "big.js";
 import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
-import { SuiClient } from "@mysten/sui/client";
-import { Transaction } from "@mysten/sui/transactions";
-
-export interface SuiConfig {
-  rpcUrl?: string;
-  faucetUrl?: string;
-  debug?: boolean;
-}
-
-export class SuiAdapter implements IChainAdapter {
-  public readonly chainName: SupportedChain = "sui";
-  public readonly config: ChainConfig = {
+import { SuiClient, SuiTransactionBlockResponse } from "@mysten/sui/client";
+import { Transaction, TransactionDataBuilder } from "@mysten/sui/transactions";
+import { SUI_TYPE_ARG, isValidSuiAddress, normalizeSuiAddress } from "@mysten/sui/utils";
+
+const TRANSACTIONS_PAGE_SIZE = 50;
+// Transactions fetched on a subscription's first poll, before there is a cursor
+const INITIAL_TRANSACTIONS = 20;
+
+/**
+ * Sui adapter; amounts are in MIST (1 SUI = 10^9 MIST)
+ */
+export class SuiAdapter extends BaseAdapter {
+  readonly chainName: SupportedChain = "sui";
+  readonly config: ChainConfig = {
     name: 'Sui',
     symbol: 'SUI',
     decimals: 9,
@@ -33,111 +48,174 @@ export class SuiAdapter implements IChainAdapter {
       url: 'https://suiscan.xyz'
     }
   };
-  private readonly masterSeed: Uint8Array;
-  private readonly provider: SuiClient;
 
-  constructor(masterSeed: Uint8Array, config: SuiConfig = {}) {
-    this.masterSeed = masterSeed;
+  private readonly clients = new Map<string, SuiClient>();
 
-    const defaultRpc = getRpcEndpoints("sui");
-    const rpcUrl = config.rpcUrl || defaultRpc.http;
+  constructor(
+    masterSeed: Uint8Array,
+    adapterConfig: AdapterConfig = {},
+    logger?: Logger,
+    metrics?: MetricsCollector
+  ) {
+    super(masterSeed, adapterConfig, logger, metrics);
+  }
 
-    this.provider = new SuiClient({ url: rpcUrl });
+  // Runs client calls against the best fullnode, failing over to the others
+  private withClient<T>(operation: (client: SuiClient) => Promise<T>): Promise<T> {
+    return this.withRpc(endpoint => operation(this.clientFor(endpoint)));
+  }
 
-    if (config.debug) {
-      console.log(`[SuiAdapter] RPC: ${rpcUrl}`);
+  // Created on first use; derive-only adapters never get one
+  private clientFor(endpoint: RpcEndpoint): SuiClient {
+    let client = this.clients.get(endpoint.url);
+    if (!client) {
+      this.assertNetworkEnabled('client');
+      client = new SuiClient({ url: endpoint.url });
+      this.clients.set(endpoint.url, client);
     }
+    return client;
+  }
+
+  protected async checkEndpointHealth(endpoint: RpcEndpoint): Promise<void> {
+    await this.clientFor(endpoint).getLatestCheckpointSequenceNumber();
+  }
 
-    ChainManager.register(this);
+  protected async deriveAddressFromPrivateKey(privateKey: Uint8Array): Promise<string> {
+    return Ed25519Keypair.fromSecretKey(privateKey).getPublicKey().toSuiAddress();
   }
 
-  private derive(params: DeriveParams): { keypair: Ed25519Keypair; address: string } {
-    const entropy = deriveEntropy(this.masterSeed, { ...params, chain: "sui" });
-    const seed = entropy.slice(0, 32);
-    const keypair = Ed25519Keypair.fromSecretKey(seed);
-    const address = keypair.getPublicKey().toSuiAddress();
-    return { keypair, address };
+  protected standardDerivationPath(account: number, index: number): DerivationPath {
+    return STANDARD_PATHS.sui(account, index);
   }
 
-  async deriveAddress(params: DeriveParams): Promise<string> {
-    return this.derive(params).address;
+  // Hex-encoded ed25519 public key
+  protected async publicKeyFromPrivateKey(privateKey: Uint8Array): Promise<string> {
+    return Buffer.from(Ed25519Keypair.fromSecretKey(privateKey).getPublicKey().toRawBytes()).toString("hex");
   }
 
-  async balance(params: DeriveParams): Promise<Big> {
-    const { address } = this.derive(params);
-    const coins = await this.provider.getCoins({ owner: address });
-    const total = coins.data.reduce((sum: bigint, coin: any) => sum + BigInt(coin.balance), BigInt(0));
-    return Big(total.toString()).div(1e9); // Convert from MIST to SUI
+  protected async getBalanceForAddress(address: string): Promise<Big> {
+    const { totalBalance } = await this.withClient(client => client.getBalance({ owner: address }));
+    return new Big(totalBalance);
   }
 
-  async send(
-    params: DeriveParams,
+  protected async sendTransaction(
+    privateKey: Uint8Array,
+    from: string,
     to: string,
     amount: Big
   ): Promise<TransactionResponse> {
-    const { keypair, address } = this.derive(params);
-
-    // Build a new transaction
-    const tx = new Transaction();
-    
-    // Convert amount to MIST (1 SUI = 10^9 MIST)
-    const amountInMist = amount.times(1e9).toFixed(0);
-    
-    // Split coins and transfer
-    const [coin] = tx.splitCoins(tx.gas, [amountInMist]);
-    tx.transferObjects([coin], to);
-    
-    // Execute transaction
-    const result = await this.provider.signAndExecuteTransaction({
-      transaction: tx,
-      signer: keypair,
-    });
-
-    return { 
+    const signer = Ed25519Keypair.fromSecretKey(privateKey);
+    const transactionBytes = await this.withClient(client => this.transferTransaction(from, to, amount).build({ client }));
+    // Signed once: failover and retries execute the same transaction instead of one with other gas coins
+    const { bytes, signature } = await signer.signTransaction(transactionBytes);
+    const result = await this.rebroadcast(
+      TransactionDataBuilder.getDigestFromBytes(transactionBytes),
+      () => this.withClient(client => client.executeTransactionBlock({
+        transactionBlock: bytes,
+        signature,
+        options: { showEffects: true }
+      }))
+    );
+
+    const { effects } = result;
+    return {
       txHash: result.digest,
-      status: 'confirmed'
+      status: effects?.status.status === 'failure' ? 'failed' : 'confirmed',
+      fee: effects ? this.gasFee(effects.gasUsed) : undefined
     };
   }
 
-  async estimateFee(
-    params: DeriveParams,
-    to: string,
-    amount: Big
-  ): Promise<FeeEstimate> {
-    const { keypair, address } = this.derive(params);
+  async estimateFee(params: DeriveParams, to: string, amount: Big): Promise<FeeEstimate> {
+    const from = await this.deriveAddress(params);
+    const { effects } = await this.withClient(async client => client.dryRunTransactionBlock({
+      transactionBlock: await this.transferTransaction(from, to, amount).build({ client })
+    }));
 
-    // Build a dummy transaction for gas estimation
-    const tx = new Transaction();
-    const amountInMist = amount.times(1e9).toFixed(0);
-    const [coin] = tx.splitCoins(tx.gas, [amountInMist]);
-    tx.transferObjects([coin], to);
-    
-    // Dry run to estimate gas
-    const dryRun = await this.provider.dryRunTransactionBlock({
-      transactionBlock: await tx.build({ client: this.provider }),
-    });
-
-    const totalGas = Number(dryRun.effects.gasUsed.computationCost) + Number(dryRun.effects.gasUsed.storageCost);
-    const fee = Big(totalGas).div(1e9); // Convert from MIST to SUI
-    return { 
+    const fee = this.gasFee(effects.gasUsed);
+    return {
       baseFee: fee,
       totalFee: fee
     };
   }
 
-  async subscribe(
+  /**
+   * SUI the address gained in each transaction after the cursor, the digest of the newest
+   * transaction processed. The first poll looks at the most recent transactions only.
+   */
+  protected async getIncomingTransactions(
     address: string,
-    callback: SubscriptionCallback
-  ): Promise<Unsubscribe> {
-    // Placeholder for future WebSocket support
-    throw new Error("Sui does not yet support push transaction subscription in this adapter.");
+    seen: Set<string>,
+    since: SubscriptionState
+  ): Promise<IncomingTransactionsPage> {
+    const options = { showInput: true, showBalanceChanges: true };
+    const transactions = await this.withClient(async client => {
+      if (!since.cursor) {
+        const { data } = await client.queryTransactionBlocks({
+          filter: { ToAddress: address },
+          options,
+          order: 'descending',
+          limit: INITIAL_TRANSACTIONS
+        });
+        return data.reverse();
+      }
+
+      const found: SuiTransactionBlockResponse[] = [];
+      let cursor: string | null | undefined = since.cursor;
+      let hasNextPage = true;
+      while (hasNextPage) {
+        const page = await client.queryTransactionBlocks({
+          filter: { ToAddress: address },
+          options,
+          order: 'ascending',
+          cursor,
+          limit: TRANSACTIONS_PAGE_SIZE
+        });
+        found.push(...page.data);
+        ({ nextCursor: cursor, hasNextPage } = page);
+      }
+      return found;
+    });
+
+    const owner = normalizeSuiAddress(address);
+    const incoming: IncomingTransaction[] = [];
+    for (const tx of transactions) {
+      if (seen.has(tx.digest)) continue;
+
+      const received = (tx.balanceChanges ?? [])
+        .filter(change => change.coinType === SUI_TYPE_ARG
+          && typeof change.owner === 'object' && 'AddressOwner' in change.owner
+          && normalizeSuiAddress(change.owner.AddressOwner) === owner)
+        .reduce((sum, change) => sum.plus(change.amount), new Big(0));
+      if (received.lte(0)) continue;
+
+      incoming.push({
+        txHash: tx.digest,
+        from: tx.transaction?.data.sender ?? '',
+        to: address,
+        amount: received,
+        blockNumber: tx.checkpoint ? Number(tx.checkpoint) : undefined,
+        timestamp: tx.timestampMs ? Number(tx.timestampMs) : undefined
+      });
+    }
+
+    return { transactions: incoming, cursor: transactions[transactions.length - 1]?.digest ?? since.cursor };
+  }
+
+  private transferTransaction(from: string, to: string, amount: Big): Transaction {
+    const tx = new Transaction();
+    tx.setSender(from);
+    const [coin] = tx.splitCoins(tx.gas, [amount.toFixed(0)]);
+    tx.transferObjects([coin], to);
+    return tx;
+  }
+
+  private gasFee(gasUsed: { computationCost: string; storageCost: string; storageRebate: string }): Big {
+    return new Big(gasUsed.computationCost).plus(gasUsed.storageCost).minus(gasUsed.storageRebate);
   }
 
-  async getHistory(
-    params: DeriveParams,
-    limit?: number
-  ): Promise<TransactionHistory[]> {
-    // Not currently supported via public API without external indexer
-    throw new Error("Sui getHistory is not implemented (no public indexer available).");
+  protected validateAddress(address: string): void {
+    if (!isValidSuiAddress(address)) {
+      throw ErrorFactory.validationError(ErrorCode.INVALID_ADDRESS, `Invalid Sui address: ${address}`, { address });
+    }
   }
 }
@@ -2,23 +2,53 @@ import { BaseAdapter } from "../../core/adapters/BaseAdapter.js";
 import { 
   SupportedChain, 
   ChainConfig, 
-  AdapterConfig, 
+  TonAdapterConfig,
+  TonWalletVersion,
+  TonKeyDerivation,
+  WaitForTransactionOptions,
   Logger, 
   MetricsCollector, 
   TransactionRequest, 
   TransactionResponse,
   FeeEstimate,
   TransactionHistory,
-  IncomingTransaction
+  IncomingTransaction,
+  IncomingTransactionsPage,
+  SubscriptionState,
+  UnsignedTransaction,
+  SignedTransaction,
+  RpcEndpoint
 } from "../../types/index.js";
 import Big from "big.js";
-import { TonClient, WalletContractV4, WalletContractV3R2, internal } from "@ton/ton";
-import { KeyPair, mnemonicToWalletKey } from "@ton/crypto";
-import { Address, Cell, beginCell } from "@ton/core";
+import { TonClient, WalletContractV4, WalletContractV5R1, internal } from "@ton/ton";
+import { KeyPair, keyPairFromSeed, mnemonicToWalletKey } from "@ton/crypto";
+import { Address, Message, SendMode, Transaction, beginCell, external, storeMessage } from "@ton/core";
+import { DrxaError, ErrorCode, ErrorFactory } from "../../core/errors/index.js";
+
+const TRANSACTIONS_PAGE_SIZE = 20;
+const WALLET_VERSIONS: TonWalletVersion[] = ['v4r2', 'v5r1'];
+const KEY_DERIVATIONS: TonKeyDerivation[] = ['ed25519', 'legacy'];
+const NETWORK_GLOBAL_IDS = { mainnet: -239, testnet: -3 };
+const WAIT_TIMEOUT = 60000;
+const WAIT_POLLING_INTERVAL = 2000;
+
+const toBoc = (message: Message): Buffer => beginCell().store(storeMessage(message)).endCell().toBoc();
+
+// The phrase earlier releases turned private keys into; not a valid TON mnemonic, only a key source
+const LEGACY_WORDS = [
+  'abandon', 'ability', 'able', 'about', 'above', 'absent', 'absorb', 'abstract',
+  'absurd', 'abuse', 'access', 'accident', 'account', 'accuse', 'achieve', 'acid',
+  'acoustic', 'acquire', 'across', 'act', 'action', 'actor', 'actress', 'actual'
+];
+const legacyMnemonic = (privateKey: Uint8Array): string[] =>
+  Array.from({ length: 24 }, (_, i) => LEGACY_WORDS[privateKey[i % privateKey.length] % LEGACY_WORDS.length]);
 
 /**
  * TON (The Open Network) adapter with complete functionality
  * Supports TON transfers, balance checking, and transaction monitoring
+ * The derived ed25519 key is the wallet key, deployed as a WalletV4R2 or WalletV5R1 contract
+ * (`walletVersion` in the adapter config), so it can be imported into standard TON wallets.
+ * `keyDerivation: 'legacy'` restores the keys and addresses of earlier releases, for sweeping them
  */
 export class TonAdapter extends BaseAdapter {
   readonly chainName: SupportedChain = 'ton';
@@ -41,44 +71,67 @@ export class TonAdapter extends BaseAdapter {
     }
   };
 
-  private client: TonClient;
+  private readonly clients = new Map<string, TonClient>();
+  private readonly walletVersion: TonWalletVersion;
+  private readonly keyDerivation: TonKeyDerivation;
 
   constructor(
     masterSeed: Uint8Array,
-    adapterConfig: AdapterConfig = {},
+    adapterConfig: TonAdapterConfig = {},
     logger?: Logger,
     metrics?: MetricsCollector
   ) {
     super(masterSeed, adapterConfig, logger, metrics);
-    
-    // Initialize TON client
-    this.client = new TonClient({
-      endpoint: Array.isArray(this.config.endpoints.http) ? this.config.endpoints.http[0].url : this.config.endpoints.http.url,
-      timeout: this.adapterConfig.timeout || 30000
-    });
+    this.walletVersion = adapterConfig.walletVersion ?? 'v4r2';
+    if (!WALLET_VERSIONS.includes(this.walletVersion)) {
+      throw ErrorFactory.invalidParams(`Unsupported TON wallet version: ${this.walletVersion}`, adapterConfig);
+    }
+    this.keyDerivation = adapterConfig.keyDerivation ?? 'ed25519';
+    if (!KEY_DERIVATIONS.includes(this.keyDerivation)) {
+      throw ErrorFactory.invalidParams(`Unsupported TON key derivation: ${this.keyDerivation}`, adapterConfig);
+    }
+    // Earlier releases only deployed WalletV4R2
+    if (this.keyDerivation === 'legacy' && this.walletVersion !== 'v4r2') {
+      throw ErrorFactory.invalidParams('Legacy TON keys only have v4r2 wallets', adapterConfig);
+    }
   }
 
-  protected async deriveAddressFromPrivateKey(privateKey: Uint8Array): Promise<string> {
-    try {
-      // Create key pair from private key
-      const keyPair: KeyPair = {
-        publicKey: Buffer.alloc(32), // Will be filled by TON crypto
-        secretKey: Buffer.from(privateKey)
-      };
-
-      // Generate the key pair properly using TON crypto
-      // For deterministic generation, we'll use the private key as a seed
-      const mnemonic = await this.privateKeyToMnemonic(privateKey);
-      const wallet = await mnemonicToWalletKey(mnemonic);
+  // Runs client calls against the best toncenter endpoint, failing over to the others
+  private withClient<T>(operation: (client: TonClient) => Promise<T>): Promise<T> {
+    return this.withRpc(endpoint => operation(this.clientFor(endpoint)));
+  }
 
-      // Create wallet contract (V4 is the latest)
-      const workchain = 0; // Usually 0 for user wallets
-      const walletContract = WalletContractV4.create({
-        publicKey: wallet.publicKey,
-        workchain
+  // Created on first use; never constructed in derive-only mode
+  private clientFor(endpoint: RpcEndpoint): TonClient {
+    let client = this.clients.get(endpoint.url);
+    if (!client) {
+      this.assertNetworkEnabled('client');
+      client = new TonClient({
+        endpoint: endpoint.url,
+        timeout: this.adapterConfig.timeout || 30000
       });
+      this.clients.set(endpoint.url, client);
+    }
+    return client;
+  }
+
+  protected async checkEndpointHealth(endpoint: RpcEndpoint): Promise<void> {
+    await this.clientFor(endpoint).getMasterchainInfo();
+  }
 
-      return walletContract.address.toString();
+  protected async deriveAddressFromPrivateKey(privateKey: Uint8Array): Promise<string> {
+    try {
+      const { publicKey } = await this.keyPair(privateKey);
+      const { address } = this.walletContract(publicKey);
+      // Legacy addresses keep the bounceable form earlier releases handed out
+      if (this.keyDerivation === 'legacy') {
+        return address.toString();
+      }
+      // Non-bounceable: the address receives funds before its wallet contract is deployed
+      return address.toString({
+        bounceable: false,
+        testOnly: this.config.network === 'testnet'
+      });
     } catch (error) {
       this.logger?.error('Failed to derive TON address', error as Error, { 
         privateKeyLength: privateKey.length 
@@ -87,9 +140,13 @@ export class TonAdapter extends BaseAdapter {
     }
   }
 
+  protected async publicKeyFromPrivateKey(privateKey: Uint8Array): Promise<string> {
+    return (await this.keyPair(privateKey)).publicKey.toString('hex');
+  }
+
   protected async getBalanceForAddress(address: string): Promise<Big> {
     try {
-      const balance = await this.client.getBalance(Address.parse(address));
+      const balance = await this.withClient(client => client.getBalance(Address.parse(address)));
       return new Big(balance.toString());
     } catch (error) {
       this.logger?.error('Failed to get TON balance', error as Error, { address });
@@ -107,55 +164,23 @@ export class TonAdapter extends BaseAdapter {
     try {
       // Validate TON address format
       this.validateTonAddress(to);
-      
-      // Generate wallet from private key
-      const mnemonic = await this.privateKeyToMnemonic(privateKey);
-      const keyPair = await mnemonicToWalletKey(mnemonic);
-      
-      // Create wallet contract
-      const walletContract = WalletContractV4.create({
-        publicKey: keyPair.publicKey,
-        workchain: 0
-      });
-
-      // Open wallet provider
-      const wallet = this.client.open(walletContract);
-
-      // Check if wallet is deployed
-      const isDeployed = await this.client.isContractDeployed(wallet.address);
-      if (!isDeployed) {
-        throw new Error('Wallet is not deployed. Please deploy the wallet first.');
-      }
 
-      // Get sequence number (seqno)
-      const seqno = await wallet.getSeqno();
+      const keyPair = await this.keyPair(privateKey);
+      const walletContract = this.walletContract(keyPair.publicKey);
 
-      // Create transfer message
-      const transfer = wallet.createTransfer({
-        seqno,
-        secretKey: keyPair.secretKey,
-        messages: [
-          internal({
-            to: Address.parse(to),
-            value: amount.toString(),
-            body: config?.data ? beginCell().storeBuffer(Buffer.from(config.data, 'hex')).endCell() : undefined,
-            bounce: false // Usually false for user-to-user transfers
-          })
-        ]
-      });
-
-      // Send transaction
-      await wallet.send(transfer);
-      
-      // Generate transaction hash (simplified - in practice you'd get this from the send result)
-      const txHash = this.generateTxHash(from, to, amount.toString(), seqno);
+      // Signed once: failover and retries resend the same message instead of a new one with a new expiry
+      const { seqno, deploy } = await this.withClient(client => this.walletState(client, walletContract.address));
+      const message = this.createTransferMessage(keyPair, seqno, to, BigInt(amount.toFixed(0)), config?.data, deploy);
+      const txHash = this.normalizedMessageHash(message);
+      await this.rebroadcast(txHash, () => this.withClient(client => client.sendFile(toBoc(message))));
 
       this.logger?.info('TON transaction sent', {
         from,
         to,
         amount: amount.toString(),
         txHash,
-        seqno
+        seqno,
+        deploy
       });
 
       return {
@@ -172,13 +197,83 @@ export class TonAdapter extends BaseAdapter {
     }
   }
 
-  protected async getIncomingTransactions(address: string, seen: Set<string>): Promise<IncomingTransaction[]> {
+  protected async buildUnsignedTransaction(
+    from: string,
+    to: string,
+    amount: Big,
+    config?: TransactionRequest
+  ): Promise<UnsignedTransaction> {
+    this.validateTonAddress(to);
+
+    const wallet = Address.parse(from);
+    const { seqno, deploy } = await this.withClient(client => this.walletState(client, wallet));
+
+    // A wallet transfer is only a seqno plus the outgoing message; the signer rebuilds the cell
+    return {
+      chain: this.chainName,
+      from,
+      to,
+      amount: amount.toString(),
+      payload: JSON.stringify({ seqno, data: config?.data, ...(deploy && { deploy }) }),
+    };
+  }
+
+  protected async signUnsignedTransaction(
+    privateKey: Uint8Array,
+    unsigned: UnsignedTransaction
+  ): Promise<SignedTransaction> {
+    const { seqno, data, deploy } = JSON.parse(unsigned.payload) as { seqno: number; data?: string; deploy?: boolean };
+
+    const message = this.createTransferMessage(await this.keyPair(privateKey), seqno, unsigned.to, BigInt(unsigned.amount), data, deploy);
+
+    return {
+      chain: this.chainName,
+      txHash: this.normalizedMessageHash(message),
+      payload: toBoc(message).toString('base64')
+    };
+  }
+
+  protected async broadcastSignedTransaction(signed: SignedTransaction): Promise<TransactionResponse> {
+    await this.withClient(client => client.sendFile(Buffer.from(signed.payload, 'base64')));
+    return {
+      txHash: signed.txHash,
+      status: 'pending'
+    };
+  }
+
+  protected async getIncomingTransactions(
+    address: string,
+    seen: Set<string>,
+    since: SubscriptionState
+  ): Promise<IncomingTransactionsPage> {
     try {
-      // Get recent transactions for the address
-      const transactions = await this.client.getTransactions(Address.parse(address), { limit: 20 });
+      // Get recent transactions for the address, newest first. When resuming, page back to the
+      // last one already processed, identified by its logical time.
+      const account = Address.parse(address);
+      const transactions = await this.withClient(client => client.getTransactions(account, { limit: TRANSACTIONS_PAGE_SIZE }));
+      const processedLt = since.cursor !== undefined ? BigInt(since.cursor) : undefined;
+      if (processedLt !== undefined) {
+        let page = transactions;
+        while (page.length === TRANSACTIONS_PAGE_SIZE && page[page.length - 1].lt > processedLt) {
+          const last = page[page.length - 1];
+          page = await this.withClient(client => client.getTransactions(account, {
+            limit: TRANSACTIONS_PAGE_SIZE,
+            lt: last.lt.toString(),
+            hash: last.hash().toString('base64'),
+            inclusive: false
+          }));
+          transactions.push(...page);
+        }
+      }
+
       const incoming: IncomingTransaction[] = [];
+      let cursor = processedLt;
+
+      // Oldest first
+      for (const tx of [...transactions].reverse()) {
+        if (processedLt !== undefined && tx.lt <= processedLt) continue;
+        cursor = cursor === undefined || tx.lt > cursor ? tx.lt : cursor;
 
-      for (const tx of transactions) {
         const txHash = tx.hash().toString('hex');
         if (seen.has(txHash)) continue;
 
@@ -201,10 +296,10 @@ export class TonAdapter extends BaseAdapter {
         }
       }
 
-      return incoming;
+      return { transactions: incoming, cursor: cursor?.toString() };
     } catch (error) {
       this.logger?.error('Failed to get incoming TON transactions', error as Error, { address });
-      return [];
+      return { transactions: [] };
     }
   }
 
@@ -235,13 +330,62 @@ export class TonAdapter extends BaseAdapter {
     }
   }
 
+  /**
+   * Wait for the transaction that processed an external message sent from `address`, given the
+   * message hash returned by send or signUnsigned. Resolves with the on-chain transaction hash;
+   * status is 'failed' when the wallet accepted the message but its transfer failed. A message
+   * the wallet rejects never reaches the chain, so it ends in a TIMEOUT_ERROR.
+   */
+  async waitForTransaction(
+    address: string,
+    txHash: string,
+    options: WaitForTransactionOptions = {}
+  ): Promise<TransactionResponse> {
+    this.assertNetworkEnabled('waitForTransaction');
+    this.validateTonAddress(address);
+
+    const { timeout = WAIT_TIMEOUT, pollingInterval = WAIT_POLLING_INTERVAL } = options;
+    const account = Address.parse(address);
+    const deadline = Date.now() + timeout;
+
+    for (;;) {
+      // The message was just sent, so its transaction is among the most recent ones
+      const transactions = await this.withClient(client => client.getTransactions(account, { limit: TRANSACTIONS_PAGE_SIZE }));
+      const tx = transactions.find(tx =>
+        tx.inMessage?.info.type === 'external-in' && this.normalizedMessageHash(tx.inMessage) === txHash
+      );
+      if (tx) {
+        return {
+          txHash: tx.hash().toString('hex'),
+          blockNumber: Number(tx.lt),
+          timestamp: tx.now * 1000,
+          fee: new Big(tx.totalFees.coins.toString()),
+          status: this.transactionSucceeded(tx) ? 'confirmed' : 'failed'
+        };
+      }
+
+      if (Date.now() + pollingInterval > deadline) {
+        throw new DrxaError(
+          ErrorCode.TIMEOUT_ERROR,
+          `TON message ${txHash} was not processed within ${timeout}ms`,
+          { chain: this.chainName, method: 'waitForTransaction', address, txHash }
+        );
+      }
+      await new Promise(resolve => setTimeout(resolve, pollingInterval));
+    }
+  }
+
   async getHistory(params: any, limit = 100): Promise<TransactionHistory[]> {
+    const address = await this.deriveAddress(params);
+    return this.getAddressHistory(address, limit);
+  }
+
+  async getAddressHistory(address: string, limit = 100): Promise<TransactionHistory[]> {
     try {
-      const address = await this.deriveAddress(params);
-      const transactions = await this.client.getTransactions(
+      const transactions = await this.withClient(client => client.getTransactions(
         Address.parse(address), 
         { limit: Math.min(limit, 100) }
-      );
+      ));
 
       const history: TransactionHistory[] = [];
 
@@ -300,45 +444,107 @@ export class TonAdapter extends BaseAdapter {
     }
   }
 
-  private async privateKeyToMnemonic(privateKey: Uint8Array): Promise<string[]> {
-    // Convert private key to a deterministic mnemonic
-    // This is a simplified approach - in practice you might want a more robust method
-    const words = [
-      'abandon', 'ability', 'able', 'about', 'above', 'absent', 'absorb', 'abstract',
-      'absurd', 'abuse', 'access', 'accident', 'account', 'accuse', 'achieve', 'acid',
-      'acoustic', 'acquire', 'across', 'act', 'action', 'actor', 'actress', 'actual'
-    ];
-
-    const mnemonic: string[] = [];
-    for (let i = 0; i < 24; i++) {
-      const index = privateKey[i % privateKey.length] % words.length;
-      mnemonic.push(words[index]);
+  private transactionSucceeded(tx: Transaction): boolean {
+    const { description } = tx;
+    if (description.type !== 'generic') return true;
+    return !description.aborted
+      && (description.computePhase.type !== 'vm' || description.computePhase.success)
+      && (description.actionPhase?.success ?? true);
+  }
+
+  // The derived private key is the ed25519 seed of the wallet key. Legacy keys came from a
+  // 24-word phrase built from the first bytes of the private key, as earlier releases did.
+  private async keyPair(privateKey: Uint8Array): Promise<KeyPair> {
+    if (this.keyDerivation === 'legacy') {
+      return mnemonicToWalletKey(legacyMnemonic(privateKey));
+    }
+    return keyPairFromSeed(Buffer.from(privateKey));
+  }
+
+  // Seqno of the next transfer, and whether it has to deploy the wallet: a wallet contract is
+  // only created by the first external message carrying its state init
+  private async walletState(client: TonClient, wallet: Address): Promise<{ seqno: number; deploy: boolean }> {
+    const { state } = await client.getContractState(wallet);
+    if (state === 'frozen') {
+      throw ErrorFactory.invalidParams('TON wallet is frozen', { address: wallet.toString() });
+    }
+    if (state !== 'active') {
+      return { seqno: 0, deploy: true };
     }
+    const { stack } = await client.runMethod(wallet, 'seqno');
+    const seqno = stack.readNumber();
+    return { seqno, deploy: seqno === 0 };
+  }
 
-    return mnemonic;
+  private walletContract(publicKey: Buffer): WalletContractV4 | WalletContractV5R1 {
+    if (this.walletVersion === 'v5r1') {
+      return WalletContractV5R1.create({
+        publicKey,
+        walletId: {
+          networkGlobalId: NETWORK_GLOBAL_IDS[this.config.network === 'testnet' ? 'testnet' : 'mainnet'],
+          context: { walletVersion: 'v5r1', workchain: 0, subwalletNumber: 0 }
+        }
+      });
+    }
+    return WalletContractV4.create({ publicKey, workchain: 0 });
+  }
+
+  // The signed external message carrying a single-transfer wallet request, and the wallet's
+  // state init when it deploys the wallet
+  private createTransferMessage(
+    keyPair: KeyPair,
+    seqno: number,
+    to: string,
+    amount: bigint,
+    data?: string,
+    deploy?: boolean
+  ): Message {
+    const walletContract = this.walletContract(keyPair.publicKey);
+    const args = {
+      seqno,
+      secretKey: keyPair.secretKey,
+      sendMode: SendMode.PAY_GAS_SEPARATELY,
+      messages: [
+        internal({
+          to: Address.parse(to),
+          value: amount,
+          body: data ? beginCell().storeBuffer(Buffer.from(data, 'hex')).endCell() : undefined,
+          bounce: false // Usually false for user-to-user transfers
+        })
+      ]
+    };
+    // The two createTransfer signatures don't unify, so narrow first
+    const transfer = walletContract instanceof WalletContractV5R1
+      ? walletContract.createTransfer(args)
+      : walletContract.createTransfer(args);
+
+    return external({ to: walletContract.address, init: deploy ? walletContract.init : undefined, body: transfer });
   }
 
-  private generateTxHash(from: string, to: string, amount: string, seqno: number): string {
-    // Generate a deterministic transaction hash for tracking
-    // In practice, this would come from the actual transaction
-    const data = `${from}:${to}:${amount}:${seqno}:${Date.now()}`;
-    let hash = 0;
-    for (let i = 0; i < data.length; i++) {
-      const char = data.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
+  /**
+   * Hash of an external message in normalized form (TEP-467): no source, no import fee, no
+   * state init and the body in a reference. Unlike the raw hash, it is the same for the sent
+   * message and the copy the chain records, whatever the transport changed.
+   */
+  private normalizedMessageHash({ info, body }: Message): string {
+    if (info.type !== 'external-in') {
+      throw ErrorFactory.invalidParams('Only external messages have a normalized hash', { type: info.type });
     }
-    return Math.abs(hash).toString(16).padStart(64, '0');
+    const normalized = beginCell()
+      .store(storeMessage({ info: { type: 'external-in', src: null, dest: info.dest, importFee: 0n }, init: null, body }, { forceRef: true }))
+      .endCell();
+    return normalized.hash().toString('hex');
   }
 
   // Lifecycle methods
 
   async initialize(): Promise<void> {
     await super.initialize();
+    if (this.isDeriveOnly) return;
     
     try {
       // Test client connection by getting masterchain info
-      await this.client.getMasterchainInfo();
+      await this.withClient(client => client.getMasterchainInfo());
       this.logger?.info('TON client connected successfully');
     } catch (error) {
       this.logger?.error('Failed to connect to TON network', error as Error);
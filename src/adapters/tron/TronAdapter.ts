@@ -1,25 +1,86 @@
 // src/adapters/tron/TronAdapter.ts
-import { IChainAdapter, SupportedChain, ChainConfig, TransactionResponse, FeeEstimate } from "../../types/index.js";
-import { deriveEntropy, DeriveParams } from "../../utils/derivation.js";
+import { BaseAdapter } from "../../core/adapters/BaseAdapter.js";
+import { DerivationPath, STANDARD_PATHS } from "../../core/derivation/DerivationStrategy.js";
+import {
+  SupportedChain,
+  ChainConfig,
+  AdapterConfig,
+  DeriveParams,
+  Logger,
+  MetricsCollector,
+  TransactionResponse,
+  FeeEstimate,
+  IncomingTransaction,
+  IncomingTransactionsPage,
+  SubscriptionState,
+  UnsignedTransaction,
+  SignedTransaction,
+  RpcEndpoint
+} from "../../types/index.js";
 import { keccak256 } from "js-sha3";
 import { getPublicKey as getSecp256k1Pub } from "@noble/secp256k1";
-import { TronWeb } from "tronweb";
+import { TronWeb, utils as tronUtils } from "tronweb";
+import axios from "axios";
 import Big from "big.js";
-import { ChainManager } from "../../core/ChainManager.js";
-import { getRpcEndpoints } from "../../constants/config.js";
-
-export interface TronConfig {
-  /** HTTP endpoint for full node */
-  fullHost?: string;
-  /** Optional gRPC/solidity host (defaults to fullHost) */
-  solidityHost?: string;
-  /** Optional event server (defaults to empty) */
-  eventHost?: string;
+import { ErrorCode, ErrorFactory, TransactionError } from "../../core/errors/index.js";
+
+const TRANSACTIONS_PAGE_SIZE = 200;
+// Transactions fetched on a subscription's first poll, before there is a cursor
+const INITIAL_TRANSACTIONS = 20;
+// Most sun a TRC-20 transfer may burn for energy unless the caller sets a fee limit (100 TRX)
+const DEFAULT_FEE_LIMIT = new Big(100_000_000);
+// Bandwidth a transaction uses beyond its raw data: the signature, the contract result and protobuf framing
+const TRANSACTION_OVERHEAD_BYTES = 134;
+
+export type TronResource = 'ENERGY' | 'BANDWIDTH';
+
+export interface TronTokenTransferOptions {
+  /** Most sun the transfer may burn for energy (default: 100 TRX) */
+  feeLimit?: Big;
+}
+
+/**
+ * Fee of a transaction in sun: the TRX burned for bandwidth and energy the sender has not staked
+ * for, plus the account creation fee when a TRX transfer activates its recipient.
+ * `baseFee` is the bandwidth burn, `gasLimit` the energy used and `gasPrice` the sun burned per unit of energy.
+ */
+export interface TronFeeEstimate extends FeeEstimate {
+  bandwidth: number; // bytes
+  energy: number;
+  activationFee: Big;
+}
+
+export interface TronDelegateOptions {
+  /** Resource to delegate (default: ENERGY) */
+  resource?: TronResource;
+  /** Blocks the delegation can't be taken back for (3 seconds each); unlocked when omitted */
+  lockPeriod?: number;
 }
 
-export class TronAdapter implements IChainAdapter {
-  public readonly chainName: SupportedChain = "tron";
-  public readonly config: ChainConfig = {
+export interface TronAccountResources {
+  bandwidth: { used: number; limit: number }; // including the daily free bandwidth
+  energy: { used: number; limit: number };
+}
+
+// A transaction as returned by TronGrid's /v1/accounts/{address}/transactions
+interface TronGridTransaction {
+  txID: string;
+  blockNumber: number;
+  block_timestamp: number;
+  ret?: { contractRet?: string }[];
+  raw_data: {
+    contract: { type: string; parameter: { value: { owner_address?: string; to_address?: string; amount?: number } } }[];
+  };
+}
+
+/**
+ * Tron adapter; amounts are in sun (1 TRX = 1,000,000 sun). TRC-20 tokens are supported through
+ * getTokenBalance and sendToken, and TRX can be staked for energy under Stake 2.0 and delegated
+ * to other addresses, e.g. from a treasury to deposit addresses that sweep tokens.
+ */
+export class TronAdapter extends BaseAdapter {
+  readonly chainName: SupportedChain = "tron";
+  readonly config: ChainConfig = {
     name: 'Tron',
     symbol: 'TRX',
     decimals: 6,
@@ -36,109 +97,476 @@ export class TronAdapter implements IChainAdapter {
       url: 'https://tronscan.org'
     }
   };
-  private tronWeb: TronWeb;
-  private readonly tronConfig: TronConfig;
-  private readonly masterSeed: Uint8Array;
-
-  constructor(masterSeed: Uint8Array, config?: TronConfig) {
-    const { http } = getRpcEndpoints('tron')!;
-    this.tronConfig = config || {};
-    this.tronWeb = new TronWeb({
-      fullHost: config?.fullHost || http,
-      solidityNode: config?.solidityHost || config?.fullHost || http,
-      eventServer: config?.eventHost || http,
-    });
-    this.masterSeed = masterSeed;
-    ChainManager.register(this);
+
+  private readonly clients = new Map<string, TronWeb>();
+
+  constructor(
+    masterSeed: Uint8Array,
+    adapterConfig: AdapterConfig = {},
+    logger?: Logger,
+    metrics?: MetricsCollector
+  ) {
+    super(masterSeed, adapterConfig, logger, metrics);
   }
 
-  /** Derive raw private key from masterSeed */
-  private derivePrivKey(params: DeriveParams): Uint8Array {
-    const entropy = deriveEntropy(this.masterSeed, params);
-    return entropy.slice(0, 32);
+  // Runs TronWeb calls against the best full node, failing over to the others
+  private withClient<T>(operation: (tronWeb: TronWeb) => Promise<T>): Promise<T> {
+    return this.withRpc(endpoint => operation(this.clientFor(endpoint)));
   }
 
-  /**
-   * Derive a Tron address (Base58) from HMAC-SHA512-based entropy
-   */
-  public async deriveAddress(params: DeriveParams): Promise<string> {
-    const privKey = this.derivePrivKey(params);
-    const compressed = getSecp256k1Pub(privKey, true);
+  // Created on first use; derive-only adapters never get one
+  private clientFor(endpoint: RpcEndpoint): TronWeb {
+    let client = this.clients.get(endpoint.url);
+    if (!client) {
+      this.assertNetworkEnabled('tronWeb');
+      client = new TronWeb({ fullHost: endpoint.url, headers: endpoint.headers });
+      this.clients.set(endpoint.url, client);
+    }
+    return client;
+  }
+
+  protected async checkEndpointHealth(endpoint: RpcEndpoint): Promise<void> {
+    await this.clientFor(endpoint).trx.getCurrentBlock();
+  }
+
+  protected async deriveAddressFromPrivateKey(privateKey: Uint8Array): Promise<string> {
+    const compressed = getSecp256k1Pub(privateKey, true);
     const pubKey = compressed.slice(1);
     const ethHex = keccak256(pubKey).slice(-40);
     const hexAddress = "41" + ethHex;
-    return this.tronWeb.address.fromHex(hexAddress);
+    return TronWeb.address.fromHex(hexAddress);
+  }
+
+  protected standardDerivationPath(account: number, index: number): DerivationPath {
+    return STANDARD_PATHS.tron(account, index);
+  }
+
+  // Hex-encoded compressed secp256k1 public key
+  protected async publicKeyFromPrivateKey(privateKey: Uint8Array): Promise<string> {
+    return Buffer.from(getSecp256k1Pub(privateKey, true)).toString("hex");
+  }
+
+  protected async getBalanceForAddress(address: string): Promise<Big> {
+    const balanceSun = await this.withClient(tronWeb => tronWeb.trx.getBalance(address));
+    return new Big(balanceSun);
+  }
+
+  protected async sendTransaction(
+    privateKey: Uint8Array,
+    from: string,
+    to: string,
+    amount: Big
+  ): Promise<TransactionResponse> {
+    return this.signAndBroadcast(privateKey, tronWeb => tronWeb.transactionBuilder.sendTrx(to, amount.toNumber(), from));
+  }
+
+  // The payload is TronWeb's transaction JSON
+  protected async buildUnsignedTransaction(from: string, to: string, amount: Big): Promise<UnsignedTransaction> {
+    const rawTxn = await this.withClient(tronWeb => tronWeb.transactionBuilder.sendTrx(to, amount.toNumber(), from));
+    return {
+      chain: this.chainName,
+      from,
+      to,
+      amount: amount.toString(),
+      payload: JSON.stringify(rawTxn),
+      metadata: { expiration: rawTxn.raw_data.expiration }
+    };
+  }
+
+  protected async signUnsignedTransaction(
+    privateKey: Uint8Array,
+    unsigned: UnsignedTransaction
+  ): Promise<SignedTransaction> {
+    // txID is signed blindly, so make sure it really commits to the raw data we summarise
+    const rawTxn = JSON.parse(unsigned.payload);
+    const transfer = rawTxn.raw_data?.contract?.[0]?.parameter?.value;
+    if (
+      !tronUtils.transaction.txCheck(rawTxn) ||
+      transfer?.to_address?.toLowerCase() !== TronWeb.address.toHex(unsigned.to).toLowerCase() ||
+      String(transfer?.amount) !== unsigned.amount
+    ) {
+      throw ErrorFactory.invalidParams('Payload does not match the unsigned transaction summary', { to: unsigned.to });
+    }
+
+    const pkHex = Buffer.from(privateKey).toString("hex");
+    const signedTxn = tronUtils.crypto.signTransaction(pkHex, rawTxn);
+    return {
+      chain: this.chainName,
+      txHash: signedTxn.txID,
+      payload: JSON.stringify(signedTxn)
+    };
+  }
+
+  protected async broadcastSignedTransaction(signed: SignedTransaction): Promise<TransactionResponse> {
+    const txHash = await this.withClient(tronWeb => this.broadcastRaw(tronWeb, JSON.parse(signed.payload)));
+    return {
+      txHash,
+      status: 'pending'
+    };
+  }
+
+  private async broadcastRaw(tronWeb: TronWeb, signedTxn: any): Promise<string> {
+    const result = await tronWeb.trx.sendRawTransaction(signedTxn);
+    // A re-broadcast after failover finds the node already knows the transaction; nodes send the code's name
+    if (!result.result && String(result.code) !== 'DUP_TRANSACTION_ERROR') {
+      throw new TransactionError(
+        ErrorCode.TRANSACTION_FAILED,
+        `Failed to broadcast transaction: ${result.message ?? result.code}`,
+        { chain: this.chainName, txHash: signedTxn.txID }
+      );
+    }
+    return signedTxn.txID;
+  }
+
+  // Builds and signs a transaction once; failover and retries re-broadcast the same signed
+  // transaction, so its txID can't change and it can't be sent twice
+  private async signAndBroadcast(
+    privateKey: Uint8Array,
+    build: (tronWeb: TronWeb) => Promise<any>
+  ): Promise<TransactionResponse> {
+    const pkHex = Buffer.from(privateKey).toString("hex");
+    const signedTxn = tronUtils.crypto.signTransaction(pkHex, await this.withClient(build));
+    const txHash = await this.rebroadcast(signedTxn.txID, () =>
+      this.withClient(tronWeb => this.broadcastRaw(tronWeb, signedTxn)));
+    return {
+      txHash,
+      status: 'pending'
+    };
+  }
+
+  // Signs as the derived address of `params`; token transfers, staking and delegation are built
+  // and signed once too, and only re-broadcast on failover
+  private async submit(
+    params: DeriveParams,
+    build: (tronWeb: TronWeb, from: string) => Promise<any>
+  ): Promise<TransactionResponse> {
+    const privateKey = this.derivePrivateKey(params);
+    const from = await this.deriveAddress(params);
+    return this.signAndBroadcast(privateKey, tronWeb => build(tronWeb, from));
   }
 
   /**
-   * Get account balance (in TRX) for a given address
+   * Fee of a TRX transfer, including the account creation fee if the recipient doesn't exist yet
    */
-  public async balance(params: DeriveParams): Promise<Big> {
-    const address = await this.deriveAddress(params);
-    const balanceSun = await this.tronWeb.trx.getBalance(address);
-    return Big(balanceSun).div(1e6);
+  async estimateFee(params: DeriveParams, to: string, amount: Big): Promise<TronFeeEstimate> {
+    this.validateAddress(to);
+    const from = await this.deriveAddress(params);
+    return this.withClient(async tronWeb => {
+      const [rawTxn, recipient] = await Promise.all([
+        tronWeb.transactionBuilder.sendTrx(to, amount.toNumber(), from),
+        tronWeb.trx.getAccount(to)
+      ]);
+      return this.resourceFee(tronWeb, from, rawTxn.raw_data_hex, 0, !recipient.address);
+    });
   }
 
   /**
-   * Build, sign, and return a TRX transfer transaction
+   * Fee of a TRC-20 transfer; `amount` is in whole tokens. The energy is simulated against the
+   * current contract state, so it reflects e.g. the extra cost of a recipient without a balance.
    */
-  public async signTransaction(
+  async estimateTokenFee(
     params: DeriveParams,
+    contract: string,
     to: string,
-    amount: number
-  ): Promise<any> {
-    const privKey = this.derivePrivKey(params);
-    const pkHex = Buffer.from(privKey).toString("hex");
-    const defaultHex = typeof this.tronWeb.defaultAddress.hex === 'string' ? this.tronWeb.defaultAddress.hex : undefined;
-    const rawTxn = await this.tronWeb.transactionBuilder.sendTrx(
-      to,
-      amount,
-      defaultHex
-    );
-    const signedTxn = await this.tronWeb.trx.sign(rawTxn, pkHex);
-    return signedTxn;
+    amount: Big,
+    options: TronTokenTransferOptions = {}
+  ): Promise<TronFeeEstimate> {
+    this.validateAddress(contract);
+    this.validateAddress(to);
+    const from = await this.deriveAddress(params);
+    return this.withClient(async tronWeb => {
+      const args = this.transferArgs(to, await this.tokenUnits(tronWeb, contract, amount, from));
+      const [{ energy_used }, { transaction }] = await Promise.all([
+        tronWeb.transactionBuilder.triggerConstantContract(contract, 'transfer(address,uint256)', {}, args, from),
+        tronWeb.transactionBuilder.triggerSmartContract(
+          contract,
+          'transfer(address,uint256)',
+          { feeLimit: (options.feeLimit ?? DEFAULT_FEE_LIMIT).toNumber(), callValue: 0 },
+          args,
+          from
+        )
+      ]);
+      return this.resourceFee(tronWeb, from, transaction.raw_data_hex, energy_used ?? 0, false);
+    });
   }
 
   /**
-   * Broadcast a signed transaction
+   * Bandwidth is all or nothing: staked bandwidth first, then the daily free bandwidth, otherwise
+   * every byte is burned. Energy not covered by staking is burned per unit. Creating an account
+   * can't use free bandwidth and costs a flat fee on top.
    */
-  public async broadcastTransaction(signedTxn: any): Promise<any> {
-    return this.tronWeb.trx.sendRawTransaction(signedTxn);
+  private async resourceFee(
+    tronWeb: TronWeb,
+    from: string,
+    rawDataHex: string,
+    energy: number,
+    activates: boolean
+  ): Promise<TronFeeEstimate> {
+    const [resources, parameters] = await Promise.all([
+      tronWeb.trx.getAccountResources(from),
+      tronWeb.trx.getChainParameters()
+    ]);
+    const parameter = (key: string) => parameters.find(p => p.key === key)?.value ?? 0;
+
+    const bandwidth = rawDataHex.length / 2 + TRANSACTION_OVERHEAD_BYTES;
+    const staked = (resources.NetLimit ?? 0) - (resources.NetUsed ?? 0);
+    const free = (resources.freeNetLimit ?? 0) - (resources.freeNetUsed ?? 0);
+    let bandwidthFee: Big;
+    let activationFee = new Big(0);
+    if (activates) {
+      bandwidthFee = new Big(staked >= bandwidth ? 0 : parameter('getCreateAccountFee'));
+      activationFee = new Big(parameter('getCreateNewAccountFeeInSystemContract'));
+    } else {
+      bandwidthFee = staked >= bandwidth || free >= bandwidth
+        ? new Big(0)
+        : new Big(bandwidth).times(parameter('getTransactionFee'));
+    }
+
+    const energyPrice = new Big(parameter('getEnergyFee'));
+    const availableEnergy = Math.max(0, (resources.EnergyLimit ?? 0) - (resources.EnergyUsed ?? 0));
+    const energyFee = energyPrice.times(Math.max(0, energy - availableEnergy));
+
+    return {
+      baseFee: bandwidthFee,
+      totalFee: bandwidthFee.plus(energyFee).plus(activationFee),
+      gasLimit: new Big(energy),
+      gasPrice: energyPrice,
+      bandwidth,
+      energy,
+      activationFee
+    };
   }
 
   /**
-   * Send TRX from a derived address to another address
+   * Balance of a TRC-20 token in whole tokens
    */
-  public async send(
+  async getTokenBalance(params: DeriveParams, contract: string): Promise<Big> {
+    this.validateAddress(contract);
+    const owner = await this.deriveAddress(params);
+    return this.withClient(async tronWeb => {
+      const [balance, decimals] = await Promise.all([
+        this.callConstant(tronWeb, contract, 'balanceOf(address)', [{ type: 'address', value: owner }], owner),
+        this.tokenDecimals(tronWeb, contract, owner)
+      ]);
+      return new Big(balance.toString()).div(new Big(10).pow(decimals));
+    });
+  }
+
+  /**
+   * Transfer a TRC-20 token such as USDT; `amount` is in whole tokens. The sender needs TRX to
+   * burn for energy up to `options.feeLimit`, unless it has energy staked or delegated to it.
+   */
+  async sendToken(
     params: DeriveParams,
+    contract: string,
     to: string,
-    amount: Big
+    amount: Big,
+    options: TronTokenTransferOptions = {}
   ): Promise<TransactionResponse> {
-    const txn = await this.signTransaction(params, to, amount.toNumber());
-    const result = await this.broadcastTransaction(txn);
-    if (result.result) {
-      return { 
-        txHash: result.txid,
-        status: 'pending'
-      };
-    } else {
-      throw new Error(`Failed to send transaction: ${result.message}`);
+    this.validateAddress(contract);
+    this.validateAddress(to);
+    this.validateAmount(amount);
+
+    const result = await this.submit(params, async (tronWeb, from) => {
+      const units = await this.tokenUnits(tronWeb, contract, amount, from);
+      const { transaction } = await tronWeb.transactionBuilder.triggerSmartContract(
+        contract,
+        'transfer(address,uint256)',
+        { feeLimit: (options.feeLimit ?? DEFAULT_FEE_LIMIT).toNumber(), callValue: 0 },
+        this.transferArgs(to, units),
+        from
+      );
+      return transaction;
+    });
+
+    this.logger?.info('Tron token transfer sent', {
+      chain: this.chainName,
+      to,
+      tokenContract: contract,
+      amount: amount.toString(),
+      txHash: result.txHash
+    });
+    return result;
+  }
+
+  private transferArgs(to: string, units: Big) {
+    return [{ type: 'address', value: to }, { type: 'uint256', value: units.toFixed(0) }];
+  }
+
+  // Whole tokens to base units, rejecting amounts finer than the token's decimals
+  private async tokenUnits(tronWeb: TronWeb, contract: string, amount: Big, from: string): Promise<Big> {
+    const decimals = await this.tokenDecimals(tronWeb, contract, from);
+    const units = amount.times(new Big(10).pow(decimals));
+    if (!units.eq(units.round(0, Big.roundDown))) {
+      throw ErrorFactory.validationError(
+        ErrorCode.INVALID_AMOUNT,
+        `Amount has more than ${decimals} decimals`,
+        { amount: amount.toString(), tokenContract: contract }
+      );
     }
+    return units;
+  }
+
+  private async tokenDecimals(tronWeb: TronWeb, contract: string, from: string): Promise<number> {
+    return Number(await this.callConstant(tronWeb, contract, 'decimals()', [], from));
+  }
+
+  // Calls a view function returning a single uint
+  private async callConstant(
+    tronWeb: TronWeb,
+    contract: string,
+    functionSelector: string,
+    args: { type: string; value: unknown }[],
+    from: string
+  ): Promise<bigint> {
+    const { constant_result } = await tronWeb.transactionBuilder.triggerConstantContract(
+      contract,
+      functionSelector,
+      {},
+      args,
+      from
+    );
+    const [result] = constant_result ?? [];
+    if (!result) {
+      throw ErrorFactory.invalidParams(`${contract} returned nothing for ${functionSelector}`, { contract });
+    }
+    return BigInt('0x' + result);
   }
 
   /**
-   * Estimate fee for a TRX transfer
+   * Stake `amount` sun under Stake 2.0 for energy (or bandwidth) usable by the derived address
+   * or delegated to others with delegateResource
    */
-  public async estimateFee(
+  async freezeBalance(params: DeriveParams, amount: Big, resource: TronResource = 'ENERGY'): Promise<TransactionResponse> {
+    this.validateAmount(amount);
+    return this.submit(params, (tronWeb, from) =>
+      tronWeb.transactionBuilder.freezeBalanceV2(amount.toNumber(), resource, from));
+  }
+
+  /**
+   * Start unstaking `amount` sun; it can be withdrawn with withdrawUnfrozenBalance once the
+   * network's unstaking period (14 days on mainnet) has passed
+   */
+  async unfreezeBalance(params: DeriveParams, amount: Big, resource: TronResource = 'ENERGY'): Promise<TransactionResponse> {
+    this.validateAmount(amount);
+    return this.submit(params, (tronWeb, from) =>
+      tronWeb.transactionBuilder.unfreezeBalanceV2(amount.toNumber(), resource, from));
+  }
+
+  async withdrawUnfrozenBalance(params: DeriveParams): Promise<TransactionResponse> {
+    return this.submit(params, (tronWeb, from) => tronWeb.transactionBuilder.withdrawExpireUnfreeze(from));
+  }
+
+  /**
+   * Delegate the resources of `amount` staked sun to `receiver`. The energy that buys depends on
+   * the network's total stake; see getAccountResources for what the receiver ends up with.
+   */
+  async delegateResource(
     params: DeriveParams,
-    to: string,
-    amount: Big
-  ): Promise<FeeEstimate> {
-    // Tron network fees are generally 0 for TRX transfers; stub as 0
-    const fee = new Big(0);
-    return { 
-      baseFee: fee,
-      totalFee: fee
+    receiver: string,
+    amount: Big,
+    options: TronDelegateOptions = {}
+  ): Promise<TransactionResponse> {
+    this.validateAddress(receiver);
+    this.validateAmount(amount);
+    const { resource = 'ENERGY', lockPeriod } = options;
+    return this.submit(params, (tronWeb, from) => tronWeb.transactionBuilder.delegateResource(
+      amount.toNumber(),
+      receiver,
+      resource,
+      from,
+      lockPeriod !== undefined,
+      lockPeriod
+    ));
+  }
+
+  async undelegateResource(
+    params: DeriveParams,
+    receiver: string,
+    amount: Big,
+    resource: TronResource = 'ENERGY'
+  ): Promise<TransactionResponse> {
+    this.validateAddress(receiver);
+    this.validateAmount(amount);
+    return this.submit(params, (tronWeb, from) =>
+      tronWeb.transactionBuilder.undelegateResource(amount.toNumber(), receiver, resource, from));
+  }
+
+  async getAccountResources(address: string): Promise<TronAccountResources> {
+    this.validateAddress(address);
+    const resources = await this.withClient(tronWeb => tronWeb.trx.getAccountResources(address));
+    return {
+      bandwidth: {
+        used: (resources.freeNetUsed ?? 0) + (resources.NetUsed ?? 0),
+        limit: (resources.freeNetLimit ?? 0) + (resources.NetLimit ?? 0)
+      },
+      energy: { used: resources.EnergyUsed ?? 0, limit: resources.EnergyLimit ?? 0 }
     };
   }
+
+  /**
+   * Confirmed TRX transfers to the address, read from TronGrid's account transactions API.
+   * The cursor is the block timestamp of the newest transfer processed.
+   */
+  protected async getIncomingTransactions(
+    address: string,
+    seen: Set<string>,
+    since: SubscriptionState
+  ): Promise<IncomingTransactionsPage> {
+    const minTimestamp = since.cursor;
+    const transactions = await this.withRpc(async endpoint => {
+      const found: TronGridTransaction[] = [];
+      let fingerprint: string | undefined;
+      do {
+        const { data } = await axios.get(`${endpoint.url}/v1/accounts/${address}/transactions`, {
+          headers: endpoint.headers,
+          timeout: this.adapterConfig.timeout,
+          params: {
+            only_to: true,
+            only_confirmed: true,
+            limit: minTimestamp ? TRANSACTIONS_PAGE_SIZE : INITIAL_TRANSACTIONS,
+            order_by: minTimestamp ? 'block_timestamp,asc' : 'block_timestamp,desc',
+            min_timestamp: minTimestamp,
+            fingerprint
+          }
+        });
+        found.push(...data.data);
+        fingerprint = minTimestamp ? data.meta?.fingerprint : undefined;
+      } while (fingerprint);
+      // Oldest first
+      return minTimestamp ? found : found.reverse();
+    });
+
+    const incoming: IncomingTransaction[] = [];
+    for (const tx of transactions) {
+      const contract = tx.raw_data.contract[0];
+      const transfer = contract?.parameter.value;
+      if (
+        seen.has(tx.txID) ||
+        contract?.type !== 'TransferContract' ||
+        tx.ret?.[0]?.contractRet !== 'SUCCESS' ||
+        !transfer?.owner_address || !transfer.to_address ||
+        TronWeb.address.fromHex(transfer.to_address) !== address
+      ) {
+        continue;
+      }
+      incoming.push({
+        txHash: tx.txID,
+        from: TronWeb.address.fromHex(transfer.owner_address),
+        to: address,
+        amount: new Big(transfer.amount ?? 0),
+        blockNumber: tx.blockNumber,
+        timestamp: tx.block_timestamp
+      });
+    }
+
+    const newest = transactions[transactions.length - 1]?.block_timestamp;
+    return { transactions: incoming, cursor: newest !== undefined ? String(newest) : minTimestamp };
+  }
+
+  protected validateAddress(address: string): void {
+    if (!TronWeb.isAddress(address)) {
+      throw ErrorFactory.validationError(ErrorCode.INVALID_ADDRESS, `Invalid Tron address: ${address}`, { address });
+    }
+  }
 }
@@ -1,4 +1,4 @@
-import { IChainAdapter, SupportedChain, Logger, AdapterConfig } from "../types/index.js";
+import { IChainAdapter, SupportedChain, Logger, AdapterConfig, BitcoinAdapterConfig } from "../types/index.js";
 import { ErrorFactory } from "./errors/index.js";
 import { EventBus } from "./events/EventBus.js";
 
@@ -88,7 +88,7 @@ export class AdapterRegistry {
   }
 
   // Lazy load an adapter by chain name
-  async loadAdapter(chain: SupportedChain, config?: AdapterConfig): Promise<IChainAdapter> {
+  async loadAdapter(chain: SupportedChain, config?: AdapterConfig | BitcoinAdapterConfig): Promise<IChainAdapter> {
     // Try to load from npm package if not registered
     if (!this.adapters.has(chain) && !this.instances.has(chain)) {
       await this.tryLoadFromPackage(chain);
@@ -100,17 +100,7 @@ export class AdapterRegistry {
     }
 
     // Create new instance
-    const AdapterClass = this.adapters.get(chain);
-    if (!AdapterClass) {
-      throw ErrorFactory.adapterNotFound(chain);
-    }
-
-    if (!this.masterSeed) {
-      throw new Error('AdapterRegistry not initialized. Call initialize() first.');
-    }
-
-    const adapterConfig = { ...this.defaultConfig, ...config };
-    const instance = new AdapterClass(this.masterSeed, adapterConfig, this.logger);
+    const instance = this.createAdapter(chain, config);
     
     // Initialize the adapter
     if (instance.initialize) {
@@ -126,6 +116,21 @@ export class AdapterRegistry {
     return instance;
   }
 
+  // A new adapter that is not cached, initialized or connected to the event bus, e.g. a
+  // derive-only one with settings that differ from the loaded adapter's
+  createAdapter(chain: SupportedChain, config?: AdapterConfig | BitcoinAdapterConfig): IChainAdapter {
+    const AdapterClass = this.adapters.get(chain);
+    if (!AdapterClass) {
+      throw ErrorFactory.adapterNotFound(chain);
+    }
+
+    if (!this.masterSeed) {
+      throw new Error('AdapterRegistry not initialized. Call initialize() first.');
+    }
+
+    return new AdapterClass(this.masterSeed, { ...this.defaultConfig, ...config }, this.logger);
+  }
+
   // Get adapter without creating instance
   getAdapter(chain: SupportedChain): IChainAdapter | undefined {
     return this.instances.get(chain);
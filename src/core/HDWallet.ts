@@ -12,15 +12,31 @@ import {
   Logger, 
   MetricsCollector,
   validateDeriveParams,
-  SupportedChain
+  SupportedChain,
+  ReadOnlyWallet,
+  WatchOnlyEntry,
+  WatchOnlyManifest,
+  TransactionConfig,
+  UnsignedTransaction,
+  SignedTransaction,
+  PaymentOutput,
+  TransactionReceipt,
+  WaitForTransactionOptions,
+  DiscoverParams,
+  DiscoverOptions,
+  DiscoverResult,
+  DiscoveredAddress,
+  DerivationMigrationPlan,
+  IChainAdapter
 } from "../types/index.js";
 import { ErrorFactory, withRetry } from "./errors/index.js";
+import { DerivationVersion, findDerivationCollisions, isDerivationVersion } from "../utils/derivation.js";
 
 /**
  * HDWallet wraps a master seed and provides unified derive/send/subscribe APIs
  * Uses the new adapter registry for lazy loading and better resource management
  */
-export class HDWallet {
+export class HDWallet implements ReadOnlyWallet {
   private readonly masterSeed: Uint8Array;
   private readonly registry: AdapterRegistry;
   private readonly logger?: Logger;
@@ -122,6 +138,39 @@ export class HDWallet {
     }
   }
 
+  /**
+   * Pay several recipients in one transaction from a derived address
+   */
+  async sendMany(
+    params: DeriveParams,
+    outputs: PaymentOutput[],
+    config?: TransactionConfig
+  ): Promise<TransactionResponse> {
+    validateDeriveParams(params);
+    this.metrics?.increment('wallet.send_transaction', { chain: params.chain });
+
+    try {
+      const adapter = await this.registry.loadAdapter(params.chain);
+      if (!adapter.sendMany) {
+        throw ErrorFactory.methodNotImplemented(params.chain, 'sendMany');
+      }
+
+      const response = await adapter.sendMany(params, outputs, config);
+      this.logger?.info('Batch transaction sent', {
+        chain: params.chain,
+        params,
+        outputs: outputs.length,
+        txHash: response.txHash
+      });
+
+      return response;
+    } catch (error) {
+      this.logger?.error('Failed to send batch transaction', error as Error, { params, outputs: outputs.length });
+      this.metrics?.increment('wallet.send_transaction.error', { chain: params.chain });
+      throw error;
+    }
+  }
+
   /**
    * Estimate transaction fee
    */
@@ -140,6 +189,91 @@ export class HDWallet {
     return adapter.estimateFee(params, to, amount);
   }
 
+  /**
+   * Build an unsigned transaction that can be signed in another process
+   */
+  async buildUnsigned(
+    params: DeriveParams,
+    to: string,
+    amount: Big,
+    config?: TransactionConfig
+  ): Promise<UnsignedTransaction> {
+    validateDeriveParams(params);
+
+    const adapter = await this.registry.loadAdapter(params.chain);
+    if (!adapter.buildUnsigned) {
+      throw ErrorFactory.methodNotImplemented(params.chain, 'buildUnsigned');
+    }
+
+    return adapter.buildUnsigned(params, to, amount, config);
+  }
+
+  /**
+   * Sign a transaction from buildUnsigned; works in derive-only mode
+   */
+  async signUnsigned(params: DeriveParams, unsigned: UnsignedTransaction): Promise<SignedTransaction> {
+    validateDeriveParams(params);
+
+    const adapter = await this.registry.loadAdapter(params.chain);
+    if (!adapter.signUnsigned) {
+      throw ErrorFactory.methodNotImplemented(params.chain, 'signUnsigned');
+    }
+
+    return adapter.signUnsigned(params, unsigned);
+  }
+
+  /**
+   * Broadcast a transaction from signUnsigned
+   */
+  async broadcast(signed: SignedTransaction): Promise<TransactionResponse> {
+    this.metrics?.increment('wallet.send_transaction', { chain: signed.chain });
+
+    try {
+      const adapter = await this.registry.loadAdapter(signed.chain);
+      if (!adapter.broadcast) {
+        throw ErrorFactory.methodNotImplemented(signed.chain, 'broadcast');
+      }
+
+      const response = await adapter.broadcast(signed);
+      this.logger?.info('Transaction broadcast', { chain: signed.chain, txHash: response.txHash });
+      return response;
+    } catch (error) {
+      this.logger?.error('Failed to broadcast transaction', error as Error, { chain: signed.chain, txHash: signed.txHash });
+      this.metrics?.increment('wallet.send_transaction.error', { chain: signed.chain });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the receipt of a transaction; verified across endpoints when the adapter has a quorum configured
+   */
+  async getTransactionReceipt(chain: SupportedChain, txHash: string): Promise<TransactionReceipt | null> {
+    const adapter = await this.registry.loadAdapter(chain);
+    if (!adapter.getTransactionReceipt) {
+      throw ErrorFactory.methodNotImplemented(chain, 'getTransactionReceipt');
+    }
+
+    return adapter.getTransactionReceipt(txHash);
+  }
+
+  /**
+   * Wait until a transaction sent from a derived address is on chain
+   */
+  async waitForTransaction(
+    params: DeriveParams,
+    txHash: string,
+    options?: WaitForTransactionOptions
+  ): Promise<TransactionResponse> {
+    validateDeriveParams(params);
+
+    const adapter = await this.registry.loadAdapter(params.chain);
+    if (!adapter.waitForTransaction) {
+      throw ErrorFactory.methodNotImplemented(params.chain, 'waitForTransaction');
+    }
+
+    return adapter.waitForTransaction(await adapter.deriveAddress(params), txHash, options);
+  }
+
   /**
    * Get transaction history for a derived address
    */
@@ -188,6 +322,72 @@ export class HDWallet {
     }
   }
 
+  /**
+   * Find the indexes of a scope/userId that were used on a chain, e.g. to rebuild a user's
+   * addresses after losing the database that recorded them. Indexes are derived in order from
+   * `startIndex` and checked through the adapter's history until `gapLimit` unused ones follow
+   * the last used index. Adapters that can't look at history are rejected unless
+   * `allowBalanceFallback` is set, since only addresses still holding funds would be found.
+   */
+  async discover(params: DiscoverParams, options: DiscoverOptions = {}): Promise<DiscoverResult> {
+    const { gapLimit = 20, indexFormat = String, startIndex = 0, concurrency = 5, allowBalanceFallback = false } = options;
+    if (![gapLimit, concurrency].every(n => Number.isInteger(n) && n > 0) || !Number.isInteger(startIndex) || startIndex < 0) {
+      throw ErrorFactory.invalidParams('Invalid discovery options', { gapLimit, startIndex, concurrency });
+    }
+    const deriveParams = (index: number): DeriveParams => ({ ...params, index: indexFormat(index) });
+    validateDeriveParams(deriveParams(startIndex));
+    this.metrics?.increment('wallet.discover', { chain: params.chain });
+
+    try {
+      const adapter = await this.registry.loadAdapter(params.chain);
+      if (!adapter.hasActivity || adapter.activityFromBalance) {
+        if (!allowBalanceFallback) {
+          throw ErrorFactory.invalidParams(
+            `The ${params.chain} adapter can't see address history; set allowBalanceFallback to discover addresses by balance`,
+            { chain: params.chain }
+          );
+        }
+        this.logger?.warn('Discovering addresses by balance; emptied and token-only addresses will look unused', {
+          chain: params.chain
+        });
+      }
+      const check = async (index: number) => {
+        const derive = deriveParams(index);
+        const address = await adapter.deriveAddress(derive);
+        const used = adapter.hasActivity
+          ? await adapter.hasActivity(address)
+          : (await adapter.balance(derive)).gt(0);
+        return { index, params: derive, address, used };
+      };
+
+      const used: DiscoveredAddress[] = [];
+      let nextIndex = startIndex;
+      let index = startIndex;
+      while (index < nextIndex + gapLimit) {
+        const end = Math.min(index + concurrency, nextIndex + gapLimit);
+        const checked = await Promise.all(Array.from({ length: end - index }, (_, i) => check(index + i)));
+        for (const result of checked.filter(result => result.used)) {
+          used.push({ params: result.params, address: result.address });
+          nextIndex = result.index + 1;
+        }
+        index = end;
+      }
+
+      this.logger?.info('Addresses discovered', {
+        chain: params.chain,
+        scope: params.scope,
+        userId: params.userId,
+        used: used.length,
+        nextIndex
+      });
+      return { used, nextIndex };
+    } catch (error) {
+      this.logger?.error('Failed to discover addresses', error as Error, { params });
+      this.metrics?.increment('wallet.discover.error', { chain: params.chain });
+      throw error;
+    }
+  }
+
   /**
    * Check if a chain is supported
    */
@@ -240,6 +440,77 @@ export class HDWallet {
     });
   }
 
+  /**
+   * Export addresses and public keys for the given parameters so a
+   * WatchOnlyWallet can serve them without access to the master seed
+   */
+  async exportWatchOnlyManifest(requests: DeriveParams[]): Promise<WatchOnlyManifest> {
+    const entries: WatchOnlyEntry[] = [];
+
+    for (const params of requests) {
+      validateDeriveParams(params);
+
+      const adapter = await this.registry.loadAdapter(params.chain);
+      if (!adapter.derivePublicKey) {
+        throw ErrorFactory.methodNotImplemented(params.chain, 'derivePublicKey');
+      }
+
+      entries.push({
+        scope: params.scope,
+        userId: params.userId,
+        chain: params.chain,
+        index: params.index,
+        address: await adapter.deriveAddress(params),
+        publicKey: await adapter.derivePublicKey(params)
+      });
+    }
+
+    this.logger?.info('Watch-only manifest exported', { entries: entries.length });
+    return {
+      version: 1,
+      createdAt: new Date().toISOString(),
+      entries
+    };
+  }
+
+  /**
+   * List the address each of `params` has under the `from` derivation version and the one it
+   * gets under `to`, so balances can be swept and records updated before switching the SDK's
+   * `derivation` option. Params that share an address under `from` are reported as collisions.
+   */
+  async planDerivationMigration(
+    params: DeriveParams[],
+    { from = 'v1', to = 'v2' }: { from?: DerivationVersion; to?: DerivationVersion } = {}
+  ): Promise<DerivationMigrationPlan> {
+    if (!isDerivationVersion(from) || !isDerivationVersion(to)) {
+      throw ErrorFactory.invalidParams('Unknown derivation version', { from, to });
+    }
+    params.forEach(entry => validateDeriveParams(entry));
+
+    // Derive-only adapters, so neither version opens network clients
+    const adapters = new Map<string, IChainAdapter>();
+    const adapterFor = (chain: SupportedChain, derivation: DerivationVersion) => {
+      const key = `${chain}:${derivation}`;
+      if (!adapters.has(key)) {
+        adapters.set(key, this.registry.createAdapter(chain, { mode: 'derive-only', derivation }));
+      }
+      return adapters.get(key)!;
+    };
+
+    const addresses = [];
+    for (const entry of params) {
+      addresses.push({
+        params: entry,
+        from: await adapterFor(entry.chain, from).deriveAddress(entry),
+        to: await adapterFor(entry.chain, to).deriveAddress(entry)
+      });
+    }
+    const collisions = findDerivationCollisions(params, from);
+
+    this.logger?.info('Derivation migration planned', { from, to, addresses: addresses.length, collisions: collisions.length });
+    return { from, to, addresses, collisions };
+  }
+
   /**
    * Get wallet statistics
    */
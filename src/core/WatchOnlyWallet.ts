@@ -0,0 +1,196 @@
+// src/core/WatchOnlyWallet.ts
+import Big from "big.js";
+import { AdapterRegistry } from "./AdapterRegistry.js";
+import {
+  DeriveParams,
+  TransactionHistory,
+  SubscriptionCallback,
+  Unsubscribe,
+  Logger,
+  MetricsCollector,
+  validateDeriveParams,
+  SupportedChain,
+  ReadOnlyWallet,
+  WatchOnlyEntry,
+  WatchOnlyManifest
+} from "../types/index.js";
+import { ErrorFactory } from "./errors/index.js";
+
+/**
+ * WatchOnlyWallet serves the read-only half of HDWallet from an exported manifest.
+ * It never sees the master seed, so it has no send/sign methods at all.
+ */
+export class WatchOnlyWallet implements ReadOnlyWallet {
+  private readonly entries: Map<string, WatchOnlyEntry>;
+  private readonly registry: AdapterRegistry;
+  private readonly logger?: Logger;
+  private readonly metrics?: MetricsCollector;
+
+  constructor(
+    manifest: WatchOnlyManifest,
+    registry: AdapterRegistry,
+    logger?: Logger,
+    metrics?: MetricsCollector
+  ) {
+    if (manifest.version !== 1) {
+      throw ErrorFactory.invalidParams(`Unsupported watch-only manifest version: ${manifest.version}`, manifest.version);
+    }
+
+    this.entries = new Map(manifest.entries.map(entry => [WatchOnlyWallet.keyOf(entry), entry]));
+    this.registry = registry;
+    this.logger = logger;
+    this.metrics = metrics;
+  }
+
+  private static keyOf(params: DeriveParams): string {
+    return JSON.stringify([params.scope, params.userId, params.chain, params.index]);
+  }
+
+  private lookup(params: DeriveParams): WatchOnlyEntry {
+    validateDeriveParams(params);
+    const entry = this.entries.get(WatchOnlyWallet.keyOf(params));
+    if (!entry) {
+      throw ErrorFactory.invalidParams('No watch-only entry for the given parameters', params);
+    }
+    return entry;
+  }
+
+  /**
+   * Look up the exported address for a given chain and parameters
+   */
+  async deriveAddress(params: DeriveParams): Promise<string> {
+    return this.lookup(params).address;
+  }
+
+  /**
+   * Look up the exported public key for a given chain and parameters
+   */
+  async getPublicKey(params: DeriveParams): Promise<string> {
+    return this.lookup(params).publicKey;
+  }
+
+  /**
+   * Get balance for an exported address
+   */
+  async balance(params: DeriveParams): Promise<Big> {
+    const { address } = this.lookup(params);
+    this.metrics?.increment('wallet.get_balance', { chain: params.chain });
+
+    try {
+      const adapter = await this.registry.loadAdapter(params.chain);
+      if (!adapter.getAddressBalance) {
+        throw ErrorFactory.methodNotImplemented(params.chain, 'getAddressBalance');
+      }
+
+      const balance = await adapter.getAddressBalance(address);
+
+      this.logger?.debug('Balance retrieved', {
+        chain: params.chain,
+        address,
+        balance: balance.toString()
+      });
+
+      return balance;
+    } catch (error) {
+      this.logger?.error('Failed to get balance', error as Error, { params });
+      this.metrics?.increment('wallet.get_balance.error', { chain: params.chain });
+      throw error;
+    }
+  }
+
+  /**
+   * Get transaction history for an exported address
+   */
+  async getHistory(params: DeriveParams, limit = 100): Promise<TransactionHistory[]> {
+    const { address } = this.lookup(params);
+
+    try {
+      const adapter = await this.registry.loadAdapter(params.chain);
+      if (!adapter.getAddressHistory) {
+        throw ErrorFactory.methodNotImplemented(params.chain, 'getAddressHistory');
+      }
+
+      return await adapter.getAddressHistory(address, limit);
+    } catch (error) {
+      this.logger?.error('Failed to get history', error as Error, { params });
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to incoming transfers for an exported address
+   */
+  async subscribe(
+    params: DeriveParams,
+    callback: SubscriptionCallback
+  ): Promise<Unsubscribe> {
+    const { address } = this.lookup(params);
+    this.metrics?.increment('wallet.subscribe', { chain: params.chain });
+
+    try {
+      const adapter = await this.registry.loadAdapter(params.chain);
+      if (!adapter.subscribe) {
+        throw ErrorFactory.methodNotImplemented(params.chain, 'subscribe');
+      }
+
+      const unsubscribe = await adapter.subscribe(address, callback);
+
+      this.logger?.info('Subscription created', {
+        chain: params.chain,
+        params,
+        address
+      });
+
+      return unsubscribe;
+    } catch (error) {
+      this.logger?.error('Failed to create subscription', error as Error, { params });
+      this.metrics?.increment('wallet.subscribe.error', { chain: params.chain });
+      throw error;
+    }
+  }
+
+  /**
+   * Batch balance lookups across multiple chains
+   */
+  async batchBalance(requests: DeriveParams[]): Promise<{ params: DeriveParams; balance: Big; error?: Error }[]> {
+    const results = await Promise.allSettled(
+      requests.map(async params => ({
+        params,
+        balance: await this.balance(params)
+      }))
+    );
+
+    return results.map((result, index) => {
+      if (result.status === 'fulfilled') {
+        return result.value;
+      } else {
+        return {
+          params: requests[index],
+          balance: new Big(0),
+          error: result.reason
+        };
+      }
+    });
+  }
+
+  /**
+   * Entries contained in the manifest
+   */
+  getEntries(): WatchOnlyEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  /**
+   * Check if a chain is supported
+   */
+  hasChain(chain: SupportedChain): boolean {
+    return this.registry.hasAdapter(chain);
+  }
+
+  /**
+   * Get list of supported chains
+   */
+  getSupportedChains(): SupportedChain[] {
+    return this.registry.getRegisteredChains();
+  }
+}
@@ -5,35 +5,70 @@ import {
   TransactionRequest, 
   TransactionConfig,
   TransactionResponse, 
+  PaymentOutput,
   Balance, 
   FeeEstimate, 
   TransactionHistory, 
   SubscriptionCallback, 
   Unsubscribe,
   IncomingTransaction,
+  IncomingTransactionsPage,
+  SubscriptionState,
+  SubscriptionStateStore,
+  TransactionLocation,
   AdapterConfig,
   ChainConfig,
   Logger,
   MetricsCollector,
   SupportedChain,
   validateDeriveParams,
-  IChainAdapter
+  IChainAdapter,
+  UnsignedTransaction,
+  SignedTransaction,
+  RpcEndpoint,
+  QuorumResponse,
+  TransactionReceipt
 } from "../../types/index.js";
 import { 
   ErrorFactory, 
   withRetry, 
   NetworkError,
   ValidationError,
-  ErrorCode
+  ConfigurationError,
+  TransactionError,
+  ErrorCode,
+  DrxaError,
+  CircuitBreaker,
+  CircuitState
 } from "../errors/index.js";
-import { deriveEntropy } from "../../utils/derivation.js";
+import { RpcRouter } from "../rpc/RpcRouter.js";
+import { MemorySubscriptionStateStore } from "../subscriptions/SubscriptionStateStore.js";
+import { ConfirmationTracker } from "../subscriptions/ConfirmationTracker.js";
+import { AddressWatcher, ScannedBlock } from "../subscriptions/AddressWatcher.js";
+import { pauseAfterRateLimit, rateLimitErrorFrom, rateLimiterFor } from "../rpc/RateLimiter.js";
+import { DerivationPath, DerivationStrategy, HmacDerivationStrategy } from "../derivation/DerivationStrategy.js";
+
+// Delivered hashes persisted per subscription; older ones are dropped
+const MAX_SEEN_HASHES = 1000;
+
+// How circuit transitions surface as adapter 'status' events
+const CIRCUIT_STATUS: Record<CircuitState, 'connected' | 'disconnected' | 'syncing'> = {
+  closed: 'connected',
+  open: 'disconnected',
+  'half-open': 'syncing'
+};
 
 export abstract class BaseAdapter extends EventEmitter implements IChainAdapter {
   protected readonly masterSeed: Uint8Array;
   protected readonly adapterConfig: AdapterConfig;
   protected readonly logger?: Logger;
   protected readonly metrics?: MetricsCollector;
-  protected readonly subscriptions = new Map<string, { interval: NodeJS.Timeout; seen: Set<string> }>();
+  protected readonly subscriptions = new Map<string, { interval: NodeJS.Timeout; seen: Set<string>; poll: () => Promise<void> }>();
+  private readonly circuitBreakers = new Map<string, CircuitBreaker>();
+  private _rpcRouter?: RpcRouter;
+  private _subscriptionStore?: SubscriptionStateStore;
+  private _addressWatcher?: AddressWatcher | null;
+  private _derivationStrategy?: DerivationStrategy;
   
   abstract readonly chainName: SupportedChain;
   abstract readonly config: ChainConfig;
@@ -52,10 +87,20 @@ export abstract class BaseAdapter extends EventEmitter implements IChainAdapter
       confirmations: 1,
       pollingInterval: 15000,
       batchSize: 100,
+      mode: 'full',
       ...adapterConfig
     };
     this.logger = logger;
     this.metrics = metrics;
+
+    // Quorum balances need per-endpoint reads; without them every balance check would fail later
+    if (this.adapterConfig.quorum && this.getBalanceAt === BaseAdapter.prototype.getBalanceAt) {
+      throw new ConfigurationError(
+        ErrorCode.INVALID_CONFIG,
+        `${new.target.name} does not support quorum reads`,
+        { quorum: this.adapterConfig.quorum }
+      );
+    }
   }
 
   // Abstract methods that must be implemented by subclasses
@@ -92,17 +137,12 @@ export abstract class BaseAdapter extends EventEmitter implements IChainAdapter
 
   async balance(params: DeriveParams): Promise<Big> {
     try {
+      this.assertNetworkEnabled('balance');
       validateDeriveParams(params);
       this.metrics?.increment('adapter.get_balance', { chain: this.chainName });
       
       const address = await this.deriveAddress(params);
-      const balance = await withRetry(
-        () => this.getBalanceForAddress(address),
-        { maxRetries: this.adapterConfig.maxRetries }
-      );
-      
-      this.logger?.debug('Balance retrieved', { chain: this.chainName, address, balance: balance.toString() });
-      return balance;
+      return await this.fetchBalance(address);
     } catch (error) {
       this.logger?.error('Failed to get balance', error as Error, { chain: this.chainName, params });
       this.metrics?.increment('adapter.get_balance.error', { chain: this.chainName });
@@ -110,6 +150,69 @@ export abstract class BaseAdapter extends EventEmitter implements IChainAdapter
     }
   }
 
+  // Balance lookup by address, for callers that hold addresses but not the seed
+  async getAddressBalance(address: string): Promise<Big> {
+    try {
+      this.assertNetworkEnabled('getAddressBalance');
+      this.validateAddress(address);
+      this.metrics?.increment('adapter.get_balance', { chain: this.chainName });
+
+      return await this.fetchBalance(address);
+    } catch (error) {
+      this.logger?.error('Failed to get balance', error as Error, { chain: this.chainName, address });
+      this.metrics?.increment('adapter.get_balance.error', { chain: this.chainName });
+      throw error;
+    }
+  }
+
+  // True when the adapter has no history lookup and hasActivity falls back to the current balance
+  get activityFromBalance(): boolean {
+    return this.getAddressActivity === BaseAdapter.prototype.getAddressActivity;
+  }
+
+  // Whether an address ever received or sent anything; used by address discovery
+  async hasActivity(address: string): Promise<boolean> {
+    try {
+      this.assertNetworkEnabled('hasActivity');
+      this.validateAddress(address);
+
+      return await withRetry(
+        () => this.withCircuitBreaker(() => this.getAddressActivity(address)),
+        { maxRetries: this.adapterConfig.maxRetries }
+      );
+    } catch (error) {
+      this.logger?.error('Failed to check address activity', error as Error, { chain: this.chainName, address });
+      throw error;
+    }
+  }
+
+  // Receipt of a mined transaction, or null while it is unknown or pending; verified by quorum when configured
+  async getTransactionReceipt(txHash: string): Promise<TransactionReceipt | null> {
+    try {
+      this.assertNetworkEnabled('getTransactionReceipt');
+      if (!txHash || typeof txHash !== 'string') {
+        throw ErrorFactory.invalidParams('Transaction hash must be a non-empty string', { txHash });
+      }
+
+      if (this.adapterConfig.quorum) {
+        return await this.quorumRead('getTransactionReceipt', endpoint => this.getTransactionReceiptAt(endpoint, txHash));
+      }
+      return await withRetry(
+        () => this.withRpc(async endpoint => (await this.getTransactionReceiptAt(endpoint, txHash)).value),
+        { maxRetries: this.adapterConfig.maxRetries }
+      );
+    } catch (error) {
+      this.logger?.error('Failed to get transaction receipt', error as Error, { chain: this.chainName, txHash });
+      throw error;
+    }
+  }
+
+  async derivePublicKey(params: DeriveParams): Promise<string> {
+    validateDeriveParams(params);
+    const privateKey = this.derivePrivateKey(params);
+    return this.publicKeyFromPrivateKey(privateKey);
+  }
+
   async send(
     params: DeriveParams,
     to: string,
@@ -117,6 +220,7 @@ export abstract class BaseAdapter extends EventEmitter implements IChainAdapter
     config?: TransactionConfig
   ): Promise<TransactionResponse> {
     try {
+      this.assertNetworkEnabled('send');
       validateDeriveParams(params);
       this.validateAmount(amount);
       this.validateAddress(to);
@@ -127,7 +231,7 @@ export abstract class BaseAdapter extends EventEmitter implements IChainAdapter
       const from = await this.deriveAddress(params);
       
       // Check balance before sending
-      const balance = await this.getBalanceForAddress(from);
+      const balance = await this.readBalance(from);
       if (balance.lt(amount)) {
         throw ErrorFactory.insufficientBalance(
           this.chainName,
@@ -137,7 +241,7 @@ export abstract class BaseAdapter extends EventEmitter implements IChainAdapter
       }
       
       const response = await withRetry(
-        () => this.sendTransaction(privateKey, from, to, amount, config),
+        () => this.withCircuitBreaker(() => this.sendTransaction(privateKey, from, to, amount, config)),
         { maxRetries: this.adapterConfig.maxRetries }
       );
       
@@ -162,10 +266,179 @@ export abstract class BaseAdapter extends EventEmitter implements IChainAdapter
     }
   }
 
-  // Optional method with default implementation
+  // One transaction paying several recipients; the response carries the fee for the whole batch
+  async sendMany(
+    params: DeriveParams,
+    outputs: PaymentOutput[],
+    config?: TransactionConfig
+  ): Promise<TransactionResponse> {
+    try {
+      this.assertNetworkEnabled('sendMany');
+      validateDeriveParams(params);
+      if (!Array.isArray(outputs) || outputs.length === 0) {
+        throw ErrorFactory.invalidParams('At least one output is required', { outputs });
+      }
+      outputs.forEach((output, index) => {
+        try {
+          this.validateBatchAmount(output.amount, config);
+          this.validateAddress(output.to);
+        } catch (error) {
+          throw ErrorFactory.invalidParams(`Invalid output ${index}: ${(error as Error).message}`, {
+            index,
+            to: output.to,
+            amount: output.amount?.toString()
+          });
+        }
+      });
+
+      this.metrics?.increment('adapter.send_transaction', { chain: this.chainName });
+
+      const privateKey = this.derivePrivateKey(params);
+      const from = await this.deriveAddress(params);
+
+      const total = outputs.reduce((sum, output) => sum.plus(output.amount), new Big(0));
+      const balance = await this.getBatchBalance(from, config);
+      if (balance.lt(total)) {
+        throw ErrorFactory.insufficientBalance(this.chainName, total.toString(), balance.toString());
+      }
+
+      const response = await withRetry(
+        () => this.withCircuitBreaker(() => this.sendManyTransaction(privateKey, from, outputs, config)),
+        { maxRetries: this.adapterConfig.maxRetries }
+      );
+
+      this.logger?.info('Batch transaction sent', {
+        chain: this.chainName,
+        from,
+        outputs: outputs.length,
+        txHash: response.txHash
+      });
+
+      return response;
+    } catch (error) {
+      this.logger?.error('Failed to send batch transaction', error as Error, {
+        chain: this.chainName,
+        params,
+        outputs: outputs?.length
+      });
+      this.metrics?.increment('adapter.send_transaction.error', { chain: this.chainName });
+      throw error;
+    }
+  }
+
+  // Batch amounts are in base units of the native asset, as in send, so fractions are rejected
+  protected validateBatchAmount(amount: Big, _config?: TransactionConfig): void {
+    this.validateAmount(amount);
+    if (!amount.eq(amount.round(0, Big.roundDown))) {
+      throw ErrorFactory.validationError(
+        ErrorCode.INVALID_AMOUNT,
+        'Amount must be a whole number of base units',
+        { amount: amount.toString() }
+      );
+    }
+  }
+
+  // What a batch pays from, in the unit of its outputs
+  protected async getBatchBalance(from: string, _config?: TransactionConfig): Promise<Big> {
+    return this.readBalance(from);
+  }
+
+  // Three-phase send: build online, sign offline, broadcast online
+  async buildUnsigned(
+    params: DeriveParams,
+    to: string,
+    amount: Big,
+    config?: TransactionConfig
+  ): Promise<UnsignedTransaction> {
+    try {
+      this.assertNetworkEnabled('buildUnsigned');
+      validateDeriveParams(params);
+      this.validateAmount(amount);
+      this.validateAddress(to);
+
+      const from = await this.deriveAddress(params);
+      const unsigned = await withRetry(
+        () => this.withCircuitBreaker(() => this.buildUnsignedTransaction(from, to, amount, config)),
+        { maxRetries: this.adapterConfig.maxRetries }
+      );
+
+      this.logger?.debug('Unsigned transaction built', { chain: this.chainName, from, to, amount: amount.toString() });
+      return unsigned;
+    } catch (error) {
+      this.logger?.error('Failed to build unsigned transaction', error as Error, {
+        chain: this.chainName,
+        params,
+        to,
+        amount: amount.toString()
+      });
+      throw error;
+    }
+  }
+
+  async signUnsigned(params: DeriveParams, unsigned: UnsignedTransaction): Promise<SignedTransaction> {
+    validateDeriveParams(params);
+    this.assertChainMatches(unsigned.chain);
+
+    const privateKey = this.derivePrivateKey(params);
+    const from = await this.deriveAddressFromPrivateKey(privateKey);
+    if (from !== unsigned.from) {
+      throw ErrorFactory.invalidParams(
+        `Unsigned transaction is from ${unsigned.from}, but params derive ${from}`,
+        params
+      );
+    }
+
+    const signed = await this.signUnsignedTransaction(privateKey, unsigned);
+    this.logger?.debug('Transaction signed', { chain: this.chainName, from, txHash: signed.txHash });
+    return signed;
+  }
+
+  async broadcast(signed: SignedTransaction): Promise<TransactionResponse> {
+    try {
+      this.assertNetworkEnabled('broadcast');
+      this.assertChainMatches(signed.chain);
+      this.metrics?.increment('adapter.send_transaction', { chain: this.chainName });
+
+      const response = await withRetry(
+        () => this.withCircuitBreaker(() => this.broadcastSignedTransaction(signed)),
+        { maxRetries: this.adapterConfig.maxRetries }
+      );
+
+      this.logger?.info('Transaction broadcast', { chain: this.chainName, txHash: response.txHash });
+      return response;
+    } catch (error) {
+      this.logger?.error('Failed to broadcast transaction', error as Error, {
+        chain: this.chainName,
+        txHash: signed.txHash
+      });
+      this.metrics?.increment('adapter.send_transaction.error', { chain: this.chainName });
+      throw error;
+    }
+  }
+
+  /**
+   * Watches an address for incoming transactions. Adapters that can scan whole blocks share one
+   * AddressWatcher across all subscribed addresses, and an address may be subscribed several
+   * times; the others poll each address on its own and allow one subscription per address.
+   * Where the last poll got and which hashes were delivered are kept in the subscription store,
+   * so after a restart the first poll resumes there and backfills whatever arrived in between
+   * instead of replaying or skipping it.
+   *
+   * On adapters that can look transactions up by hash, each transaction is delivered again as
+   * its status changes (pending → confirmed → final, or reorged / dropped) until it has
+   * `confirmations` confirmations. Every delivery is also emitted as a 'transaction' event.
+   */
   async subscribe(address: string, callback: SubscriptionCallback): Promise<Unsubscribe> {
+    this.assertNetworkEnabled('subscribe');
     this.validateAddress(address);
-    
+
+    const watcher = this.addressWatcher;
+    if (watcher) {
+      return watcher.watch(address, callback);
+    }
+
+    const store = this.subscriptionStore;
+    const state: SubscriptionState = (await store.load(this.chainName, address)) ?? { seen: [] };
     if (this.subscriptions.has(address)) {
       throw new ValidationError(
         ErrorCode.INVALID_PARAMS,
@@ -173,25 +446,62 @@ export abstract class BaseAdapter extends EventEmitter implements IChainAdapter
       );
     }
 
-    const seen = new Set<string>();
-    const interval = setInterval(async () => {
+    const seen = new Set(state.seen);
+    const tracker = this.getBlockHeight && this.getTransactionLocation
+      ? new ConfirmationTracker({
+          getBlockHeight: () => this.withCircuitBreaker(() => this.getBlockHeight!()),
+          getTransactionLocation: txHash => this.withCircuitBreaker(() => this.getTransactionLocation!(txHash))
+        }, this.adapterConfig.confirmations!, state.tracked)
+      : undefined;
+    const save = () => store.save(this.chainName, address, {
+      lastBlock: state.lastBlock,
+      cursor: state.cursor,
+      seen: [...seen].slice(-MAX_SEEN_HASHES),
+      tracked: tracker?.tracked
+    });
+
+    let polling = false;
+    const poll = async () => {
+      // A backfill can outlast the polling interval
+      if (polling) {
+        return;
+      }
+      polling = true;
       try {
-        const transactions = await this.getIncomingTransactions(address, seen);
-        for (const tx of transactions) {
-          if (!seen.has(tx.txHash)) {
-            seen.add(tx.txHash);
-            await callback(tx);
+        const page = await this.withCircuitBreaker(() => this.getIncomingTransactions(address, seen, state));
+        let deliveries = page.transactions;
+        if (tracker) {
+          deliveries.filter(tx => !seen.has(tx.txHash)).forEach(tx => tracker.add(tx));
+          deliveries = await tracker.refresh();
+        }
+
+        for (const tx of deliveries) {
+          if (!tracker && seen.has(tx.txHash)) {
+            continue;
           }
+          await callback(tx);
+          tracker?.apply(tx);
+          seen.add(tx.txHash);
+          this.emitTransaction(tx);
+          await save();
         }
+        // Only advance once the whole page was delivered
+        state.lastBlock = page.lastBlock ?? state.lastBlock;
+        state.cursor = page.cursor ?? state.cursor;
+        await save();
       } catch (error) {
         this.logger?.error('Subscription poll error', error as Error, { 
           chain: this.chainName, 
           address 
         });
+      } finally {
+        polling = false;
       }
-    }, this.adapterConfig.pollingInterval);
+    };
+    const interval = setInterval(poll, this.adapterConfig.pollingInterval);
 
-    this.subscriptions.set(address, { interval, seen });
+    this.subscriptions.set(address, { interval, seen, poll });
+    void poll();
 
     return () => {
       const sub = this.subscriptions.get(address);
@@ -202,10 +512,282 @@ export abstract class BaseAdapter extends EventEmitter implements IChainAdapter
     };
   }
 
+  private get subscriptionStore(): SubscriptionStateStore {
+    this._subscriptionStore ??= this.adapterConfig.subscriptionStore ?? new MemorySubscriptionStateStore();
+    return this._subscriptionStore;
+  }
+
+  /**
+   * The adapter's shared watcher, or undefined when the adapter can't scan blocks. Calls go
+   * through the adapter's circuit breaker.
+   */
+  protected get addressWatcher(): AddressWatcher | undefined {
+    if (this._addressWatcher === undefined) {
+      const { getBlockHeight, getBlockHash, scanBlock, scanMempool, normalizeAddress } = this;
+      this._addressWatcher = getBlockHeight && getBlockHash && scanBlock
+        ? new AddressWatcher({
+            getBlockHeight: () => this.withCircuitBreaker(() => getBlockHeight.call(this)),
+            getBlockHash: height => this.withCircuitBreaker(() => getBlockHash.call(this, height)),
+            scanBlock: (height, addresses) => this.withCircuitBreaker(() => scanBlock.call(this, height, addresses)),
+            scanMempool: scanMempool && (addresses => this.withCircuitBreaker(() => scanMempool.call(this, addresses))),
+            normalizeAddress: normalizeAddress?.bind(this)
+          }, {
+            chain: this.chainName,
+            store: this.subscriptionStore,
+            pollingInterval: this.adapterConfig.pollingInterval,
+            mempool: this.adapterConfig.watchMempool,
+            confirmations: this.getTransactionLocation && {
+              source: {
+                getBlockHeight: () => this.withCircuitBreaker(() => getBlockHeight.call(this)),
+                getTransactionLocation: txHash => this.withCircuitBreaker(() => this.getTransactionLocation!(txHash))
+              },
+              required: this.adapterConfig.confirmations!
+            },
+            onDelivery: tx => this.emitTransaction(tx),
+            logger: this.logger
+          })
+        : null;
+    }
+    return this._addressWatcher ?? undefined;
+  }
+
+  private emitTransaction(tx: IncomingTransaction): void {
+    this.emit('transaction', {
+      txHash: tx.txHash,
+      from: tx.from,
+      to: tx.to,
+      amount: tx.amount.toString(),
+      status: tx.status ?? (tx.blockNumber === undefined ? 'pending' : 'confirmed'),
+      confirmations: tx.confirmations,
+      blockNumber: tx.blockNumber,
+      blockHash: tx.blockHash
+    });
+  }
+
   // Helper methods
+  private async fetchBalance(address: string): Promise<Big> {
+    // Quorum reads retry on their own
+    const balance = this.adapterConfig.quorum
+      ? await this.readBalance(address)
+      : await withRetry(() => this.readBalance(address), { maxRetries: this.adapterConfig.maxRetries });
+    
+    this.logger?.debug('Balance retrieved', { chain: this.chainName, address, balance: balance.toString() });
+    return balance;
+  }
+
+  // The balance send checks against, through quorum when configured
+  protected readBalance(address: string): Promise<Big> {
+    if (this.adapterConfig.quorum) {
+      return this.quorumRead('getBalance', endpoint => this.getBalanceAt(endpoint, address), balance => balance.toString());
+    }
+    return this.withCircuitBreaker(() => this.getBalanceForAddress(address));
+  }
+
+  /**
+   * Fans a read out to the configured quorum of endpoints, retrying as configured. Disagreement
+   * that outlasts the retries is emitted once as an 'error' event carrying every endpoint's
+   * answer, then thrown.
+   */
+  protected async quorumRead<T>(
+    method: string,
+    operation: (endpoint: RpcEndpoint) => Promise<QuorumResponse<T>>,
+    key?: (value: T) => string
+  ): Promise<T> {
+    try {
+      return await withRetry(
+        () => this.rpcRouter.executeQuorum(
+          method,
+          endpoint => this.callEndpoint(endpoint, operation),
+          this.adapterConfig.quorum!,
+          key
+        ),
+        { maxRetries: this.adapterConfig.maxRetries }
+      );
+    } catch (error) {
+      if ((error as DrxaError).code === ErrorCode.QUORUM_NOT_REACHED) {
+        this.logger?.warn('Endpoints disagree', { chain: this.chainName, ...(error as DrxaError).context });
+        // Unhandled 'error' events throw, so only emit when someone listens (the registry forwards them to the event bus)
+        if (this.listenerCount('error') > 0) {
+          this.emit('error', error, (error as DrxaError).context);
+        }
+      }
+      throw error;
+    }
+  }
+
+  private assertChainMatches(chain: SupportedChain): void {
+    if (chain !== this.chainName) {
+      throw ErrorFactory.invalidParams(
+        `Transaction is for chain '${chain}', not '${this.chainName}'`,
+        { chain }
+      );
+    }
+  }
+
+  /**
+   * Runs an RPC call through the circuit breaker for `key`: the whole chain by default, or a
+   * single endpoint URL. Once the circuit opens, calls fail fast with CIRCUIT_OPEN until the
+   * cooldown passes; transitions are emitted as 'status' events.
+   */
+  protected withCircuitBreaker<T>(operation: () => Promise<T>, key: string = this.chainName): Promise<T> {
+    let breaker = this.circuitBreakers.get(key);
+    if (!breaker) {
+      const name = key === this.chainName ? key : `${this.chainName}:${key}`;
+      breaker = new CircuitBreaker({
+        ...this.adapterConfig.circuitBreaker,
+        name,
+        onStateChange: (state, previous) => {
+          this.logger?.warn('Circuit breaker state changed', { chain: this.chainName, circuit: name, state, previous });
+          this.emit('status', CIRCUIT_STATUS[state], `Circuit breaker for ${name} is ${state}`);
+        }
+      });
+      this.circuitBreakers.set(key, breaker);
+    }
+    return breaker.execute(operation);
+  }
+
+  // Routes over every configured HTTP endpoint, created on first use
+  protected get rpcRouter(): RpcRouter {
+    if (!this._rpcRouter) {
+      this.assertNetworkEnabled('rpcRouter');
+      this._rpcRouter = new RpcRouter(this.config.endpoints.http, {
+        name: this.chainName,
+        healthCheck: this.checkEndpointHealth && (endpoint => this.checkEndpointHealth!(endpoint)),
+        logger: this.logger
+      });
+    }
+    return this._rpcRouter;
+  }
+
+  /**
+   * Runs an RPC call on the best endpoint, failing over to the next one on network errors and
+   * rate limits. Each endpoint has its own circuit breaker and rate limiter; pass `paced = false`
+   * when the operation already waits for the limiter itself, e.g. through a connection pool.
+   */
+  protected withRpc<T>(operation: (endpoint: RpcEndpoint) => Promise<T>, paced = true): Promise<T> {
+    return this.rpcRouter.execute(endpoint => this.callEndpoint(endpoint, operation, paced));
+  }
+
+  /**
+   * Broadcasts a transaction that is already signed, retrying with the same signed bytes. The
+   * error thrown once retries run out is not retryable, so send's own retries don't build and
+   * sign a second transaction while this one may still land.
+   */
+  protected async rebroadcast<T>(txHash: string, broadcast: () => Promise<T>): Promise<T> {
+    try {
+      return await withRetry(broadcast, { maxRetries: this.adapterConfig.maxRetries });
+    } catch (error) {
+      if (!(error instanceof DrxaError) || !error.isRetryable) {
+        throw error;
+      }
+      throw new TransactionError(
+        ErrorCode.TRANSACTION_FAILED,
+        `Broadcast failed; transaction ${txHash} may still be mined, check it before sending again`,
+        { chain: this.chainName, txHash, originalError: error }
+      );
+    }
+  }
+
+  // A rate-limited endpoint is paused for everyone sharing it and the call fails with RATE_LIMIT_ERROR
+  private callEndpoint<T>(endpoint: RpcEndpoint, operation: (endpoint: RpcEndpoint) => Promise<T>, paced = true): Promise<T> {
+    return this.withCircuitBreaker(async () => {
+      try {
+        return paced
+          ? await rateLimiterFor(endpoint).schedule(() => operation(endpoint))
+          : await operation(endpoint);
+      } catch (error) {
+        const rateLimited = rateLimitErrorFrom(error, { chain: this.chainName, endpoint: endpoint.url });
+        if (!rateLimited) {
+          throw error;
+        }
+        pauseAfterRateLimit(endpoint, rateLimited);
+        this.logger?.warn('RPC endpoint rate limited', {
+          chain: this.chainName,
+          endpoint: endpoint.url,
+          retryAfterMs: rateLimited.context.retryAfterMs
+        });
+        throw rateLimited;
+      }
+    }, endpoint.url);
+  }
+
+  // Single-endpoint reads for quorum mode, tagged with the height they were answered at
+  protected async getBalanceAt(endpoint: RpcEndpoint, address: string): Promise<QuorumResponse<Big>> {
+    throw ErrorFactory.methodNotImplemented(this.chainName, 'getBalanceAt');
+  }
+
+  protected async getTransactionReceiptAt(
+    endpoint: RpcEndpoint,
+    txHash: string
+  ): Promise<QuorumResponse<TransactionReceipt | null>> {
+    throw ErrorFactory.methodNotImplemented(this.chainName, 'getTransactionReceipt');
+  }
+
+  // Cheap call used to health-check an endpoint, such as fetching the chain tip
+  protected checkEndpointHealth?(endpoint: RpcEndpoint): Promise<unknown>;
+
+  // Batched payout hook; outputs are already validated
+  protected async sendManyTransaction(
+    privateKey: Uint8Array,
+    from: string,
+    outputs: PaymentOutput[],
+    config?: TransactionConfig
+  ): Promise<TransactionResponse> {
+    throw ErrorFactory.methodNotImplemented(this.chainName, 'sendMany');
+  }
+
+  // Offline signing hooks; adapters that support the three-phase API override all three.
+  // signUnsignedTransaction must not touch the network.
+  protected async buildUnsignedTransaction(
+    from: string,
+    to: string,
+    amount: Big,
+    config?: TransactionConfig
+  ): Promise<UnsignedTransaction> {
+    throw ErrorFactory.methodNotImplemented(this.chainName, 'buildUnsigned');
+  }
+
+  protected async signUnsignedTransaction(
+    privateKey: Uint8Array,
+    unsigned: UnsignedTransaction
+  ): Promise<SignedTransaction> {
+    throw ErrorFactory.methodNotImplemented(this.chainName, 'signUnsigned');
+  }
+
+  protected async broadcastSignedTransaction(signed: SignedTransaction): Promise<TransactionResponse> {
+    throw ErrorFactory.methodNotImplemented(this.chainName, 'broadcast');
+  }
+
+  // Hex-encoded public key; adapters override to support watch-only manifests
+  protected async publicKeyFromPrivateKey(privateKey: Uint8Array): Promise<string> {
+    throw ErrorFactory.methodNotImplemented(this.chainName, 'derivePublicKey');
+  }
+
   protected derivePrivateKey(params: DeriveParams): Uint8Array {
-    const entropy = deriveEntropy(this.masterSeed, params);
-    return entropy.slice(0, 32);
+    if (this.isWatchOnly) {
+      throw ErrorFactory.keysUnavailable(this.chainName, 'derivePrivateKey');
+    }
+    this._derivationStrategy ??= this.adapterConfig.derivationStrategy
+      ?? new HmacDerivationStrategy(this.masterSeed, this.adapterConfig.derivation);
+    return this._derivationStrategy.derivePrivateKey(params, this.standardDerivationPath?.bind(this));
+  }
+
+  // Where standard wallets keep this chain's keys, for strategies that derive along standard paths
+  protected standardDerivationPath?(account: number, index: number): DerivationPath;
+
+  protected get isDeriveOnly(): boolean {
+    return this.adapterConfig.mode === 'derive-only';
+  }
+
+  protected get isWatchOnly(): boolean {
+    return this.adapterConfig.mode === 'watch-only';
+  }
+
+  // Guard for anything that would open a network client or hit an RPC endpoint
+  protected assertNetworkEnabled(method: string): void {
+    if (this.isDeriveOnly) {
+      throw ErrorFactory.networkDisabled(this.chainName, method);
+    }
   }
 
   protected validateAddress(address: string): void {
@@ -229,16 +811,43 @@ export abstract class BaseAdapter extends EventEmitter implements IChainAdapter
     }
   }
 
-  // Method to be overridden by adapters that support subscriptions
+  /**
+   * Method to be overridden by adapters that support subscriptions. `since` is where the
+   * previous poll left off (empty on the first poll); return the transactions found after it
+   * and the block or cursor the scan reached.
+   */
   protected async getIncomingTransactions(
     address: string,
-    seen: Set<string>
-  ): Promise<IncomingTransaction[]> {
+    seen: Set<string>,
+    since: SubscriptionState
+  ): Promise<IncomingTransactionsPage> {
     throw ErrorFactory.methodNotImplemented(this.chainName, 'getIncomingTransactions');
   }
 
+  /**
+   * Adapters that can tell a used address from a fresh one should override this: the default
+   * only sees the current balance, so an address that was emptied counts as unused.
+   */
+  protected async getAddressActivity(address: string): Promise<boolean> {
+    return (await this.getBalanceForAddress(address)).gt(0);
+  }
+
+  // Confirmation tracking for subscriptions; adapters implementing both get status updates
+  protected getBlockHeight?(): Promise<number>;
+  protected getTransactionLocation?(txHash: string): Promise<TransactionLocation | null>;
+
+  // Block scanning; adapters implementing these and getBlockHeight subscribe through an AddressWatcher
+  protected getBlockHash?(height: number): Promise<string>;
+  protected scanBlock?(height: number, addresses: ReadonlySet<string>): Promise<ScannedBlock>;
+  protected scanMempool?(addresses: ReadonlySet<string>): Promise<IncomingTransaction[]>;
+  // The form addresses are matched in, e.g. lowercase for EVM
+  protected normalizeAddress?(address: string): string;
+
   // Lifecycle methods
   async initialize(): Promise<void> {
+    if (!this.isDeriveOnly) {
+      this.rpcRouter.start();
+    }
     this.logger?.info('Adapter initialized', { chain: this.chainName });
   }
 
@@ -249,6 +858,8 @@ export abstract class BaseAdapter extends EventEmitter implements IChainAdapter
       this.logger?.debug('Subscription cleaned up', { chain: this.chainName, address });
     }
     this.subscriptions.clear();
+    this._addressWatcher?.stop();
+    this._rpcRouter?.stop();
     
     this.logger?.info('Adapter shutdown', { chain: this.chainName });
   }
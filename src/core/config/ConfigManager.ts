@@ -1,4 +1,4 @@
-import { ChainConfig, SupportedChain, isValidChain } from "../../types/index.js";
+import { ChainConfig, NetworkType, SupportedChain, isValidChain } from "../../types/index.js";
 import { ConfigurationError, ErrorCode } from "../errors/index.js";
 
 export interface ConfigSchema {
@@ -11,6 +11,15 @@ export interface ConfigSchema {
   };
 }
 
+// Esplora-compatible endpoints for each Bitcoin network, with a second provider to fail over to;
+// regtest has no public instance
+const BITCOIN_ESPLORA: Record<NetworkType, { url: string; apiUrl: string; fallbackApiUrl: string } | undefined> = {
+  mainnet: { url: 'https://blockstream.info', apiUrl: 'https://blockstream.info/api', fallbackApiUrl: 'https://mempool.space/api' },
+  testnet: { url: 'https://blockstream.info/testnet', apiUrl: 'https://blockstream.info/testnet/api', fallbackApiUrl: 'https://mempool.space/testnet/api' },
+  signet: { url: 'https://mempool.space/signet', apiUrl: 'https://mempool.space/signet/api', fallbackApiUrl: 'https://blockstream.info/signet/api' },
+  regtest: undefined
+};
+
 export class ConfigManager {
   private static instance: ConfigManager;
   private configs = new Map<SupportedChain, ChainConfig>();
@@ -51,6 +60,45 @@ export class ConfigManager {
     return this.applyOverrides(chain, config);
   }
 
+  // Build the Bitcoin configuration for a network, pointing at an Esplora-compatible API
+  bitcoinNetworkConfig(network: NetworkType, apiUrl?: string): ChainConfig {
+    const esplora = apiUrl ? { url: apiUrl, apiUrl, fallbackApiUrl: undefined } : BITCOIN_ESPLORA[network];
+    if (!esplora) {
+      throw new ConfigurationError(
+        ErrorCode.MISSING_CONFIG,
+        `An Esplora API URL is required for Bitcoin ${network}`
+      );
+    }
+
+    return {
+      chainId: `bitcoin-${network}`,
+      name: network === 'mainnet' ? 'Bitcoin' : `Bitcoin ${network[0].toUpperCase()}${network.slice(1)}`,
+      symbol: network === 'mainnet' ? 'BTC' : 'tBTC',
+      decimals: 8,
+      category: 'utxo',
+      network,
+      endpoints: {
+        http: [esplora.apiUrl, esplora.fallbackApiUrl]
+          .filter((url): url is string => url !== undefined)
+          .map(url => ({
+            url,
+            timeout: 30000,
+            retryCount: 3,
+            retryDelay: 1000
+          }))
+      },
+      explorer: { url: esplora.url, apiUrl: esplora.apiUrl },
+      feeConfig: {
+        type: 'dynamic'
+      }
+    };
+  }
+
+  // Switch the Bitcoin adapter to another network; applies to adapters created afterwards
+  setBitcoinNetwork(network: NetworkType, apiUrl?: string): void {
+    this.setChainConfig('bitcoin', this.bitcoinNetworkConfig(network, apiUrl));
+  }
+
   // Set runtime override
   setOverride(key: string, value: any): void {
     this.overrides.set(key, value);
@@ -159,27 +207,7 @@ export class ConfigManager {
     });
 
     // Bitcoin mainnet
-    this.setChainConfig('bitcoin', {
-      name: 'Bitcoin',
-      symbol: 'BTC',
-      decimals: 8,
-      category: 'utxo',
-      endpoints: {
-        http: {
-          url: 'https://blockstream.info/api',
-          timeout: 30000,
-          retryCount: 3,
-          retryDelay: 1000
-        }
-      },
-      explorer: {
-        url: 'https://blockstream.info',
-        apiUrl: 'https://blockstream.info/api'
-      },
-      feeConfig: {
-        type: 'dynamic'
-      }
-    });
+    this.setChainConfig('bitcoin', this.bitcoinNetworkConfig('mainnet'));
 
     // Solana mainnet
     this.setChainConfig('solana', {
@@ -460,6 +488,13 @@ export class ConfigManager {
       );
     }
 
+    if (config.network && !['mainnet', 'testnet', 'signet', 'regtest'].includes(config.network)) {
+      throw new ConfigurationError(
+        ErrorCode.INVALID_CONFIG,
+        'Chain network must be one of: mainnet, testnet, signet, regtest'
+      );
+    }
+
     if (!config.endpoints?.http) {
       throw new ConfigurationError(
         ErrorCode.INVALID_CONFIG,
@@ -0,0 +1,137 @@
+import { Buffer } from "buffer";
+import { createHmac } from "crypto";
+import { HDKey } from "@scure/bip32";
+import { mnemonicToSeedSync, validateMnemonic } from "@scure/bip39";
+import { wordlist } from "@scure/bip39/wordlists/english";
+import { DeriveParams } from "../../types/index.js";
+import { DerivationVersion, deriveEntropy } from "../../utils/derivation.js";
+import { ConfigurationError, ErrorCode, ErrorFactory } from "../errors/index.js";
+
+// A BIP-32 style path and the curve it is derived on
+export interface DerivationPath {
+  curve: 'secp256k1' | 'ed25519';
+  path: string;
+}
+
+// An adapter's standard path for an account and address index
+export type StandardPath = (account: number, index: number) => DerivationPath;
+
+/**
+ * Turns derive params into a 32-byte private key. `standardPath` is the adapter's standard
+ * wallet path, for strategies that follow one; adapters without one pass undefined.
+ */
+export interface DerivationStrategy {
+  derivePrivateKey(params: DeriveParams, standardPath?: StandardPath): Uint8Array;
+}
+
+const secp256k1 = (path: string): DerivationPath => ({ curve: 'secp256k1', path });
+const ed25519 = (path: string): DerivationPath => ({ curve: 'ed25519', path });
+
+/**
+ * Standard paths of common wallets for account 0. Ed25519 wallets put the address index at
+ * the account level (Phantom, Petra, Sui Wallet, NEAR Wallet), so other accounts go one level
+ * below it; those paths are only reproducible with drxa or a wallet that takes custom paths.
+ */
+export const STANDARD_PATHS = {
+  bitcoin: (purpose: number, coinType: number): StandardPath =>
+    (account, index) => secp256k1(`m/${purpose}'/${coinType}'/${account}'/0/${index}`),
+  evm: (account: number, index: number) => secp256k1(`m/44'/60'/${account}'/0/${index}`),
+  solana: (account: number, index: number) => ed25519(`m/44'/501'/${index}'/${account}'`),
+  aptos: (account: number, index: number) => ed25519(`m/44'/637'/${index}'/${account}'/0'`),
+  sui: (account: number, index: number) => ed25519(`m/44'/784'/${index}'/${account}'/0'`),
+  tron: (account: number, index: number) => secp256k1(`m/44'/195'/${account}'/0/${index}`),
+  near: (account: number, index: number) =>
+    ed25519(account === 0 ? `m/44'/397'/${index}'` : `m/44'/397'/${index}'/${account}'`)
+};
+
+// The drxa scheme: HMAC-SHA512 of the master seed over the versioned params encoding
+export class HmacDerivationStrategy implements DerivationStrategy {
+  constructor(private readonly masterSeed: Uint8Array, private readonly version?: DerivationVersion) {}
+
+  derivePrivateKey(params: DeriveParams): Uint8Array {
+    return deriveEntropy(this.masterSeed, params, this.version).slice(0, 32);
+  }
+}
+
+// The 64-byte BIP-39 seed of an English mnemonic
+export function mnemonicToSeed(mnemonic: string, passphrase = ''): Uint8Array {
+  const normalized = mnemonic.trim().split(/\s+/).join(' ');
+  if (!validateMnemonic(normalized, wordlist)) {
+    throw new ConfigurationError(ErrorCode.INVALID_CONFIG, 'Invalid BIP-39 mnemonic');
+  }
+  return mnemonicToSeedSync(normalized, passphrase);
+}
+
+export interface Bip32DerivationOptions {
+  // Account and address index of the params; by default account 0 and the params' numeric index
+  locate?: (params: DeriveParams) => { account: number; index: number };
+  // Without locate, the only scope and userId keys are derived for; others are rejected
+  owner?: Pick<DeriveParams, 'scope' | 'userId'>;
+}
+
+const HARDENED_OFFSET = 0x80000000;
+
+/**
+ * Derives keys like standard wallets do: BIP-32 on secp256k1 and SLIP-10 on ed25519, along the
+ * adapter's standard path, so addresses can be imported into (or recovered from) other wallets.
+ * A mnemonic is one wallet, so every scope and userId share it; use `locate` to give users
+ * their own accounts or index ranges, or `owner` to refuse params of anyone else.
+ */
+export class Bip32DerivationStrategy implements DerivationStrategy {
+  private readonly secp256k1Root: HDKey;
+
+  // `seed` is a BIP-39 seed; see fromMnemonic
+  constructor(private readonly seed: Uint8Array, private readonly options: Bip32DerivationOptions = {}) {
+    this.secp256k1Root = HDKey.fromMasterSeed(seed);
+  }
+
+  static fromMnemonic(mnemonic: string, passphrase = '', options?: Bip32DerivationOptions): Bip32DerivationStrategy {
+    return new Bip32DerivationStrategy(mnemonicToSeed(mnemonic, passphrase), options);
+  }
+
+  derivePrivateKey(params: DeriveParams, standardPath?: StandardPath): Uint8Array {
+    if (!standardPath) {
+      throw ErrorFactory.methodNotImplemented(params.chain, 'standard path derivation');
+    }
+    const { owner } = this.options;
+    if (!this.options.locate && owner && (params.scope !== owner.scope || params.userId !== owner.userId)) {
+      throw ErrorFactory.invalidParams('This mnemonic wallet only derives keys for its owner', {
+        scope: params.scope,
+        userId: params.userId
+      });
+    }
+    const { account, index } = this.options.locate?.(params)
+      ?? { account: 0, index: /^\d+$/.test(params.index) ? Number(params.index) : NaN };
+    if (![account, index].every(n => Number.isInteger(n) && n >= 0 && n < HARDENED_OFFSET)) {
+      throw ErrorFactory.invalidParams('Standard paths need a numeric index and account below 2^31', params);
+    }
+
+    const { curve, path } = standardPath(account, index);
+    return curve === 'ed25519' ? this.deriveEd25519(path) : this.deriveSecp256k1(path);
+  }
+
+  private deriveSecp256k1(path: string): Uint8Array {
+    const key = this.secp256k1Root.derive(path).privateKey;
+    if (!key) {
+      throw ErrorFactory.invalidParams('Path has no private key', { path });
+    }
+    return key;
+  }
+
+  // SLIP-10: ed25519 only has hardened children
+  private deriveEd25519(path: string): Uint8Array {
+    const segments = path.split('/');
+    if (segments[0] !== 'm' || !segments.slice(1).every(segment => /^\d+'$/.test(segment))) {
+      throw ErrorFactory.invalidParams('SLIP-10 ed25519 paths must be fully hardened', { path });
+    }
+
+    let digest = createHmac('sha512', 'ed25519 seed').update(this.seed).digest();
+    for (const segment of segments.slice(1)) {
+      const data = Buffer.alloc(37);
+      digest.copy(data, 1, 0, 32);
+      data.writeUInt32BE(parseInt(segment, 10) + HARDENED_OFFSET, 33);
+      digest = createHmac('sha512', digest.subarray(32)).update(data).digest();
+    }
+    return new Uint8Array(digest.subarray(0, 32));
+  }
+}
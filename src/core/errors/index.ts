@@ -4,6 +4,9 @@ export enum ErrorCode {
   RPC_ERROR = 'RPC_ERROR',
   TIMEOUT_ERROR = 'TIMEOUT_ERROR',
   RATE_LIMIT_ERROR = 'RATE_LIMIT_ERROR',
+  NETWORK_DISABLED = 'NETWORK_DISABLED',
+  CIRCUIT_OPEN = 'CIRCUIT_OPEN',
+  QUORUM_NOT_REACHED = 'QUORUM_NOT_REACHED',
   
   // Validation errors
   INVALID_PARAMS = 'INVALID_PARAMS',
@@ -20,6 +23,7 @@ export enum ErrorCode {
   INSUFFICIENT_BALANCE = 'INSUFFICIENT_BALANCE',
   TRANSACTION_FAILED = 'TRANSACTION_FAILED',
   SIGNATURE_FAILED = 'SIGNATURE_FAILED',
+  KEYS_UNAVAILABLE = 'KEYS_UNAVAILABLE',
   
   // Configuration errors
   INVALID_CONFIG = 'INVALID_CONFIG',
@@ -137,6 +141,45 @@ export class ErrorFactory {
     );
   }
 
+  static networkDisabled(chain: string, method: string): AdapterError {
+    return new AdapterError(
+      ErrorCode.NETWORK_DISABLED,
+      `Method '${method}' requires network access, which is disabled in derive-only mode for chain '${chain}'`,
+      { chain, method }
+    );
+  }
+
+  static keysUnavailable(chain: string, method: string): AdapterError {
+    return new AdapterError(
+      ErrorCode.KEYS_UNAVAILABLE,
+      `Method '${method}' requires the master seed, which is not available in watch-only mode for chain '${chain}'`,
+      { chain, method }
+    );
+  }
+
+  static circuitOpen(circuit: string, retryAfterMs: number): DrxaError {
+    return new DrxaError(
+      ErrorCode.CIRCUIT_OPEN,
+      `Circuit breaker is OPEN for '${circuit}', retry in ${retryAfterMs}ms`,
+      { circuit, retryAfterMs }
+    );
+  }
+
+  // Retryable after `retryAfterMs` when the endpoint sent Retry-After
+  static rateLimited(message: string, context: ErrorContext = {}): DrxaError {
+    return new DrxaError(ErrorCode.RATE_LIMIT_ERROR, message, context, true);
+  }
+
+  // Retryable: lagging endpoints usually catch up
+  static quorumNotReached(chain: string, method: string, agreeing: number, threshold: number, responses: unknown[]): DrxaError {
+    return new DrxaError(
+      ErrorCode.QUORUM_NOT_REACHED,
+      `Only ${agreeing} of ${threshold} required endpoints agreed on '${method}' for chain '${chain}'`,
+      { chain, method, agreeing, threshold, responses },
+      true
+    );
+  }
+
   static invalidParams(message: string, params: unknown): ValidationError {
     return new ValidationError(
       ErrorCode.INVALID_PARAMS,
@@ -188,11 +231,159 @@ export async function withRetry<T>(
         throw lastError;
       }
 
-      // Wait before retrying with exponential backoff
-      await new Promise(resolve => setTimeout(resolve, delay));
+      // Wait before retrying with exponential backoff, or as long as a rate-limiting endpoint asked
+      const retryAfterMs = lastError instanceof DrxaError && lastError.code === ErrorCode.RATE_LIMIT_ERROR
+        ? lastError.context.retryAfterMs
+        : undefined;
+      await new Promise(resolve => setTimeout(resolve, typeof retryAfterMs === 'number' ? Math.max(delay, retryAfterMs) : delay));
       delay = Math.min(delay * backoffFactor, maxDelay);
     }
   }
 
   throw lastError!;
-}
\ No newline at end of file
+}
+
+// Circuit breaker
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  name?: string;
+  failureThreshold?: number; // failures within the window before the circuit can open
+  failureRateThreshold?: number; // share of failed calls within the window that opens it, 0..1
+  windowMs?: number;
+  resetTimeout?: number; // cooldown before an open circuit lets trial calls through
+  halfOpenRetries?: number; // trial calls that must all succeed to close the circuit again
+  isFailure?: (error: Error) => boolean;
+  onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+}
+
+// Errors that say nothing about the endpoint's health don't count against it
+const NON_FAILURE_CODES = new Set<ErrorCode>([
+  ErrorCode.CIRCUIT_OPEN,
+  ErrorCode.NETWORK_DISABLED,
+  ErrorCode.INVALID_PARAMS,
+  ErrorCode.INVALID_ADDRESS,
+  ErrorCode.INVALID_AMOUNT,
+  ErrorCode.INVALID_CHAIN,
+  ErrorCode.ADAPTER_METHOD_NOT_IMPLEMENTED,
+  ErrorCode.INSUFFICIENT_BALANCE,
+  ErrorCode.KEYS_UNAVAILABLE,
+]);
+
+/**
+ * Fails calls fast while an endpoint is unhealthy. The circuit opens once the calls of the
+ * last `windowMs` include at least `failureThreshold` failures at a failure rate of at least
+ * `failureRateThreshold`. After `resetTimeout` it turns half-open and lets `halfOpenRetries`
+ * trial calls through: if they all succeed it closes, if any fails it opens again.
+ */
+export class CircuitBreaker {
+  readonly name: string;
+  private readonly failureThreshold: number;
+  private readonly failureRateThreshold: number;
+  private readonly windowMs: number;
+  private readonly resetTimeout: number;
+  private readonly halfOpenRetries: number;
+  private readonly isFailure: (error: Error) => boolean;
+  private readonly onStateChange?: CircuitBreakerOptions['onStateChange'];
+
+  private _state: CircuitState = 'closed';
+  private outcomes: { at: number; failed: boolean }[] = [];
+  private openedAt = 0;
+  private trialsStarted = 0;
+  private trialsSucceeded = 0;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.name = options.name ?? 'circuit';
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.failureRateThreshold = options.failureRateThreshold ?? 0.5;
+    this.windowMs = options.windowMs ?? 60000;
+    this.resetTimeout = options.resetTimeout ?? 30000;
+    this.halfOpenRetries = options.halfOpenRetries ?? 1;
+    this.isFailure = options.isFailure
+      ?? ((error) => !(error instanceof DrxaError) || !NON_FAILURE_CODES.has(error.code));
+    this.onStateChange = options.onStateChange;
+  }
+
+  get state(): CircuitState {
+    if (this._state === 'open' && Date.now() - this.openedAt >= this.resetTimeout) {
+      this.transition('half-open');
+    }
+    return this._state;
+  }
+
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    const state = this.state;
+    if (state === 'open') {
+      throw ErrorFactory.circuitOpen(this.name, this.openedAt + this.resetTimeout - Date.now());
+    }
+    if (state === 'half-open') {
+      if (this.trialsStarted >= this.halfOpenRetries) {
+        throw ErrorFactory.circuitOpen(this.name, 0);
+      }
+      this.trialsStarted++;
+    }
+
+    try {
+      const result = await fn();
+      this.record(false);
+      return result;
+    } catch (error) {
+      this.record(this.isFailure(error as Error));
+      throw error;
+    }
+  }
+
+  reset(): void {
+    this.outcomes = [];
+    this.transition('closed');
+  }
+
+  private record(failed: boolean): void {
+    if (this._state === 'half-open') {
+      if (failed) {
+        this.open();
+      } else if (++this.trialsSucceeded >= this.halfOpenRetries) {
+        this.reset();
+      }
+      return;
+    }
+    if (this._state === 'open') {
+      // A call that started before the circuit opened
+      return;
+    }
+
+    const now = Date.now();
+    this.outcomes = this.outcomes.filter(outcome => now - outcome.at < this.windowMs);
+    this.outcomes.push({ at: now, failed });
+
+    const failures = this.outcomes.filter(outcome => outcome.failed).length;
+    if (failures >= this.failureThreshold && failures / this.outcomes.length >= this.failureRateThreshold) {
+      this.open();
+    }
+  }
+
+  private open(): void {
+    this.openedAt = Date.now();
+    this.outcomes = [];
+    this.transition('open');
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this._state;
+    this.trialsStarted = 0;
+    this.trialsSucceeded = 0;
+    if (state === previous) {
+      return;
+    }
+    this._state = state;
+    this.onStateChange?.(state, previous);
+  }
+}
+
+// Wraps calls in a shared circuit breaker: `const breaker = withCircuitBreaker(opts); await breaker(() => call())`
+export function withCircuitBreaker(
+  options: CircuitBreakerOptions = {}
+): <T>(fn: () => Promise<T>) => Promise<T> {
+  const breaker = new CircuitBreaker(options);
+  return (fn) => breaker.execute(fn);
+}
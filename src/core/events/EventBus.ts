@@ -18,9 +18,15 @@ export interface TransactionEvent extends ChainEvent {
   from: string;
   to: string;
   amount: string;
-  status: 'pending' | 'confirmed' | 'failed';
+  status: TransactionEventStatus;
+  confirmations?: number;
+  blockNumber?: number;
+  blockHash?: string;
 }
 
+// 'final', 'reorged' and 'dropped' come from subscriptions that track confirmations
+export type TransactionEventStatus = 'pending' | 'confirmed' | 'final' | 'reorged' | 'dropped' | 'failed';
+
 export interface BlockEvent extends ChainEvent {
   type: 'block';
   blockNumber: number;
@@ -221,7 +227,10 @@ export class EventBus extends EventEmitter {
       from: string;
       to: string;
       amount: string;
-      status: 'pending' | 'confirmed' | 'failed';
+      status: TransactionEventStatus;
+      confirmations?: number;
+      blockNumber?: number;
+      blockHash?: string;
     }
   ): TransactionEvent {
     return {
@@ -1,6 +1,7 @@
 import { EventEmitter } from "events";
 import { Logger } from "../../types/index.js";
 import { ErrorFactory, ErrorCode } from "../errors/index.js";
+import { RateLimiter } from "../rpc/RateLimiter.js";
 
 export interface PoolConfig {
   maxSize: number;
@@ -12,6 +13,7 @@ export interface PoolConfig {
   destroyTimeoutMs: number;
   validateOnBorrow: boolean;
   validateOnReturn: boolean;
+  rateLimiter?: RateLimiter; // paces borrowing; the slot is held until the connection is released
 }
 
 export interface Connection {
@@ -34,6 +36,7 @@ export class ConnectionPool<T = any> extends EventEmitter {
   private readonly factory: ConnectionFactory<T>;
   private readonly logger?: Logger;
   private readonly connections = new Map<string, Connection>();
+  private readonly rateLimitReleases = new Map<string, () => void>();
   private readonly waitingQueue: Array<{
     resolve: (connection: Connection) => void;
     reject: (error: Error) => void;
@@ -84,29 +87,27 @@ export class ConnectionPool<T = any> extends EventEmitter {
       throw new Error('Connection pool has been destroyed');
     }
 
-    // Try to get an available connection
-    const availableConnection = this.getAvailableConnection();
-    if (availableConnection) {
-      return this.borrowConnection(availableConnection);
+    const { rateLimiter } = this.config;
+    if (!rateLimiter) {
+      return this.acquireConnection();
     }
 
-    // Create new connection if under max size
-    if (this.connections.size < this.config.maxSize) {
-      try {
-        const connection = await this.createConnection();
-        return this.borrowConnection(connection);
-      } catch (error) {
-        this.logger?.error('Failed to create connection', error as Error);
-        throw error;
-      }
+    const releaseSlot = await rateLimiter.acquire();
+    try {
+      const connection = await this.acquireConnection();
+      this.rateLimitReleases.set(connection.id, releaseSlot);
+      return connection;
+    } catch (error) {
+      releaseSlot();
+      throw error;
     }
-
-    // Wait for available connection
-    return this.waitForConnection();
   }
 
   // Release a connection back to the pool
   async release(connection: Connection): Promise<void> {
+    this.rateLimitReleases.get(connection.id)?.();
+    this.rateLimitReleases.delete(connection.id);
+
     if (this.isDestroyed) {
       await this.destroyConnection(connection);
       return;
@@ -200,6 +201,28 @@ export class ConnectionPool<T = any> extends EventEmitter {
 
   // Private methods
 
+  private async acquireConnection(): Promise<Connection> {
+    // Try to get an available connection
+    const availableConnection = this.getAvailableConnection();
+    if (availableConnection) {
+      return this.borrowConnection(availableConnection);
+    }
+
+    // Create new connection if under max size
+    if (this.connections.size < this.config.maxSize) {
+      try {
+        const connection = await this.createConnection();
+        return this.borrowConnection(connection);
+      } catch (error) {
+        this.logger?.error('Failed to create connection', error as Error);
+        throw error;
+      }
+    }
+
+    // Wait for available connection
+    return this.waitForConnection();
+  }
+
   private getAvailableConnection(): Connection | null {
     for (const connection of this.connections.values()) {
       if (!connection.inUse) {
@@ -220,14 +243,14 @@ export class ConnectionPool<T = any> extends EventEmitter {
         if (!isValid) {
           await this.destroyConnection(connection);
           // Try to get another connection recursively
-          return this.acquire();
+          return this.acquireConnection();
         }
       } catch (error) {
         this.logger?.error('Connection validation failed on borrow', error as Error, { 
           connectionId: connection.id 
         });
         await this.destroyConnection(connection);
-        return this.acquire();
+        return this.acquireConnection();
       }
     }
 
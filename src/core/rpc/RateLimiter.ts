@@ -0,0 +1,176 @@
+import { RateLimitConfig, RpcEndpoint } from "../../types/index.js";
+import { DrxaError, ErrorCode, ErrorContext, ErrorFactory } from "../errors/index.js";
+
+// Pause applied to an endpoint that rate limits us without saying for how long
+const DEFAULT_RETRY_AFTER_MS = 1000;
+
+// JSON-RPC codes providers use for "limit exceeded"
+const RATE_LIMIT_RPC_CODES = new Set([-32005, -32029, -32090]);
+const RATE_LIMIT_MESSAGE = /rate.?limit|too many requests|request limit exceeded/i;
+
+/**
+ * Token bucket with a concurrency cap: requests start at up to `requestsPerSecond`, with
+ * bursts of up to `burst`, and at most `concurrency` run at once. `pause` holds every request
+ * back, e.g. until a Retry-After deadline. Waiting requests start in arrival order.
+ */
+export class RateLimiter {
+  private readonly rate: number;
+  private readonly burst: number;
+  private readonly concurrency: number;
+  private tokens: number;
+  private refilledAt = Date.now();
+  private pausedUntil = 0;
+  private active = 0;
+  private readonly queue: Array<(release: () => void) => void> = [];
+  private timer?: NodeJS.Timeout;
+
+  constructor(config: Partial<RateLimitConfig> = {}) {
+    this.rate = config.requestsPerSecond ?? Infinity;
+    this.burst = config.burst ?? (Number.isFinite(this.rate) ? Math.max(1, Math.ceil(this.rate)) : Infinity);
+    this.concurrency = config.concurrency ?? Infinity;
+    this.tokens = this.burst;
+  }
+
+  // Resolves with a release function once the request may start; call it when the request ends
+  acquire(): Promise<() => void> {
+    return new Promise(resolve => {
+      this.queue.push(resolve);
+      this.pump();
+    });
+  }
+
+  async schedule<T>(fn: () => Promise<T>): Promise<T> {
+    const release = await this.acquire();
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  private pump(): void {
+    if (this.timer) {
+      return; // a wake-up is already scheduled
+    }
+
+    while (this.queue.length > 0) {
+      const wait = this.waitTime();
+      if (wait === undefined) {
+        return; // every slot is taken; the next release pumps again
+      }
+      if (wait > 0) {
+        this.timer = setTimeout(() => {
+          this.timer = undefined;
+          this.pump();
+        }, wait);
+        return;
+      }
+
+      this.tokens -= 1;
+      this.active++;
+      let released = false;
+      this.queue.shift()!(() => {
+        if (!released) {
+          released = true;
+          this.active--;
+          this.pump();
+        }
+      });
+    }
+  }
+
+  // Milliseconds until the next request may start; undefined while all concurrency slots are taken
+  private waitTime(): number | undefined {
+    const now = Date.now();
+    if (now < this.pausedUntil) {
+      return this.pausedUntil - now;
+    }
+    if (this.active >= this.concurrency) {
+      return undefined;
+    }
+
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.refilledAt) / 1000) * this.rate);
+    this.refilledAt = now;
+    return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) / this.rate) * 1000);
+  }
+}
+
+const limiters = new Map<string, RateLimiter>();
+
+/**
+ * The limiter shared by everything calling this endpoint URL, created from the first
+ * `rateLimit` config seen for it. Endpoints without one are only paused after a rate limit.
+ */
+export function rateLimiterFor(endpoint: RpcEndpoint): RateLimiter {
+  let limiter = limiters.get(endpoint.url);
+  if (!limiter) {
+    limiter = new RateLimiter(endpoint.rateLimit);
+    limiters.set(endpoint.url, limiter);
+  }
+  return limiter;
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return value * 1000;
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Recognizes HTTP 429s (axios, fetch and ethers errors) and JSON-RPC rate-limit errors and
+ * turns them into RATE_LIMIT_ERROR, carrying the Retry-After delay when the server sent one.
+ * Returns undefined for every other error.
+ */
+export function rateLimitErrorFrom(error: unknown, context: ErrorContext = {}): DrxaError | undefined {
+  if (error instanceof DrxaError) {
+    return error.code === ErrorCode.RATE_LIMIT_ERROR ? error : undefined;
+  }
+
+  const err = error as {
+    code?: unknown;
+    status?: unknown;
+    message?: string;
+    headers?: Record<string, unknown>;
+    response?: { status?: unknown; headers?: Record<string, unknown> };
+  };
+  const status = err?.response?.status ?? err?.status;
+  const isRateLimit = status === 429
+    || (typeof err?.code === 'number' && RATE_LIMIT_RPC_CODES.has(err.code))
+    || (typeof err?.message === 'string' && RATE_LIMIT_MESSAGE.test(err.message));
+  if (!isRateLimit) {
+    return undefined;
+  }
+
+  const headers = err.response?.headers ?? err.headers ?? {};
+  const retryAfterMs = parseRetryAfter(headers['retry-after'] ?? headers['Retry-After']);
+  return ErrorFactory.rateLimited(err.message || 'Rate limited', {
+    ...context,
+    retryAfterMs,
+    originalError: error as Error
+  });
+}
+
+// Holds the endpoint back after a rate limit: for Retry-After when given, a short pause otherwise
+export function pauseAfterRateLimit(endpoint: RpcEndpoint, error: DrxaError): void {
+  const retryAfterMs = error.context.retryAfterMs;
+  rateLimiterFor(endpoint).pause(typeof retryAfterMs === 'number' ? retryAfterMs : DEFAULT_RETRY_AFTER_MS);
+}
@@ -0,0 +1,276 @@
+import { Logger, QuorumConfig, QuorumResponse, RpcEndpoint } from "../../types/index.js";
+import { ConfigurationError, DrxaError, ErrorCode, ErrorFactory } from "../errors/index.js";
+
+export interface RpcRouterOptions {
+  name?: string;
+  healthCheck?: (endpoint: RpcEndpoint) => Promise<unknown>;
+  healthCheckInterval?: number;
+  errorPenaltyMs?: number; // latency added to an endpoint's score at a 100% error rate
+  shouldFailover?: (error: Error) => boolean;
+  logger?: Logger;
+}
+
+export interface EndpointHealth {
+  url: string;
+  healthy: boolean;
+  latencyMs?: number; // moving average; undefined until the endpoint has answered
+  errorRate: number; // moving average of failed calls, 0..1
+  lastError?: string;
+  lastCheckedAt?: Date;
+}
+
+// What each endpoint answered to a quorum read, for error reports
+export interface QuorumAnswer {
+  endpoint: string;
+  value?: string;
+  blockHeight?: number;
+  stale?: boolean;
+  error?: string;
+}
+
+interface EndpointState {
+  endpoint: RpcEndpoint;
+  health: EndpointHealth;
+}
+
+const LATENCY_SMOOTHING = 0.3;
+const ERROR_SMOOTHING = 0.2;
+
+const FAILOVER_CODES = new Set<ErrorCode>([
+  ErrorCode.NETWORK_ERROR,
+  ErrorCode.TIMEOUT_ERROR,
+  ErrorCode.RATE_LIMIT_ERROR,
+  ErrorCode.CIRCUIT_OPEN,
+]);
+
+// Socket-level codes from Node, axios and ethers
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNREFUSED', 'ECONNRESET', 'ECONNABORTED', 'ENOTFOUND', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE',
+  'ERR_NETWORK', 'NETWORK_ERROR', 'SERVER_ERROR', 'TIMEOUT',
+]);
+
+/**
+ * Whether an error means the endpoint itself is unavailable (unreachable, overloaded or
+ * rate limiting), so the same request may succeed on another endpoint
+ */
+export function isEndpointError(error: unknown): boolean {
+  if (error instanceof DrxaError) {
+    return FAILOVER_CODES.has(error.code);
+  }
+
+  const err = error as { code?: unknown; status?: unknown; response?: { status?: unknown }; isAxiosError?: boolean; message?: string };
+  const status = err?.response?.status ?? err?.status;
+  if (typeof status === 'number') {
+    return status === 429 || status >= 500;
+  }
+  if (typeof err?.code === 'string' && NETWORK_ERROR_CODES.has(err.code)) {
+    return true;
+  }
+  return err?.isAxiosError === true || err?.message === 'fetch failed';
+}
+
+/**
+ * Routes calls across the endpoints of a chain. Healthy endpoints come first, ordered by
+ * average latency plus a penalty for their error rate; endpoints that have not answered yet
+ * keep their configured order after them. When a call fails with an endpoint error the next
+ * endpoint is tried, and the last error is thrown once all of them have failed.
+ */
+export class RpcRouter {
+  readonly name: string;
+  private readonly states: EndpointState[];
+  private readonly options: RpcRouterOptions;
+  private healthTimer?: NodeJS.Timeout;
+
+  constructor(endpoints: RpcEndpoint | RpcEndpoint[], options: RpcRouterOptions = {}) {
+    const list = Array.isArray(endpoints) ? endpoints : [endpoints];
+    if (list.length === 0 || list.some(endpoint => !endpoint?.url)) {
+      throw new ConfigurationError(ErrorCode.INVALID_CONFIG, 'Every RPC endpoint needs a URL', { name: options.name });
+    }
+
+    this.name = options.name ?? 'rpc';
+    this.options = options;
+    this.states = list.map(endpoint => ({
+      endpoint,
+      health: { url: endpoint.url, healthy: true, errorRate: 0 }
+    }));
+  }
+
+  get endpoints(): RpcEndpoint[] {
+    return this.ranked().map(state => state.endpoint);
+  }
+
+  health(): EndpointHealth[] {
+    return this.states.map(state => ({ ...state.health }));
+  }
+
+  async execute<T>(operation: (endpoint: RpcEndpoint) => Promise<T>): Promise<T> {
+    const shouldFailover = this.options.shouldFailover ?? isEndpointError;
+    const ranked = this.ranked();
+    let lastError: Error | undefined;
+
+    for (const [attempt, state] of ranked.entries()) {
+      const started = Date.now();
+      try {
+        const result = await operation(state.endpoint);
+        this.recordSuccess(state, Date.now() - started);
+        return result;
+      } catch (error) {
+        if (!shouldFailover(error as Error)) {
+          throw error;
+        }
+        lastError = error as Error;
+        this.recordFailure(state, lastError);
+
+        if (attempt < ranked.length - 1) {
+          this.options.logger?.warn('RPC endpoint failed, failing over', {
+            router: this.name,
+            endpoint: state.endpoint.url,
+            next: ranked[attempt + 1].endpoint.url,
+            error: lastError.message
+          });
+        }
+      }
+    }
+
+    throw lastError!;
+  }
+
+  /**
+   * Asks the best `endpoints` endpoints at once and returns the value that at least
+   * `threshold` of the fresh answers agree on, compared by `key`. Throws QUORUM_NOT_REACHED
+   * with every answer in its context otherwise.
+   */
+  async executeQuorum<T>(
+    method: string,
+    operation: (endpoint: RpcEndpoint) => Promise<QuorumResponse<T>>,
+    quorum: QuorumConfig,
+    key: (value: T) => string = value => JSON.stringify(value)
+  ): Promise<T> {
+    const size = quorum.endpoints ?? this.states.length;
+    if (quorum.threshold < 1 || quorum.threshold > size || size > this.states.length) {
+      throw new ConfigurationError(
+        ErrorCode.INVALID_CONFIG,
+        `A quorum of ${quorum.threshold} of ${size} endpoints needs that many configured endpoints; ${this.name} has ${this.states.length}`,
+        { name: this.name, quorum }
+      );
+    }
+
+    const asked = this.ranked().slice(0, size);
+    const settled = await Promise.allSettled(asked.map(async state => {
+      const started = Date.now();
+      try {
+        const response = await operation(state.endpoint);
+        this.recordSuccess(state, Date.now() - started);
+        return response;
+      } catch (error) {
+        if ((this.options.shouldFailover ?? isEndpointError)(error as Error)) {
+          this.recordFailure(state, error as Error);
+        }
+        throw error;
+      }
+    }));
+
+    const heights = settled.flatMap(result =>
+      result.status === 'fulfilled' && result.value.blockHeight !== undefined ? [result.value.blockHeight] : []
+    );
+    const minHeight = heights.length > 0 ? Math.max(...heights) - (quorum.blockTolerance ?? 2) : -Infinity;
+
+    const answers: QuorumAnswer[] = [];
+    const groups = new Map<string, QuorumResponse<T>[]>();
+    settled.forEach((result, i) => {
+      const endpoint = asked[i].endpoint.url;
+      if (result.status === 'rejected') {
+        answers.push({ endpoint, error: (result.reason as Error)?.message ?? String(result.reason) });
+        return;
+      }
+
+      const { value, blockHeight } = result.value;
+      const stale = blockHeight !== undefined && blockHeight < minHeight;
+      answers.push({ endpoint, value: key(value), blockHeight, stale });
+      if (!stale) {
+        groups.set(key(value), [...(groups.get(key(value)) ?? []), result.value]);
+      }
+    });
+
+    const agreed = [...groups.values()].sort((a, b) => b.length - a.length)[0] ?? [];
+    if (agreed.length < quorum.threshold) {
+      throw ErrorFactory.quorumNotReached(this.name, method, agreed.length, quorum.threshold, answers);
+    }
+    return agreed[0].value;
+  }
+
+  // Probes every endpoint once; unhealthy endpoints are tried only after the healthy ones
+  async checkHealth(): Promise<EndpointHealth[]> {
+    const { healthCheck } = this.options;
+    if (!healthCheck) {
+      return this.health();
+    }
+
+    await Promise.all(this.states.map(async state => {
+      const started = Date.now();
+      try {
+        await healthCheck(state.endpoint);
+        this.recordLatency(state, Date.now() - started);
+        state.health.healthy = true;
+        state.health.lastError = undefined;
+      } catch (error) {
+        state.health.healthy = false;
+        state.health.lastError = (error as Error).message;
+      }
+      state.health.lastCheckedAt = new Date();
+    }));
+
+    return this.health();
+  }
+
+  // Periodic health checks; a no-op without a health check or with a single endpoint
+  start(): void {
+    if (this.healthTimer || !this.options.healthCheck || this.states.length < 2) {
+      return;
+    }
+
+    const check = () => this.checkHealth().catch(error =>
+      this.options.logger?.error('RPC health check failed', error as Error, { router: this.name })
+    );
+    void check();
+    this.healthTimer = setInterval(check, this.options.healthCheckInterval ?? 30000);
+    this.healthTimer.unref?.();
+  }
+
+  stop(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = undefined;
+    }
+  }
+
+  private ranked(): EndpointState[] {
+    const penalty = this.options.errorPenaltyMs ?? 2000;
+    const score = ({ health }: EndpointState) =>
+      health.latencyMs === undefined ? Infinity : health.latencyMs + health.errorRate * penalty;
+
+    // Array.prototype.sort is stable, so ties keep the configured order
+    return [...this.states].sort((a, b) =>
+      Number(b.health.healthy) - Number(a.health.healthy) || score(a) - score(b) || 0
+    );
+  }
+
+  private recordSuccess(state: EndpointState, latencyMs: number): void {
+    this.recordLatency(state, latencyMs);
+    state.health.errorRate *= 1 - ERROR_SMOOTHING;
+    state.health.healthy = true;
+  }
+
+  private recordFailure(state: EndpointState, error: Error): void {
+    state.health.errorRate = state.health.errorRate * (1 - ERROR_SMOOTHING) + ERROR_SMOOTHING;
+    state.health.healthy = false;
+    state.health.lastError = error.message;
+  }
+
+  private recordLatency(state: EndpointState, latencyMs: number): void {
+    const { health } = state;
+    health.latencyMs = health.latencyMs === undefined
+      ? latencyMs
+      : health.latencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING;
+  }
+}
@@ -0,0 +1,290 @@
+import Big from "big.js";
+import {
+  IncomingTransaction,
+  Logger,
+  SubscriptionCallback,
+  SubscriptionState,
+  SubscriptionStateStore,
+  Unsubscribe
+} from "../../types/index.js";
+import { ConfirmationSource, ConfirmationTracker, transactionKey } from "./ConfirmationTracker.js";
+import { MemorySubscriptionStateStore } from "./SubscriptionStateStore.js";
+
+// Transactions in one block paying any of the watched addresses
+export interface ScannedBlock {
+  hash: string;
+  transactions: IncomingTransaction[];
+}
+
+// What the watcher needs from a chain; `addresses` holds normalized addresses
+export interface BlockScanner {
+  getBlockHeight(): Promise<number>;
+  getBlockHash(height: number): Promise<string>;
+  scanBlock(height: number, addresses: ReadonlySet<string>): Promise<ScannedBlock>;
+  scanMempool?(addresses: ReadonlySet<string>): Promise<IncomingTransaction[]>;
+  normalizeAddress?(address: string): string;
+}
+
+export interface AddressWatcherOptions {
+  chain: string;
+  store?: SubscriptionStateStore; // default: in memory
+  pollingInterval?: number;
+  mempool?: boolean; // also scan unconfirmed transactions, where the scanner can
+  // Follow deliveries until they have `required` confirmations, reporting reorgs and drops
+  confirmations?: { source: ConfirmationSource; required: number };
+  onDelivery?: (tx: IncomingTransaction) => void;
+  // Polls a failing callback is given a transaction on before it is skipped for it (default: 5)
+  deliveryAttempts?: number;
+  logger?: Logger;
+}
+
+// Store key of a watcher's state: it is per chain, not per address
+export const WATCHER_STATE_KEY = '*';
+
+const MAX_SCAN_BLOCKS = 100; // per poll; longer gaps are backfilled over several polls
+const REORG_RESCAN_DEPTH = 6; // blocks scanned again when the last scanned block was replaced
+const MAX_SEEN_DELIVERIES = 10000;
+const DEFAULT_DELIVERY_ATTEMPTS = 5;
+
+// Callbacks that already handled a delivery, and the polls it has failed on so far
+interface PendingDelivery {
+  delivered: Set<SubscriptionCallback>;
+  attempts: number;
+}
+
+/**
+ * Watches any number of addresses on one chain with a single scanner: every poll scans each
+ * new block (and optionally the mempool) once and matches it against the watched set, so the
+ * cost doesn't grow with the number of addresses. Addresses can be added and removed at any
+ * time and each can have several callbacks.
+ *
+ * The last scanned block is kept in the store, so a restarted watcher backfills the blocks it
+ * missed; addresses watched before the first poll are included in it. A callback that throws
+ * is logged and does not keep the others from receiving the transaction, but the transaction
+ * stays undelivered: it is not marked seen, the scan doesn't advance past its block, and the
+ * next poll hands it again to the callbacks that failed on it, not to those that handled it.
+ * After `deliveryAttempts` failed polls the transaction is logged as undelivered and the scan
+ * moves on, so one broken callback can't hold back the others.
+ */
+export class AddressWatcher {
+  private readonly watched = new Map<string, Set<SubscriptionCallback>>();
+  private readonly store: SubscriptionStateStore;
+  private state?: SubscriptionState;
+  private seen = new Set<string>();
+  private readonly pending = new Map<string, PendingDelivery>();
+  private tracker?: ConfirmationTracker;
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(private readonly scanner: BlockScanner, private readonly options: AddressWatcherOptions) {
+    this.store = options.store ?? new MemorySubscriptionStateStore();
+  }
+
+  get addresses(): string[] {
+    return [...this.watched.keys()];
+  }
+
+  watch(address: string, callback: SubscriptionCallback): Unsubscribe {
+    const key = this.normalize(address);
+    let callbacks = this.watched.get(key);
+    if (!callbacks) {
+      callbacks = new Set();
+      this.watched.set(key, callbacks);
+    }
+    callbacks.add(callback);
+    this.start();
+
+    return () => this.unwatch(address, callback);
+  }
+
+  // Without a callback, drops every callback of the address
+  unwatch(address: string, callback?: SubscriptionCallback): void {
+    const key = this.normalize(address);
+    const callbacks = this.watched.get(key);
+    if (!callbacks) {
+      return;
+    }
+
+    if (callback) {
+      callbacks.delete(callback);
+    } else {
+      callbacks.clear();
+    }
+    if (callbacks.size === 0) {
+      this.watched.delete(key);
+    }
+    if (this.watched.size === 0) {
+      this.stop();
+    }
+  }
+
+  // Polls on an interval while any address is watched; the first poll runs once the current tick's watch() calls are in
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => void this.poll(), this.options.pollingInterval ?? 15000);
+    setTimeout(() => void this.poll(), 0);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  // Scans what is new since the last poll; skipped while a poll is still running
+  async poll(): Promise<void> {
+    if (this.polling || this.watched.size === 0) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      await this.scan();
+    } catch (error) {
+      this.options.logger?.error('Address watcher poll error', error as Error, {
+        chain: this.options.chain,
+        addresses: this.watched.size
+      });
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async scan(): Promise<void> {
+    const state = await this.load();
+    const tip = await this.scanner.getBlockHeight();
+    const addresses = new Set(this.watched.keys());
+
+    if (state.lastBlock !== undefined && state.cursor !== undefined && state.lastBlock <= tip) {
+      const hash = await this.scanner.getBlockHash(state.lastBlock);
+      if (hash !== state.cursor) {
+        this.options.logger?.warn('Last scanned block was replaced, rescanning', {
+          chain: this.options.chain,
+          block: state.lastBlock,
+          depth: REORG_RESCAN_DEPTH
+        });
+        state.lastBlock = Math.max(0, state.lastBlock - REORG_RESCAN_DEPTH);
+        state.cursor = undefined;
+      }
+    }
+
+    // A fresh watcher starts at the tip
+    const from = state.lastBlock !== undefined ? state.lastBlock + 1 : tip;
+    const to = Math.min(tip, from + MAX_SCAN_BLOCKS - 1);
+    const found: IncomingTransaction[] = [];
+    const hashes = new Map<number, string>();
+    for (let height = from; height <= to; height++) {
+      const block = await this.scanner.scanBlock(height, addresses);
+      found.push(...block.transactions);
+      hashes.set(height, block.hash);
+    }
+    if (this.options.mempool && this.scanner.scanMempool) {
+      found.push(...await this.scanner.scanMempool(addresses));
+    }
+
+    const failedHeight = await this.deliver(found);
+    // Only advance up to the block before the first failed delivery, so the next poll finds it again
+    const last = failedHeight !== undefined ? Math.min(to, failedHeight - 1) : to;
+    if (hashes.has(last)) {
+      state.lastBlock = last;
+      state.cursor = hashes.get(last);
+    }
+    await this.save();
+  }
+
+  // Returns the lowest block height of a newly found transaction a callback failed on
+  private async deliver(found: IncomingTransaction[]): Promise<number | undefined> {
+    // Several outputs or transfers to the same address in one transaction are one deposit
+    const fresh = new Map<string, IncomingTransaction>();
+    for (const tx of found) {
+      const key = transactionKey({ ...tx, to: this.normalize(tx.to) });
+      if (this.seen.has(key)) {
+        continue;
+      }
+      const existing = fresh.get(key);
+      fresh.set(key, existing ? { ...existing, amount: existing.amount.plus(tx.amount) } : { ...tx, amount: new Big(tx.amount) });
+    }
+
+    let deliveries = [...fresh.values()];
+    if (this.tracker) {
+      deliveries.forEach(tx => this.tracker!.add(tx));
+      deliveries = await this.tracker.refresh();
+    }
+
+    let failedHeight: number | undefined;
+    for (const tx of deliveries) {
+      const key = transactionKey({ ...tx, to: this.normalize(tx.to) });
+      // A confirmation update is a delivery of its own
+      const deliveryKey = `${key}:${tx.status ?? ''}:${tx.confirmations ?? ''}`;
+      const pending = this.pending.get(deliveryKey) ?? { delivered: new Set<SubscriptionCallback>(), attempts: 0 };
+      let failed = false;
+      for (const callback of this.watched.get(this.normalize(tx.to)) ?? []) {
+        if (pending.delivered.has(callback)) {
+          continue;
+        }
+        try {
+          await callback(tx);
+          pending.delivered.add(callback);
+        } catch (error) {
+          failed = true;
+          this.options.logger?.error('Subscription callback failed', error as Error, {
+            chain: this.options.chain,
+            address: tx.to,
+            txHash: tx.txHash
+          });
+        }
+      }
+
+      if (failed && ++pending.attempts < (this.options.deliveryAttempts ?? DEFAULT_DELIVERY_ATTEMPTS)) {
+        this.pending.set(deliveryKey, pending);
+        // Updates of transactions delivered earlier are recomputed by the tracker; new ones must be scanned again
+        if (!this.seen.has(key) && tx.blockNumber !== undefined) {
+          failedHeight = Math.min(failedHeight ?? tx.blockNumber, tx.blockNumber);
+        }
+        continue;
+      }
+      this.pending.delete(deliveryKey);
+      if (failed) {
+        this.options.logger?.error('Subscription delivery given up', undefined, {
+          chain: this.options.chain,
+          address: tx.to,
+          txHash: tx.txHash,
+          attempts: pending.attempts
+        });
+      }
+      this.tracker?.apply(tx);
+      this.seen.add(key);
+      this.options.onDelivery?.(tx);
+      await this.save();
+    }
+    return failedHeight;
+  }
+
+  private async load(): Promise<SubscriptionState> {
+    if (!this.state) {
+      this.state = (await this.store.load(this.options.chain, WATCHER_STATE_KEY)) ?? { seen: [] };
+      this.seen = new Set(this.state.seen);
+      const { confirmations } = this.options;
+      if (confirmations) {
+        this.tracker = new ConfirmationTracker(confirmations.source, confirmations.required, this.state.tracked);
+      }
+    }
+    return this.state;
+  }
+
+  private save(): Promise<void> {
+    return this.store.save(this.options.chain, WATCHER_STATE_KEY, {
+      lastBlock: this.state!.lastBlock,
+      cursor: this.state!.cursor,
+      seen: [...this.seen].slice(-MAX_SEEN_DELIVERIES),
+      tracked: this.tracker?.tracked
+    });
+  }
+
+  private normalize(address: string): string {
+    return this.scanner.normalizeAddress ? this.scanner.normalizeAddress(address) : address;
+  }
+}
@@ -0,0 +1,152 @@
+import Big from "big.js";
+import {
+  IncomingTransaction,
+  IncomingTransactionStatus,
+  TrackedTransaction,
+  TransactionLocation
+} from "../../types/index.js";
+
+// One transaction can pay several watched addresses, or one address natively and in tokens
+export const transactionKey = (tx: { txHash: string; to: string; tokenContract?: string }) =>
+  tx.tokenContract ? `${tx.to}:${tx.txHash}:${tx.tokenContract}` : `${tx.to}:${tx.txHash}`;
+
+// What the tracker needs from a chain
+export interface ConfirmationSource {
+  getBlockHeight(): Promise<number>;
+  // null once the node no longer knows the transaction
+  getTransactionLocation(txHash: string): Promise<TransactionLocation | null>;
+}
+
+/**
+ * Follows incoming transactions until they are final. Each `refresh` looks every tracked
+ * transaction up again and returns the newly found ones and those whose status or
+ * confirmation count changed; `apply` records an update once it has been handled, so an
+ * update whose handler failed is computed again on the next refresh. A transaction whose
+ * block hash changed, or that fell back into the mempool, is reported as 'reorged' before
+ * it confirms again.
+ */
+export class ConfirmationTracker {
+  private readonly transactions = new Map<string, TrackedTransaction>();
+  // Found but not delivered yet
+  private readonly found = new Map<string, TrackedTransaction>();
+
+  constructor(
+    private readonly source: ConfirmationSource,
+    private readonly requiredConfirmations: number,
+    tracked: TrackedTransaction[] = []
+  ) {
+    for (const tx of tracked) {
+      this.transactions.set(transactionKey(tx), tx);
+    }
+  }
+
+  // Delivered transactions that are not final yet
+  get tracked(): TrackedTransaction[] {
+    return [...this.transactions.values()];
+  }
+
+  // Starts following a newly found transaction; its first update comes from the next refresh
+  add(tx: IncomingTransaction): void {
+    const key = transactionKey(tx);
+    if (!this.transactions.has(key) && !this.found.has(key)) {
+      this.found.set(key, {
+        txHash: tx.txHash,
+        from: tx.from,
+        to: tx.to,
+        amount: tx.amount.toString(),
+        timestamp: tx.timestamp,
+        tokenContract: tx.tokenContract,
+        status: 'pending',
+        confirmations: 0
+      });
+    }
+  }
+
+  async refresh(): Promise<IncomingTransaction[]> {
+    if (this.transactions.size === 0 && this.found.size === 0) {
+      return [];
+    }
+
+    const height = await this.source.getBlockHeight();
+    const updates: IncomingTransaction[] = [];
+
+    for (const tracked of this.transactions.values()) {
+      const location = await this.source.getTransactionLocation(tracked.txHash);
+      if (!location) {
+        updates.push(this.update(tracked, 'dropped', 0, {}));
+        continue;
+      }
+
+      const wasInBlock = tracked.blockHash !== undefined && tracked.status !== 'reorged';
+      if (wasInBlock && location.blockHash !== tracked.blockHash) {
+        updates.push(this.update(tracked, 'reorged', 0, location));
+        continue;
+      }
+
+      const update = this.confirm(tracked, height, location);
+      if (update.status !== tracked.status || update.confirmations !== tracked.confirmations) {
+        updates.push(update);
+      }
+    }
+
+    for (const found of this.found.values()) {
+      const location = await this.source.getTransactionLocation(found.txHash);
+      if (location) {
+        updates.push(this.confirm(found, height, location));
+      } else {
+        // Gone before it was delivered: nothing to reverse
+        this.found.delete(transactionKey(found));
+      }
+    }
+
+    return updates;
+  }
+
+  // Final and dropped transactions are no longer followed
+  apply(update: IncomingTransaction): void {
+    const key = transactionKey(update);
+    const tracked = this.transactions.get(key) ?? this.found.get(key);
+    if (!tracked) {
+      return;
+    }
+
+    this.found.delete(key);
+    if (update.status === 'final' || update.status === 'dropped') {
+      this.transactions.delete(key);
+      return;
+    }
+    tracked.status = update.status!;
+    tracked.confirmations = update.confirmations!;
+    tracked.blockNumber = update.blockNumber;
+    tracked.blockHash = update.blockHash;
+    this.transactions.set(key, tracked);
+  }
+
+  private confirm(tracked: TrackedTransaction, height: number, location: TransactionLocation): IncomingTransaction {
+    const confirmations = location.blockNumber === undefined ? 0 : Math.max(0, height - location.blockNumber + 1);
+    const status: IncomingTransactionStatus = confirmations === 0
+      ? 'pending'
+      : confirmations >= this.requiredConfirmations ? 'final' : 'confirmed';
+    return this.update(tracked, status, confirmations, location);
+  }
+
+  private update(
+    tracked: TrackedTransaction,
+    status: IncomingTransactionStatus,
+    confirmations: number,
+    location: TransactionLocation
+  ): IncomingTransaction {
+    return {
+      txHash: tracked.txHash,
+      from: tracked.from,
+      to: tracked.to,
+      amount: new Big(tracked.amount),
+      blockNumber: location.blockNumber,
+      blockHash: location.blockHash,
+      timestamp: tracked.timestamp,
+      tokenContract: tracked.tokenContract,
+      status,
+      confirmations
+    };
+  }
+}
@@ -0,0 +1,173 @@
+import { promises as fs } from "fs";
+import { dirname } from "path";
+import { SubscriptionState, SubscriptionStateStore } from "../../types/index.js";
+import { ConfigurationError, ErrorCode } from "../errors/index.js";
+
+const stateKey = (chain: string, address: string) => `${chain}:${address}`;
+
+// The default store: state lives as long as the process
+export class MemorySubscriptionStateStore implements SubscriptionStateStore {
+  private readonly states = new Map<string, SubscriptionState>();
+
+  async load(chain: string, address: string): Promise<SubscriptionState | undefined> {
+    const state = this.states.get(stateKey(chain, address));
+    return state && { ...state, seen: [...state.seen] };
+  }
+
+  async save(chain: string, address: string, state: SubscriptionState): Promise<void> {
+    this.states.set(stateKey(chain, address), { ...state, seen: [...state.seen], updatedAt: Date.now() });
+  }
+
+  async delete(chain: string, address: string): Promise<void> {
+    this.states.delete(stateKey(chain, address));
+  }
+}
+
+type States = Record<string, SubscriptionState>;
+
+export interface JsonFileSubscriptionStateStoreOptions {
+  /** Milliseconds saves are gathered for before the file is rewritten (default: 100) */
+  writeDelay?: number;
+}
+
+/**
+ * Keeps every subscription's state in one JSON file. Saves made while a write is pending or
+ * running are batched into the next write, so the file is rewritten once per batch rather than
+ * once per save; each save resolves when the write holding it is on disk. Writes go through a
+ * temporary file and a rename, so a crash mid-write leaves the previous state intact.
+ */
+export class JsonFileSubscriptionStateStore implements SubscriptionStateStore {
+  private states?: Promise<States>;
+  private pending: { change: (states: States) => void; resolve: () => void; reject: (error: unknown) => void }[] = [];
+  private flushing?: Promise<void>;
+  private readonly writeDelay: number;
+
+  constructor(private readonly path: string, options: JsonFileSubscriptionStateStoreOptions = {}) {
+    this.writeDelay = options.writeDelay ?? 100;
+  }
+
+  async load(chain: string, address: string): Promise<SubscriptionState | undefined> {
+    const state = (await this.read())[stateKey(chain, address)];
+    return state && { ...state, seen: [...state.seen] };
+  }
+
+  save(chain: string, address: string, state: SubscriptionState): Promise<void> {
+    return this.update(states => {
+      states[stateKey(chain, address)] = { ...state, seen: [...state.seen], updatedAt: Date.now() };
+    });
+  }
+
+  delete(chain: string, address: string): Promise<void> {
+    return this.update(states => {
+      delete states[stateKey(chain, address)];
+    });
+  }
+
+  private read(): Promise<States> {
+    if (!this.states) {
+      const states = fs.readFile(this.path, 'utf8').then(
+        json => JSON.parse(json) as States,
+        (error: NodeJS.ErrnoException) => {
+          if (error.code === 'ENOENT') {
+            return {};
+          }
+          throw error;
+        }
+      );
+      this.states = states;
+      // A failed read is tried again next time rather than cached
+      states.catch(() => {
+        if (this.states === states) {
+          this.states = undefined;
+        }
+      });
+    }
+    return this.states;
+  }
+
+  private update(change: (states: States) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ change, resolve, reject });
+      this.flushing ??= this.flush();
+    });
+  }
+
+  // Writes batches until no saves are left waiting
+  private async flush(): Promise<void> {
+    while (this.pending.length > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.writeDelay));
+      const batch = this.pending;
+      this.pending = [];
+      try {
+        // Changes go to a copy, so a failed write leaves the cached state matching the file
+        const states = { ...(await this.read()) };
+        batch.forEach(({ change }) => change(states));
+        const tmp = `${this.path}.tmp`;
+        await fs.mkdir(dirname(this.path), { recursive: true });
+        await fs.writeFile(tmp, JSON.stringify(states, null, 2));
+        await fs.rename(tmp, this.path);
+        this.states = Promise.resolve(states);
+        batch.forEach(({ resolve }) => resolve());
+      } catch (error) {
+        batch.forEach(({ reject }) => reject(error));
+      }
+    }
+    this.flushing = undefined;
+  }
+}
+
+// The subset of a SQLite client the SQL store needs, e.g. better-sqlite3 statements or node-sqlite3 wrapped in promises
+export interface SqlDatabase {
+  run(sql: string, params: unknown[]): unknown | Promise<unknown>;
+  get(sql: string, params: unknown[]): unknown | Promise<unknown>;
+}
+
+/**
+ * Keeps subscription state in a SQL table (created if missing) with one row per chain and
+ * address. The state is stored as JSON.
+ */
+export class SqlSubscriptionStateStore implements SubscriptionStateStore {
+  private ready?: Promise<unknown>;
+
+  constructor(private readonly db: SqlDatabase, private readonly table = 'subscription_state') {
+    if (!/^\w+$/.test(table)) {
+      throw new ConfigurationError(ErrorCode.INVALID_CONFIG, `Invalid table name '${table}'`, { table });
+    }
+  }
+
+  async load(chain: string, address: string): Promise<SubscriptionState | undefined> {
+    await this.createTable();
+    const row = await this.db.get(`SELECT state FROM ${this.table} WHERE chain = ? AND address = ?`, [chain, address]) as
+      { state: string } | undefined;
+    return row ? JSON.parse(row.state) as SubscriptionState : undefined;
+  }
+
+  async save(chain: string, address: string, state: SubscriptionState): Promise<void> {
+    await this.createTable();
+    const updatedAt = Date.now();
+    await this.db.run(
+      `INSERT INTO ${this.table} (chain, address, state, updated_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT (chain, address) DO UPDATE SET state = excluded.state, updated_at = excluded.updated_at`,
+      [chain, address, JSON.stringify({ ...state, updatedAt }), updatedAt]
+    );
+  }
+
+  async delete(chain: string, address: string): Promise<void> {
+    await this.createTable();
+    await this.db.run(`DELETE FROM ${this.table} WHERE chain = ? AND address = ?`, [chain, address]);
+  }
+
+  private createTable(): Promise<unknown> {
+    this.ready ??= Promise.resolve(this.db.run(
+      `CREATE TABLE IF NOT EXISTS ${this.table} (
+         chain TEXT NOT NULL,
+         address TEXT NOT NULL,
+         state TEXT NOT NULL,
+         updated_at INTEGER NOT NULL,
+         PRIMARY KEY (chain, address)
+       )`,
+      []
+    ));
+    return this.ready;
+  }
+}
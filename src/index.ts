@@ -3,26 +3,62 @@ import * as ecc from 'tiny-secp256k1';
 import { initEccLib } from 'bitcoinjs-lib';
 
 import { HDWallet } from "./core/HDWallet.js";
+import { WatchOnlyWallet } from "./core/WatchOnlyWallet.js";
 import { AdapterRegistry } from "./core/AdapterRegistry.js";
 import { ConfigManager } from "./core/config/ConfigManager.js";
+import { ErrorFactory } from "./core/errors/index.js";
 import { EventBus } from "./core/events/EventBus.js";
 import { 
   SDKConfig, 
-  AdapterConfig, 
+  AdapterConfig,
+  BitcoinAdapterConfig,
   SupportedChain, 
   Logger, 
   MetricsCollector,
-  ChainConfig
+  ChainConfig,
+  AdapterMode,
+  WatchOnlyManifest
 } from "./types/index.js";
 
+import { DerivationVersion } from "./utils/derivation.js";
+import { Bip32DerivationOptions, Bip32DerivationStrategy, DerivationStrategy, mnemonicToSeed } from "./core/derivation/DerivationStrategy.js";
+
 // Built-in adapters - these will be registered automatically
 import { registerBuiltInAdapters } from './adapters/index.js';
 
 initEccLib(ecc);
 
 export interface WalletSDKOptions {
-  /** Your 32-byte Ed25519 master seed */
-  seed: Uint8Array | string;
+  /** Your 32-byte Ed25519 master seed (omit for a watch-only SDK) */
+  seed?: Uint8Array | string;
+
+  /**
+   * A BIP-39 mnemonic to use instead of a seed. Keys are then derived along each chain's
+   * standard BIP-32 / SLIP-10 path, so addresses match other wallets using the same mnemonic.
+   */
+  mnemonic?: string;
+
+  /** Optional BIP-39 passphrase for the mnemonic */
+  mnemonicPassphrase?: string;
+
+  /**
+   * Maps derive params to a BIP-32 account and address index, giving each scope/userId its own
+   * keys. A mnemonic needs this or mnemonicOwner.
+   */
+  mnemonicLocate?: Bip32DerivationOptions['locate'];
+
+  /**
+   * The one scope and userId a mnemonic without mnemonicLocate derives keys for; params of any
+   * other scope or userId are rejected instead of sharing its keys.
+   */
+  mnemonicOwner?: Bip32DerivationOptions['owner'];
+
+  /**
+   * Manifest exported with HDWallet.exportWatchOnlyManifest. Required when no
+   * seed is given; the SDK then runs in 'watch-only' mode and only exposes
+   * watchOnlyWallet.
+   */
+  watchOnly?: WatchOnlyManifest;
 
   /** Optional adapter configurations per chain */
   adapters?: {
@@ -48,30 +84,64 @@ export interface WalletSDKOptions {
 
   /** Environment to load configuration from (default: production) */
   environment?: 'development' | 'staging' | 'production';
+
+  /**
+   * Derivation scheme version (default: 'v1'). Changing it moves every address; plan the
+   * switch with HDWallet.planDerivationMigration.
+   */
+  derivation?: DerivationVersion;
+
+  /**
+   * Operating mode (default: full). 'derive-only' builds adapters without any
+   * network clients; balance, send and other RPC-backed methods throw a
+   * NETWORK_DISABLED error.
+   */
+  mode?: AdapterMode;
 }
 
 export class WalletSDK {
-  private readonly seed: Uint8Array;
+  private readonly seed?: Uint8Array;
+  private readonly watchOnlyManifest?: WatchOnlyManifest;
   private readonly registry: AdapterRegistry;
   private readonly configManager: ConfigManager;
   private readonly eventBus: EventBus;
   private readonly logger?: Logger;
   private readonly metrics?: MetricsCollector;
   private _wallet?: HDWallet;
+  private _watchOnlyWallet?: WatchOnlyWallet;
 
   constructor(options: WalletSDKOptions) {
     // Parse seed
-    if (typeof options.seed === 'string') {
+    let derivationStrategy: DerivationStrategy | undefined;
+    if (options.mnemonic) {
+      if (options.seed) {
+        throw new Error('Pass either a seed or a mnemonic, not both');
+      }
+      if (!options.mnemonicLocate && !options.mnemonicOwner) {
+        throw new Error('A mnemonic is shared by every scope and userId; pass mnemonicLocate or mnemonicOwner');
+      }
+      this.seed = mnemonicToSeed(options.mnemonic, options.mnemonicPassphrase);
+      derivationStrategy = new Bip32DerivationStrategy(this.seed, {
+        locate: options.mnemonicLocate,
+        owner: options.mnemonicOwner
+      });
+    } else if (typeof options.seed === 'string') {
       this.seed = Uint8Array.from(Buffer.from(options.seed, 'hex'));
     } else {
       this.seed = options.seed;
     }
 
     // Validate seed length
-    if (this.seed.length !== 32) {
+    if (this.seed && !derivationStrategy && this.seed.length !== 32) {
       throw new Error('Seed must be exactly 32 bytes');
     }
 
+    if (!this.seed && !options.watchOnly) {
+      throw new Error('Either a seed, a mnemonic or a watch-only manifest is required');
+    }
+    this.watchOnlyManifest = options.watchOnly;
+    const mode: AdapterMode | undefined = this.seed ? options.mode : 'watch-only';
+
     this.logger = options.logger;
     this.metrics = options.metrics;
 
@@ -97,7 +167,15 @@ export class WalletSDK {
     }
 
     // Initialize adapter registry
-    this.registry.initialize(this.seed, options.defaultConfig);
+    const defaultConfig: AdapterConfig | undefined = mode || options.derivation || derivationStrategy
+      ? {
+          ...options.defaultConfig,
+          ...(mode && { mode }),
+          ...(options.derivation && { derivation: options.derivation }),
+          ...(derivationStrategy && { derivationStrategy })
+        }
+      : options.defaultConfig;
+    this.registry.initialize(this.seed ?? new Uint8Array(0), defaultConfig);
 
     // Auto-register built-in adapters
     if (options.autoRegisterAdapters !== false) {
@@ -106,6 +184,7 @@ export class WalletSDK {
 
     this.logger?.info('WalletSDK initialized', {
       environment: options.environment || 'production',
+      mode: mode || 'full',
       autoRegisterAdapters: options.autoRegisterAdapters !== false
     });
   }
@@ -115,7 +194,7 @@ export class WalletSDK {
    */
   get wallet(): HDWallet {
     if (!this._wallet) {
-      this._wallet = new HDWallet(this.seed, this.registry, this.logger, this.metrics);
+      this._wallet = this.createWallet();
     }
     return this._wallet;
   }
@@ -124,9 +203,32 @@ export class WalletSDK {
    * Create a new wallet instance (same seed, fresh instance)
    */
   createWallet(): HDWallet {
+    if (!this.seed) {
+      throw ErrorFactory.keysUnavailable('*', 'createWallet');
+    }
     return new HDWallet(this.seed, this.registry, this.logger, this.metrics);
   }
 
+  /**
+   * Get the watch-only wallet for the manifest passed at construction
+   */
+  get watchOnlyWallet(): WatchOnlyWallet {
+    if (!this._watchOnlyWallet) {
+      if (!this.watchOnlyManifest) {
+        throw new Error('No watch-only manifest was provided');
+      }
+      this._watchOnlyWallet = this.createWatchOnlyWallet(this.watchOnlyManifest);
+    }
+    return this._watchOnlyWallet;
+  }
+
+  /**
+   * Create a watch-only wallet from an exported manifest
+   */
+  createWatchOnlyWallet(manifest: WatchOnlyManifest): WatchOnlyWallet {
+    return new WatchOnlyWallet(manifest, this.registry, this.logger, this.metrics);
+  }
+
   /**
    * Get the adapter registry
    */
@@ -151,7 +253,7 @@ export class WalletSDK {
   /**
    * Load an adapter for a specific chain
    */
-  async loadAdapter(chain: SupportedChain, config?: AdapterConfig) {
+  async loadAdapter(chain: SupportedChain, config?: AdapterConfig | BitcoinAdapterConfig) {
     return this.registry.loadAdapter(chain, config);
   }
 
@@ -216,6 +318,49 @@ export * from "./types/index.js";
 export * from "./core/errors/index.js";
 export { EventBus } from "./core/events/EventBus.js";
 export { AdapterRegistry } from "./core/AdapterRegistry.js";
+export { HDWallet } from "./core/HDWallet.js";
+export { WatchOnlyWallet } from "./core/WatchOnlyWallet.js";
 export { ConfigManager } from "./core/config/ConfigManager.js";
 export { BaseAdapter } from "./core/adapters/BaseAdapter.js";
 export { ConnectionPool } from "./core/pool/ConnectionPool.js";
+export { RpcRouter, isEndpointError } from "./core/rpc/RpcRouter.js";
+export type { RpcRouterOptions, EndpointHealth } from "./core/rpc/RpcRouter.js";
+export { RateLimiter, rateLimiterFor, rateLimitErrorFrom } from "./core/rpc/RateLimiter.js";
+export {
+  MemorySubscriptionStateStore,
+  JsonFileSubscriptionStateStore,
+  SqlSubscriptionStateStore
+} from "./core/subscriptions/SubscriptionStateStore.js";
+export type { SqlDatabase, JsonFileSubscriptionStateStoreOptions } from "./core/subscriptions/SubscriptionStateStore.js";
+export { AddressWatcher } from "./core/subscriptions/AddressWatcher.js";
+export type { AddressWatcherOptions, BlockScanner, ScannedBlock } from "./core/subscriptions/AddressWatcher.js";
+export {
+  deriveEntropy,
+  derivationInput,
+  findDerivationCollisions,
+  isDerivationVersion,
+  DEFAULT_DERIVATION_VERSION
+} from "./utils/derivation.js";
+export type { DerivationVersion } from "./utils/derivation.js";
+export {
+  Bip32DerivationStrategy,
+  HmacDerivationStrategy,
+  STANDARD_PATHS,
+  mnemonicToSeed
+} from "./core/derivation/DerivationStrategy.js";
+export type {
+  DerivationStrategy,
+  DerivationPath,
+  StandardPath,
+  Bip32DerivationOptions
+} from "./core/derivation/DerivationStrategy.js";
+export { BitcoinAdapterV2 } from "./adapters/bitcoin/BitcoinAdapterV2.js";
+export { TonAdapter } from "./adapters/ton/TonAdapter.js";
+export {
+  BranchAndBoundSelector,
+  KnapsackSelector,
+  SingleRandomDrawSelector,
+  OrderedSelector,
+  LowestWasteSelector,
+  createCoinSelector
+} from "./adapters/bitcoin/coinSelection.js";
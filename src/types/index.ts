@@ -1,4 +1,7 @@
 import Big from "big.js";
+import type { CircuitBreakerOptions } from "../core/errors/index.js";
+import type { DerivationVersion } from "../utils/derivation.js";
+import type { DerivationStrategy } from "../core/derivation/DerivationStrategy.js";
 
 // Chain types
 export type SupportedChain = 
@@ -15,6 +18,8 @@ export type SupportedChain =
 
 export type ChainCategory = 'evm' | 'utxo' | 'account' | 'other';
 
+export type NetworkType = 'mainnet' | 'testnet' | 'signet' | 'regtest';
+
 // Derivation types
 export interface DeriveParams {
   scope: string;
@@ -62,20 +67,29 @@ export interface EvmTransactionConfig extends BaseTransactionConfig {
   // Contract interaction
   data?: string;
   value?: Big;
+
+  // Batched payouts (sendMany)
+  token?: { contract: string; decimals: number }; // pay out an ERC-20 instead of the native asset
+  batchContract?: string; // Disperse-compatible contract (default: the disperse.app deployment, which sendMany rejects on chains where it has no code)
 }
 
 // Bitcoin-specific transaction configuration
+// Bitcoin address/script types supported for derivation and spending
+export type BitcoinScriptType = 'p2pkh' | 'p2sh-p2wpkh' | 'p2wpkh' | 'p2tr';
+
 export interface BitcoinTransactionConfig extends BaseTransactionConfig {
   // Fee configuration
   feeRate?: Big; // satoshis per byte
   satPerVByte?: Big; // satoshis per virtual byte
   
-  // UTXO selection
-  utxoSelection?: 'auto' | 'manual' | 'largest-first' | 'smallest-first';
+  // UTXO selection; 'auto' keeps the lowest-waste result of branch-and-bound, knapsack and single-random-draw
+  utxoSelection?: 'auto' | 'manual' | 'largest-first' | 'smallest-first' | 'branch-and-bound' | 'knapsack' | 'single-random-draw';
+  coinSelector?: CoinSelector; // custom selector, takes precedence over utxoSelection
+  longTermFeeRate?: Big; // sat/vB expected when change is spent later (default: 10)
   specificUtxos?: string[]; // specific UTXO transaction IDs
   
-  // Script types
-  scriptType?: 'p2pkh' | 'p2sh' | 'p2wpkh' | 'p2wsh' | 'p2tr';
+  // Script type of the spending address; must match the adapter's configured type
+  scriptType?: BitcoinScriptType;
   
   // Advanced options
   rbf?: boolean; // Replace-by-fee
@@ -83,6 +97,40 @@ export interface BitcoinTransactionConfig extends BaseTransactionConfig {
   sequence?: number;
 }
 
+// Coin selection
+export interface SelectableUtxo {
+  txid: string;
+  vout: number;
+  value: number; // satoshis
+}
+
+export interface CoinSelectionParams<T extends SelectableUtxo = SelectableUtxo> {
+  utxos: T[];
+  target: number; // satoshis sent to recipients
+  feeRate: number; // sat/vB
+  longTermFeeRate: number; // sat/vB
+  vsizes: {
+    input: number;
+    changeOutput: number;
+    base: number; // overhead plus recipient outputs
+  };
+  dustThreshold: number; // smallest change output worth creating
+}
+
+export interface CoinSelectionResult<T extends SelectableUtxo = SelectableUtxo> {
+  selected: T[];
+  totalInput: number;
+  fee: number;
+  change: number; // 0 for changeless transactions
+  waste: number; // lower is better; see coinSelection.ts
+}
+
+export interface CoinSelector {
+  readonly name: string;
+  // Returns undefined when the UTXOs can't fund the target
+  select<T extends SelectableUtxo>(params: CoinSelectionParams<T>): CoinSelectionResult<T> | undefined;
+}
+
 // Solana-specific transaction configuration
 export interface SolanaTransactionConfig extends BaseTransactionConfig {
   // Fee configuration
@@ -179,6 +227,97 @@ export interface TransactionRequest extends EvmTransactionConfig {
   amount: Big;
 }
 
+// PSBT (BIP-174) results
+export interface PsbtSignResult {
+  psbt: string; // base64
+  signedInputs: number[];
+}
+
+export interface PsbtFinalizeResult {
+  txHash: string;
+  txHex: string;
+}
+
+// Bitcoin sweep types
+// Consecutive indexes of one scope/userId, both ends inclusive
+export interface DeriveRange {
+  scope: string;
+  userId: string;
+  fromIndex: number;
+  toIndex: number;
+}
+
+// Address discovery: which indexes of a scope/userId were used on a chain
+export type DiscoverParams = Omit<DeriveParams, 'index'>;
+
+export interface DiscoverOptions {
+  gapLimit?: number; // unused indexes in a row before the scan stops (default: 20)
+  indexFormat?: (index: number) => string; // how an index is written in DeriveParams.index (default: decimal)
+  startIndex?: number; // default: 0
+  concurrency?: number; // addresses checked in parallel (default: 5)
+  // Count an address as used when it holds a balance, on chains whose adapter can't see history.
+  // Emptied addresses and token-only deposits then look unused, so this is off by default.
+  allowBalanceFallback?: boolean;
+}
+
+export interface DiscoveredAddress {
+  params: DeriveParams;
+  address: string;
+}
+
+export interface DiscoverResult {
+  used: DiscoveredAddress[];
+  nextIndex: number; // first index after the last used one, i.e. the next one to hand out
+}
+
+// Addresses that move when a wallet switches derivation versions
+export interface DerivationMigrationEntry {
+  params: DeriveParams;
+  from: string; // address under the current version
+  to: string; // address under the new version
+}
+
+export interface DerivationMigrationPlan {
+  from: DerivationVersion;
+  to: DerivationVersion;
+  addresses: DerivationMigrationEntry[];
+  // Params sharing one address under `from`; they get separate addresses under `to`
+  collisions: DeriveParams[][];
+}
+
+export interface SweepConfig {
+  feeRate?: Big; // sat/vB (default: the endpoint's 6-block estimate)
+  maxFeeRate?: Big; // ceiling applied to feeRate and to the estimate
+  minUtxoValue?: Big; // skip UTXOs below this value
+  skipUneconomical?: boolean; // skip UTXOs worth less than the fee to spend them (default: true)
+  maxInputs?: number; // largest UTXOs first (default: 500)
+  rbf?: boolean;
+}
+
+export interface SweepResult extends TransactionResponse {
+  amount: Big; // received by the destination
+  inputs: number;
+  skipped: number; // UTXOs left behind by the dust policy or maxInputs
+}
+
+// Offline signing types
+// Both shapes are plain JSON so they can cross a process boundary to an offline signer
+export interface UnsignedTransaction {
+  chain: SupportedChain;
+  from: string;
+  to: string;
+  amount: string;
+  payload: string; // chain-specific encoding: RLP hex, PSBT base64, wire base64, BCS hex or JSON
+  fee?: string;
+  metadata?: Record<string, string | number | boolean>;
+}
+
+export interface SignedTransaction {
+  chain: SupportedChain;
+  txHash: string;
+  payload: string;
+}
+
 export interface TransactionResponse {
   txHash: string;
   blockNumber?: number;
@@ -186,6 +325,15 @@ export interface TransactionResponse {
   timestamp?: number;
   fee?: Big;
   status?: 'pending' | 'confirmed' | 'failed';
+  replaces?: string[]; // RBF: txids this transaction replaced, oldest first
+  paysFor?: string; // CPFP: parent txid whose fee this transaction bumps
+}
+
+// One recipient of a batched payout. Amounts use the unit of the matching single transfer:
+// base units of the native asset (as in send), whole tokens for token payouts (as in sendToken)
+export interface PaymentOutput {
+  to: string;
+  amount: Big;
 }
 
 export interface TransactionReceipt {
@@ -244,16 +392,67 @@ export interface IncomingTransaction {
   txHash: string;
   from: string;
   to: string;
-  amount: Big;
+  amount: Big; // native deposits in the chain's base unit (wei, satoshi, lamports...), token deposits in whole tokens
+  blockNumber?: number;
+  blockHash?: string;
+  timestamp?: number;
+  tokenContract?: string; // set on token deposits
+  status?: IncomingTransactionStatus; // set on adapters that track confirmations
+  confirmations?: number;
+}
+
+// pending → confirmed (n confirmations) → final once `confirmations` is reached. 'reorged' means
+// the block it was in is gone (it may confirm again later); 'dropped' means it disappeared entirely.
+export type IncomingTransactionStatus = 'pending' | 'confirmed' | 'final' | 'reorged' | 'dropped';
+
+// Where a transaction is on chain; no block number while it sits in the mempool
+export interface TransactionLocation {
+  blockNumber?: number;
+  blockHash?: string;
+}
+
+// A delivered transaction still followed until it is final, as kept in the subscription store
+export interface TrackedTransaction {
+  txHash: string;
+  from: string;
+  to: string;
+  amount: string;
   blockNumber?: number;
+  blockHash?: string;
   timestamp?: number;
   tokenContract?: string;
+  status: IncomingTransactionStatus;
+  confirmations: number;
 }
 
 export interface Unsubscribe {
   (): void | Promise<void>;
 }
 
+// Where a subscription left off: the last fully scanned block or a chain-specific paging cursor,
+// plus the hashes already delivered (most recent last)
+export interface SubscriptionState {
+  lastBlock?: number;
+  cursor?: string;
+  seen: string[];
+  tracked?: TrackedTransaction[]; // delivered but not final yet
+  updatedAt?: number;
+}
+
+// Persists subscription state per chain and address so polling resumes after a restart
+export interface SubscriptionStateStore {
+  load(chain: string, address: string): Promise<SubscriptionState | undefined>;
+  save(chain: string, address: string, state: SubscriptionState): Promise<void>;
+  delete(chain: string, address: string): Promise<void>;
+}
+
+// One poll's worth of incoming transactions, with how far the scan got
+export interface IncomingTransactionsPage {
+  transactions: IncomingTransaction[];
+  lastBlock?: number;
+  cursor?: string;
+}
+
 // Configuration types
 export interface RpcEndpoint {
   url: string;
@@ -261,6 +460,14 @@ export interface RpcEndpoint {
   timeout?: number;
   retryCount?: number;
   retryDelay?: number;
+  rateLimit?: RateLimitConfig; // shared by every client of this URL
+}
+
+// Token bucket per endpoint: `burst` defaults to one second's worth of requests
+export interface RateLimitConfig {
+  requestsPerSecond: number;
+  burst?: number;
+  concurrency?: number; // requests in flight at once; default: unlimited
 }
 
 export interface ChainConfig {
@@ -269,6 +476,7 @@ export interface ChainConfig {
   symbol: string;
   decimals: number;
   category: ChainCategory;
+  network?: NetworkType; // default: 'mainnet'
   endpoints: {
     http: RpcEndpoint | RpcEndpoint[];
     ws?: RpcEndpoint | RpcEndpoint[];
@@ -287,12 +495,61 @@ export interface ChainConfig {
 }
 
 // Adapter configuration
+// 'full' adapters talk to RPC endpoints; 'derive-only' adapters never create network clients;
+// 'watch-only' adapters have no seed and refuse any key derivation
+export type AdapterMode = 'full' | 'derive-only' | 'watch-only';
+
 export interface AdapterConfig {
   maxRetries?: number;
   timeout?: number;
-  confirmations?: number;
+  confirmations?: number; // when incoming transactions become 'final'
   pollingInterval?: number;
   batchSize?: number;
+  mode?: AdapterMode;
+  derivation?: DerivationVersion; // how keys are derived from DeriveParams (default: 'v1')
+  derivationStrategy?: DerivationStrategy; // replaces the HMAC derivation, e.g. with standard BIP-32 paths
+  circuitBreaker?: Omit<CircuitBreakerOptions, 'name' | 'onStateChange'>;
+  quorum?: QuorumConfig; // verify balance and receipt reads across several endpoints
+  subscriptionStore?: SubscriptionStateStore; // default: in memory, lost on restart
+  watchMempool?: boolean; // also deliver unconfirmed transactions where the adapter scans the mempool
+}
+
+// Quorum reads: ask `endpoints` endpoints (default: all) and accept an answer at least `threshold` agree on.
+// Answers more than `blockTolerance` blocks behind the highest one are ignored as stale.
+export interface QuorumConfig {
+  threshold: number;
+  endpoints?: number;
+  blockTolerance?: number; // default: 2
+}
+
+// A read answered by one endpoint, with the chain height it answered at when the chain reports one
+export interface QuorumResponse<T> {
+  value: T;
+  blockHeight?: number;
+}
+
+export interface BitcoinAdapterConfig extends AdapterConfig {
+  scriptType?: BitcoinScriptType; // default: 'p2tr'
+}
+
+export type TonWalletVersion = 'v4r2' | 'v5r1';
+
+// 'legacy' is the key scheme of releases before the ed25519 wallet keys, kept to sweep those addresses
+export type TonKeyDerivation = 'ed25519' | 'legacy';
+
+export interface TonAdapterConfig extends AdapterConfig {
+  walletVersion?: TonWalletVersion; // wallet contract the key is deployed to (default: 'v4r2')
+  keyDerivation?: TonKeyDerivation; // default: 'ed25519'
+}
+
+export interface CardanoAdapterConfig extends AdapterConfig {
+  projectId?: string; // Blockfrost project id, sent as the `project_id` header
+  network?: 'mainnet' | 'testnet'; // network of derived addresses (default: 'testnet', as in earlier releases)
+}
+
+export interface WaitForTransactionOptions {
+  timeout?: number; // default: 60000 ms
+  pollingInterval?: number; // ms between lookups (default: 2000)
 }
 
 // Chain Adapter Interface
@@ -306,10 +563,21 @@ export interface IChainAdapter {
   send(params: DeriveParams, to: string, amount: Big, config?: TransactionConfig): Promise<TransactionResponse>;
   
   // Optional methods
+  sendMany?(params: DeriveParams, outputs: PaymentOutput[], config?: TransactionConfig): Promise<TransactionResponse>;
+  derivePublicKey?(params: DeriveParams): Promise<string>;
+  getAddressBalance?(address: string): Promise<Big>;
+  getTransactionReceipt?(txHash: string): Promise<TransactionReceipt | null>;
+  getAddressHistory?(address: string, limit?: number): Promise<TransactionHistory[]>;
   estimateFee?(params: DeriveParams, to: string, amount: Big, config?: TransactionConfig): Promise<FeeEstimate>;
   sign?(params: DeriveParams, tx: TransactionConfig): Promise<string>;
+  buildUnsigned?(params: DeriveParams, to: string, amount: Big, config?: TransactionConfig): Promise<UnsignedTransaction>;
+  signUnsigned?(params: DeriveParams, unsigned: UnsignedTransaction): Promise<SignedTransaction>;
+  broadcast?(signed: SignedTransaction): Promise<TransactionResponse>;
   getHistory?(params: DeriveParams, limit?: number): Promise<TransactionHistory[]>;
+  hasActivity?(address: string): Promise<boolean>;
+  readonly activityFromBalance?: boolean; // hasActivity only checks the current balance
   fetchLatestTx?(params: DeriveParams): Promise<TransactionResponse | null>;
+  waitForTransaction?(address: string, txHash: string, options?: WaitForTransactionOptions): Promise<TransactionResponse>;
   subscribe?(address: string, callback: SubscriptionCallback): Promise<Unsubscribe>;
   
   // Lifecycle
@@ -317,6 +585,27 @@ export interface IChainAdapter {
   shutdown?(): Promise<void>;
 }
 
+// Watch-only types
+export interface WatchOnlyEntry extends DeriveParams {
+  address: string;
+  publicKey: string;
+}
+
+export interface WatchOnlyManifest {
+  version: 1;
+  createdAt: string;
+  entries: WatchOnlyEntry[];
+}
+
+// Read-only half of the wallet API, shared by seeded and watch-only wallets
+export interface ReadOnlyWallet {
+  deriveAddress(params: DeriveParams): Promise<string>;
+  balance(params: DeriveParams): Promise<Big>;
+  getHistory(params: DeriveParams, limit?: number): Promise<TransactionHistory[]>;
+  subscribe(params: DeriveParams, callback: SubscriptionCallback): Promise<Unsubscribe>;
+  batchBalance(requests: DeriveParams[]): Promise<{ params: DeriveParams; balance: Big; error?: Error }[]>;
+}
+
 // SDK Configuration
 export interface SDKConfig {
   seed: string | Uint8Array;
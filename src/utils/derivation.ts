@@ -2,6 +2,7 @@
 import { Buffer } from "buffer";
 import { createHmac } from "crypto";
 import { SupportedChain } from "../constants/config.js";
+import { ConfigurationError, ErrorCode } from "../core/errors/index.js";
 
 export interface DeriveParams {
   scope: string;                  // Usage (wallet, session, order)
@@ -10,19 +11,82 @@ export interface DeriveParams {
   index: string;                  // Multiple addresses (0, 1, temp-001)
 }
 
+// Versions of the mapping from derive params to key material. Addresses only stay put while
+// the version does, so a wallet keeps the one its addresses were handed out under.
+export type DerivationVersion = "v1" | "v2";
+
+export const DEFAULT_DERIVATION_VERSION: DerivationVersion = "v1";
+
+// Bytes HMAC-SHA512 is computed over, keyed with the master seed
+type DerivationScheme = (params: DeriveParams) => Uint8Array;
+
+const V2_DOMAIN = "drxa/derive/v2";
+
+const lengthPrefixed = (value: string): Buffer => {
+  const bytes = Buffer.from(value, "utf8");
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(bytes.length);
+  return Buffer.concat([length, bytes]);
+};
+
+const DERIVATION_SCHEMES: Record<DerivationVersion, DerivationScheme> = {
+  // The original format. Fields containing ':' can collide, e.g. scope "a:b" with userId "c"
+  // and scope "a" with userId "b:c"; kept unchanged so existing addresses don't move.
+  v1: ({ scope, userId, chain, index }) => Buffer.from(`${scope}:${userId}:${chain}:${index}`, "utf8"),
+  // A domain tag followed by each field length-prefixed, so distinct params never share an input
+  v2: ({ scope, userId, chain, index }) => Buffer.concat([
+    lengthPrefixed(V2_DOMAIN),
+    ...[scope, userId, chain, index].map(lengthPrefixed)
+  ])
+};
+
+export function isDerivationVersion(version: unknown): version is DerivationVersion {
+  return typeof version === "string" && Object.prototype.hasOwnProperty.call(DERIVATION_SCHEMES, version);
+}
+
+export function derivationInput(params: DeriveParams, version: DerivationVersion = DEFAULT_DERIVATION_VERSION): Uint8Array {
+  if (!isDerivationVersion(version)) {
+    throw new ConfigurationError(ErrorCode.INVALID_CONFIG, `Unknown derivation version '${version}'`, { version });
+  }
+  return DERIVATION_SCHEMES[version](params);
+}
+
 /**
  * Generate 64-byte entropy by computing HMAC-SHA512(masterSeed, entropyInput)
  */
 export function deriveEntropy(
   masterSeed: Uint8Array,
-  { scope, userId, chain, index }: DeriveParams
+  params: DeriveParams,
+  version: DerivationVersion = DEFAULT_DERIVATION_VERSION
 ): Uint8Array {
-  const input = `${scope}:${userId}:${chain}:${index}`;
   const hmac = createHmac("sha512", Buffer.from(masterSeed));
-  hmac.update(input);
+  hmac.update(derivationInput(params, version));
   return hmac.digest(); // returns 64-byte buffer
 }
 
+/**
+ * Groups of params that derive the same key under `version`, i.e. share one address. Only v1
+ * has them, when a field contains ':'.
+ */
+export function findDerivationCollisions<T extends DeriveParams>(
+  params: T[],
+  version: DerivationVersion = DEFAULT_DERIVATION_VERSION
+): T[][] {
+  const byInput = new Map<string, T[]>();
+  const listed = new Set<string>();
+  for (const entry of params) {
+    // The same params listed twice are not a collision
+    const tuple = JSON.stringify([entry.scope, entry.userId, entry.chain, entry.index]);
+    if (listed.has(tuple)) {
+      continue;
+    }
+    listed.add(tuple);
+    const key = Buffer.from(derivationInput(entry, version)).toString("hex");
+    byInput.set(key, [...(byInput.get(key) ?? []), entry]);
+  }
+  return [...byInput.values()].filter(group => group.length > 1);
+}
+
 /**
  * Derive private key and address from entropy based on chain-specific rules
  */